@@ -11,15 +11,48 @@ import {
 } from 'react-native';
 import { MobileStockListing } from './src/components/MobileStockListing';
 import { MobilePortfolio } from './src/components/MobilePortfolio';
-import { mobileWalletService } from './src/utils/mobileWalletAdapter';
-import { seedVaultService } from './src/utils/seedVault';
-import { PublicKey } from '@solana/web3.js';
+import { NetworkSettingsPanel } from './src/components/NetworkSettingsPanel';
+import { TransactionStatusBanner } from './src/components/TransactionStatusBanner';
+import { PaymentRequestScreen } from './src/components/PaymentRequestScreen';
+import { SeedBackupPanel } from './src/components/SeedBackupPanel';
+import { SeedManagerPanel } from './src/components/SeedManagerPanel';
+import { SignerPicker } from './src/components/SignerPicker';
+import { WalletAccount } from './src/utils/mobileWalletAdapter';
+import { DEFAULT_SEED_ALIAS, seedVaultService } from './src/utils/seedVault';
+import { signerService, SignerKind } from './src/utils/signer';
+import { seedVaultSigner } from './src/utils/seedVaultSigner';
+import { networkSettingsService } from './src/utils/networkSettings';
+import { parseTransferRequest, TransferRequest } from './src/utils/transferRequests';
+import { NetworkProvider, useNetwork } from './components/providers/NetworkProvider';
+import {
+  WalletSessionProvider,
+  useWalletSession,
+} from './components/providers/WalletSessionProvider';
 
 type Tab = 'stocks' | 'portfolio';
 
-const App: React.FC = () => {
+const AppContent: React.FC = () => {
   const [activeTab, setActiveTab] = useState<Tab>('stocks');
-  const [connectedWallet, setConnectedWallet] = useState<PublicKey | null>(null);
+  const {
+    accounts,
+    selectedAccount,
+    balances,
+    signerKind,
+    connect,
+    disconnect,
+    selectAccount,
+    refreshBalance,
+  } = useWalletSession();
+  const connectedWallet = selectedAccount?.publicKey ?? null;
+  const { cluster, airdropAvailable } = useNetwork();
+  const [showAccounts, setShowAccounts] = useState(false);
+  const [showNetworkSettings, setShowNetworkSettings] = useState(false);
+  const [showSeedBackup, setShowSeedBackup] = useState(false);
+  // Seed the backup panel opens on, when it was opened for a particular one
+  const [backupAlias, setBackupAlias] = useState<string | undefined>(undefined);
+  const [showSeedManager, setShowSeedManager] = useState(false);
+  const [showSignerPicker, setShowSignerPicker] = useState(false);
+  const [paymentRequest, setPaymentRequest] = useState<TransferRequest | null>(null);
   const [isLoading, setIsLoading] = useState(true);
 
   useEffect(() => {
@@ -39,11 +72,11 @@ const App: React.FC = () => {
         );
       }
 
-      // Check for existing wallet connection
-      const publicKey = mobileWalletService.getPublicKey();
-      if (publicKey) {
-        setConnectedWallet(publicKey);
-      }
+      // Network first, so the wallet session is restored on the chosen cluster
+      await networkSettingsService.load();
+
+      // Restore the previous signer and its session, if the wallet still honours it
+      await signerService.restoreSession();
 
       setIsLoading(false);
     } catch (error) {
@@ -59,14 +92,7 @@ const App: React.FC = () => {
       
       if (url.startsWith('solana:')) {
         // Handle Solana Pay URLs
-        Alert.alert(
-          'Payment Request',
-          'You have received a payment request. Would you like to process it?',
-          [
-            { text: 'Cancel', style: 'cancel' },
-            { text: 'Pay', onPress: () => handleSolanaPayment(url) },
-          ]
-        );
+        handleSolanaPayment(url);
       }
     };
 
@@ -83,23 +109,36 @@ const App: React.FC = () => {
     });
   };
 
-  const handleSolanaPayment = async (paymentUrl: string) => {
+  const handleSolanaPayment = (paymentUrl: string) => {
+    // Nothing is paid until the user confirms on the payment request screen
     try {
-      // Parse and handle Solana Pay URL
-      // This would integrate with the solanaPayService
-      console.log('Processing Solana Pay URL:', paymentUrl);
-      Alert.alert('Payment Processing', 'Processing your payment request...');
+      setPaymentRequest(parseTransferRequest(paymentUrl));
     } catch (error) {
-      console.error('Payment processing failed:', error);
-      Alert.alert('Error', 'Failed to process payment');
+      console.error('Rejected Solana Pay URL:', error);
+      Alert.alert('Invalid Payment Link', error instanceof Error ? error.message : 'This payment link cannot be paid');
     }
   };
 
-  const handleWalletConnect = async () => {
+  const handleWalletConnect = async (kind: SignerKind) => {
     try {
-      const publicKey = await mobileWalletService.connect();
-      if (publicKey) {
-        setConnectedWallet(publicKey);
+      // Connecting the on-device signer for the first time creates its seed
+      const createsSeed = kind === 'seedVault' && !(await seedVaultService.hasSeed(DEFAULT_SEED_ALIAS));
+      const publicKey = await connect(kind);
+      if (!publicKey) {
+        return;
+      }
+
+      setShowSignerPicker(false);
+      if (createsSeed) {
+        Alert.alert(
+          'On-device Wallet Created',
+          `Your new wallet ${publicKey.toBase58().substring(0, 8)}... lives only on this phone. Back it up now so it can be recovered if the phone is lost.`,
+          [
+            { text: 'Later', style: 'cancel' },
+            { text: 'Back up', onPress: () => setShowSeedBackup(true) },
+          ]
+        );
+      } else {
         Alert.alert(
           'Wallet Connected',
           `Successfully connected: ${publicKey.toBase58().substring(0, 8)}...`
@@ -113,8 +152,8 @@ const App: React.FC = () => {
 
   const handleWalletDisconnect = async () => {
     try {
-      await mobileWalletService.disconnect();
-      setConnectedWallet(null);
+      await disconnect();
+      setShowAccounts(false);
       Alert.alert('Wallet Disconnected', 'Your wallet has been disconnected');
     } catch (error) {
       console.error('Wallet disconnection failed:', error);
@@ -130,14 +169,15 @@ const App: React.FC = () => {
     try {
       Alert.alert(
         'Request Airdrop',
-        'Request 2 SOL from devnet faucet?',
+        `Request 2 SOL from ${cluster} faucet?`,
         [
           { text: 'Cancel', style: 'cancel' },
           {
             text: 'Request',
             onPress: async () => {
-              const signature = await mobileWalletService.requestAirdrop(2);
+              const signature = await signerService.requestAirdrop(2);
               if (signature) {
+                refreshBalance();
                 Alert.alert(
                   'Airdrop Successful',
                   `Received 2 SOL!\n\nTransaction: ${signature.substring(0, 8)}...`
@@ -155,22 +195,103 @@ const App: React.FC = () => {
     }
   };
 
+  const handleAccountSelect = async (account: WalletAccount) => {
+    setShowAccounts(false);
+    try {
+      await selectAccount(account);
+    } catch (error) {
+      console.error('Account switch failed:', error);
+      Alert.alert('Error', 'Unable to switch account');
+    }
+  };
+
+  const handleAddAccount = async () => {
+    setShowAccounts(false);
+    try {
+      const publicKey = await seedVaultSigner.addAccount();
+      if (publicKey) {
+        Alert.alert('Account Added', `Now using ${publicKey.toBase58().substring(0, 8)}...`);
+      }
+    } catch (error) {
+      console.error('Account creation failed:', error);
+      Alert.alert('Error', 'Unable to add an account');
+    }
+  };
+
+  // On-device wallets can derive more accounts, so their list always opens
+  const canOpenAccounts = accounts.length > 1 || signerKind === 'seedVault';
+
+  const formatAccountName = (account: WalletAccount) =>
+    account.label ?? `${account.publicKey.toBase58().substring(0, 6)}...`;
+
+  const renderAccountList = () => (
+    <View style={styles.accountList}>
+      {accounts.map(account => {
+        const isSelected = account.address === selectedAccount?.address;
+        const balance = balances[account.address];
+        return (
+          <TouchableOpacity
+            key={account.address}
+            style={[styles.accountRow, isSelected && styles.accountRowSelected]}
+            onPress={() => handleAccountSelect(account)}
+          >
+            <View>
+              <Text style={styles.accountLabel}>{formatAccountName(account)}</Text>
+              <Text style={styles.accountAddress}>
+                {account.publicKey.toBase58().substring(0, 12)}...
+              </Text>
+            </View>
+            <Text style={styles.accountBalance}>
+              {balance !== undefined ? `${balance.toFixed(4)} SOL` : '—'}
+            </Text>
+          </TouchableOpacity>
+        );
+      })}
+      {signerKind === 'seedVault' && (
+        <TouchableOpacity style={styles.accountRow} onPress={handleAddAccount}>
+          <Text style={styles.accountLabel}>+ Add account</Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+
   const renderHeader = () => (
     <View style={styles.header}>
       <View style={styles.headerTop}>
-        <Text style={styles.appTitle}>Sol Stocks</Text>
+        <View>
+          <Text style={styles.appTitle}>Sol Stocks</Text>
+          <TouchableOpacity onPress={() => setShowNetworkSettings(!showNetworkSettings)}>
+            <Text style={[styles.networkBadge, cluster === 'mainnet-beta' && styles.networkBadgeMainnet]}>
+              ● {cluster}
+            </Text>
+          </TouchableOpacity>
+          <TouchableOpacity onPress={() => setShowSeedBackup(!showSeedBackup)}>
+            <Text style={styles.backupLink}>🔐 Seed backup</Text>
+          </TouchableOpacity>
+          <TouchableOpacity onPress={() => setShowSeedManager(!showSeedManager)}>
+            <Text style={styles.backupLink}>🗂 Stored seeds</Text>
+          </TouchableOpacity>
+        </View>
         <View style={styles.headerActions}>
           {connectedWallet ? (
             <View style={styles.walletInfo}>
-              <Text style={styles.walletAddress}>
-                {connectedWallet.toBase58().substring(0, 6)}...
-              </Text>
               <TouchableOpacity
-                style={styles.airdropButton}
-                onPress={requestAirdrop}
+                disabled={!canOpenAccounts}
+                onPress={() => setShowAccounts(!showAccounts)}
               >
-                <Text style={styles.airdropButtonText}>💧 Airdrop</Text>
+                <Text style={styles.walletAddress}>
+                  {selectedAccount ? formatAccountName(selectedAccount) : ''}
+                  {canOpenAccounts ? (showAccounts ? ' ▲' : ' ▼') : ''}
+                </Text>
               </TouchableOpacity>
+              {airdropAvailable && (
+                <TouchableOpacity
+                  style={styles.airdropButton}
+                  onPress={requestAirdrop}
+                >
+                  <Text style={styles.airdropButtonText}>💧 Airdrop</Text>
+                </TouchableOpacity>
+              )}
               <TouchableOpacity
                 style={styles.disconnectButton}
                 onPress={handleWalletDisconnect}
@@ -181,16 +302,18 @@ const App: React.FC = () => {
           ) : (
             <TouchableOpacity
               style={styles.connectButton}
-              onPress={handleWalletConnect}
+              onPress={() => setShowSignerPicker(!showSignerPicker)}
             >
               <Text style={styles.connectButtonText}>Connect Wallet</Text>
             </TouchableOpacity>
           )}
         </View>
       </View>
+
+      {showAccounts && connectedWallet && renderAccountList()}
       
       <Text style={styles.appSubtitle}>
-        Trade stocks with Solana • Powered by Mobile Wallet Adapter
+        Trade stocks with Solana • {signerKind === 'seedVault' ? 'Signed on this device' : 'Powered by Mobile Wallet Adapter'}
       </Text>
     </View>
   );
@@ -231,15 +354,52 @@ const App: React.FC = () => {
       <StatusBar barStyle="light-content" backgroundColor="#9945FF" />
       
       {renderHeader()}
-      {renderTabBar()}
-      
-      <View style={styles.content}>
-        {activeTab === 'stocks' ? (
-          <MobileStockListing />
-        ) : (
-          <MobilePortfolio />
-        )}
-      </View>
+      {showSignerPicker && !connectedWallet && (
+        <SignerPicker
+          current={signerKind}
+          onSelect={handleWalletConnect}
+          onClose={() => setShowSignerPicker(false)}
+        />
+      )}
+      {showNetworkSettings && (
+        <NetworkSettingsPanel onClose={() => setShowNetworkSettings(false)} />
+      )}
+      {showSeedManager && (
+        <SeedManagerPanel
+          onBackup={alias => {
+            setShowSeedManager(false);
+            setBackupAlias(alias);
+            setShowSeedBackup(true);
+          }}
+          onClose={() => setShowSeedManager(false)}
+        />
+      )}
+      {showSeedBackup && (
+        <SeedBackupPanel
+          key={backupAlias}
+          alias={backupAlias}
+          onClose={() => {
+            setShowSeedBackup(false);
+            setBackupAlias(undefined);
+          }}
+        />
+      )}
+      <TransactionStatusBanner />
+      {paymentRequest ? (
+        <PaymentRequestScreen request={paymentRequest} onClose={() => setPaymentRequest(null)} />
+      ) : (
+        <>
+          {renderTabBar()}
+
+          <View style={styles.content}>
+            {activeTab === 'stocks' ? (
+              <MobileStockListing />
+            ) : (
+              <MobilePortfolio />
+            )}
+          </View>
+        </>
+      )}
     </SafeAreaView>
   );
 };
@@ -281,6 +441,20 @@ const styles = StyleSheet.create({
     fontWeight: 'bold',
     color: '#fff',
   },
+  networkBadge: {
+    fontSize: 11,
+    color: '#14f195',
+    fontWeight: '600',
+    marginTop: 2,
+  },
+  networkBadgeMainnet: {
+    color: '#ffb020',
+  },
+  backupLink: {
+    fontSize: 11,
+    color: '#e0e0ff',
+    marginTop: 2,
+  },
   appSubtitle: {
     fontSize: 14,
     color: '#e0e0ff',
@@ -304,6 +478,37 @@ const styles = StyleSheet.create({
     borderRadius: 12,
     fontFamily: 'monospace',
   },
+  accountList: {
+    backgroundColor: 'rgba(255, 255, 255, 0.15)',
+    borderRadius: 8,
+    marginBottom: 8,
+    overflow: 'hidden',
+  },
+  accountRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+  },
+  accountRowSelected: {
+    backgroundColor: 'rgba(255, 255, 255, 0.2)',
+  },
+  accountLabel: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  accountAddress: {
+    color: 'rgba(255, 255, 255, 0.7)',
+    fontSize: 11,
+    fontFamily: 'monospace',
+  },
+  accountBalance: {
+    color: '#fff',
+    fontSize: 13,
+    fontWeight: '500',
+  },
   connectButton: {
     backgroundColor: '#14f195',
     paddingHorizontal: 16,
@@ -367,4 +572,12 @@ const styles = StyleSheet.create({
   },
 });
 
+const App: React.FC = () => (
+  <NetworkProvider>
+    <WalletSessionProvider>
+      <AppContent />
+    </WalletSessionProvider>
+  </NetworkProvider>
+);
+
 export default App;
@@ -0,0 +1,130 @@
+import {computeCostBasis} from '../src/utils/costBasis';
+import {BuyEntry, SellEntry} from '../src/utils/tradeLedger';
+
+const SOL_PRICE = 100;
+
+function buy(
+  id: string,
+  timestamp: number,
+  quantity: number,
+  price: number,
+  feeSOL = 0,
+): BuyEntry {
+  return {
+    type: 'buy',
+    id,
+    reference: id,
+    wallet: 'wallet',
+    timestamp,
+    status: 'confirmed',
+    stockSymbol: 'AAPL',
+    stockPrice: price,
+    quantity,
+    totalUSD: quantity * price,
+    category: 'traditional',
+    paymentMethod: 'SOL',
+    solAmount: (quantity * price) / SOL_PRICE,
+    feeSOL,
+    solPriceUSD: SOL_PRICE,
+  };
+}
+
+function sell(
+  id: string,
+  timestamp: number,
+  quantity: number,
+  price: number,
+  overrides: Partial<SellEntry> = {},
+): SellEntry {
+  return {
+    type: 'sell',
+    id,
+    reference: id,
+    wallet: 'wallet',
+    timestamp,
+    status: 'confirmed',
+    stockSymbol: 'AAPL',
+    stockPrice: price,
+    quantity,
+    totalUSD: quantity * price,
+    category: 'traditional',
+    grossSOL: (quantity * price) / SOL_PRICE,
+    feeSOL: 0,
+    netSOL: (quantity * price) / SOL_PRICE,
+    netLamports: 0,
+    solPriceUSD: SOL_PRICE,
+    ...overrides,
+  };
+}
+
+const lots = [buy('lot1', 1, 10, 100), buy('lot2', 2, 10, 200)];
+
+it('matches the oldest lots first with FIFO', () => {
+  const report = computeCostBasis([...lots, sell('s1', 3, 15, 250)], 'fifo');
+
+  expect(report.sales[0].costBasisUSD).toBeCloseTo(10 * 100 + 5 * 200);
+  expect(report.realizedPL).toBeCloseTo(15 * 250 - 2000);
+  expect(report.positions[0].lots).toEqual([
+    expect.objectContaining({id: 'lot2', quantity: 5, unitCostUSD: 200}),
+  ]);
+});
+
+it('matches the newest lots first with LIFO', () => {
+  const report = computeCostBasis([...lots, sell('s1', 3, 15, 250)], 'lifo');
+
+  expect(report.sales[0].costBasisUSD).toBeCloseTo(10 * 200 + 5 * 100);
+  expect(report.positions[0].quantity).toBeCloseTo(5);
+  expect(report.positions[0].averageCostUSD).toBeCloseTo(100);
+});
+
+it('pools cost with average cost', () => {
+  const report = computeCostBasis([...lots, sell('s1', 3, 10, 250)], 'average');
+
+  expect(report.sales[0].costBasisUSD).toBeCloseTo(1500);
+  expect(report.positions[0].quantity).toBeCloseTo(10);
+  expect(report.positions[0].averageCostUSD).toBeCloseTo(150);
+});
+
+it('sells from the chosen lot with specific-lot matching', () => {
+  const report = computeCostBasis([
+    ...lots,
+    sell('s1', 3, 4, 250, {
+      costBasisMethod: 'specific',
+      lotSelections: [{lotId: 'lot2', quantity: 4}],
+    }),
+  ]);
+
+  expect(report.sales[0].matches).toEqual([
+    expect.objectContaining({lotId: 'lot2', quantity: 4}),
+  ]);
+  expect(report.realizedPL).toBeCloseTo(4 * 50);
+});
+
+it('keeps the method each sale was placed with', () => {
+  const entries = [...lots, sell('s1', 3, 10, 250, {costBasisMethod: 'lifo'})];
+
+  expect(computeCostBasis(entries, 'fifo').realizedPL).toBeCloseTo(500);
+  expect(computeCostBasis(entries, 'average').realizedPL).toBeCloseTo(500);
+});
+
+it('includes buy fees in basis and sell fees in proceeds', () => {
+  const report = computeCostBasis([
+    buy('lot1', 1, 10, 100, 0.5),
+    sell('s1', 2, 10, 120, {feeSOL: 0.25}),
+  ]);
+
+  // Basis 1000 + $50 fee, proceeds 1200 - $25 fee
+  expect(report.sales[0].costBasisUSD).toBeCloseTo(1050);
+  expect(report.sales[0].proceedsUSD).toBeCloseTo(1175);
+  expect(report.realizedPL).toBeCloseTo(125);
+});
+
+it('ignores trades that are not confirmed', () => {
+  const report = computeCostBasis([
+    ...lots,
+    sell('s1', 3, 5, 250, {status: 'pending'}),
+  ]);
+
+  expect(report.sales).toHaveLength(0);
+  expect(report.positions[0].quantity).toBe(20);
+});
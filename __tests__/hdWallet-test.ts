@@ -0,0 +1,150 @@
+/**
+ * @jest-environment node
+ */
+
+import {
+  derivePath,
+  deriveSolanaKeypair,
+  generateMnemonic,
+  getSolanaDerivationPath,
+  mnemonicToSeed,
+  nextAccountIndex,
+  validateMnemonic,
+} from '../src/utils/hdWallet';
+
+const ABANDON_ABOUT =
+  'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about';
+
+const hex = (bytes: Uint8Array) => Buffer.from(bytes).toString('hex');
+
+describe('mnemonics', () => {
+  it('generates valid 12 and 24 word phrases', () => {
+    const short = generateMnemonic(12);
+    const long = generateMnemonic(24);
+    expect(short.split(' ')).toHaveLength(12);
+    expect(long.split(' ')).toHaveLength(24);
+    expect(validateMnemonic(short)).toBe(true);
+    expect(validateMnemonic(long)).toBe(true);
+    expect(generateMnemonic()).not.toBe(short);
+  });
+
+  it('accepts phrases with stray case and spacing but rejects bad checksums and lengths', () => {
+    expect(validateMnemonic(`  ${ABANDON_ABOUT.toUpperCase()}\n`)).toBe(true);
+    expect(validateMnemonic(ABANDON_ABOUT.replace(/about$/, 'abandon'))).toBe(
+      false,
+    );
+    expect(validateMnemonic(ABANDON_ABOUT.replace(/about$/, 'solana'))).toBe(
+      false,
+    );
+    // Valid BIP39, but only 12 and 24 words are supported
+    expect(
+      validateMnemonic(
+        'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon agent',
+      ),
+    ).toBe(false);
+  });
+
+  // BIP39 reference vectors (trezor/python-mnemonic), passphrase "TREZOR"
+  it('derives the BIP39 reference seeds', async () => {
+    expect(hex(await mnemonicToSeed(ABANDON_ABOUT, 'TREZOR'))).toBe(
+      'c55257c360c07c72029aebc1b53c05ed0362ada38ead3e3e9efa3708e53495531f09a6987599d18264c1e1c92f2cf141630c7a3c4ab7c81b2f001698e7463b04',
+    );
+    expect(
+      hex(
+        await mnemonicToSeed(
+          'legal winner thank year wave sausage worth useful legal winner thank yellow',
+          'TREZOR',
+        ),
+      ),
+    ).toBe(
+      '2e8905819b8723fe2c1d161860e5ee1830318dbf49a83bd451cfb8440c28bd6fa457fe1296106559a3c80937a1c1069be3a3a5bd381ee6260e8d9739fce1f607',
+    );
+  });
+});
+
+describe('SLIP-0010 ed25519 derivation', () => {
+  // Test vector 1 from the SLIP-0010 specification
+  const seed = Buffer.from('000102030405060708090a0b0c0d0e0f', 'hex');
+
+  it.each([
+    [
+      'm',
+      '2b4be7f19ee27bbf30c667b642d5f4aa69fd169872f8fc3059c08ebae2eb19e7',
+      '90046a93de5380a72b5e45010748567d5ea02bbf6522f979e05c0d8d8ca9fffb',
+    ],
+    [
+      "m/0'",
+      '68e0fe46dfb67e368c75379acec591dad19df3cde26e63b93a8e704f1dade7a3',
+      '8b59aa11380b624e81507a27fedda59fea6d0b779a778918a2fd3590e16e9c69',
+    ],
+    [
+      "m/0'/1'",
+      'b1d0bad404bf35da785a64ca1ac54b2617211d2777696fbffaf208f746ae84f2',
+      'a320425f77d1b5c2505a6b1b27382b37368ee640e3557c315416801243552f14',
+    ],
+    [
+      "m/0'/1'/2'/2'/1000000000'",
+      '8f94d394a8e8fd6b1bc2f3f49f5c47e385281d5c17e65324b0f62483e37e8793',
+      '68789923a0cac2cd5a29172a475fe9e0fb14cd6adb5ad98a3fa70333e7afa230',
+    ],
+  ])('derives %s', (path, key, chainCode) => {
+    const derived = derivePath(path, seed);
+    expect(hex(derived.key)).toBe(key);
+    expect(hex(derived.chainCode)).toBe(chainCode);
+  });
+
+  it('refuses non-hardened and malformed paths', () => {
+    expect(() => derivePath("m/44'/501'/0", seed)).toThrow('hardened');
+    expect(() => derivePath("44'/501'", seed)).toThrow(
+      'Invalid derivation path',
+    );
+  });
+});
+
+describe('Solana accounts', () => {
+  it("uses the m/44'/501'/n'/0' path", () => {
+    expect(getSolanaDerivationPath(0)).toBe("m/44'/501'/0'/0'");
+    expect(getSolanaDerivationPath(7)).toBe("m/44'/501'/7'/0'");
+    expect(() => getSolanaDerivationPath(-1)).toThrow();
+  });
+
+  // The address Phantom, Solflare and `solana-keygen recover 'prompt://?key=0/0'`
+  // show for this phrase
+  it('derives the same first account as mainstream wallets', async () => {
+    const seed = await mnemonicToSeed(ABANDON_ABOUT);
+    expect(deriveSolanaKeypair(seed, 0).publicKey.toBase58()).toBe(
+      'HAgk14JpMQLgt6rVgv7cBQFJWFto5Dqxi472uT3DKpqk',
+    );
+  });
+
+  it('derives distinct accounts per index and per passphrase', async () => {
+    const seed = await mnemonicToSeed(ABANDON_ABOUT);
+    const withPassphrase = await mnemonicToSeed(ABANDON_ABOUT, 'extra words');
+    const addresses = [
+      deriveSolanaKeypair(seed, 0),
+      deriveSolanaKeypair(seed, 1),
+      deriveSolanaKeypair(seed, 2),
+      deriveSolanaKeypair(withPassphrase, 0),
+    ].map(keypair => keypair.publicKey.toBase58());
+
+    expect(new Set(addresses).size).toBe(4);
+    expect(addresses.slice(1, 3)).toEqual([
+      'Hh8QwFUA6MtVu1qAoq12ucvFHNwCcVTV7hpWjeY1Hztb',
+      '7WktogJEd2wQ9eH2oWusmcoFTgeYi6rS632UviTBJ2jm',
+    ]);
+  });
+});
+
+describe('account indexes', () => {
+  it('continues past the highest account in use', () => {
+    expect(nextAccountIndex([0])).toBe(1);
+    expect(nextAccountIndex([0, 1, 2])).toBe(3);
+    expect(nextAccountIndex([0, 5, 2])).toBe(6);
+  });
+
+  it('starts at 0 and skips entries that are not account indexes', () => {
+    expect(nextAccountIndex([])).toBe(0);
+    expect(nextAccountIndex([-1, 1.5, NaN])).toBe(0);
+    expect(nextAccountIndex([0, -3, 2.5])).toBe(1);
+  });
+});
@@ -0,0 +1,111 @@
+/**
+ * @jest-environment node
+ */
+
+import {
+  HttpMarketDataProvider,
+  MarketDataService,
+  Stock,
+} from '../src/utils/marketData';
+
+const apple: Stock = {
+  symbol: 'AAPL',
+  name: 'Apple Inc.',
+  price: 178.72,
+  change: 2.15,
+  changePercent: 1.22,
+  category: 'traditional',
+};
+
+/**
+ * Answer the next request with `status` and a JSON `body`
+ */
+function respond(body: unknown, status = 200) {
+  const json = jest.fn(async () => body);
+  jest.mocked(global.fetch).mockResolvedValueOnce({
+    ok: status >= 200 && status < 300,
+    status,
+    json,
+  } as unknown as Response);
+  return json;
+}
+
+describe('HTTP market data', () => {
+  const originalFetch = global.fetch;
+  const provider = new HttpMarketDataProvider('https://quotes.example.com/');
+
+  beforeEach(() => {
+    global.fetch = jest.fn();
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  it('requests the symbols asked for', async () => {
+    respond({quotes: [apple]});
+
+    expect(await provider.getQuotes(['AAPL', 'BRK.B'])).toEqual([apple]);
+    expect(global.fetch).toHaveBeenCalledWith(
+      'https://quotes.example.com/quotes?symbols=AAPL%2CBRK.B',
+      expect.objectContaining({signal: expect.anything()}),
+    );
+  });
+
+  it.each([
+    ['no body', null],
+    ['a bare list', [apple]],
+    ['quotes that are not a list', {quotes: {AAPL: apple}}],
+  ])('rejects a response with %s', async (_, body) => {
+    respond(body);
+
+    await expect(provider.getQuotes()).rejects.toThrow(
+      'Malformed quote response',
+    );
+  });
+
+  it('drops quotes missing fields or carrying bad values', async () => {
+    const {price, ...unpriced} = apple;
+    respond({
+      quotes: [
+        apple,
+        unpriced,
+        {...apple, symbol: 'TSLA', price: String(price)},
+        {...apple, symbol: 'MSFT', price: Infinity},
+        {...apple, symbol: 'COIN', category: 'meme'},
+        null,
+        'GOOGL',
+      ],
+    });
+
+    expect(await provider.getQuotes()).toEqual([apple]);
+  });
+
+  it.each([404, 500, 503])(
+    'reports HTTP %s without reading the body',
+    async status => {
+      const json = respond({quotes: [apple]}, status);
+
+      await expect(provider.getQuotes()).rejects.toThrow(
+        `Quote request failed with status ${status}`,
+      );
+      expect(json).not.toHaveBeenCalled();
+    },
+  );
+
+  it('surfaces provider failures as one error and keeps the last quotes', async () => {
+    const service = new MarketDataService(provider);
+    const consoleError = jest
+      .spyOn(console, 'error')
+      .mockImplementation(() => {});
+    respond({quotes: [apple]});
+    await service.getQuotes(['AAPL']);
+    respond({}, 502);
+
+    await expect(service.getQuotes(['AAPL'])).rejects.toThrow(
+      'Failed to load stock quotes',
+    );
+    expect(service.getCachedQuote('AAPL')).toEqual(apple);
+    consoleError.mockRestore();
+  });
+});
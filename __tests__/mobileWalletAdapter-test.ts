@@ -0,0 +1,276 @@
+/**
+ * @jest-environment node
+ */
+
+import {
+  AuthorizationResult,
+  SolanaMobileWalletAdapterProtocolError,
+  SolanaMobileWalletAdapterProtocolErrorCode,
+} from '@solana-mobile/mobile-wallet-adapter-protocol';
+import {
+  transact,
+  Web3MobileWallet,
+} from '@solana-mobile/mobile-wallet-adapter-protocol-web3js';
+import {Keypair} from '@solana/web3.js';
+import * as Keychain from 'react-native-keychain';
+
+import {MobileWalletService} from '../src/utils/mobileWalletAdapter';
+import {networkSettingsService} from '../src/utils/networkSettings';
+import {APP_IDENTITY} from '../src/utils/solanaConfig';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock'),
+);
+jest.mock('@solana-mobile/mobile-wallet-adapter-protocol-web3js', () => ({
+  transact: jest.fn(),
+}));
+
+const WALLET_URI_BASE = 'https://wallet.example.com';
+
+const keypairs = [Keypair.generate(), Keypair.generate()];
+const accounts = keypairs.map((keypair, index) => ({
+  address: keypair.publicKey.toBuffer().toString('base64'),
+  label: `Account ${index + 1}`,
+}));
+
+/**
+ * A wallet authorizing `accounts` that issues a new token on every authorization
+ */
+function createWallet() {
+  let issued = 0;
+  const authorize = async (_request: {
+    auth_token?: string;
+  }): Promise<AuthorizationResult> => ({
+    accounts,
+    auth_token: `token-${++issued}`,
+    wallet_uri_base: WALLET_URI_BASE,
+  });
+
+  return {
+    authorize: jest.fn(authorize),
+    reauthorize: jest.fn(authorize),
+    deauthorize: jest.fn(async () => {}),
+    getCapabilities: jest.fn(async () => ({
+      supported_transaction_versions: ['legacy', 0],
+    })),
+    signMessages: jest.fn(
+      async ({payloads}: {payloads: Uint8Array[]}) => payloads,
+    ),
+  };
+}
+
+const spies: jest.SpyInstance[] = [];
+const message = new TextEncoder().encode('Sign in to Sol Stocks');
+let wallet: ReturnType<typeof createWallet>;
+let stored: string | null;
+
+beforeEach(() => {
+  wallet = createWallet();
+  stored = null;
+  jest
+    .mocked(transact)
+    .mockImplementation(async callback =>
+      callback(wallet as unknown as Web3MobileWallet),
+    );
+  spies.push(
+    jest.spyOn(networkSettingsService, 'getCluster').mockReturnValue('devnet'),
+    jest
+      .spyOn(Keychain, 'setGenericPassword')
+      .mockImplementation(async (_, password) => {
+        stored = password;
+        return {
+          service: 'sol-stocks.mwa-authorization',
+          storage: Keychain.STORAGE_TYPE.AES_GCM_NO_AUTH,
+        };
+      }),
+    jest.spyOn(Keychain, 'getGenericPassword').mockImplementation(
+      async () =>
+        stored !== null && {
+          username: 'mwa',
+          password: stored,
+          service: 'sol-stocks.mwa-authorization',
+          storage: Keychain.STORAGE_TYPE.AES_GCM_NO_AUTH,
+        },
+    ),
+    jest
+      .spyOn(Keychain, 'resetGenericPassword')
+      .mockImplementation(async () => {
+        stored = null;
+        return true;
+      }),
+    jest.spyOn(console, 'error').mockImplementation(() => {}),
+    jest.spyOn(console, 'log').mockImplementation(() => {}),
+  );
+});
+
+afterEach(() => {
+  spies.splice(0).forEach(spy => spy.mockRestore());
+  jest.mocked(transact).mockReset();
+});
+
+async function connected(config = {}): Promise<MobileWalletService> {
+  const service = new MobileWalletService(config);
+  await service.connect();
+  return service;
+}
+
+describe('wallet authorization', () => {
+  it('keeps the authorization across restarts and renews it silently', async () => {
+    await connected();
+    expect(JSON.parse(stored!)).toMatchObject({
+      authToken: 'token-1',
+      walletUriBase: WALLET_URI_BASE,
+      publicKey: keypairs[0].publicKey.toBase58(),
+      cluster: 'devnet',
+    });
+
+    const restored = await new MobileWalletService({}).restoreSession();
+
+    expect(restored).toEqual(keypairs[0].publicKey);
+    expect(wallet.authorize).toHaveBeenCalledTimes(1);
+    expect(wallet.reauthorize).toHaveBeenCalledWith({
+      auth_token: 'token-1',
+      identity: APP_IDENTITY,
+    });
+    expect(transact).toHaveBeenLastCalledWith(expect.any(Function), {
+      baseUri: WALLET_URI_BASE,
+    });
+    expect(JSON.parse(stored!).authToken).toBe('token-2');
+  });
+
+  it('reauthorizes with the latest token before every request', async () => {
+    const service = await connected();
+
+    await service.signMessage(message);
+    await service.signMessage(message);
+
+    expect(
+      wallet.reauthorize.mock.calls.map(([request]) => request.auth_token),
+    ).toEqual(['token-1', 'token-2']);
+    expect(wallet.signMessages).toHaveBeenCalledTimes(2);
+  });
+
+  it('exchanges the token for one on the cluster the app moved to', async () => {
+    const service = await connected();
+    jest.mocked(networkSettingsService.getCluster).mockReturnValue('testnet');
+
+    await service.signMessage(message);
+
+    expect(wallet.reauthorize).not.toHaveBeenCalled();
+    expect(wallet.authorize).toHaveBeenLastCalledWith({
+      auth_token: 'token-1',
+      chain: 'solana:testnet',
+      identity: APP_IDENTITY,
+    });
+    expect(JSON.parse(stored!).cluster).toBe('testnet');
+  });
+
+  it('ends the session when the wallet has revoked it', async () => {
+    await connected();
+    const onDisconnect = jest.fn();
+    wallet.reauthorize.mockRejectedValueOnce(
+      new SolanaMobileWalletAdapterProtocolError(
+        1,
+        SolanaMobileWalletAdapterProtocolErrorCode.ERROR_AUTHORIZATION_FAILED,
+        'Authorization revoked',
+      ),
+    );
+
+    const service = new MobileWalletService({onDisconnect});
+
+    expect(await service.restoreSession()).toBeNull();
+    expect(service.isConnected()).toBe(false);
+    expect(stored).toBeNull();
+    expect(onDisconnect).toHaveBeenCalled();
+  });
+
+  it('keeps the session while the wallet app cannot be reached', async () => {
+    await connected();
+    wallet.reauthorize.mockRejectedValueOnce(new Error('No wallet found'));
+
+    const service = new MobileWalletService({});
+
+    expect(await service.restoreSession()).toEqual(keypairs[0].publicKey);
+    expect(JSON.parse(stored!).authToken).toBe('token-1');
+  });
+
+  it('deauthorizes the token it holds on disconnect', async () => {
+    const service = await connected();
+
+    await service.disconnect();
+
+    expect(wallet.deauthorize).toHaveBeenCalledWith({auth_token: 'token-1'});
+    expect(service.isConnected()).toBe(false);
+    expect(stored).toBeNull();
+  });
+});
+
+describe('accounts', () => {
+  it('lists every account the wallet authorized and selects the first', async () => {
+    const service = await connected();
+
+    expect(service.getSession()).toMatchObject({
+      accounts: [
+        {publicKey: keypairs[0].publicKey, label: 'Account 1'},
+        {publicKey: keypairs[1].publicKey, label: 'Account 2'},
+      ],
+      selectedAccount: {publicKey: keypairs[0].publicKey},
+      transactionVersion: 0,
+    });
+  });
+
+  it('switches to another authorized account and remembers it', async () => {
+    const service = await connected();
+    const listener = jest.fn();
+    service.subscribe(listener);
+
+    await service.selectAccount(keypairs[1].publicKey);
+
+    expect(service.getPublicKey()).toEqual(keypairs[1].publicKey);
+    expect(listener).toHaveBeenCalledWith(
+      expect.objectContaining({
+        selectedAccount: expect.objectContaining({
+          publicKey: keypairs[1].publicKey,
+        }),
+      }),
+    );
+    expect(await new MobileWalletService({}).restoreSession()).toEqual(
+      keypairs[1].publicKey,
+    );
+  });
+
+  it('only switches to accounts the wallet authorized', async () => {
+    const service = await connected();
+
+    await expect(
+      service.selectAccount(Keypair.generate().publicKey),
+    ).rejects.toThrow('Account is not authorized by the connected wallet');
+    expect(service.getPublicKey()).toEqual(keypairs[0].publicKey);
+  });
+
+  it('signs with the selected account', async () => {
+    const service = await connected();
+    await service.selectAccount(keypairs[1].publicKey);
+
+    await service.signMessage(message);
+
+    expect(wallet.signMessages).toHaveBeenCalledWith({
+      addresses: [accounts[1].address],
+      payloads: [message],
+    });
+  });
+
+  it('never lets a reauthorization switch the account', async () => {
+    const service = await connected();
+    await service.selectAccount(keypairs[1].publicKey);
+    wallet.reauthorize.mockResolvedValueOnce({
+      accounts: [accounts[0]],
+      auth_token: 'token-2',
+      wallet_uri_base: WALLET_URI_BASE,
+    });
+
+    expect(await service.signMessage(message)).toBeNull();
+    expect(wallet.signMessages).not.toHaveBeenCalled();
+    expect(service.getPublicKey()).toEqual(keypairs[1].publicKey);
+  });
+});
@@ -0,0 +1,190 @@
+/**
+ * @jest-environment node
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {Connection, Keypair} from '@solana/web3.js';
+
+import {
+  NetworkSettingsService,
+  networkSettingsService,
+  validateRpcUrl,
+} from '../src/utils/networkSettings';
+import {SolanaCluster} from '../src/utils/solanaConfig';
+import {BuyEntry, tradeLedger} from '../src/utils/tradeLedger';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock'),
+);
+
+const MAINNET_GENESIS_HASH = '5eykt4UsFv8P8NJdTREpY1vzqKqZKvdpKuc147dw2N9d';
+const DEVNET_GENESIS_HASH = 'EtWTRABZaYq6iMfeYKouRu166VU2xqa1wcaWoxPkrZBG';
+const CUSTOM_RPC = 'https://rpc.example.com/';
+
+function createService() {
+  return new NetworkSettingsService({cluster: 'devnet', customRpcUrl: null});
+}
+
+describe('RPC URLs', () => {
+  it('normalizes a URL', () => {
+    expect(validateRpcUrl('  https://rpc.example.com  ')).toBe(CUSTOM_RPC);
+  });
+
+  it.each([
+    ['an empty URL', ''],
+    ['free text', 'my node'],
+    ['a missing scheme', 'rpc.example.com'],
+  ])('rejects %s', (_, url) => {
+    expect(() => validateRpcUrl(url)).toThrow('RPC URL is not a valid URL');
+  });
+
+  it.each(['ftp://rpc.example.com', 'wss://rpc.example.com'])(
+    'rejects the scheme of %s',
+    url => {
+      expect(() => validateRpcUrl(url)).toThrow(
+        'RPC URL must use http or https',
+      );
+    },
+  );
+});
+
+describe('network settings', () => {
+  const spies: jest.SpyInstance[] = [];
+  let getGenesisHash: jest.SpyInstance;
+
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+    getGenesisHash = jest
+      .spyOn(Connection.prototype, 'getGenesisHash')
+      .mockResolvedValue(MAINNET_GENESIS_HASH);
+    spies.push(
+      getGenesisHash,
+      jest.spyOn(console, 'error').mockImplementation(() => {}),
+    );
+  });
+
+  afterEach(() => {
+    spies.splice(0).forEach(spy => spy.mockRestore());
+  });
+
+  it('switches to a custom RPC serving the chosen cluster and remembers it', async () => {
+    const service = createService();
+    const listener = jest.fn();
+    service.subscribe(listener);
+
+    const state = await service.setNetwork({
+      cluster: 'mainnet-beta',
+      customRpcUrl: 'https://rpc.example.com',
+    });
+
+    expect(state).toMatchObject({
+      cluster: 'mainnet-beta',
+      customRpcUrl: CUSTOM_RPC,
+      rpcEndpoint: CUSTOM_RPC,
+    });
+    expect(listener).toHaveBeenCalledWith(state);
+
+    const restarted = createService();
+    await restarted.load();
+    expect(restarted.getState().rpcEndpoint).toBe(CUSTOM_RPC);
+  });
+
+  it('refuses an RPC serving another cluster', async () => {
+    const service = createService();
+    const listener = jest.fn();
+    service.subscribe(listener);
+    getGenesisHash.mockResolvedValue(DEVNET_GENESIS_HASH);
+
+    await expect(
+      service.setNetwork({cluster: 'mainnet-beta', customRpcUrl: CUSTOM_RPC}),
+    ).rejects.toThrow('Custom RPC does not serve mainnet-beta');
+
+    expect(service.getCluster()).toBe('devnet');
+    expect(listener).not.toHaveBeenCalled();
+    expect(await AsyncStorage.getItem('network_settings')).toBeNull();
+  });
+
+  it('refuses an RPC that does not answer', async () => {
+    const service = createService();
+    getGenesisHash.mockRejectedValue(new Error('fetch failed'));
+
+    await expect(
+      service.setNetwork({cluster: 'mainnet-beta', customRpcUrl: CUSTOM_RPC}),
+    ).rejects.toThrow('Custom RPC is not reachable');
+    expect(service.getCluster()).toBe('devnet');
+  });
+
+  it('never contacts a malformed RPC URL', async () => {
+    const service = createService();
+
+    await expect(
+      service.setNetwork({cluster: 'devnet', customRpcUrl: 'rpc.example.com'}),
+    ).rejects.toThrow('RPC URL is not a valid URL');
+    expect(getGenesisHash).not.toHaveBeenCalled();
+  });
+
+  it.each<[SolanaCluster, boolean]>([
+    ['devnet', true],
+    ['testnet', true],
+    ['mainnet-beta', false],
+  ])('on %s, airdrops are available: %s', async (cluster, available) => {
+    const service = createService();
+    await service.setNetwork({cluster, customRpcUrl: null});
+
+    expect(service.supportsAirdrop()).toBe(available);
+  });
+});
+
+describe('ledger scoping', () => {
+  const wallet = Keypair.generate().publicKey.toBase58();
+
+  function buy(id: string): BuyEntry {
+    return {
+      type: 'buy',
+      id,
+      reference: id,
+      wallet,
+      timestamp: 1,
+      status: 'pending',
+      stockSymbol: 'AAPL',
+      stockPrice: 100,
+      quantity: 1,
+      totalUSD: 100,
+      category: 'traditional',
+      paymentMethod: 'SOL',
+      solAmount: 1,
+      feeSOL: 0.01,
+      solPriceUSD: 100,
+    };
+  }
+
+  afterEach(async () => {
+    await networkSettingsService.setNetwork({
+      cluster: 'devnet',
+      customRpcUrl: null,
+    });
+  });
+
+  it('keeps the trades of each cluster apart as the network changes', async () => {
+    await networkSettingsService.setNetwork({
+      cluster: 'devnet',
+      customRpcUrl: null,
+    });
+    await tradeLedger.record(buy('on-devnet'));
+
+    await networkSettingsService.setNetwork({
+      cluster: 'testnet',
+      customRpcUrl: null,
+    });
+    expect(await tradeLedger.getEntries(wallet)).toEqual([]);
+    await tradeLedger.record(buy('on-testnet'));
+
+    await networkSettingsService.setNetwork({
+      cluster: 'devnet',
+      customRpcUrl: null,
+    });
+    expect(
+      (await tradeLedger.getEntries(wallet)).map(entry => entry.id),
+    ).toEqual(['on-devnet']);
+  });
+});
@@ -0,0 +1,231 @@
+/**
+ * @jest-environment node
+ */
+
+import {
+  computeBaselines,
+  measureChange,
+  PortfolioSnapshot,
+  toDateKey,
+} from '../src/utils/portfolioSnapshots';
+import {BuyEntry, LedgerEntry, SellEntry} from '../src/utils/tradeLedger';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock'),
+);
+
+const SOL_PRICE = 100;
+
+// Local time, so calendar days match toDateKey
+const at = (day: number, hour = 12) => new Date(2024, 5, day, hour).getTime();
+const NOW = at(15);
+
+function close(
+  day: number,
+  totalValueUSD: number,
+  solPriceUSD: number | null = SOL_PRICE,
+): PortfolioSnapshot {
+  return {
+    date: toDateKey(at(day, 20)),
+    takenAt: at(day, 20),
+    holdings: [],
+    totalValueUSD,
+    solPriceUSD,
+  };
+}
+
+function buy(
+  timestamp: number,
+  totalUSD: number,
+  overrides: Partial<BuyEntry> = {},
+): BuyEntry {
+  return {
+    type: 'buy',
+    id: `buy-${timestamp}`,
+    reference: `buy-${timestamp}`,
+    wallet: 'wallet',
+    timestamp,
+    status: 'confirmed',
+    stockSymbol: 'AAPL',
+    stockPrice: totalUSD,
+    quantity: 1,
+    totalUSD,
+    category: 'traditional',
+    paymentMethod: 'SOL',
+    solAmount: totalUSD / SOL_PRICE,
+    feeSOL: 0.01,
+    solPriceUSD: SOL_PRICE,
+    ...overrides,
+  };
+}
+
+function sell(timestamp: number, totalUSD: number): SellEntry {
+  const grossSOL = totalUSD / SOL_PRICE;
+  return {
+    type: 'sell',
+    id: `sell-${timestamp}`,
+    reference: `sell-${timestamp}`,
+    wallet: 'wallet',
+    timestamp,
+    status: 'confirmed',
+    stockSymbol: 'AAPL',
+    stockPrice: totalUSD,
+    quantity: 1,
+    totalUSD,
+    category: 'traditional',
+    grossSOL,
+    feeSOL: 0.02,
+    netSOL: grossSOL - 0.02,
+    netLamports: 0,
+    solPriceUSD: SOL_PRICE,
+  };
+}
+
+describe('period baselines', () => {
+  it('has no baselines without closes or trades', () => {
+    expect(computeBaselines([], [], NOW)).toEqual({
+      day: null,
+      week: null,
+      month: null,
+      inception: null,
+    });
+  });
+
+  it('never measures a day from a close taken today', () => {
+    const baselines = computeBaselines([close(15, 900)], [], NOW);
+    expect(baselines.day).toBeNull();
+  });
+
+  it("measures a day from yesterday's close only", () => {
+    const baselines = computeBaselines(
+      [close(13, 400), close(14, 500)],
+      [],
+      NOW,
+    );
+    expect(baselines.day).toMatchObject({startedAt: at(14, 20), valueUSD: 500});
+  });
+
+  it('measures longer periods from the latest close on or before their start', () => {
+    const snapshots = [
+      close(1, 100),
+      close(7, 200),
+      close(8, 300),
+      close(13, 400),
+    ];
+
+    const baselines = computeBaselines(snapshots, [], NOW);
+
+    // A close from two days ago is not a day change
+    expect(baselines.day).toBeNull();
+    // Gaps fall back to the last close before the cutoff
+    expect(baselines.week).toMatchObject({startedAt: at(8, 20), valueUSD: 300});
+    // Nothing from a month ago, so no month change rather than a shorter one
+    expect(baselines.month).toBeNull();
+  });
+
+  it('uses a close from before the month when there is one', () => {
+    // Day -21 of June is 10 May
+    const snapshots = [close(-21, 50), close(14, 100)];
+    expect(computeBaselines(snapshots, [], NOW).month).toMatchObject({
+      valueUSD: 50,
+    });
+  });
+
+  it('has no SOL value for a close taken without a SOL price', () => {
+    const baselines = computeBaselines([close(14, 500, null)], [], NOW);
+    expect(baselines.day).toMatchObject({valueUSD: 500, valueSOL: null});
+    expect(measureChange(baselines.day!, 600, SOL_PRICE)).toMatchObject({
+      usd: 100,
+      sol: null,
+      solPercent: null,
+    });
+  });
+
+  it('counts only confirmed trades that settled after the close', () => {
+    const entries: LedgerEntry[] = [
+      buy(at(14, 10), 1000),
+      // Placed before the close but confirmed after it
+      buy(at(14, 19), 300, {confirmedAt: at(14, 21)}),
+      buy(at(15, 9), 400, {status: 'pending'}),
+      buy(at(15, 10), 500, {status: 'failed'}),
+      {
+        type: 'airdrop',
+        id: 'airdrop',
+        wallet: 'wallet',
+        timestamp: at(15, 11),
+        status: 'confirmed',
+        amountSOL: 1,
+      },
+    ];
+
+    const {day} = computeBaselines([close(14, 1000)], entries, NOW);
+
+    expect(day!.buysUSD).toBeCloseTo(301);
+    expect(day!.flowsUSD).toBeCloseTo(301);
+  });
+});
+
+describe('period change', () => {
+  it('does not count money moved in or out during the period as a gain', () => {
+    const entries = [
+      buy(at(14, 10), 9999),
+      buy(at(15, 9), 500),
+      sell(at(15, 11), 200),
+    ];
+    const {day} = computeBaselines([close(14, 1000)], entries, NOW);
+
+    // Buy of $500 plus a $1 fee in, $200 less a $2 fee out
+    expect(day).toMatchObject({valueUSD: 1000, valueSOL: 10});
+    expect(day!.flowsUSD).toBeCloseTo(303);
+    expect(day!.flowsSOL).toBeCloseTo(3.03);
+    expect(day!.buysUSD).toBeCloseTo(501);
+    expect(day!.buysSOL).toBeCloseTo(5.01);
+
+    const change = measureChange(day!, 1400, SOL_PRICE);
+    expect(change.usd).toBeCloseTo(97);
+    expect(change.usdPercent).toBeCloseTo((97 / 1501) * 100);
+    expect(change.sol).toBeCloseTo(0.97);
+    expect(change.solPercent).toBeCloseTo((0.97 / 15.01) * 100);
+  });
+
+  it('measures a move in the SOL price against SOL', () => {
+    const {day} = computeBaselines([close(14, 1000)], [], NOW);
+
+    // Flat in dollars while SOL doubled is a loss measured in SOL
+    const change = measureChange(day!, 1000, SOL_PRICE * 2);
+    expect(change).toMatchObject({usd: 0, usdPercent: 0});
+    expect(change.sol).toBeCloseTo(-5);
+    expect(change.solPercent).toBeCloseTo(-50);
+  });
+
+  it('measures since inception against everything put in', () => {
+    const entries = [buy(at(1), 1000), sell(at(10), 400)];
+    const {inception} = computeBaselines([], entries, NOW);
+
+    expect(inception).toMatchObject({startedAt: 0, valueUSD: 0, valueSOL: 0});
+    const change = measureChange(inception!, 700, SOL_PRICE);
+    // $1001 in, $398 out: holding $700 is a $97 gain
+    expect(change.usd).toBeCloseTo(97);
+    expect(change.usdPercent).toBeCloseTo((97 / 1001) * 100);
+  });
+
+  it('has no SOL change without a current SOL price', () => {
+    const {day} = computeBaselines([close(14, 1000)], [], NOW);
+    expect(measureChange(day!, 1100, null)).toEqual({
+      usd: 100,
+      usdPercent: 10,
+      sol: null,
+      solPercent: null,
+    });
+  });
+
+  it('reports no percentage when nothing was invested', () => {
+    const {day} = computeBaselines([close(14, 0)], [], NOW);
+    expect(measureChange(day!, 0, SOL_PRICE)).toEqual({
+      usd: 0,
+      usdPercent: 0,
+      sol: 0,
+      solPercent: 0,
+    });
+  });
+});
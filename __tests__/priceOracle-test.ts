@@ -0,0 +1,206 @@
+/**
+ * @jest-environment node
+ */
+
+import {Connection, Keypair} from '@solana/web3.js';
+
+import {
+  decodePythPriceAccount,
+  PriceOracleService,
+} from '../src/utils/priceOracle';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock'),
+);
+
+const NOW_SECONDS = 1700000000;
+const CURRENT_SLOT = 250000000;
+
+interface PythFields {
+  magic?: number;
+  accountType?: number;
+  expo?: number;
+  publishTime?: number;
+  price?: bigint;
+  conf?: bigint;
+  status?: number;
+  publishSlot?: number;
+}
+
+/**
+ * A Pyth v2 price account with only the fields the decoder reads filled in
+ */
+function pythPriceAccount({
+  magic = 0xa1b2c3d4,
+  accountType = 3,
+  expo = -8,
+  publishTime = NOW_SECONDS - 2,
+  price = 14525000000n,
+  conf = 7000000n,
+  status = 1,
+  publishSlot = CURRENT_SLOT - 3,
+}: PythFields = {}): Buffer {
+  const data = Buffer.alloc(3312);
+  data.writeUInt32LE(magic, 0);
+  data.writeUInt32LE(2, 4);
+  data.writeUInt32LE(accountType, 8);
+  data.writeInt32LE(expo, 20);
+  data.writeBigInt64LE(BigInt(publishTime), 96);
+  data.writeBigInt64LE(price, 208);
+  data.writeBigUInt64LE(conf, 216);
+  data.writeUInt32LE(status, 224);
+  data.writeBigUInt64LE(BigInt(publishSlot), 232);
+  return data;
+}
+
+const config = {
+  maxAgeSeconds: 60,
+  maxSlotLag: 25,
+  maxConfidenceRatio: 0.02,
+  cacheTtlMs: 10000,
+};
+
+function createOracle(data: Buffer | null) {
+  const connection = {
+    getAccountInfoAndContext: jest.fn(async () => ({
+      context: {slot: CURRENT_SLOT},
+      value: data && {data},
+    })),
+  };
+  return {
+    connection,
+    oracle: new PriceOracleService(connection as unknown as Connection, config),
+  };
+}
+
+describe('Pyth price accounts', () => {
+  it('decodes the aggregate price at the account exponent', () => {
+    expect(decodePythPriceAccount(pythPriceAccount())).toEqual({
+      price: 145.25,
+      confidence: 0.07,
+      publishTime: NOW_SECONDS - 2,
+      publishSlot: CURRENT_SLOT - 3,
+      trading: true,
+    });
+  });
+
+  it('decodes negative prices and other exponents', () => {
+    const decoded = decodePythPriceAccount(
+      pythPriceAccount({expo: -5, price: -2150n, conf: 3n}),
+    );
+    expect(decoded.price).toBeCloseTo(-0.0215, 10);
+    expect(decoded.confidence).toBeCloseTo(0.00003, 10);
+  });
+
+  it('reads any status other than trading as not trading', () => {
+    [0, 2, 3].forEach(status => {
+      expect(decodePythPriceAccount(pythPriceAccount({status})).trading).toBe(
+        false,
+      );
+    });
+  });
+
+  it('refuses accounts that are not Pyth price accounts', () => {
+    expect(() =>
+      decodePythPriceAccount(pythPriceAccount({magic: 0xdeadbeef})),
+    ).toThrow('not a Pyth price feed');
+    expect(() =>
+      decodePythPriceAccount(pythPriceAccount().subarray(0, 239)),
+    ).toThrow('not a Pyth price feed');
+    expect(() =>
+      decodePythPriceAccount(pythPriceAccount({accountType: 2})),
+    ).toThrow('not a price account');
+  });
+});
+
+describe('price oracle', () => {
+  const feed = Keypair.generate().publicKey;
+
+  beforeEach(() => {
+    jest.spyOn(Date, 'now').mockReturnValue(NOW_SECONDS * 1000);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('returns a fresh, tight, trading price', async () => {
+    const {oracle} = createOracle(pythPriceAccount());
+    await expect(oracle.getPrice(feed)).resolves.toMatchObject({
+      price: 145.25,
+    });
+  });
+
+  it('reuses a validated price until the cache expires', async () => {
+    const {connection, oracle} = createOracle(pythPriceAccount());
+
+    await oracle.getPrice(feed);
+    await oracle.getPrice(feed);
+    expect(connection.getAccountInfoAndContext).toHaveBeenCalledTimes(1);
+
+    jest
+      .spyOn(Date, 'now')
+      .mockReturnValue(NOW_SECONDS * 1000 + config.cacheTtlMs);
+    await oracle.getPrice(feed);
+    expect(connection.getAccountInfoAndContext).toHaveBeenCalledTimes(2);
+  });
+
+  it.each([
+    ['published too long ago', {publishTime: NOW_SECONDS - 61}],
+    ['too many slots behind', {publishSlot: CURRENT_SLOT - 26}],
+  ])('refuses a price %s', async (_, fields) => {
+    const {oracle} = createOracle(pythPriceAccount(fields));
+    await expect(oracle.getPrice(feed)).rejects.toThrow('stale');
+  });
+
+  it('accepts a price right at the staleness limits', async () => {
+    const {oracle} = createOracle(
+      pythPriceAccount({
+        publishTime: NOW_SECONDS - 60,
+        publishSlot: CURRENT_SLOT - 25,
+      }),
+    );
+    await expect(oracle.getPrice(feed)).resolves.toBeDefined();
+  });
+
+  it('refuses a price whose confidence is too wide', async () => {
+    // 2.1% of the price, over the 2% limit
+    const {oracle} = createOracle(pythPriceAccount({conf: 305025000n}));
+    await expect(oracle.getPrice(feed)).rejects.toThrow('confidence');
+  });
+
+  it('refuses a feed that is not trading', async () => {
+    const {oracle} = createOracle(pythPriceAccount({status: 2}));
+    await expect(oracle.getPrice(feed)).rejects.toThrow('not trading');
+  });
+
+  it('refuses a zero or negative price', async () => {
+    const zero = createOracle(pythPriceAccount({price: 0n}));
+    const negative = createOracle(pythPriceAccount({price: -1n}));
+    await expect(zero.oracle.getPrice(feed)).rejects.toThrow('invalid price');
+    await expect(negative.oracle.getPrice(feed)).rejects.toThrow(
+      'invalid price',
+    );
+  });
+
+  it('does not cache a rejected price', async () => {
+    const {connection, oracle} = createOracle(pythPriceAccount({status: 0}));
+    await expect(oracle.getPrice(feed)).rejects.toThrow();
+    await expect(oracle.getPrice(feed)).rejects.toThrow();
+    expect(connection.getAccountInfoAndContext).toHaveBeenCalledTimes(2);
+  });
+
+  it('reports a missing or unreachable feed', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    const missing = createOracle(null);
+    const unreachable = createOracle(pythPriceAccount());
+    unreachable.connection.getAccountInfoAndContext.mockRejectedValueOnce(
+      new Error('fetch failed'),
+    );
+
+    await expect(missing.oracle.getPrice(feed)).rejects.toThrow('not found');
+    await expect(unreachable.oracle.getPrice(feed)).rejects.toThrow(
+      'Price feed unavailable',
+    );
+  });
+});
@@ -0,0 +1,234 @@
+/**
+ * @jest-environment node
+ */
+
+import {
+  ComputeBudgetProgram,
+  Connection,
+  GetRecentPrioritizationFeesConfig,
+  Keypair,
+  RecentPrioritizationFees,
+  RpcResponseAndContext,
+  SimulatedTransactionResponse,
+  SystemProgram,
+  Transaction,
+} from '@solana/web3.js';
+
+import {
+  getPriorityFeeLamports,
+  isComputeBudgetInstruction,
+  PriorityFeeService,
+} from '../src/utils/priorityFees';
+import {PRIORITY_FEE_CONFIG} from '../src/utils/solanaConfig';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock'),
+);
+
+const payer = Keypair.generate();
+const recipient = Keypair.generate().publicKey;
+const readonlyAccount = Keypair.generate().publicKey;
+
+function transfer(): Transaction {
+  const instruction = SystemProgram.transfer({
+    fromPubkey: payer.publicKey,
+    toPubkey: recipient,
+    lamports: 1000,
+  });
+  instruction.keys.push({
+    pubkey: readonlyAccount,
+    isSigner: false,
+    isWritable: false,
+  });
+  return new Transaction({
+    feePayer: payer.publicKey,
+    recentBlockhash: Keypair.generate().publicKey.toBase58(),
+  }).add(instruction);
+}
+
+/**
+ * A connection whose recent fees and simulated compute usage the test sets
+ */
+function createService(fees: number[], unitsConsumed?: number) {
+  const connection = {
+    getRecentPrioritizationFees: jest.fn(
+      async (
+        _config?: GetRecentPrioritizationFeesConfig,
+      ): Promise<RecentPrioritizationFees[]> =>
+        fees.map((prioritizationFee, slot) => ({slot, prioritizationFee})),
+    ),
+    simulateTransaction: jest.fn(
+      async (
+        _transaction: Transaction,
+      ): Promise<RpcResponseAndContext<SimulatedTransactionResponse>> => ({
+        context: {slot: 1},
+        value: {err: null, logs: [], unitsConsumed},
+      }),
+    ),
+  };
+  return {
+    connection,
+    service: new PriorityFeeService(connection as unknown as Connection),
+  };
+}
+
+// 1,000 to 20,000 micro-lamports, out of order
+const TWENTY_FEES = Array.from({length: 20}, (_, i) => ((i * 7) % 20) + 1).map(
+  n => n * 1000,
+);
+
+describe('priority fee estimates', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('bids the percentile of recent fees for each speed', async () => {
+    const {service} = createService(TWENTY_FEES, 10000);
+
+    const [standard, fast, turbo] = await Promise.all([
+      service.estimate(transfer(), 'standard'),
+      service.estimate(transfer(), 'fast'),
+      service.estimate(transfer(), 'turbo'),
+    ]);
+
+    // The 10th, 15th and 19th of 20 sorted fees
+    expect(standard.microLamportsPerComputeUnit).toBe(10000);
+    expect(fast.microLamportsPerComputeUnit).toBe(15000);
+    expect(turbo.microLamportsPerComputeUnit).toBe(19000);
+  });
+
+  it('takes the only sample at every speed', async () => {
+    const {service} = createService([7000], 10000);
+    const estimates = await Promise.all([
+      service.estimate(transfer(), 'standard'),
+      service.estimate(transfer(), 'turbo'),
+    ]);
+    expect(estimates.map(e => e.microLamportsPerComputeUnit)).toEqual([
+      7000, 7000,
+    ]);
+  });
+
+  it('never bids below the minimum price', async () => {
+    const quiet = createService([0, 0, 10], 10000);
+    const empty = createService([], 10000);
+    const failing = createService([5000], 10000);
+    failing.connection.getRecentPrioritizationFees.mockRejectedValueOnce(
+      new Error('Method not found'),
+    );
+
+    const estimates = await Promise.all([
+      quiet.service.estimate(transfer(), 'turbo'),
+      empty.service.estimate(transfer(), 'turbo'),
+      failing.service.estimate(transfer(), 'turbo'),
+    ]);
+
+    estimates.forEach(estimate =>
+      expect(estimate.microLamportsPerComputeUnit).toBe(
+        PRIORITY_FEE_CONFIG.minMicroLamports,
+      ),
+    );
+  });
+
+  it('samples fees for the accounts the transaction writes', async () => {
+    const {connection, service} = createService([5000], 10000);
+    await service.estimate(transfer(), 'standard');
+
+    const [[config]] = connection.getRecentPrioritizationFees.mock.calls;
+    expect(config?.lockedWritableAccounts?.map(key => key.toBase58())).toEqual([
+      payer.publicKey.toBase58(),
+      recipient.toBase58(),
+    ]);
+  });
+
+  it('sizes the compute limit from simulation with a margin', async () => {
+    const measured = createService([5000], 10000);
+    const huge = createService([5000], 1390000);
+    const unmeasured = createService([5000], undefined);
+
+    expect(
+      (await measured.service.estimate(transfer(), 'standard')).computeUnits,
+    ).toBe(11000);
+    expect(
+      (await huge.service.estimate(transfer(), 'standard')).computeUnits,
+    ).toBe(1400000);
+    expect(
+      (await unmeasured.service.estimate(transfer(), 'standard')).computeUnits,
+    ).toBe(PRIORITY_FEE_CONFIG.defaultComputeUnits);
+  });
+
+  it('falls back to the default limit when simulation fails', async () => {
+    const {connection, service} = createService([5000], 10000);
+    connection.simulateTransaction.mockResolvedValueOnce({
+      context: {slot: 1},
+      value: {err: 'AccountNotFound', logs: [], unitsConsumed: 150},
+    });
+
+    const estimate = await service.estimate(transfer(), 'standard');
+
+    expect(estimate.computeUnits).toBe(PRIORITY_FEE_CONFIG.defaultComputeUnits);
+  });
+
+  it('charges the sampled price when it is under the fee cap', async () => {
+    const {service} = createService([50000], 10000);
+    const estimate = await service.estimate(transfer(), 'standard');
+
+    expect(estimate).toEqual({
+      speed: 'standard',
+      computeUnits: 11000,
+      microLamportsPerComputeUnit: 50000,
+      priorityFeeLamports: 550,
+    });
+  });
+
+  it('bids less per unit rather than exceed the fee cap', async () => {
+    const {service} = createService([1000000000], 10000);
+    const estimate = await service.estimate(transfer(), 'turbo');
+
+    expect(estimate.microLamportsPerComputeUnit).toBe(
+      Math.floor((PRIORITY_FEE_CONFIG.maxFeeLamports * 1000000) / 11000),
+    );
+    expect(estimate.priorityFeeLamports).toBeLessThanOrEqual(
+      PRIORITY_FEE_CONFIG.maxFeeLamports,
+    );
+    expect(estimate.priorityFeeLamports).toBe(
+      getPriorityFeeLamports(11000, estimate.microLamportsPerComputeUnit),
+    );
+  });
+});
+
+describe('compute budget instructions', () => {
+  it('replaces any existing compute budget with the estimate', async () => {
+    const {service} = createService([50000], 10000);
+    const transaction = transfer();
+    transaction.instructions.unshift(
+      ComputeBudgetProgram.setComputeUnitPrice({microLamports: 1}),
+    );
+
+    await service.addPriorityFee(transaction, 'standard');
+
+    expect(transaction.instructions).toHaveLength(3);
+    expect(
+      transaction.instructions.filter(isComputeBudgetInstruction),
+    ).toHaveLength(2);
+    expect(transaction.instructions[0]).toEqual(
+      ComputeBudgetProgram.setComputeUnitLimit({units: 11000}),
+    );
+    expect(transaction.instructions[1]).toEqual(
+      ComputeBudgetProgram.setComputeUnitPrice({microLamports: 50000}),
+    );
+  });
+
+  it('refuses to change a signed transaction', async () => {
+    const {service} = createService([50000], 10000);
+    const transaction = transfer();
+    transaction.sign(payer);
+
+    await expect(
+      service.addPriorityFee(transaction, 'standard'),
+    ).rejects.toThrow('before the transaction is signed');
+  });
+});
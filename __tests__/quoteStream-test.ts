@@ -0,0 +1,264 @@
+/**
+ * @jest-environment node
+ */
+
+import {AppState, AppStateStatus} from 'react-native';
+
+import {marketDataService} from '../src/utils/marketData';
+import {QuoteSocket, QuoteStreamService} from '../src/utils/quoteStream';
+
+/**
+ * A socket the test opens, closes and feeds messages into
+ */
+class FakeSocket implements QuoteSocket {
+  readyState = 0;
+  onopen: ((event: unknown) => void) | null = null;
+  onmessage: ((event: {data: unknown}) => void) | null = null;
+  onerror: ((event: unknown) => void) | null = null;
+  onclose: ((event: unknown) => void) | null = null;
+  sent: unknown[] = [];
+  closed = false;
+
+  send(data: string): void {
+    this.sent.push(JSON.parse(data));
+  }
+
+  close(): void {
+    this.closed = true;
+    this.readyState = 3;
+  }
+
+  open(): void {
+    this.readyState = 1;
+    this.onopen?.({});
+  }
+
+  drop(): void {
+    this.readyState = 3;
+    this.onclose?.({});
+  }
+
+  receive(message: object): void {
+    this.onmessage?.({data: JSON.stringify(message)});
+  }
+}
+
+function createStream(watchAppState = false) {
+  const sockets: FakeSocket[] = [];
+  const stream = new QuoteStreamService({
+    url: 'wss://quotes.test',
+    initialBackoffMs: 1000,
+    maxBackoffMs: 8000,
+    watchAppState,
+    createSocket: () => {
+      const socket = new FakeSocket();
+      sockets.push(socket);
+      return socket;
+    },
+  });
+  return {stream, sockets};
+}
+
+describe('quote stream', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    // No jitter, so delays are exactly the backoff schedule
+    jest.spyOn(Math, 'random').mockReturnValue(0);
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it('only opens a socket while something is subscribed', () => {
+    const {stream, sockets} = createStream();
+
+    const unsubscribe = stream.subscribe(['AAPL'], jest.fn());
+    expect(sockets).toHaveLength(1);
+    sockets[0].open();
+    expect(stream.isConnected()).toBe(true);
+
+    unsubscribe();
+    expect(sockets[0].closed).toBe(true);
+    expect(stream.isConnected()).toBe(false);
+  });
+
+  it('sends only the symbols added and removed across listeners', () => {
+    const {stream, sockets} = createStream();
+    const first = jest.fn();
+    const second = jest.fn();
+
+    stream.subscribe(['AAPL', 'TSLA'], first);
+    const unsubscribeSecond = stream.subscribe(['TSLA', 'COIN'], second);
+    const socket = sockets[0];
+    socket.open();
+    expect(socket.sent).toEqual([
+      {type: 'subscribe', symbols: ['AAPL', 'TSLA', 'COIN']},
+    ]);
+
+    // TSLA is still wanted by the first listener
+    unsubscribeSecond();
+    stream.updateSymbols(first, ['TSLA', 'MSFT']);
+    expect(socket.sent.slice(1)).toEqual([
+      {type: 'unsubscribe', symbols: ['COIN']},
+      {type: 'subscribe', symbols: ['MSFT']},
+      {type: 'unsubscribe', symbols: ['AAPL']},
+    ]);
+
+    // Nothing changed, so nothing is sent
+    stream.updateSymbols(first, ['MSFT', 'TSLA']);
+    expect(socket.sent).toHaveLength(4);
+  });
+
+  it('delivers valid ticks to the listeners that asked for them', () => {
+    const applyTick = jest.spyOn(marketDataService, 'applyTick');
+    const {stream, sockets} = createStream();
+    const apple = jest.fn();
+    const tesla = jest.fn();
+    stream.subscribe(['AAPL'], apple);
+    stream.subscribe(['TSLA'], tesla);
+    sockets[0].open();
+
+    sockets[0].receive({
+      type: 'quote',
+      symbol: 'AAPL',
+      price: 180,
+      change: 1.28,
+      changePercent: 0.72,
+      timestamp: 1000,
+    });
+    sockets[0].receive({type: 'quote', symbol: 'TSLA', price: 'free'});
+    sockets[0].receive({type: 'status', symbol: 'TSLA', price: 250});
+    sockets[0].onmessage?.({data: 'not json'});
+
+    expect(apple).toHaveBeenCalledWith({
+      symbol: 'AAPL',
+      price: 180,
+      change: 1.28,
+      changePercent: 0.72,
+      timestamp: 1000,
+    });
+    expect(tesla).not.toHaveBeenCalled();
+    expect(applyTick).toHaveBeenCalledTimes(1);
+  });
+
+  it('reconnects with exponential backoff capped at the maximum', () => {
+    const {stream, sockets} = createStream();
+    stream.subscribe(['AAPL'], jest.fn());
+
+    const delays: number[] = [];
+    for (let attempt = 0; attempt < 5; attempt++) {
+      sockets[sockets.length - 1].drop();
+      const opened = sockets.length;
+      jest.advanceTimersByTime(1);
+      let waited = 1;
+      while (sockets.length === opened) {
+        jest.advanceTimersByTime(1);
+        waited += 1;
+      }
+      delays.push(waited);
+    }
+    expect(delays).toEqual([1000, 2000, 4000, 8000, 8000]);
+
+    // A successful connection starts the schedule over
+    sockets[sockets.length - 1].open();
+    sockets[sockets.length - 1].drop();
+    jest.advanceTimersByTime(999);
+    expect(sockets).toHaveLength(6);
+    jest.advanceTimersByTime(1);
+    expect(sockets).toHaveLength(7);
+  });
+
+  it('resubscribes to everything after reconnecting', () => {
+    const {stream, sockets} = createStream();
+    stream.subscribe(['AAPL', 'TSLA'], jest.fn());
+    sockets[0].open();
+    sockets[0].drop();
+
+    jest.advanceTimersByTime(1000);
+    sockets[1].open();
+
+    expect(sockets[1].sent).toEqual([
+      {type: 'subscribe', symbols: ['AAPL', 'TSLA']},
+    ]);
+  });
+
+  it('stops reconnecting once nothing is subscribed', () => {
+    const {stream, sockets} = createStream();
+    const unsubscribe = stream.subscribe(['AAPL'], jest.fn());
+    sockets[0].drop();
+
+    unsubscribe();
+    jest.advanceTimersByTime(60000);
+
+    expect(sockets).toHaveLength(1);
+  });
+
+  it('pauses in the background and resumes in the foreground', () => {
+    const addEventListener = jest.spyOn(AppState, 'addEventListener');
+    const remove = jest.fn();
+    let onChange: (state: AppStateStatus) => void = () => {};
+    addEventListener.mockImplementation((_, handler) => {
+      onChange = handler;
+      return {remove};
+    });
+    const {stream, sockets} = createStream(true);
+
+    const unsubscribe = stream.subscribe(['AAPL'], jest.fn());
+    stream.subscribe(['TSLA'], jest.fn());
+    expect(addEventListener).toHaveBeenCalledTimes(1);
+    sockets[0].open();
+
+    onChange('background');
+    expect(sockets[0].closed).toBe(true);
+    expect(stream.isConnected()).toBe(false);
+
+    // Paused sockets don't reconnect, even after a drop
+    jest.advanceTimersByTime(60000);
+    unsubscribe();
+    expect(sockets).toHaveLength(1);
+
+    onChange('active');
+    expect(sockets).toHaveLength(2);
+    sockets[1].open();
+    expect(sockets[1].sent).toEqual([{type: 'subscribe', symbols: ['TSLA']}]);
+  });
+
+  it('watches the app state for listeners given symbols after subscribing', () => {
+    const addEventListener = jest.spyOn(AppState, 'addEventListener');
+    const remove = jest.fn();
+    let onChange: (state: AppStateStatus) => void = () => {};
+    addEventListener.mockImplementation((_, handler) => {
+      onChange = handler;
+      return {remove};
+    });
+    const {stream, sockets} = createStream(true);
+    const listener = jest.fn();
+
+    stream.subscribe([], listener);
+    expect(sockets).toHaveLength(0);
+    stream.updateSymbols(listener, ['AAPL']);
+    sockets[0].open();
+    expect(addEventListener).toHaveBeenCalledTimes(1);
+
+    onChange('background');
+    expect(stream.isConnected()).toBe(false);
+    expect(remove).not.toHaveBeenCalled();
+
+    stream.updateSymbols(listener, []);
+    expect(remove).toHaveBeenCalledTimes(1);
+  });
+
+  it('stops watching the app state once nothing is subscribed', () => {
+    const remove = jest.fn();
+    jest.spyOn(AppState, 'addEventListener').mockReturnValue({remove});
+    const {stream} = createStream(true);
+
+    const unsubscribe = stream.subscribe(['AAPL'], jest.fn());
+    unsubscribe();
+
+    expect(remove).toHaveBeenCalledTimes(1);
+  });
+});
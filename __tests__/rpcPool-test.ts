@@ -0,0 +1,145 @@
+/**
+ * @jest-environment node
+ */
+
+import http from 'http';
+import {AddressInfo} from 'net';
+
+import {PublicKey} from '@solana/web3.js';
+
+import {RpcPool} from '../src/utils/rpcPool';
+
+type Handler = (method: string) => {status?: number; result?: unknown};
+
+interface MockRpcServer {
+  url: string;
+  calls: string[];
+  handler: Handler;
+  close: () => Promise<void>;
+}
+
+/**
+ * Local JSON-RPC server whose answers each test swaps out through `handler`
+ */
+function startMockRpc(): Promise<MockRpcServer> {
+  const mock = {
+    calls: [] as string[],
+    handler: (() => ({result: 0})) as Handler,
+  };
+
+  const server = http.createServer((req, res) => {
+    let raw = '';
+    req.on('data', chunk => (raw += chunk));
+    req.on('end', () => {
+      const {id, method} = JSON.parse(raw);
+      mock.calls.push(method);
+      const {status = 200, result = null} = mock.handler(method);
+      res.writeHead(status, {'Content-Type': 'application/json'});
+      res.end(JSON.stringify({jsonrpc: '2.0', id, result}));
+    });
+  });
+
+  return new Promise(resolve => {
+    server.listen(0, '127.0.0.1', () => {
+      const {port} = server.address() as AddressInfo;
+      resolve(
+        Object.assign(mock, {
+          url: `http://127.0.0.1:${port}`,
+          close: () => new Promise<void>(done => server.close(() => done())),
+        }),
+      );
+    });
+  });
+}
+
+describe('RpcPool', () => {
+  let primary: MockRpcServer;
+  let backup: MockRpcServer;
+
+  beforeAll(async () => {
+    primary = await startMockRpc();
+    backup = await startMockRpc();
+  });
+
+  afterAll(async () => {
+    await primary.close();
+    await backup.close();
+  });
+
+  beforeEach(() => {
+    primary.calls = [];
+    backup.calls = [];
+    primary.handler = () => ({result: 1000});
+    backup.handler = () => ({result: 1000});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  function createPool(): RpcPool {
+    // Keep the background health check out of the way of the request under test
+    return new RpcPool([primary.url, backup.url], {
+      healthCheckIntervalMs: 60000,
+      maxSlotLag: 50,
+    });
+  }
+
+  it('retries read-only calls on the next endpoint', async () => {
+    const pool = createPool();
+    primary.handler = () => ({status: 503});
+    backup.handler = method => ({
+      result:
+        method === 'getBalance' ? {context: {slot: 1000}, value: 5000} : 1000,
+    });
+
+    const balance = await pool.connection.getBalance(
+      new PublicKey('11111111111111111111111111111111'),
+    );
+
+    expect(balance).toBe(5000);
+    expect(primary.calls).toContain('getBalance');
+    expect(backup.calls).toContain('getBalance');
+    expect(pool.getActiveEndpoint()).toBe(backup.url);
+
+    const [best, worst] = pool.getEndpointHealth();
+    expect(best.url).toBe(backup.url);
+    expect(worst.healthy).toBe(false);
+    expect(worst.lastError).toBe('HTTP 503');
+  });
+
+  it('sends state-changing calls to one endpoint only', async () => {
+    const pool = createPool();
+    primary.handler = () => ({status: 500});
+
+    await expect(
+      pool.connection.sendRawTransaction(Buffer.from([1, 2, 3]), {
+        skipPreflight: true,
+      }),
+    ).rejects.toThrow();
+
+    expect(primary.calls).toContain('sendTransaction');
+    expect(backup.calls).not.toContain('sendTransaction');
+  });
+
+  it('marks endpoints that fall behind as unhealthy', async () => {
+    const pool = createPool();
+    const switches: string[] = [];
+    pool.subscribe(url => switches.push(url));
+    primary.handler = () => ({result: 1000});
+    backup.handler = () => ({result: 1200});
+
+    const health = await pool.checkHealth();
+
+    expect(health[0].url).toBe(backup.url);
+    expect(health[1]).toMatchObject({
+      url: primary.url,
+      healthy: false,
+      slot: 1000,
+      lastError: '200 slots behind',
+    });
+    expect(pool.getActiveEndpoint()).toBe(backup.url);
+    expect(switches).toEqual([backup.url]);
+  });
+});
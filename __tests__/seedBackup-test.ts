@@ -0,0 +1,97 @@
+/**
+ * @jest-environment node
+ */
+
+import {
+  decryptSeedBackup,
+  encryptSeedBackup,
+  isSeedBackup,
+  SEED_BACKUP_PREFIX,
+  SeedBackupError,
+} from '../src/utils/seedBackup';
+
+const contents = {
+  alias: 'sol_stocks_user',
+  secret: JSON.stringify({
+    mnemonic:
+      'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about',
+    passphrase: '',
+  }),
+  createdAt: 1700000000000,
+};
+
+const password = 'correct horse battery';
+
+async function expectFailure(
+  promise: Promise<unknown>,
+  reason: SeedBackupError['reason'],
+) {
+  const error = (await promise.catch(e => e)) as SeedBackupError;
+  expect(error).toBeInstanceOf(SeedBackupError);
+  expect(error.reason).toBe(reason);
+}
+
+const decode = (backup: string) =>
+  Buffer.from(backup.slice(SEED_BACKUP_PREFIX.length), 'base64');
+
+function tamper(backup: string, index: number, value?: number): string {
+  const bytes = decode(backup);
+  bytes[index] = value ?? (bytes[index] + 1) % 256;
+  return SEED_BACKUP_PREFIX + bytes.toString('base64');
+}
+
+describe('seed backups', () => {
+  let backup: string;
+
+  beforeAll(async () => {
+    backup = await encryptSeedBackup(contents, password);
+  });
+
+  it('round-trips the seed with the right password', async () => {
+    expect(isSeedBackup(backup)).toBe(true);
+    expect(backup).not.toContain('abandon');
+    await expect(decryptSeedBackup(`\n${backup} `, password)).resolves.toEqual(
+      contents,
+    );
+  });
+
+  it('uses a fresh salt and nonce for every backup', async () => {
+    expect(await encryptSeedBackup(contents, password)).not.toBe(backup);
+  });
+
+  it('rejects short passwords when exporting', async () => {
+    await expectFailure(encryptSeedBackup(contents, 'short'), 'password');
+  });
+
+  it('tells a wrong password apart from a damaged backup', async () => {
+    await expectFailure(
+      decryptSeedBackup(backup, 'wrong password'),
+      'password',
+    );
+    // A changed byte in the salt, in the ciphertext and in the checksum
+    await expectFailure(
+      decryptSeedBackup(tamper(backup, 10), password),
+      'corrupted',
+    );
+    await expectFailure(
+      decryptSeedBackup(tamper(backup, 60), password),
+      'corrupted',
+    );
+    await expectFailure(
+      decryptSeedBackup(tamper(backup, decode(backup).length - 1), password),
+      'corrupted',
+    );
+    await expectFailure(
+      decryptSeedBackup(backup.slice(0, 60), password),
+      'corrupted',
+    );
+  });
+
+  it('rejects text that is not a backup and backups from newer versions', async () => {
+    await expectFailure(decryptSeedBackup('hello', password), 'format');
+    await expectFailure(
+      decryptSeedBackup(tamper(backup, 0, 2), password),
+      'version',
+    );
+  });
+});
@@ -0,0 +1,121 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import {SeedRegistry} from '../src/utils/seedRegistry';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock'),
+);
+
+const account = {
+  publicKey: 'HSQLW6Kzj7GwKnTv1Kd8FVXC2MYWDUQ5zswBgbqhHtHa',
+  derivationPath: "m/44'/501'/0'/0'",
+};
+
+describe('seed registry', () => {
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+  });
+
+  it('keeps creation time and label when a seed is used', async () => {
+    const registry = new SeedRegistry();
+    await registry.register({alias: 'main', createdAt: 1000, ...account});
+    await registry.rename('main', 'Savings');
+    await registry.touch('main');
+
+    const record = await registry.get('main');
+    expect(record).toMatchObject({
+      alias: 'main',
+      label: 'Savings',
+      createdAt: 1000,
+      ...account,
+    });
+    expect(record!.lastUsed).toBeGreaterThan(1000);
+
+    // Persisted, not just cached
+    expect(await new SeedRegistry().get('main')).toEqual(record);
+  });
+
+  it('imports only the records the vault wrote before the registry', async () => {
+    await AsyncStorage.multiSet([
+      [
+        'sol_stocks_seed_main_metadata',
+        JSON.stringify({alias: 'main', createdAt: 1000, lastUsed: 2000}),
+      ],
+      // Reads used to drop createdAt
+      [
+        'sol_stocks_seed_old_metadata',
+        JSON.stringify({alias: 'old', lastUsed: 3000}),
+      ],
+      ['sol_stocks_seed_main_accounts', JSON.stringify([0, 1])],
+      ['sol_stocks_seed_signer', JSON.stringify({alias: 'main'})],
+      ['other_sol_stocks_seed_x_metadata', JSON.stringify({alias: 'x'})],
+    ]);
+
+    const seeds = await new SeedRegistry().list();
+    expect(seeds.map(seed => [seed.alias, seed.createdAt])).toEqual([
+      ['main', 1000],
+      ['old', 3000],
+    ]);
+    expect(seeds[0]).toMatchObject({label: 'main', publicKey: null});
+
+    const keys = await AsyncStorage.getAllKeys();
+    expect(keys).not.toContain('sol_stocks_seed_main_metadata');
+    expect(keys).toEqual(
+      expect.arrayContaining([
+        'sol_stocks_seed_main_accounts',
+        'sol_stocks_seed_signer',
+        'other_sol_stocks_seed_x_metadata',
+      ]),
+    );
+  });
+
+  it('fills in the first account of an imported seed once', async () => {
+    await AsyncStorage.setItem(
+      'sol_stocks_seed_main_metadata',
+      JSON.stringify({alias: 'main', createdAt: 1000, lastUsed: 2000}),
+    );
+    const registry = new SeedRegistry();
+
+    await registry.touch('main', account);
+    await registry.touch('main', {publicKey: 'other', derivationPath: null});
+
+    expect(await registry.get('main')).toMatchObject(account);
+  });
+
+  it('refuses empty, overlong and duplicate names', async () => {
+    const registry = new SeedRegistry();
+    await registry.register({alias: 'a', createdAt: 1, ...account});
+    await registry.register({alias: 'b', createdAt: 2, ...account});
+    await registry.rename('a', 'Trading');
+
+    await expect(registry.rename('b', '  ')).rejects.toThrow('empty');
+    await expect(registry.rename('b', 'x'.repeat(33))).rejects.toThrow(
+      'at most',
+    );
+    await expect(registry.rename('b', 'trading')).rejects.toThrow(
+      'already named',
+    );
+    await expect(registry.rename('missing', 'New')).rejects.toThrow('No seed');
+    expect((await registry.get('b'))!.label).toBe('b');
+  });
+
+  it('applies concurrent changes without losing any', async () => {
+    const registry = new SeedRegistry();
+    await Promise.all([
+      registry.register({alias: 'a', createdAt: 1, ...account}),
+      registry.register({alias: 'b', createdAt: 2, ...account}),
+      registry.register({alias: 'c', createdAt: 3, ...account}),
+    ]);
+    await Promise.all([
+      registry.rename('a', 'First'),
+      registry.remove('b'),
+      registry.touch('c'),
+    ]);
+
+    const seeds = await new SeedRegistry().list();
+    expect(seeds.map(seed => [seed.alias, seed.label])).toEqual([
+      ['a', 'First'],
+      ['c', 'c'],
+    ]);
+  });
+});
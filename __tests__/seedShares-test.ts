@@ -0,0 +1,112 @@
+/**
+ * @jest-environment node
+ */
+
+import {
+  combineSeedShares,
+  parseSeedShare,
+  SEED_SHARE_PREFIX,
+  SeedShareError,
+  splitSeedSecret,
+} from '../src/utils/seedShares';
+
+const contents = {
+  alias: 'sol_stocks_user',
+  secret: JSON.stringify({
+    mnemonic:
+      'legal winner thank year wave sausage worth useful legal winner thank yellow',
+    passphrase: 'guardians',
+  }),
+  createdAt: 1700000000000,
+};
+
+function expectFailure(
+  combine: () => unknown,
+  reason: SeedShareError['reason'],
+) {
+  let error: unknown;
+  try {
+    combine();
+  } catch (e) {
+    error = e;
+  }
+  expect(error).toBeInstanceOf(SeedShareError);
+  expect((error as SeedShareError).reason).toBe(reason);
+}
+
+function combinations<T>(items: T[], size: number): T[][] {
+  if (size === 0) {
+    return [[]];
+  }
+  return items.flatMap((item, i) =>
+    combinations(items.slice(i + 1), size - 1).map(rest => [item, ...rest]),
+  );
+}
+
+describe('seed shares', () => {
+  const shares = splitSeedSecret(contents, 3, 5);
+
+  it('describes each share', () => {
+    expect(shares).toHaveLength(5);
+    const infos = shares.map(parseSeedShare);
+    expect(infos.map(info => info.index)).toEqual([1, 2, 3, 4, 5]);
+    expect(new Set(infos.map(info => info.setId)).size).toBe(1);
+    expect(infos[0]).toMatchObject({threshold: 3, shareCount: 5});
+  });
+
+  it('rebuilds the seed from any threshold of shares in any order', () => {
+    for (const subset of combinations(shares, 3)) {
+      expect(combineSeedShares(subset)).toEqual(contents);
+      expect(combineSeedShares([...subset].reverse())).toEqual(contents);
+    }
+    expect(combineSeedShares(shares)).toEqual(contents);
+  });
+
+  it('handles the smallest and largest splits', () => {
+    const pair = splitSeedSecret(contents, 2, 2);
+    expect(combineSeedShares(pair)).toEqual(contents);
+
+    const many = splitSeedSecret(contents, 16, 16);
+    expect(combineSeedShares(many)).toEqual(contents);
+    expectFailure(() => combineSeedShares(many.slice(1)), 'insufficient');
+  });
+
+  it('needs the threshold of distinct shares', () => {
+    expectFailure(() => combineSeedShares(shares.slice(0, 2)), 'insufficient');
+    expectFailure(
+      () => combineSeedShares([shares[0], shares[0], shares[1]]),
+      'insufficient',
+    );
+    expectFailure(() => combineSeedShares([]), 'insufficient');
+  });
+
+  it('detects shares from different splits', () => {
+    const other = splitSeedSecret(contents, 3, 5);
+    expectFailure(
+      () => combineSeedShares([shares[0], shares[1], other[2]]),
+      'mismatch',
+    );
+  });
+
+  it('detects damaged shares', () => {
+    const bytes = Buffer.from(
+      shares[2].slice(SEED_SHARE_PREFIX.length),
+      'base64',
+    );
+    bytes[20] = (bytes[20] + 1) % 256;
+    const damaged = SEED_SHARE_PREFIX + bytes.toString('base64');
+
+    expectFailure(() => parseSeedShare(damaged), 'corrupted');
+    expectFailure(
+      () => combineSeedShares([shares[0], shares[1], damaged]),
+      'corrupted',
+    );
+    expectFailure(() => parseSeedShare('solstocks-backup:abc'), 'format');
+  });
+
+  it('refuses impossible splits', () => {
+    expectFailure(() => splitSeedSecret(contents, 1, 3), 'format');
+    expectFailure(() => splitSeedSecret(contents, 4, 3), 'format');
+    expectFailure(() => splitSeedSecret(contents, 2, 17), 'format');
+  });
+});
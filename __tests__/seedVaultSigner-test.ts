@@ -0,0 +1,177 @@
+/**
+ * @jest-environment node
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {Keypair, SystemProgram, Transaction} from '@solana/web3.js';
+import nacl from 'tweetnacl';
+
+import {biometricService} from '../src/utils/biometrics';
+import {priorityFeeService} from '../src/utils/priorityFees';
+import {SeedVaultUtils, seedVaultService} from '../src/utils/seedVault';
+import {SeedVaultSigner} from '../src/utils/seedVaultSigner';
+import {TransactionLifecycleError} from '../src/utils/transactionLifecycle';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock'),
+);
+
+const keypairs = [Keypair.generate(), Keypair.generate()];
+const accounts = keypairs.map((keypair, accountIndex) => ({
+  accountIndex,
+  publicKey: keypair.publicKey.toBase58(),
+}));
+
+describe('seed vault signer', () => {
+  const spies: jest.SpyInstance[] = [];
+  let authenticate: jest.SpyInstance;
+
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+    authenticate = jest
+      .spyOn(biometricService, 'authenticateWithBiometrics')
+      .mockResolvedValue(true);
+    spies.push(
+      authenticate,
+      jest
+        .spyOn(biometricService, 'isBiometricAvailable')
+        .mockResolvedValue(true),
+      jest.spyOn(seedVaultService, 'hasSeed').mockResolvedValue(true),
+      jest
+        .spyOn(seedVaultService, 'recoverUserKeypair')
+        .mockImplementation(
+          async (_, accountIndex = 0) => keypairs[accountIndex],
+        ),
+      jest.spyOn(SeedVaultUtils, 'setupUserWallet').mockResolvedValue({
+        publicKey: accounts[0].publicKey,
+        isNewWallet: false,
+        accounts,
+      }),
+      jest.spyOn(console, 'error').mockImplementation(() => {}),
+    );
+  });
+
+  afterEach(() => {
+    spies.splice(0).forEach(spy => spy.mockRestore());
+  });
+
+  async function connected(): Promise<SeedVaultSigner> {
+    const signer = new SeedVaultSigner();
+    await signer.connect();
+    return signer;
+  }
+
+  it('connects behind biometrics and restores without them', async () => {
+    const signer = await connected();
+
+    expect(authenticate).toHaveBeenCalledTimes(1);
+    expect(signer.getSession()).toMatchObject({
+      accounts: [
+        {publicKey: keypairs[0].publicKey, label: 'Account 1'},
+        {publicKey: keypairs[1].publicKey, label: 'Account 2'},
+      ],
+      selectedAccount: {publicKey: keypairs[0].publicKey},
+      transactionVersion: 0,
+    });
+
+    const restored = await new SeedVaultSigner().restoreSession();
+    expect(restored).toEqual(keypairs[0].publicKey);
+    expect(authenticate).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not open the vault when biometrics are declined', async () => {
+    authenticate.mockResolvedValueOnce(false);
+
+    expect(await new SeedVaultSigner().connect()).toBeNull();
+    expect(SeedVaultUtils.setupUserWallet).not.toHaveBeenCalled();
+  });
+
+  it('does not restore a session whose seed is gone', async () => {
+    await connected();
+    jest.mocked(seedVaultService.hasSeed).mockResolvedValue(false);
+
+    expect(await new SeedVaultSigner().restoreSession()).toBeNull();
+  });
+
+  it('switches only between its own accounts', async () => {
+    const signer = await connected();
+    const listener = jest.fn();
+    signer.subscribe(listener);
+
+    await signer.selectAccount(keypairs[1].publicKey);
+    expect(signer.getSession().selectedAccount?.publicKey).toEqual(
+      keypairs[1].publicKey,
+    );
+    expect(listener).toHaveBeenCalledTimes(1);
+
+    await expect(
+      signer.selectAccount(Keypair.generate().publicKey),
+    ).rejects.toThrow('Account does not belong to the on-device wallet');
+  });
+
+  it('signs with the selected account, keeping what a co-signer signed over', async () => {
+    const signer = await connected();
+    await signer.selectAccount(keypairs[1].publicKey);
+    const coSigner = Keypair.generate();
+    const blockhash = Keypair.generate().publicKey.toBase58();
+    const transaction = new Transaction({
+      feePayer: keypairs[1].publicKey,
+      recentBlockhash: blockhash,
+    }).add(
+      SystemProgram.transfer({
+        fromPubkey: coSigner.publicKey,
+        toPubkey: keypairs[1].publicKey,
+        lamports: 1000,
+      }),
+    );
+    transaction.partialSign(coSigner);
+
+    const signed = await signer.signTransaction(transaction);
+
+    expect(signed!.recentBlockhash).toBe(blockhash);
+    expect(signed!.verifySignatures()).toBe(true);
+  });
+
+  it('signs messages with the selected account', async () => {
+    const signer = await connected();
+    const message = new TextEncoder().encode('Sign in to Sol Stocks');
+
+    const signed = await signer.signMessage(message);
+
+    expect(signed!.slice(0, message.length)).toEqual(message);
+    expect(
+      nacl.sign.detached.verify(
+        message,
+        signed!.slice(message.length),
+        keypairs[0].publicKey.toBytes(),
+      ),
+    ).toBe(true);
+  });
+
+  it('reports a declined approval as a rejected transaction', async () => {
+    const signer = await connected();
+    spies.push(
+      jest
+        .spyOn(priorityFeeService, 'ensurePriorityFee')
+        .mockResolvedValue(undefined),
+    );
+    authenticate.mockResolvedValueOnce(false);
+    const transaction = new Transaction({
+      recentBlockhash: Keypair.generate().publicKey.toBase58(),
+    }).add(
+      SystemProgram.transfer({
+        fromPubkey: keypairs[0].publicKey,
+        toPubkey: Keypair.generate().publicKey,
+        lamports: 1000,
+      }),
+    );
+
+    const error = await signer
+      .signAndSendTransaction(transaction, 'Buy')
+      .catch(reason => reason);
+
+    expect(error).toBeInstanceOf(TransactionLifecycleError);
+    expect(error).toMatchObject({status: 'rejected'});
+    expect(transaction.feePayer).toEqual(keypairs[0].publicKey);
+  });
+});
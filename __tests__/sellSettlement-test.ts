@@ -0,0 +1,232 @@
+/**
+ * @jest-environment node
+ */
+
+import {
+  ComputeBudgetProgram,
+  Connection,
+  Keypair,
+  PublicKey,
+  SystemProgram,
+  Transaction,
+  TransactionInstruction,
+} from '@solana/web3.js';
+
+import {
+  SellOrder,
+  SellSettlementService,
+  SettlementProvider,
+} from '../src/utils/sellSettlement';
+import {createMemoInstruction, encodeTradeMemo} from '../src/utils/tradeMemo';
+import {tradeLedger} from '../src/utils/tradeLedger';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock'),
+);
+
+const treasury = Keypair.generate();
+
+// Restoring every mock would also strip the AsyncStorage mock the ledger writes to
+beforeAll(() => {
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterAll(() => {
+  jest.mocked(console.error).mockRestore();
+});
+
+function createOrder(): SellOrder {
+  return {
+    reference: Keypair.generate().publicKey.toBase58(),
+    wallet: Keypair.generate().publicKey.toBase58(),
+    stockSymbol: 'AAPL',
+    stockPrice: 180,
+    quantity: 1,
+    totalUSD: 180,
+    grossSOL: 1.8,
+    feeSOL: 0.018,
+    netSOL: 1.782,
+    netLamports: 1782000000,
+    solPriceUSD: 100,
+    category: 'traditional',
+    costBasisMethod: 'fifo',
+    createdAt: Date.now(),
+  };
+}
+
+function payout(order: SellOrder, lamports = order.netLamports) {
+  const instruction = SystemProgram.transfer({
+    fromPubkey: treasury.publicKey,
+    toPubkey: new PublicKey(order.wallet),
+    lamports,
+  });
+  instruction.keys.push({
+    pubkey: new PublicKey(order.reference),
+    isSigner: false,
+    isWritable: false,
+  });
+  return instruction;
+}
+
+/**
+ * The payout a treasury would return, with the sell memo and a modest priority fee
+ * unless the test passes its own instructions
+ */
+function settlement(
+  order: SellOrder,
+  instructions: TransactionInstruction[] = [
+    ComputeBudgetProgram.setComputeUnitLimit({units: 20000}),
+    ComputeBudgetProgram.setComputeUnitPrice({microLamports: 5000}),
+    createMemoInstruction(
+      encodeTradeMemo({
+        side: 'sell',
+        symbol: order.stockSymbol,
+        quantity: order.quantity,
+        paymentMethod: 'SOL',
+        priceUSD: order.stockPrice,
+      }),
+      [new PublicKey(order.wallet)],
+    ),
+    payout(order),
+  ],
+): Transaction {
+  const transaction = new Transaction({
+    feePayer: new PublicKey(order.wallet),
+    recentBlockhash: Keypair.generate().publicKey.toBase58(),
+  }).add(...instructions);
+  transaction.partialSign(treasury);
+  return transaction;
+}
+
+/**
+ * A service settling through a provider that returns `build(order)`, on a connection
+ * where each reference is found in the transaction the test lands for it
+ */
+function createService(build: (order: SellOrder) => Transaction = settlement) {
+  const landed = new Map<string, Transaction>();
+  const connection = {
+    getSignaturesForAddress: jest.fn(async (reference: PublicKey) =>
+      landed.has(reference.toBase58())
+        ? [{signature: reference.toBase58(), err: null}]
+        : [],
+    ),
+    getTransaction: jest.fn(async (signature: string) => {
+      const transaction = landed.get(signature);
+      return transaction
+        ? {
+            meta: {err: null},
+            transaction: {message: transaction.compileMessage()},
+          }
+        : null;
+    }),
+  };
+  const provider: SettlementProvider = {
+    settleSell: jest.fn(async order => build(order)),
+  };
+  const service = new SellSettlementService(
+    connection as unknown as Connection,
+    provider,
+  );
+  const land = (order: SellOrder, transaction: Transaction) =>
+    landed.set(order.reference, transaction);
+  return {service, land};
+}
+
+describe('sell settlement checks', () => {
+  it('accepts a payout of exactly the quoted amount', async () => {
+    const {service} = createService();
+    const order = createOrder();
+
+    const transaction = await service.requestSettlement(order);
+
+    expect(transaction.instructions).toHaveLength(4);
+    expect(
+      await tradeLedger.getEntry(order.wallet, order.reference),
+    ).toMatchObject({type: 'sell', status: 'pending'});
+  });
+
+  it('rejects a payout of the wrong amount', async () => {
+    const {service} = createService(order =>
+      settlement(order, [payout(order, order.netLamports - 1)]),
+    );
+
+    await expect(service.requestSettlement(createOrder())).rejects.toThrow(
+      'Settlement payout does not match the sell order',
+    );
+  });
+
+  it('rejects a payout with instructions beyond the transfer', async () => {
+    const {service} = createService(order =>
+      settlement(order, [
+        payout(order),
+        new TransactionInstruction({
+          programId: Keypair.generate().publicKey,
+          keys: [
+            {
+              pubkey: new PublicKey(order.wallet),
+              isSigner: true,
+              isWritable: true,
+            },
+          ],
+          data: Buffer.alloc(0),
+        }),
+      ]),
+    );
+
+    await expect(service.requestSettlement(createOrder())).rejects.toThrow(
+      'Settlement contains an unexpected instruction',
+    );
+  });
+
+  it('rejects a priority fee over the cap', async () => {
+    const {service} = createService(order =>
+      settlement(order, [
+        ComputeBudgetProgram.setComputeUnitLimit({units: 200000}),
+        ComputeBudgetProgram.setComputeUnitPrice({microLamports: 30000000}),
+        payout(order),
+      ]),
+    );
+
+    await expect(service.requestSettlement(createOrder())).rejects.toThrow(
+      'Settlement priority fee is too high',
+    );
+  });
+
+  it('refuses to sell where there is no treasury', async () => {
+    const {service} = createService();
+    service.setProvider(null);
+
+    expect(service.canSell()).toBe(false);
+    await expect(service.requestSettlement(createOrder())).rejects.toThrow(
+      'Selling is unavailable on this network',
+    );
+  });
+});
+
+describe('pending sale confirmation', () => {
+  it('confirms a sale once its payout lands', async () => {
+    const {service, land} = createService();
+    const order = createOrder();
+    land(order, await service.requestSettlement(order));
+
+    await service.confirmPendingSales(new PublicKey(order.wallet));
+
+    expect(
+      await tradeLedger.getEntry(order.wallet, order.reference),
+    ).toMatchObject({status: 'confirmed', signature: order.reference});
+  });
+
+  it('leaves a sale pending while nothing pays it out', async () => {
+    const {service, land} = createService();
+    const order = createOrder();
+    await service.requestSettlement(order);
+    // Anyone can tag a transfer with the reference
+    land(order, settlement(order, [payout(order, 1000)]));
+
+    await service.confirmPendingSales(new PublicKey(order.wallet));
+
+    expect(
+      await tradeLedger.getEntry(order.wallet, order.reference),
+    ).toMatchObject({status: 'pending'});
+  });
+});
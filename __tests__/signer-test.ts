@@ -0,0 +1,217 @@
+/**
+ * @jest-environment node
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {Connection, Keypair, PublicKey, Transaction} from '@solana/web3.js';
+
+import {
+  WalletSession,
+  WalletSessionListener,
+} from '../src/utils/mobileWalletAdapter';
+import {networkSettingsService} from '../src/utils/networkSettings';
+import {SignerKind, SignerService} from '../src/utils/signer';
+import {tradeLedger} from '../src/utils/tradeLedger';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock'),
+);
+
+/**
+ * A signer whose connection and selected account the test controls
+ */
+function createSigner(kind: SignerKind) {
+  const publicKey = Keypair.generate().publicKey;
+  const listeners = new Set<WalletSessionListener>();
+  let session: WalletSession = {
+    accounts: [],
+    selectedAccount: null,
+    transactionVersion: 0,
+  };
+
+  const signer = {
+    kind,
+    restoreSession: jest.fn(
+      async () => session.selectedAccount?.publicKey ?? null,
+    ),
+    connect: jest.fn(async (): Promise<PublicKey | null> => {
+      select();
+      return publicKey;
+    }),
+    disconnect: jest.fn(async () => {}),
+    getSession: () => session,
+    selectAccount: jest.fn(async () => {}),
+    subscribe: (listener: WalletSessionListener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    signTransaction: jest.fn(),
+    signAndSendTransaction: jest.fn(async () => `${kind}-signature`),
+    signMessage: jest.fn(async () => null),
+  };
+
+  function select() {
+    const account = {address: publicKey.toBase58(), publicKey};
+    session = {...session, accounts: [account], selectedAccount: account};
+    listeners.forEach(listener => listener(session));
+  }
+
+  return {signer, publicKey, select};
+}
+
+function createService() {
+  const wallet = createSigner('wallet');
+  const seedVault = createSigner('seedVault');
+  return {
+    wallet,
+    seedVault,
+    service: new SignerService([wallet.signer, seedVault.signer]),
+  };
+}
+
+describe('signer selection', () => {
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+  });
+
+  it('signs with the signer connected last, and restores it on the next start', async () => {
+    const {seedVault, service} = createService();
+
+    await service.connect('seedVault');
+    const signature = await service.signAndSendTransaction(
+      new Transaction(),
+      'Buy',
+    );
+
+    expect(service.getKind()).toBe('seedVault');
+    expect(signature).toBe('seedVault-signature');
+
+    const restarted = createService();
+    await restarted.service.restoreSession();
+    expect(restarted.service.getKind()).toBe('seedVault');
+    expect(restarted.seedVault.signer.restoreSession).toHaveBeenCalled();
+    expect(restarted.wallet.signer.restoreSession).not.toHaveBeenCalled();
+    expect(seedVault.signer.connect).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps the current signer when connecting another is cancelled', async () => {
+    const {seedVault, service} = createService();
+    seedVault.signer.connect.mockResolvedValueOnce(null);
+
+    expect(await service.connect('seedVault')).toBeNull();
+    expect(service.getKind()).toBe('wallet');
+  });
+
+  it('falls back to the wallet for an unknown stored signer', async () => {
+    await AsyncStorage.setItem('sol_stocks_signer_kind', 'ledger');
+    const {wallet, service} = createService();
+
+    await service.restoreSession();
+
+    expect(service.getKind()).toBe('wallet');
+    expect(wallet.signer.restoreSession).toHaveBeenCalled();
+  });
+
+  it('only passes on sessions from the active signer', async () => {
+    const {wallet, seedVault, service} = createService();
+    const listener = jest.fn();
+    service.subscribe(listener);
+
+    seedVault.select();
+    expect(listener).not.toHaveBeenCalled();
+
+    wallet.select();
+    expect(listener).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        selectedAccount: expect.objectContaining({publicKey: wallet.publicKey}),
+      }),
+    );
+
+    // Switching signers is itself a session change
+    await service.connect('seedVault');
+    expect(service.getSession().selectedAccount?.publicKey).toEqual(
+      seedVault.publicKey,
+    );
+    expect(listener).toHaveBeenLastCalledWith(service.getSession());
+  });
+});
+
+describe('airdrops', () => {
+  const connection = {
+    getLatestBlockhash: jest.fn(async () => ({
+      blockhash: 'blockhash',
+      lastValidBlockHeight: 150,
+    })),
+    requestAirdrop: jest.fn(async () => 'airdrop-signature'),
+    confirmTransaction: jest.fn(async () => ({
+      context: {slot: 1},
+      value: {err: null as unknown},
+    })),
+  };
+  const spies: jest.SpyInstance[] = [];
+
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+    spies.push(
+      jest
+        .spyOn(networkSettingsService, 'getConnection')
+        .mockReturnValue(connection as unknown as Connection),
+      jest
+        .spyOn(networkSettingsService, 'supportsAirdrop')
+        .mockReturnValue(true),
+      jest.spyOn(console, 'error').mockImplementation(() => {}),
+    );
+  });
+
+  afterEach(() => {
+    spies.splice(0).forEach(spy => spy.mockRestore());
+    jest.clearAllMocks();
+  });
+
+  it('confirms an airdrop before the blockhash it was requested under expires', async () => {
+    const {wallet, service} = createService();
+    wallet.select();
+
+    expect(await service.requestAirdrop(1)).toBe('airdrop-signature');
+
+    expect(connection.requestAirdrop).toHaveBeenCalledWith(
+      wallet.publicKey,
+      1000000000,
+    );
+    expect(connection.confirmTransaction).toHaveBeenCalledWith({
+      signature: 'airdrop-signature',
+      blockhash: 'blockhash',
+      lastValidBlockHeight: 150,
+    });
+    expect(await tradeLedger.getEntries(wallet.publicKey, 'airdrop')).toEqual([
+      expect.objectContaining({amountSOL: 1, status: 'confirmed'}),
+    ]);
+  });
+
+  it('records nothing for an airdrop that failed on chain', async () => {
+    const {wallet, service} = createService();
+    wallet.select();
+    connection.confirmTransaction.mockResolvedValueOnce({
+      context: {slot: 1},
+      value: {err: {InstructionError: [0, 'Custom']}},
+    });
+
+    expect(await service.requestAirdrop(1)).toBeNull();
+    expect(await tradeLedger.getEntries(wallet.publicKey, 'airdrop')).toEqual(
+      [],
+    );
+  });
+
+  it('refuses airdrops where the network has none', async () => {
+    const {wallet, service} = createService();
+    wallet.select();
+    jest.mocked(networkSettingsService.supportsAirdrop).mockReturnValue(false);
+
+    await expect(service.requestAirdrop(1)).rejects.toThrow(
+      'Airdrops are not available',
+    );
+    expect(connection.requestAirdrop).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,376 @@
+/**
+ * @jest-environment node
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {parseURL, TransferRequestURL} from '@solana/pay';
+import {
+  ASSOCIATED_TOKEN_PROGRAM_ID,
+  decodeTransferCheckedInstruction,
+  getAssociatedTokenAddress,
+  MINT_SIZE,
+  MintLayout,
+  TOKEN_PROGRAM_ID,
+} from '@solana/spl-token';
+import {
+  AccountInfo,
+  Connection,
+  Keypair,
+  PublicKey,
+  SystemInstruction,
+  Transaction,
+} from '@solana/web3.js';
+
+import {priceOracleService} from '../src/utils/priceOracle';
+import {priorityFeeService} from '../src/utils/priorityFees';
+import {
+  SolanaPayService,
+  StockPurchasePayment,
+} from '../src/utils/solanaPayIntegration';
+import {BONK_MINT, PROJECT_TREASURY} from '../src/utils/solanaConfig';
+import {tradeLedger} from '../src/utils/tradeLedger';
+import {AnyTransaction} from '../src/utils/versionedTransactions';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock'),
+);
+
+const BONK_DECIMALS = 5;
+
+const wallet = Keypair.generate().publicKey;
+
+// 180 USD at 100 USD per SOL and 0.00002 USD per BONK
+const payment: StockPurchasePayment = {
+  stockSymbol: 'AAPL',
+  stockPrice: 180,
+  quantity: 1,
+  totalUSD: 180,
+  solAmount: 1.8,
+  bonkAmount: 9000000,
+  feeSOL: 0.0045,
+  feeBONK: 22500,
+  solPriceUSD: 100,
+  category: 'traditional',
+};
+
+function account(
+  owner: PublicKey,
+  data = Buffer.alloc(0),
+): AccountInfo<Buffer> {
+  return {owner, data, lamports: 2039280, executable: false};
+}
+
+function bonkMint(): AccountInfo<Buffer> {
+  const data = Buffer.alloc(MINT_SIZE);
+  MintLayout.encode(
+    {
+      mintAuthorityOption: 0,
+      mintAuthority: PublicKey.default,
+      supply: BigInt(0),
+      decimals: BONK_DECIMALS,
+      isInitialized: true,
+      freezeAuthorityOption: 0,
+      freezeAuthority: PublicKey.default,
+    },
+    data,
+  );
+  return account(TOKEN_PROGRAM_ID, data);
+}
+
+/**
+ * A service on a connection where the wallet holds `balance` BONK base units
+ * and the treasury has a BONK account unless `treasuryAccount` is false
+ * Each reference is found in the transaction the test lands for it, which pays
+ * the treasury `lamports`
+ */
+async function createService({
+  balance = BigInt(0),
+  treasuryAccount = true,
+} = {}) {
+  const accounts = new Map([
+    [BONK_MINT.toBase58(), bonkMint()],
+    [
+      (await getAssociatedTokenAddress(BONK_MINT, wallet)).toBase58(),
+      account(TOKEN_PROGRAM_ID),
+    ],
+  ]);
+  if (treasuryAccount) {
+    accounts.set(
+      (
+        await getAssociatedTokenAddress(BONK_MINT, PROJECT_TREASURY, true)
+      ).toBase58(),
+      account(TOKEN_PROGRAM_ID),
+    );
+  }
+
+  const landed = new Map<
+    string,
+    {transaction: Transaction; lamports: number}
+  >();
+  const connection = {
+    getAccountInfo: jest.fn(
+      async (address: PublicKey) => accounts.get(address.toBase58()) ?? null,
+    ),
+    getTokenAccountBalance: jest.fn(async () => ({
+      context: {slot: 1},
+      value: {
+        amount: balance.toString(),
+        decimals: BONK_DECIMALS,
+        uiAmount: null,
+      },
+    })),
+    getLatestBlockhash: jest.fn(async () => ({
+      blockhash: Keypair.generate().publicKey.toBase58(),
+      lastValidBlockHeight: 150,
+    })),
+    getSignaturesForAddress: jest.fn(async (reference: PublicKey) =>
+      landed.has(reference.toBase58())
+        ? [{signature: reference.toBase58(), err: null}]
+        : [],
+    ),
+    getTransaction: jest.fn(async (signature: string) => {
+      const landing = landed.get(signature);
+      if (!landing) {
+        return null;
+      }
+      const message = landing.transaction.compileMessage();
+      return {
+        meta: {
+          err: null,
+          preBalances: message.accountKeys.map(() => 0),
+          postBalances: message.accountKeys.map(key =>
+            key.equals(PROJECT_TREASURY) ? landing.lamports : 0,
+          ),
+        },
+        transaction: {message},
+      };
+    }),
+  };
+  const service = new SolanaPayService();
+  service.setConnection(connection as unknown as Connection);
+  const land = (
+    reference: PublicKey,
+    transaction: AnyTransaction,
+    lamports: number,
+  ) =>
+    landed.set(reference.toBase58(), {
+      transaction: transaction as Transaction,
+      lamports,
+    });
+  return {service, land};
+}
+
+async function payInBonk(service: SolanaPayService, quote = payment) {
+  const {transaction, reference} = await service.createStockPurchaseTransaction(
+    wallet,
+    quote,
+    'BONK',
+  );
+  return {instructions: (transaction as Transaction).instructions, reference};
+}
+
+const spies: jest.SpyInstance[] = [];
+
+beforeEach(async () => {
+  await AsyncStorage.clear();
+  spies.push(
+    jest.spyOn(priceOracleService, 'getSolPriceUSD').mockResolvedValue(100),
+    jest
+      .spyOn(priceOracleService, 'getBonkPriceUSD')
+      .mockResolvedValue(0.00002),
+    jest.spyOn(priorityFeeService, 'addPriorityFee').mockResolvedValue({
+      speed: 'standard',
+      computeUnits: 200000,
+      microLamportsPerComputeUnit: 0,
+      priorityFeeLamports: 0,
+    }),
+    jest.spyOn(console, 'error').mockImplementation(() => {}),
+  );
+});
+
+afterEach(() => {
+  spies.splice(0).forEach(spy => spy.mockRestore());
+});
+
+describe('BONK payments', () => {
+  it('quotes a purchase and its fee in BONK at the oracle prices', async () => {
+    const {service} = await createService();
+
+    const quote = await service.createStockPurchasePayment('AAPL', 180, 1);
+
+    expect(quote.solAmount).toBeCloseTo(1.8);
+    expect(quote.feeSOL).toBeCloseTo(0.0045);
+    expect(quote.bonkAmount).toBeCloseTo(9000000);
+    expect(quote.feeBONK).toBeCloseTo(22500);
+  });
+
+  it('quotes SOL only when BONK has no price', async () => {
+    const {service} = await createService();
+    jest.mocked(priceOracleService.getBonkPriceUSD).mockResolvedValue(null);
+    const unpriced = await service.createStockPurchasePayment('AAPL', 180, 1);
+    jest
+      .mocked(priceOracleService.getBonkPriceUSD)
+      .mockRejectedValue(new Error('Price feed is stale'));
+    const stale = await service.createStockPurchasePayment('AAPL', 180, 1);
+
+    for (const quote of [unpriced, stale]) {
+      expect(quote.solAmount).toBeCloseTo(1.8);
+      expect(quote.bonkAmount).toBeUndefined();
+      expect(quote.feeBONK).toBeUndefined();
+    }
+  });
+
+  it('asks payment links for the BONK total at the mint decimals', async () => {
+    const {service} = await createService();
+
+    const {url} = await service.createStockPurchaseURL(wallet, payment, 'BONK');
+
+    const request = parseURL(url) as TransferRequestURL;
+    expect(request.splToken?.equals(BONK_MINT)).toBe(true);
+    expect(request.amount?.toFixed()).toBe('9022500');
+  });
+
+  it('pays in BONK with checked transfers from the wallet token account', async () => {
+    const {service} = await createService({balance: BigInt(902250000000)});
+    const sourceAccount = await getAssociatedTokenAddress(BONK_MINT, wallet);
+    const treasuryAccount = await getAssociatedTokenAddress(
+      BONK_MINT,
+      PROJECT_TREASURY,
+      true,
+    );
+
+    const {instructions} = await payInBonk(service);
+
+    const transfers = instructions
+      .slice(1)
+      .map(instruction => decodeTransferCheckedInstruction(instruction));
+    expect(transfers.map(({data}) => [data.amount, data.decimals])).toEqual([
+      [BigInt(900000000000), BONK_DECIMALS],
+      [BigInt(2250000000), BONK_DECIMALS],
+    ]);
+    for (const {keys} of transfers) {
+      expect(keys.source.pubkey).toEqual(sourceAccount);
+      expect(keys.mint.pubkey).toEqual(BONK_MINT);
+      expect(keys.destination.pubkey).toEqual(treasuryAccount);
+      expect(keys.owner.pubkey).toEqual(wallet);
+    }
+  });
+
+  it('creates the treasury token account when it does not exist yet', async () => {
+    const {service} = await createService({
+      balance: BigInt(902250000000),
+      treasuryAccount: false,
+    });
+
+    const {instructions} = await payInBonk(service);
+
+    expect(instructions).toHaveLength(4);
+    expect(instructions[1].programId).toEqual(ASSOCIATED_TOKEN_PROGRAM_ID);
+    expect(instructions[1].keys[1].pubkey).toEqual(
+      await getAssociatedTokenAddress(BONK_MINT, PROJECT_TREASURY, true),
+    );
+  });
+
+  it('refuses a payment the BONK balance cannot cover', async () => {
+    const {service} = await createService({balance: BigInt(902249999999)});
+
+    await expect(payInBonk(service)).rejects.toThrow(
+      'Insufficient BONK balance',
+    );
+    expect(await tradeLedger.getEntries(wallet)).toEqual([]);
+  });
+
+  it('refuses to pay in BONK for a quote without a BONK price', async () => {
+    const {service} = await createService({balance: BigInt(902250000000)});
+    const unpriced = {...payment, bonkAmount: undefined, feeBONK: undefined};
+
+    await expect(payInBonk(service, unpriced)).rejects.toThrow(
+      'BONK payments are unavailable',
+    );
+  });
+});
+
+describe('purchase references', () => {
+  const lamports = 1804500000;
+
+  it.each([
+    ['SOL', 2],
+    ['BONK', 4],
+  ] as const)(
+    'tags the final %s transfer with the reference and records the purchase as pending',
+    async (paymentMethod, transferKeys) => {
+      const {service} = await createService({balance: BigInt(902250000000)});
+
+      const {transaction, reference} =
+        await service.createStockPurchaseTransaction(
+          wallet,
+          payment,
+          paymentMethod,
+        );
+
+      const {instructions} = transaction as Transaction;
+      expect(
+        instructions[instructions.length - 1].keys.slice(transferKeys),
+      ).toEqual([{pubkey: reference, isSigner: false, isWritable: false}]);
+      expect(
+        instructions
+          .slice(0, -1)
+          .some(({keys}) => keys.some(({pubkey}) => pubkey.equals(reference))),
+      ).toBe(false);
+      expect(
+        await tradeLedger.getEntry(wallet, reference.toBase58()),
+      ).toMatchObject({type: 'buy', status: 'pending', paymentMethod});
+    },
+  );
+
+  it('confirms a purchase once its referenced transfer lands', async () => {
+    const {service, land} = await createService();
+    const {transaction, reference} =
+      await service.createStockPurchaseTransaction(wallet, payment);
+    expect(
+      SystemInstruction.decodeTransfer(
+        (transaction as Transaction).instructions[2],
+      ).toPubkey,
+    ).toEqual(PROJECT_TREASURY);
+    land(reference, transaction, lamports);
+
+    const result = await service.confirmPayment(wallet, reference, 0);
+
+    expect(result).toMatchObject({
+      confirmed: true,
+      signature: reference.toBase58(),
+    });
+    expect(
+      await tradeLedger.getEntry(wallet, reference.toBase58()),
+    ).toMatchObject({status: 'confirmed', signature: reference.toBase58()});
+  });
+
+  it('fails a purchase whose referenced transfer pays less than agreed', async () => {
+    const {service, land} = await createService();
+    const {transaction, reference} =
+      await service.createStockPurchaseTransaction(wallet, payment);
+    land(reference, transaction, lamports - 1);
+
+    const result = await service.confirmPayment(wallet, reference, 0);
+
+    expect(result.confirmed).toBe(false);
+    expect(
+      await tradeLedger.getEntry(wallet, reference.toBase58()),
+    ).toMatchObject({status: 'failed'});
+  });
+
+  it('leaves a purchase pending until its transfer lands', async () => {
+    const {service} = await createService();
+    const {reference} = await service.createStockPurchaseTransaction(
+      wallet,
+      payment,
+    );
+
+    expect(await service.confirmPayment(wallet, reference, 0)).toMatchObject({
+      confirmed: false,
+    });
+    expect(
+      await tradeLedger.getEntry(wallet, reference.toBase58()),
+    ).toMatchObject({status: 'pending'});
+  });
+});
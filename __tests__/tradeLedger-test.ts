@@ -0,0 +1,286 @@
+/**
+ * @jest-environment node
+ */
+
+import {
+  BuyEntry,
+  LEDGER_SCHEMA_VERSION,
+  LedgerStorage,
+  TradeLedger,
+} from '../src/utils/tradeLedger';
+import {SOLANA_NETWORK} from '../src/utils/solanaConfig';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock'),
+);
+
+const WALLET = 'HSQLW6Kzj7GwKnTv1Kd8FVXC2MYWDUQ5zswBgbqhHtHa';
+const OTHER_WALLET = '9xQeWvG816bUx9EPjHmaT23yvVM2ZWbrrpZb9PusVFin';
+const PARTITION = `ledger:${SOLANA_NETWORK}:${WALLET}`;
+
+/**
+ * LedgerStorage over a Map, with a hook to fail listing keys
+ */
+function createStorage(initial: Record<string, string> = {}) {
+  const data = new Map(Object.entries(initial));
+  const storage = {
+    data,
+    failListing: false,
+    getItem: async (key: string) => data.get(key) ?? null,
+    setItem: async (key: string, value: string) => {
+      data.set(key, value);
+    },
+    removeItem: async (key: string) => {
+      data.delete(key);
+    },
+    multiGet: async (keys: readonly string[]) =>
+      keys.map((key): [string, string | null] => [key, data.get(key) ?? null]),
+    getAllKeys: async () => {
+      if (storage.failListing) {
+        throw new Error('Storage unavailable');
+      }
+      return Array.from(data.keys());
+    },
+  };
+  const typed: LedgerStorage = storage;
+  return {storage, typed};
+}
+
+function buy(id: string, timestamp: number): BuyEntry {
+  return {
+    type: 'buy',
+    id,
+    reference: id,
+    wallet: WALLET,
+    timestamp,
+    status: 'pending',
+    stockSymbol: 'AAPL',
+    stockPrice: 100,
+    quantity: 1,
+    totalUSD: 100,
+    category: 'traditional',
+    paymentMethod: 'SOL',
+    solAmount: 1,
+    feeSOL: 0.01,
+    solPriceUSD: 100,
+  };
+}
+
+const legacyRecords = {
+  payment_ref1: JSON.stringify({
+    wallet: WALLET,
+    stockSymbol: 'AAPL',
+    stockPrice: 150,
+    quantity: 2,
+    totalUSD: 300,
+    category: 'traditional',
+    paymentMethod: 'SOL',
+    solAmount: 3,
+    feeSOL: 0.03,
+    solPriceUSD: 100,
+    status: 'confirmed',
+    signature: 'sig1',
+    timestamp: 1000,
+  }),
+  // Written before records carried a wallet
+  sale_ref2: JSON.stringify({
+    stockSymbol: 'AAPL',
+    stockPrice: 160,
+    quantity: 1,
+    netSOL: 1.5,
+    status: 'settled',
+    createdAt: 2000,
+  }),
+  payment_other: JSON.stringify({
+    wallet: OTHER_WALLET,
+    stockSymbol: 'TSLA',
+    quantity: 1,
+  }),
+  payment_broken: '{not json',
+  payment_empty: JSON.stringify({stockSymbol: 'AAPL', quantity: 0}),
+  unrelated: 'kept',
+};
+
+describe('trade ledger migrations', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('imports legacy payment and sale records for the wallet', async () => {
+    const {storage, typed} = createStorage(legacyRecords);
+
+    const entries = await new TradeLedger(typed).getEntries(WALLET);
+
+    expect(entries.map(entry => [entry.type, entry.id, entry.status])).toEqual([
+      ['sell', 'ref2', 'pending'],
+      ['buy', 'ref1', 'confirmed'],
+      ['fee', 'fee:ref1', 'confirmed'],
+    ]);
+    expect(entries[1]).toMatchObject({
+      wallet: WALLET,
+      totalUSD: 300,
+      signature: 'sig1',
+      solAmount: 3,
+    });
+    // Missing fields get safe defaults rather than undefined
+    expect(entries[0]).toMatchObject({
+      timestamp: 2000,
+      totalUSD: 160,
+      category: 'traditional',
+      netSOL: 1.5,
+      grossSOL: 0,
+    });
+
+    // Another wallet's record stays for that wallet; everything else is consumed
+    expect(
+      Array.from(storage.data.keys()).filter(key => !key.startsWith('ledger')),
+    ).toEqual(['payment_other', 'unrelated']);
+    expect(storage.data.get(`${PARTITION}:version`)).toBe(
+      String(LEDGER_SCHEMA_VERSION),
+    );
+  });
+
+  it('does nothing when a migration runs again', async () => {
+    const {storage, typed} = createStorage(legacyRecords);
+    const ledger = new TradeLedger(typed);
+    const before = await ledger.getEntries(WALLET);
+    const snapshot = new Map(storage.data);
+
+    await ledger.importLegacyRecords({wallet: WALLET, cluster: SOLANA_NETWORK});
+    await ledger.importUnscopedPartition({
+      wallet: WALLET,
+      cluster: SOLANA_NETWORK,
+    });
+
+    expect(storage.data).toEqual(snapshot);
+    expect(await ledger.getEntries(WALLET)).toEqual(before);
+  });
+
+  it('only migrates a partition once, even in a new session', async () => {
+    const {storage, typed} = createStorage(legacyRecords);
+    await new TradeLedger(typed).getEntries(WALLET);
+
+    // A record appearing later is not mistaken for history to import
+    storage.data.set(
+      'payment_late',
+      JSON.stringify({stockSymbol: 'AAPL', quantity: 1}),
+    );
+    const entries = await new TradeLedger(typed).getEntries(WALLET);
+
+    expect(entries.map(entry => entry.id)).not.toContain('late');
+    expect(storage.data.has('payment_late')).toBe(true);
+  });
+
+  it('moves a partition from before cluster scoping on the default cluster', async () => {
+    const unscoped = `ledger:${WALLET}`;
+    const {storage, typed} = createStorage({
+      [`${unscoped}:index`]: JSON.stringify(['a', 'b']),
+      [`${unscoped}:entry:a`]: JSON.stringify(buy('a', 1)),
+      [`${unscoped}:entry:b`]: JSON.stringify(buy('b', 2)),
+      [`${unscoped}:version`]: '1',
+    });
+
+    const entries = await new TradeLedger(typed).getEntries(WALLET);
+
+    expect(entries.map(entry => entry.id)).toEqual(['b', 'a']);
+    expect(JSON.parse(storage.data.get(`${PARTITION}:index`)!)).toEqual([
+      'a',
+      'b',
+    ]);
+    expect(
+      Array.from(storage.data.keys()).filter(key =>
+        key.startsWith(unscoped + ':'),
+      ),
+    ).toEqual([]);
+  });
+
+  it('starts other clusters empty without importing anything', async () => {
+    const {storage, typed} = createStorage({
+      ...legacyRecords,
+      [`ledger:${WALLET}:index`]: JSON.stringify(['a']),
+      [`ledger:${WALLET}:entry:a`]: JSON.stringify(buy('a', 1)),
+    });
+
+    const entries = await new TradeLedger(typed, 'mainnet-beta').getEntries(
+      WALLET,
+    );
+
+    expect(entries).toEqual([]);
+    expect(storage.data.has('payment_ref1')).toBe(true);
+    expect(storage.data.get(`ledger:mainnet-beta:${WALLET}:version`)).toBe(
+      String(LEDGER_SCHEMA_VERSION),
+    );
+  });
+
+  it('retries a failed migration instead of marking it done', async () => {
+    const {storage, typed} = createStorage(legacyRecords);
+    const ledger = new TradeLedger(typed);
+    storage.failListing = true;
+
+    await expect(ledger.getEntries(WALLET)).rejects.toThrow(
+      'Failed to upgrade trade history',
+    );
+    expect(storage.data.has(`${PARTITION}:version`)).toBe(false);
+
+    storage.failListing = false;
+    expect(await ledger.getEntries(WALLET)).toHaveLength(3);
+  });
+});
+
+describe('trade ledger writes', () => {
+  it('keeps every id in insertion order under concurrent appends', async () => {
+    const {storage, typed} = createStorage();
+    const ledger = new TradeLedger(typed);
+    const ids = Array.from({length: 10}, (_, i) => `trade${i}`);
+
+    await Promise.all(ids.map((id, i) => ledger.record(buy(id, i))));
+
+    expect(JSON.parse(storage.data.get(`${PARTITION}:index`)!)).toEqual(ids);
+    expect((await ledger.getEntries(WALLET)).map(entry => entry.id)).toEqual(
+      [...ids].reverse(),
+    );
+  });
+
+  it('does not lose a status update racing an append', async () => {
+    const {typed} = createStorage();
+    const ledger = new TradeLedger(typed);
+    await ledger.record(buy('first', 1));
+
+    await Promise.all([
+      ledger.updateStatus(WALLET, 'first', 'confirmed', 'sig'),
+      ledger.record(buy('second', 2)),
+    ]);
+
+    const entries = await ledger.getEntries(WALLET);
+    expect(entries.map(entry => entry.id)).toEqual([
+      'second',
+      'first',
+      'fee:first',
+    ]);
+    expect(await ledger.getEntry(WALLET, 'first')).toMatchObject({
+      status: 'confirmed',
+      signature: 'sig',
+    });
+  });
+
+  it('filters entries by type', async () => {
+    const {typed} = createStorage();
+    const ledger = new TradeLedger(typed);
+    await ledger.record(buy('first', 1));
+    await ledger.updateStatus(WALLET, 'first', 'confirmed');
+
+    const fees = await ledger.getEntries(WALLET, 'fee');
+
+    expect(fees).toEqual([
+      expect.objectContaining({
+        tradeId: 'first',
+        amount: 0.01,
+        currency: 'SOL',
+      }),
+    ]);
+  });
+});
@@ -0,0 +1,269 @@
+/**
+ * @jest-environment node
+ */
+
+import {
+  Connection,
+  Keypair,
+  PublicKey,
+  SystemProgram,
+  Transaction,
+} from '@solana/web3.js';
+
+import {
+  createMemoInstruction,
+  decodeTradeMemo,
+  encodeTradeMemo,
+  TradeHistoryDecoder,
+  TradeMemo,
+} from '../src/utils/tradeMemo';
+import {LedgerEntry} from '../src/utils/tradeLedger';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock'),
+);
+
+describe('trade memos', () => {
+  const trades: Omit<TradeMemo, 'version'>[] = [
+    {
+      side: 'buy',
+      symbol: 'AAPL',
+      quantity: 2,
+      paymentMethod: 'SOL',
+      priceUSD: 178.72,
+    },
+    {
+      side: 'sell',
+      symbol: 'BRK.B',
+      quantity: 0.5,
+      paymentMethod: 'SOL',
+      priceUSD: 0,
+    },
+    {
+      side: 'buy',
+      symbol: 'COIN',
+      quantity: 10,
+      paymentMethod: 'BONK',
+      priceUSD: 245.6712,
+    },
+    {
+      side: 'buy',
+      symbol: 'MSTR',
+      quantity: 1,
+      paymentMethod: 'SOL',
+      priceUSD: undefined,
+    },
+  ];
+
+  it.each(trades)('round-trips a $side of $symbol', trade => {
+    const memo = encodeTradeMemo(trade);
+    expect(memo.startsWith('SOLSTOCKS:1:')).toBe(true);
+    expect(decodeTradeMemo(memo)).toEqual({version: 1, ...trade});
+  });
+
+  it('writes prices to four decimal places', () => {
+    const memo = encodeTradeMemo({
+      side: 'sell',
+      symbol: 'TSLA',
+      quantity: 3,
+      paymentMethod: 'SOL',
+      priceUSD: 248.123456,
+    });
+    expect(memo).toBe('SOLSTOCKS:1:SELL:TSLA:3:SOL:248.1235');
+    expect(decodeTradeMemo(memo)!.priceUSD).toBe(248.1235);
+  });
+
+  it('reads legacy purchase memos as unpriced buys', () => {
+    expect(decodeTradeMemo('STOCK_PURCHASE:AAPL:2:SOL')).toEqual({
+      version: 0,
+      side: 'buy',
+      symbol: 'AAPL',
+      quantity: 2,
+      paymentMethod: 'SOL',
+      priceUSD: undefined,
+    });
+    expect(decodeTradeMemo('  STOCK_PURCHASE:COIN:1.5:BONK\n')).toMatchObject({
+      version: 0,
+      quantity: 1.5,
+      paymentMethod: 'BONK',
+    });
+  });
+
+  it.each([
+    ['an empty memo', ''],
+    ['free text', 'thanks for lunch'],
+    ['a foreign prefix', 'OTHERAPP:1:BUY:AAPL:2:SOL:1.0000'],
+    ['an unknown version', 'SOLSTOCKS:2:BUY:AAPL:2:SOL:1.0000'],
+    ['a missing field', 'SOLSTOCKS:1:BUY:AAPL:2:SOL'],
+    ['an extra field', 'SOLSTOCKS:1:BUY:AAPL:2:SOL:1.0000:x'],
+    ['an unknown side', 'SOLSTOCKS:1:HOLD:AAPL:2:SOL:1.0000'],
+    ['a lowercase symbol', 'SOLSTOCKS:1:BUY:aapl:2:SOL:1.0000'],
+    ['an overlong symbol', 'SOLSTOCKS:1:BUY:ABCDEFGHIJKLM:2:SOL:1.0000'],
+    ['a zero quantity', 'SOLSTOCKS:1:BUY:AAPL:0:SOL:1.0000'],
+    ['a negative quantity', 'SOLSTOCKS:1:SELL:AAPL:-2:SOL:1.0000'],
+    ['a non-numeric quantity', 'SOLSTOCKS:1:BUY:AAPL:two:SOL:1.0000'],
+    ['an unknown payment method', 'SOLSTOCKS:1:BUY:AAPL:2:USDC:1.0000'],
+    ['a negative price', 'SOLSTOCKS:1:BUY:AAPL:2:SOL:-1.0000'],
+    ['a non-numeric price', 'SOLSTOCKS:1:BUY:AAPL:2:SOL:free'],
+    ['a short legacy memo', 'STOCK_PURCHASE:AAPL:2'],
+    ['a legacy memo with a bad symbol', 'STOCK_PURCHASE:$$$:2:SOL'],
+    ['a legacy memo with a bad quantity', 'STOCK_PURCHASE:AAPL:0:SOL'],
+  ])('ignores %s', (_, memo) => {
+    expect(decodeTradeMemo(memo)).toBeNull();
+  });
+
+  it('refuses to encode a bad symbol or quantity', () => {
+    const trade = {
+      side: 'buy' as const,
+      symbol: 'AAPL',
+      quantity: 1,
+      paymentMethod: 'SOL' as const,
+    };
+    expect(() => encodeTradeMemo({...trade, symbol: 'AAPL:SOL'})).toThrow(
+      'Invalid stock symbol',
+    );
+    expect(() => encodeTradeMemo({...trade, quantity: 0})).toThrow('positive');
+    expect(() => encodeTradeMemo({...trade, quantity: Infinity})).toThrow(
+      'positive',
+    );
+  });
+});
+
+describe('on-chain trade history', () => {
+  const wallet = Keypair.generate().publicKey;
+  const stranger = Keypair.generate().publicKey;
+
+  /**
+   * A transaction as getTransactions returns it, paid for by `payer`,
+   * with a memo signed by `signers` for each of `memos`
+   */
+  function memoTransaction(
+    slot: number,
+    memos: string[],
+    payer: PublicKey = wallet,
+    signers: PublicKey[] = [wallet],
+  ) {
+    const transaction = new Transaction({
+      feePayer: payer,
+      recentBlockhash: Keypair.generate().publicKey.toBase58(),
+    });
+    memos.forEach(memo =>
+      transaction.add(createMemoInstruction(memo, signers)),
+    );
+    return {
+      slot,
+      blockTime: 1700000000 + slot,
+      meta: {err: null},
+      transaction: {message: transaction.compileMessage()},
+    };
+  }
+
+  function createDecoder() {
+    const connection = {
+      getSignaturesForAddress: jest.fn(async () => [
+        {signature: 'recorded', memo: '[1] memo', err: null},
+        {signature: 'missing', memo: '[1] memo', err: null},
+        {signature: 'failed', memo: '[1] memo', err: {InstructionError: []}},
+        {signature: 'transfer', memo: null, err: null},
+        {signature: 'chat', memo: '[1] hi', err: null},
+      ]),
+      getTransactions: jest.fn(async (signatures: string[]) =>
+        signatures.map((signature, index) =>
+          signature === 'chat'
+            ? memoTransaction(index, ['hi'])
+            : memoTransaction(index, [
+                signature === 'recorded'
+                  ? 'STOCK_PURCHASE:AAPL:2:SOL'
+                  : 'SOLSTOCKS:1:SELL:AAPL:1:SOL:180.0000',
+              ]),
+        ),
+      ),
+    };
+    return {
+      connection,
+      decoder: new TradeHistoryDecoder(connection as unknown as Connection),
+    };
+  }
+
+  it('decodes trade memos from successful transactions only', async () => {
+    const {connection, decoder} = createDecoder();
+
+    const trades = await decoder.fetchTrades(wallet);
+
+    expect(connection.getTransactions.mock.calls[0][0]).toEqual([
+      'recorded',
+      'missing',
+      'chat',
+    ]);
+    expect(trades).toEqual([
+      expect.objectContaining({
+        signature: 'recorded',
+        version: 0,
+        side: 'buy',
+        slot: 0,
+      }),
+      expect.objectContaining({
+        signature: 'missing',
+        side: 'sell',
+        priceUSD: 180,
+        blockTime: 1700000001,
+      }),
+    ]);
+  });
+
+  it('ignores memos the wallet neither paid for nor signed', async () => {
+    const {connection, decoder} = createDecoder();
+    const memo = 'SOLSTOCKS:1:BUY:TSLA:5:SOL:250.0000';
+    // A stranger's transaction that sends the wallet dust alongside a fake trade
+    const spoofed = memoTransaction(0, [memo], stranger, [stranger]);
+    spoofed.transaction.message = new Transaction({
+      feePayer: stranger,
+      recentBlockhash: Keypair.generate().publicKey.toBase58(),
+    })
+      .add(createMemoInstruction(memo, [stranger]))
+      .add(
+        SystemProgram.transfer({
+          fromPubkey: stranger,
+          toPubkey: wallet,
+          lamports: 1,
+        }),
+      )
+      .compileMessage();
+    connection.getTransactions.mockResolvedValueOnce([
+      spoofed,
+      memoTransaction(1, [memo], stranger, []),
+      // Someone else paid the fee, but the wallet signed the memo
+      memoTransaction(2, [memo], stranger, [wallet]),
+    ]);
+
+    const trades = await decoder.fetchTrades(wallet);
+
+    expect(trades).toEqual([
+      expect.objectContaining({signature: 'chat', symbol: 'TSLA', slot: 2}),
+    ]);
+  });
+
+  it('finds trades the ledger has no record of', async () => {
+    const {decoder} = createDecoder();
+    const entries = [
+      {id: 'a', type: 'airdrop', signature: 'recorded'},
+      {id: 'b', type: 'airdrop'},
+    ] as LedgerEntry[];
+
+    const missing = await decoder.findUnrecordedTrades(wallet, entries);
+
+    expect(missing.map(trade => trade.signature)).toEqual(['missing']);
+  });
+
+  it('reports history that cannot be loaded', async () => {
+    const {connection, decoder} = createDecoder();
+    connection.getSignaturesForAddress.mockRejectedValueOnce(
+      new Error('429 Too Many Requests'),
+    );
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    await expect(decoder.fetchTrades(wallet)).rejects.toThrow(
+      'Failed to load on-chain trade history',
+    );
+  });
+});
@@ -0,0 +1,172 @@
+/**
+ * @jest-environment node
+ */
+
+import {
+  Connection,
+  Keypair,
+  SignatureStatus,
+  SystemProgram,
+  Transaction,
+} from '@solana/web3.js';
+
+import {
+  TransactionLifecycleError,
+  TransactionLifecycleManager,
+  TransactionStatus,
+} from '../src/utils/transactionLifecycle';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock'),
+);
+
+/**
+ * Just enough of a Connection for the lifecycle manager, driven by the test
+ */
+function createConnection() {
+  const state = {
+    sent: 0,
+    blockHeight: 100,
+    status: null as SignatureStatus | null,
+  };
+  const connection = {
+    sendRawTransaction: jest.fn(async () => {
+      state.sent += 1;
+      return 'signature';
+    }),
+    getSignatureStatuses: jest.fn(async () => ({
+      context: {slot: 1},
+      value: [state.status],
+    })),
+    getBlockHeight: jest.fn(async () => state.blockHeight),
+    isBlockhashValid: jest.fn(async () => ({context: {slot: 1}, value: true})),
+  };
+  return {state, connection: connection as unknown as Connection};
+}
+
+function signedTransaction(): Transaction {
+  const payer = Keypair.generate();
+  const transaction = new Transaction({
+    feePayer: payer.publicKey,
+    recentBlockhash: Keypair.generate().publicKey.toBase58(),
+  }).add(
+    SystemProgram.transfer({
+      fromPubkey: payer.publicKey,
+      toPubkey: Keypair.generate().publicKey,
+      lamports: 1000,
+    }),
+  );
+  transaction.sign(payer);
+  return transaction;
+}
+
+describe('TransactionLifecycleManager', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it('rebroadcasts until confirmed and reports each status', async () => {
+    const {state, connection} = createConnection();
+    const manager = new TransactionLifecycleManager(connection);
+    const statuses: TransactionStatus[] = [];
+    manager.subscribe(event => statuses.push(event.status));
+
+    const result = manager.sendAndConfirm(signedTransaction(), 'Buy', 200);
+    await jest.advanceTimersByTimeAsync(4000);
+    expect(state.sent).toBe(3);
+
+    state.status = {
+      slot: 1,
+      confirmations: 1,
+      err: null,
+      confirmationStatus: 'confirmed',
+    };
+    await jest.advanceTimersByTimeAsync(2000);
+    await expect(result).resolves.toEqual(expect.any(String));
+
+    state.status = {...state.status, confirmationStatus: 'finalized'};
+    await jest.advanceTimersByTimeAsync(2000);
+
+    expect(statuses).toEqual([
+      'sending',
+      'sent',
+      'sent',
+      'sent',
+      'confirmed',
+      'finalized',
+    ]);
+    expect(manager.getRecent()[0]).toMatchObject({
+      label: 'Buy',
+      status: 'finalized',
+      rebroadcasts: 2,
+    });
+  });
+
+  it('reports when it stops waiting for finalization', async () => {
+    const {state, connection} = createConnection();
+    const manager = new TransactionLifecycleManager(connection);
+    state.status = {
+      slot: 1,
+      confirmations: 1,
+      err: null,
+      confirmationStatus: 'confirmed',
+    };
+
+    const result = manager.sendAndConfirm(signedTransaction(), 'Buy', 200);
+    await jest.advanceTimersByTimeAsync(2000);
+    await expect(result).resolves.toEqual(expect.any(String));
+    expect(manager.getRecent()[0]).toMatchObject({
+      status: 'confirmed',
+      tracking: true,
+    });
+
+    await jest.advanceTimersByTimeAsync(60000);
+
+    expect(manager.getRecent()[0]).toMatchObject({
+      status: 'confirmed',
+      tracking: false,
+    });
+  });
+
+  it('gives up once the blockhash expires', async () => {
+    const {state, connection} = createConnection();
+    const manager = new TransactionLifecycleManager(connection);
+
+    const outcome = manager
+      .sendAndConfirm(signedTransaction(), 'Buy', 150)
+      .catch(error => error);
+
+    state.blockHeight = 151;
+    await jest.advanceTimersByTimeAsync(2000);
+
+    const error = await outcome;
+    expect(error).toBeInstanceOf(TransactionLifecycleError);
+    expect(error).toMatchObject({status: 'expired', isFinal: true});
+    expect(state.sent).toBe(1);
+  });
+
+  it('reports an on-chain failure', async () => {
+    const {state, connection} = createConnection();
+    const manager = new TransactionLifecycleManager(connection);
+    state.status = {
+      slot: 1,
+      confirmations: 0,
+      err: {InstructionError: [0, {Custom: 1}]},
+      confirmationStatus: 'processed',
+    };
+
+    const outcome = manager
+      .sendAndConfirm(signedTransaction(), 'Buy', 200)
+      .catch(error => error);
+    await jest.advanceTimersByTimeAsync(2000);
+
+    expect(await outcome).toMatchObject({status: 'failed'});
+    expect(manager.getRecent()[0].status).toBe('failed');
+  });
+});
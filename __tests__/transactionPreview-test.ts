@@ -0,0 +1,150 @@
+/**
+ * @jest-environment node
+ */
+
+import {Keypair, PublicKey} from '@solana/web3.js';
+
+import {
+  BalanceChange,
+  comparePreview,
+  PreviewExpectation,
+  TransactionPreview,
+} from '../src/utils/transactionPreview';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock'),
+);
+
+const payer = Keypair.generate().publicKey;
+const treasury = Keypair.generate().publicKey;
+const mint = Keypair.generate().publicKey;
+
+function solChange(
+  account: PublicKey,
+  change: number,
+  created = false,
+): BalanceChange {
+  const before = created ? 0 : 10_000_000;
+  return {
+    address: account.toBase58(),
+    owner: account.toBase58(),
+    mint: null,
+    before: BigInt(before),
+    after: BigInt(before + change),
+    change: BigInt(change),
+    created,
+  };
+}
+
+function tokenChange(
+  tokenAccount: PublicKey,
+  owner: PublicKey,
+  change: number,
+): BalanceChange {
+  return {
+    address: tokenAccount.toBase58(),
+    owner: owner.toBase58(),
+    mint: mint.toBase58(),
+    before: BigInt(1_000_000),
+    after: BigInt(1_000_000 + change),
+    change: BigInt(change),
+    created: false,
+  };
+}
+
+function preview(
+  balanceChanges: BalanceChange[],
+  err: string | null = null,
+  logs: string[] = [],
+): TransactionPreview {
+  return {err, logs, unitsConsumed: 1000, balanceChanges};
+}
+
+const solPayment: PreviewExpectation = {
+  payer,
+  payments: [{recipient: treasury, mint: null, amount: BigInt(1_000_000)}],
+  maxNetworkFeeLamports: 10_000,
+};
+
+describe('comparePreview', () => {
+  it('accepts a transfer of exactly the payment plus fees', () => {
+    const problems = comparePreview(
+      preview([solChange(payer, -1_005_000), solChange(treasury, 1_000_000)]),
+      solPayment,
+    );
+
+    expect(problems).toEqual([]);
+  });
+
+  it('rejects a short payment', () => {
+    const problems = comparePreview(
+      preview([solChange(payer, -905_000), solChange(treasury, 900_000)]),
+      solPayment,
+    );
+
+    expect(problems).toContainEqual(
+      expect.stringMatching(/would receive 900000 instead of 1000000 lamports/),
+    );
+  });
+
+  it('rejects funds going to an unexpected recipient', () => {
+    const attacker = Keypair.generate().publicKey;
+    const problems = comparePreview(
+      preview([
+        solChange(payer, -1_505_000),
+        solChange(treasury, 1_000_000),
+        solChange(attacker, 500_000),
+      ]),
+      solPayment,
+    );
+
+    expect(
+      problems.some(problem => problem.startsWith('Unexpected recipient')),
+    ).toBe(true);
+  });
+
+  it('rejects a payer loss larger than the network fee allowance', () => {
+    const problems = comparePreview(
+      preview([solChange(payer, -1_100_000), solChange(treasury, 1_000_000)]),
+      solPayment,
+    );
+
+    expect(problems).toEqual([
+      expect.stringMatching(/does not match the payment/),
+    ]);
+  });
+
+  it('reports insufficient funds from the simulation logs', () => {
+    const problems = comparePreview(
+      preview([], '{"InstructionError":[1,{"Custom":1}]}', [
+        'Transfer: insufficient lamports 100, need 1000000',
+      ]),
+      solPayment,
+    );
+
+    expect(problems).toEqual(['Insufficient funds for this transaction']);
+  });
+
+  it('lets a token payment fund rent for an allowed new account', () => {
+    const source = Keypair.generate().publicKey;
+    const treasuryTokenAccount = Keypair.generate().publicKey;
+    const expectation: PreviewExpectation = {
+      payer,
+      payments: [{recipient: treasury, mint, amount: BigInt(250)}],
+      allowedNewAccounts: [treasuryTokenAccount],
+      maxNetworkFeeLamports: 10_000,
+    };
+
+    const problems = comparePreview(
+      preview([
+        solChange(payer, -2_044_280),
+        solChange(treasuryTokenAccount, 2_039_280, true),
+        tokenChange(source, payer, -250),
+        tokenChange(treasuryTokenAccount, treasury, 250),
+      ]),
+      expectation,
+    );
+
+    expect(problems).toEqual([]);
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * @jest-environment node
+ */
+
+import {Keypair, PublicKey} from '@solana/web3.js';
+
+import {
+  parseTransferRequest,
+  TransferRequestError,
+} from '../src/utils/transferRequests';
+
+const recipient = Keypair.generate().publicKey.toBase58();
+const reference = Keypair.generate().publicKey.toBase58();
+
+function expectRejected(url: string, reason: string) {
+  expect(() => parseTransferRequest(url)).toThrow(TransferRequestError);
+  expect(() => parseTransferRequest(url)).toThrow(reason);
+}
+
+describe('parseTransferRequest', () => {
+  it('parses a transfer request with its amount, text and references', () => {
+    const request = parseTransferRequest(
+      `solana:${recipient}?amount=1.5&reference=${reference}` +
+        '&label=Coffee%20Shop&message=Thanks!&memo=order-42',
+    );
+
+    expect(request.recipient.toBase58()).toBe(recipient);
+    expect(request.amount.toFixed()).toBe('1.5');
+    expect(request.splToken).toBeNull();
+    expect(request.references.map(key => key.toBase58())).toEqual([reference]);
+    expect(request.label).toBe('Coffee Shop');
+    expect(request.message).toBe('Thanks!');
+    expect(request.memo).toBe('order-42');
+  });
+
+  it('adds a reference of its own when the link has none', () => {
+    const request = parseTransferRequest(`solana:${recipient}?amount=1`);
+    expect(request.references).toHaveLength(1);
+    expect(request.references[0]).toBeInstanceOf(PublicKey);
+  });
+
+  it('refuses transaction requests', () => {
+    expectRejected(
+      'solana:https%3A%2F%2Fexample.com%2Fpay',
+      'Transaction requests are not supported',
+    );
+  });
+
+  it('refuses links without a usable amount', () => {
+    expectRejected(`solana:${recipient}`, 'does not say how much');
+    expectRejected(`solana:${recipient}?amount=0`, 'does not say how much');
+    expectRejected(`solana:${recipient}?amount=-1`, 'invalid amount');
+    expectRejected(`solana:${recipient}?amount=1e9`, 'invalid amount');
+  });
+
+  it('refuses recipients that are not wallets', () => {
+    const [programAddress] = PublicKey.findProgramAddressSync(
+      [Buffer.from('vault')],
+      Keypair.generate().publicKey,
+    );
+    expectRejected(
+      `solana:${programAddress.toBase58()}?amount=1`,
+      'not a wallet address',
+    );
+    expectRejected('solana:not-a-key?amount=1', 'invalid recipient');
+  });
+
+  it('refuses text that could disguise the request', () => {
+    expectRejected(
+      `solana:${recipient}?amount=1&label=Shop%E2%80%AEeuqsom`,
+      'hidden or control characters',
+    );
+    expectRejected(
+      `solana:${recipient}?amount=1&message=Pay%0Ato%20support`,
+      'hidden or control characters',
+    );
+    expectRejected(
+      `solana:${recipient}?amount=1&memo=order%C2%8542`,
+      'hidden or control characters',
+    );
+    expectRejected(
+      `solana:${recipient}?amount=1&memo=${'x'.repeat(300)}`,
+      'memo is too long',
+    );
+  });
+
+  it('refuses repeated references and oversized links', () => {
+    expectRejected(
+      `solana:${recipient}?amount=1&reference=${reference}&reference=${reference}`,
+      'repeats a reference',
+    );
+    expectRejected(
+      `solana:${recipient}?amount=1&message=${'x'.repeat(2100)}`,
+      'too long',
+    );
+    expectRejected('https://example.com', 'Not a Solana Pay link');
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * @jest-environment node
+ */
+
+import {
+  AddressLookupTableAccount,
+  Keypair,
+  PublicKey,
+  SystemProgram,
+  Transaction,
+  TransactionInstruction,
+} from '@solana/web3.js';
+import bs58 from 'bs58';
+
+import {
+  getTransactionSignature,
+  isVersionedTransaction,
+  toTransactionVersion,
+} from '../src/utils/versionedTransactions';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock'),
+);
+
+const payer = Keypair.generate();
+const blockhash = Keypair.generate().publicKey.toBase58();
+
+function draft(recipients: PublicKey[]): Transaction {
+  const transaction = new Transaction({
+    feePayer: payer.publicKey,
+    recentBlockhash: blockhash,
+  });
+  recipients.forEach(toPubkey =>
+    transaction.add(
+      SystemProgram.transfer({
+        fromPubkey: payer.publicKey,
+        toPubkey,
+        lamports: 1000,
+      }),
+    ),
+  );
+  return transaction;
+}
+
+function lookupTable(addresses: PublicKey[]): AddressLookupTableAccount {
+  return new AddressLookupTableAccount({
+    key: Keypair.generate().publicKey,
+    state: {
+      deactivationSlot: BigInt('18446744073709551615'),
+      lastExtendedSlot: 0,
+      lastExtendedSlotStartIndex: 0,
+      authority: undefined,
+      addresses,
+    },
+  });
+}
+
+describe('toTransactionVersion', () => {
+  it('moves accounts found in lookup tables out of a v0 message', () => {
+    const recipients = [1, 2, 3].map(() => Keypair.generate().publicKey);
+    const transaction = toTransactionVersion(draft(recipients), 0, [
+      lookupTable(recipients),
+    ]);
+
+    expect(isVersionedTransaction(transaction)).toBe(true);
+    if (!isVersionedTransaction(transaction)) {
+      return;
+    }
+    const {message} = transaction;
+    expect(message.addressTableLookups).toHaveLength(1);
+    expect(message.addressTableLookups[0].writableIndexes).toHaveLength(3);
+    expect(message.staticAccountKeys.map(key => key.toBase58())).toEqual([
+      payer.publicKey.toBase58(),
+      SystemProgram.programId.toBase58(),
+    ]);
+    expect(message.recentBlockhash).toBe(blockhash);
+  });
+
+  it('keeps legacy transactions as they are while they fit', () => {
+    const transaction = draft([Keypair.generate().publicKey]);
+    expect(toTransactionVersion(transaction, 'legacy')).toBe(transaction);
+  });
+
+  it('refuses legacy transactions that are too large to send', () => {
+    const transaction = draft([Keypair.generate().publicKey]).add(
+      new TransactionInstruction({
+        programId: SystemProgram.programId,
+        keys: [],
+        data: Buffer.alloc(1200),
+      }),
+    );
+    expect(() => toTransactionVersion(transaction, 'legacy')).toThrow(
+      'Transaction is too large',
+    );
+  });
+
+  it('refuses to recompile a transaction someone already signed', () => {
+    const transaction = draft([Keypair.generate().publicKey]);
+    transaction.sign(payer);
+    expect(() => toTransactionVersion(transaction, 0)).toThrow(
+      'Only unsigned transactions',
+    );
+  });
+});
+
+describe('getTransactionSignature', () => {
+  it('is null until the fee payer signs, for either version', () => {
+    const legacy = draft([Keypair.generate().publicKey]);
+    const versioned = toTransactionVersion(draft([]), 0);
+    expect(getTransactionSignature(legacy)).toBeNull();
+    expect(getTransactionSignature(versioned)).toBeNull();
+
+    if (!isVersionedTransaction(versioned)) {
+      throw new Error('Expected a v0 transaction');
+    }
+    legacy.sign(payer);
+    versioned.sign([payer]);
+    expect(getTransactionSignature(legacy)).toBe(
+      bs58.encode(legacy.signature!),
+    );
+    expect(getTransactionSignature(versioned)).toBe(
+      bs58.encode(versioned.signatures[0]),
+    );
+  });
+});
@@ -1,32 +1,21 @@
 import React from 'react';
-import {LAMPORTS_PER_SOL, PublicKey} from '@solana/web3.js';
 import {StyleSheet, View, Text} from 'react-native';
 import RequestAirdropButton from './RequestAirdropButton';
 import DisconnectButton from './DisconnectButton';
+import {useWalletSession} from './providers/WalletSessionProvider';
 
-interface Account {
-  address: string;
-  label?: string | undefined;
-  publicKey: PublicKey;
-}
-
-type AccountInfoProps = Readonly<{
-  selectedAccount: Account;
-  balance: number | null;
-  fetchAndUpdateBalance: (account: Account) => void;
-}>;
-
-function convertLamportsToSOL(lamports: number) {
+function formatSOL(sol: number) {
   return new Intl.NumberFormat(undefined, {maximumFractionDigits: 1}).format(
-    (lamports || 0) / LAMPORTS_PER_SOL,
+    sol || 0,
   );
 }
 
-export default function AccountInfo({
-  balance,
-  selectedAccount,
-  fetchAndUpdateBalance,
-}: AccountInfoProps) {
+export default function AccountInfo() {
+  const {balance, selectedAccount, refreshBalance} = useWalletSession();
+  if (!selectedAccount) {
+    return null;
+  }
+
   return (
     <View style={styles.container}>
       <View style={styles.textContainer}>
@@ -34,7 +23,7 @@ export default function AccountInfo({
         <Text style={styles.walletBalance}>
           {selectedAccount.label
             ? `${selectedAccount.label}: ◎${
-                balance ? convertLamportsToSOL(balance) : '0'
+                balance ? formatSOL(balance) : '0'
               } SOL`
             : 'Wallet name not found'}
         </Text>
@@ -43,9 +32,7 @@ export default function AccountInfo({
           <DisconnectButton title={'Disconnect'} />
           <RequestAirdropButton
             selectedAccount={selectedAccount}
-            onAirdropComplete={async (account: Account) =>
-              await fetchAndUpdateBalance(account)
-            }
+            onAirdropComplete={refreshBalance}
           />
         </View>
       </View>
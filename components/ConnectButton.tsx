@@ -1,14 +1,13 @@
-import {transact} from '@solana-mobile/mobile-wallet-adapter-protocol-web3js';
 import React, {ComponentProps, useState, useCallback} from 'react';
 import {Button} from 'react-native';
 
-import {useAuthorization} from './providers/AuthorizationProvider';
+import {useWalletSession} from './providers/WalletSessionProvider';
 import {alertAndLog} from '../util/alertAndLog';
 
 type Props = Readonly<ComponentProps<typeof Button>>;
 
 export default function ConnectButton(props: Props) {
-  const {authorizeSession} = useAuthorization();
+  const {connect} = useWalletSession();
   const [authorizationInProgress, setAuthorizationInProgress] = useState(false);
   const handleConnectPress = useCallback(async () => {
     try {
@@ -16,9 +15,10 @@ export default function ConnectButton(props: Props) {
         return;
       }
       setAuthorizationInProgress(true);
-      await transact(async wallet => {
-        await authorizeSession(wallet);
-      });
+      const publicKey = await connect();
+      if (!publicKey) {
+        alertAndLog('Error during connect', 'Unable to connect to wallet');
+      }
     } catch (err: any) {
       alertAndLog(
         'Error during connect',
@@ -27,7 +27,7 @@ export default function ConnectButton(props: Props) {
     } finally {
       setAuthorizationInProgress(false);
     }
-  }, [authorizationInProgress, authorizeSession]);
+  }, [authorizationInProgress, connect]);
   return (
     <Button
       {...props}
@@ -1,21 +1,18 @@
-import {transact} from '@solana-mobile/mobile-wallet-adapter-protocol-web3js';
 import React, {ComponentProps} from 'react';
 import {Button} from 'react-native';
 
-import {useAuthorization} from './providers/AuthorizationProvider';
+import {useWalletSession} from './providers/WalletSessionProvider';
 
 type Props = Readonly<ComponentProps<typeof Button>>;
 
 export default function DisconnectButton(props: Props) {
-  const {deauthorizeSession} = useAuthorization();
+  const {disconnect} = useWalletSession();
   return (
     <Button
       {...props}
       color="#FF6666"
       onPress={() => {
-        transact(async wallet => {
-          await deauthorizeSession(wallet);
-        });
+        disconnect();
       }}
     />
   );
@@ -1,13 +1,13 @@
 import {useConnection} from '../components/providers/ConnectionProvider';
 import React, {useState, useCallback} from 'react';
 import {Button} from 'react-native';
-import {Account} from './providers/AuthorizationProvider';
+import {WalletAccount} from '../src/utils/mobileWalletAdapter';
 import {alertAndLog} from '../util/alertAndLog';
 import {LAMPORTS_PER_SOL} from '@solana/web3.js';
 
 type Props = Readonly<{
-  selectedAccount: Account;
-  onAirdropComplete: (account: Account) => void;
+  selectedAccount: WalletAccount;
+  onAirdropComplete: (account: WalletAccount) => void;
 }>;
 
 function convertLamportsToSOL(lamports: number) {
@@ -1,33 +1,23 @@
 import React, {useState, useCallback} from 'react';
 import {Button, Alert} from 'react-native';
 import {fromUint8Array} from 'js-base64';
-import {
-  transact,
-  Web3MobileWallet,
-} from '@solana-mobile/mobile-wallet-adapter-protocol-web3js';
 
-import {useAuthorization} from './providers/AuthorizationProvider';
+import {useWalletSession} from './providers/WalletSessionProvider';
 import {alertAndLog} from '../util/alertAndLog';
 
 export default function SignMessageButton() {
-  const {authorizeSession} = useAuthorization();
+  const {signMessage: signWithWallet} = useWalletSession();
   const [signingInProgress, setSigningInProgress] = useState(false);
   const signMessage = useCallback(
     async (messageBuffer: Uint8Array) => {
-      return await transact(async (wallet: Web3MobileWallet) => {
-        // First, request for authorization from the wallet.
-        const authorizationResult = await authorizeSession(wallet);
-
-        // Sign the payload with the provided address from authorization.
-        const signedMessages = await wallet.signMessages({
-          addresses: [authorizationResult.address],
-          payloads: [messageBuffer],
-        });
-
-        return signedMessages[0];
-      });
+      // Signed by the selected account of the shared wallet session
+      const signedMessage = await signWithWallet(messageBuffer);
+      if (!signedMessage) {
+        throw new Error('Wallet did not sign the message');
+      }
+      return signedMessage;
     },
-    [authorizeSession],
+    [signWithWallet],
   );
 
   return (
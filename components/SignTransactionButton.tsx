@@ -1,52 +1,44 @@
 import React, {useState, useCallback} from 'react';
 import {Button} from 'react-native';
 import {fromUint8Array} from 'js-base64';
-import {
-  transact,
-  Web3MobileWallet,
-} from '@solana-mobile/mobile-wallet-adapter-protocol-web3js';
 import {Keypair, SystemProgram, Transaction} from '@solana/web3.js';
 
-import {useAuthorization} from './providers/AuthorizationProvider';
+import {useWalletSession} from './providers/WalletSessionProvider';
 import {useConnection} from './providers/ConnectionProvider';
 import {alertAndLog} from '../util/alertAndLog';
 
 export default function SignTransactionButton() {
   const {connection} = useConnection();
-  const {authorizeSession} = useAuthorization();
+  const {selectedAccount, signTransaction: signWithWallet} = useWalletSession();
   const [signingInProgress, setSigningInProgress] = useState(false);
 
   const signTransaction = useCallback(async () => {
-    return await transact(async (wallet: Web3MobileWallet) => {
-      // First, request for authorization from the wallet and fetch the latest
-      // blockhash for building the transaction.
-      const [authorizationResult, latestBlockhash] = await Promise.all([
-        authorizeSession(wallet),
-        connection.getLatestBlockhash(),
-      ]);
+    if (!selectedAccount) {
+      throw new Error('Wallet not connected');
+    }
+    const latestBlockhash = await connection.getLatestBlockhash();
 
-      // Construct a transaction. This transaction uses web3.js `SystemProgram`
-      // to create a transfer that sends lamports to randomly generated address.
-      const keypair = Keypair.generate();
-      const randomTransferTransaction = new Transaction({
-        ...latestBlockhash,
-        feePayer: authorizationResult.publicKey,
-      }).add(
-        SystemProgram.transfer({
-          fromPubkey: authorizationResult.publicKey,
-          toPubkey: keypair.publicKey,
-          lamports: 1_000,
-        }),
-      );
+    // Construct a transaction. This transaction uses web3.js `SystemProgram`
+    // to create a transfer that sends lamports to randomly generated address.
+    const keypair = Keypair.generate();
+    const randomTransferTransaction = new Transaction({
+      ...latestBlockhash,
+      feePayer: selectedAccount.publicKey,
+    }).add(
+      SystemProgram.transfer({
+        fromPubkey: selectedAccount.publicKey,
+        toPubkey: keypair.publicKey,
+        lamports: 1_000,
+      }),
+    );
 
-      // Sign a transaction and receive
-      const signedTransactions = await wallet.signTransactions({
-        transactions: [randomTransferTransaction],
-      });
-
-      return signedTransactions[0];
-    });
-  }, [authorizeSession, connection]);
+    // Sign a transaction and receive
+    const signedTransaction = await signWithWallet(randomTransferTransaction);
+    if (!signedTransaction) {
+      throw new Error('Wallet did not sign the transaction');
+    }
+    return signedTransaction;
+  }, [connection, selectedAccount, signWithWallet]);
 
   return (
     <Button
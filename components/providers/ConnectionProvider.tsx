@@ -7,7 +7,7 @@ import React, {
   useContext,
 } from 'react';
 
-export const RPC_ENDPOINT = 'devnet';
+export {RPC_ENDPOINT} from '../../src/utils/solanaConfig';
 
 export interface ConnectionProviderProps {
   children: ReactNode;
@@ -0,0 +1,71 @@
+import React, {
+  type FC,
+  type ReactNode,
+  createContext,
+  useContext,
+  useEffect,
+  useMemo,
+  useState,
+} from 'react';
+
+import {
+  networkSettingsService,
+  NetworkSettings,
+  NetworkState,
+} from '../../src/utils/networkSettings';
+
+export interface NetworkContextState extends NetworkState {
+  // Endpoint in the pool that requests currently go to
+  activeEndpoint: string;
+  airdropAvailable: boolean;
+  setNetwork: (settings: NetworkSettings) => Promise<NetworkState>;
+}
+
+export interface NetworkProviderProps {
+  children: ReactNode;
+}
+
+/**
+ * Exposes the network chosen in `networkSettingsService` to React and
+ * re-renders whenever the cluster or RPC changes
+ */
+export const NetworkProvider: FC<NetworkProviderProps> = ({children}) => {
+  const [network, setNetworkState] = useState<NetworkState>(() =>
+    networkSettingsService.getState(),
+  );
+  const [activeEndpoint, setActiveEndpoint] = useState(() =>
+    network.rpcPool.getActiveEndpoint(),
+  );
+
+  useEffect(() => {
+    setNetworkState(networkSettingsService.getState());
+    return networkSettingsService.subscribe(setNetworkState);
+  }, []);
+
+  useEffect(() => {
+    setActiveEndpoint(network.rpcPool.getActiveEndpoint());
+    return network.rpcPool.subscribe(setActiveEndpoint);
+  }, [network.rpcPool]);
+
+  const value = useMemo<NetworkContextState>(
+    () => ({
+      ...network,
+      activeEndpoint,
+      airdropAvailable: networkSettingsService.supportsAirdrop(),
+      setNetwork: settings => networkSettingsService.setNetwork(settings),
+    }),
+    [network, activeEndpoint],
+  );
+
+  return (
+    <NetworkContext.Provider value={value}>{children}</NetworkContext.Provider>
+  );
+};
+
+export const NetworkContext = createContext<NetworkContextState>(
+  {} as NetworkContextState,
+);
+
+export function useNetwork(): NetworkContextState {
+  return useContext(NetworkContext);
+}
@@ -0,0 +1,170 @@
+import {PublicKey} from '@solana/web3.js';
+import React, {
+  type FC,
+  type ReactNode,
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useState,
+} from 'react';
+
+import {
+  mobileWalletService,
+  WalletAccount,
+  WalletSession,
+} from '../../src/utils/mobileWalletAdapter';
+import {signerService, SignerKind} from '../../src/utils/signer';
+import {
+  transactionLifecycle,
+  TransactionStatusEvent,
+} from '../../src/utils/transactionLifecycle';
+import {AnyTransaction} from '../../src/utils/versionedTransactions';
+import {useNetwork} from './NetworkProvider';
+
+export interface WalletSessionContextState extends WalletSession {
+  // Which signer trades are signed with: the wallet app or the on-device seed vault
+  signerKind: SignerKind;
+  // SOL balance of the selected account, null until it has been fetched
+  balance: number | null;
+  // SOL balance of every authorized account, keyed by address; missing when unavailable
+  balances: Record<string, number>;
+  // Latest status of recently sent transactions, newest first
+  transactions: TransactionStatusEvent[];
+  // Connects with the given signer, or the current one, and makes it active on success
+  connect: (kind?: SignerKind) => Promise<PublicKey | null>;
+  disconnect: () => Promise<void>;
+  selectAccount: (account: WalletAccount) => Promise<void>;
+  refreshBalance: () => Promise<void>;
+  signTransaction: <T extends AnyTransaction>(
+    transaction: T,
+  ) => Promise<T | null>;
+  signAndSendTransaction: (
+    transaction: AnyTransaction,
+    label?: string,
+    lastValidBlockHeight?: number | null,
+  ) => Promise<string>;
+  signMessage: (message: Uint8Array) => Promise<Uint8Array | null>;
+}
+
+export interface WalletSessionProviderProps {
+  children: ReactNode;
+}
+
+/**
+ * Exposes the session of the active signer, routed through `signerService`, to
+ * React and re-renders whenever it connects, disconnects, switches account or
+ * another signer becomes active
+ */
+export const WalletSessionProvider: FC<WalletSessionProviderProps> = ({
+  children,
+}) => {
+  const [session, setSession] = useState<WalletSession>(() =>
+    signerService.getSession(),
+  );
+  const [signerKind, setSignerKind] = useState<SignerKind>(() =>
+    signerService.getKind(),
+  );
+  const [balances, setBalances] = useState<Record<string, number>>({});
+  const [transactions, setTransactions] = useState<TransactionStatusEvent[]>(
+    () => transactionLifecycle.getRecent(),
+  );
+  const {rpcEndpoint} = useNetwork();
+
+  useEffect(() => {
+    // Catch up on anything that changed between the first render and subscribing
+    const update = (next: WalletSession) => {
+      setSession(next);
+      setSignerKind(signerService.getKind());
+    };
+    update(signerService.getSession());
+    return signerService.subscribe(update);
+  }, []);
+
+  useEffect(
+    () =>
+      transactionLifecycle.subscribe(() =>
+        setTransactions(transactionLifecycle.getRecent()),
+      ),
+    [],
+  );
+
+  const refreshBalance = useCallback(async () => {
+    const {accounts} = signerService.getSession();
+    const fetched = await Promise.all(
+      accounts.map(account =>
+        mobileWalletService.getBalance(account.publicKey),
+      ),
+    );
+    const next: Record<string, number> = {};
+    accounts.forEach((account, index) => {
+      const fetchedBalance = fetched[index];
+      if (fetchedBalance !== null) {
+        next[account.address] = fetchedBalance;
+      }
+    });
+    setBalances(next);
+  }, []);
+
+  // Refetch whenever the accounts, the selection or the network changes
+  const accountsKey = session.accounts.map(account => account.address).join();
+  const selectedAddress = session.selectedAccount?.address;
+  useEffect(() => {
+    refreshBalance();
+  }, [accountsKey, selectedAddress, rpcEndpoint, refreshBalance]);
+
+  const balance =
+    selectedAddress !== undefined ? balances[selectedAddress] ?? null : null;
+
+  const selectAccount = useCallback(
+    (account: WalletAccount) => signerService.selectAccount(account.publicKey),
+    [],
+  );
+
+  const value = useMemo<WalletSessionContextState>(
+    () => ({
+      ...session,
+      signerKind,
+      balance,
+      balances,
+      transactions,
+      connect: kind => signerService.connect(kind),
+      disconnect: () => signerService.disconnect(),
+      selectAccount,
+      refreshBalance,
+      signTransaction: transaction =>
+        signerService.signTransaction(transaction),
+      signAndSendTransaction: (transaction, label, lastValidBlockHeight) =>
+        signerService.signAndSendTransaction(
+          transaction,
+          label,
+          lastValidBlockHeight,
+        ),
+      signMessage: message => signerService.signMessage(message),
+    }),
+    [
+      session,
+      signerKind,
+      balance,
+      balances,
+      transactions,
+      selectAccount,
+      refreshBalance,
+    ],
+  );
+
+  return (
+    <WalletSessionContext.Provider value={value}>
+      {children}
+    </WalletSessionContext.Provider>
+  );
+};
+
+export const WalletSessionContext = createContext<WalletSessionContextState>(
+  {} as WalletSessionContextState,
+);
+
+export function useWalletSession(): WalletSessionContextState {
+  return useContext(WalletSessionContext);
+}
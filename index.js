@@ -3,6 +3,8 @@
  */
 import {Buffer} from 'buffer';
 import 'react-native-get-random-values';
+// Hermes has no TextEncoder/TextDecoder before RN 0.74; BIP39 and @noble/hashes need them
+import 'fast-text-encoding';
 
 import {AppRegistry} from 'react-native';
 import App from './App';
@@ -1,13 +1,10 @@
-import React, {useCallback, useEffect, useState} from 'react';
+import React from 'react';
 import {ScrollView, StyleSheet, Text, View} from 'react-native';
 
 import {Section} from '../components/Section';
 import ConnectButton from '../components/ConnectButton';
 import AccountInfo from '../components/AccountInfo';
-import {
-  useAuthorization,
-  Account,
-} from '../components/providers/AuthorizationProvider';
+import {useWalletSession} from '../components/providers/WalletSessionProvider';
 import {useConnection} from '../components/providers/ConnectionProvider';
 import DisconnectButton from '../components/DisconnectButton';
 import RequestAirdropButton from '../components/RequestAirdropButton';
@@ -16,25 +13,7 @@ import SignTransactionButton from '../components/SignTransactionButton';
 
 export default function MainScreen() {
   const {connection} = useConnection();
-  const {selectedAccount} = useAuthorization();
-  const [balance, setBalance] = useState<number | null>(null);
-
-  const fetchAndUpdateBalance = useCallback(
-    async (account: Account) => {
-      console.log('Fetching balance for: ' + account.publicKey);
-      const fetchedBalance = await connection.getBalance(account.publicKey);
-      console.log('Balance fetched: ' + fetchedBalance);
-      setBalance(fetchedBalance);
-    },
-    [connection],
-  );
-
-  useEffect(() => {
-    if (!selectedAccount) {
-      return;
-    }
-    fetchAndUpdateBalance(selectedAccount);
-  }, [fetchAndUpdateBalance, selectedAccount]);
+  const {selectedAccount} = useWalletSession();
 
   return (
     <>
@@ -53,11 +32,7 @@ export default function MainScreen() {
           ) : null}
         </ScrollView>
         {selectedAccount ? (
-          <AccountInfo
-            selectedAccount={selectedAccount}
-            balance={balance}
-            fetchAndUpdateBalance={fetchAndUpdateBalance}
-          />
+          <AccountInfo />
         ) : (
           <ConnectButton title="Connect wallet" />
         )}
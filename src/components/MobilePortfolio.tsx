@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import {
   View,
   Text,
@@ -9,13 +9,54 @@ import {
   RefreshControl,
   Dimensions,
 } from 'react-native';
-import { PublicKey } from '@solana/web3.js';
 import { mobileWalletService } from '../utils/mobileWalletAdapter';
+import { signerService } from '../utils/signer';
+import { useWalletSession } from '../../components/providers/WalletSessionProvider';
+import { useNetwork } from '../../components/providers/NetworkProvider';
+import { networkSettingsService } from '../utils/networkSettings';
 import { solanaPayService } from '../utils/solanaPayIntegration';
+import { marketDataService } from '../utils/marketData';
+import { priceOracleService } from '../utils/priceOracle';
+import { sellSettlementService, SellOrder } from '../utils/sellSettlement';
+import { TransactionLifecycleError } from '../utils/transactionLifecycle';
+import { tradeLedger, BuyEntry, SellEntry } from '../utils/tradeLedger';
+import {
+  computeCostBasis,
+  COST_BASIS_METHODS,
+  CostBasisLot,
+  CostBasisMethod,
+  LotSelection,
+} from '../utils/costBasis';
+import {
+  portfolioSnapshotService,
+  computeBaselines,
+  measureChange,
+  CHANGE_PERIODS,
+  ChangePeriod,
+  PeriodBaseline,
+} from '../utils/portfolioSnapshots';
+import { quoteStreamService, QuoteTick } from '../utils/quoteStream';
+import { tradeHistoryDecoder, DecodedTrade } from '../utils/tradeMemo';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 
 const { width } = Dimensions.get('window');
 
+const COST_BASIS_METHOD_KEY = 'cost_basis_method';
+
+const CHANGE_PERIOD_LABELS: Record<ChangePeriod, string> = {
+  day: '1D',
+  week: '1W',
+  month: '1M',
+  inception: 'All',
+};
+
+const COST_BASIS_LABELS: Record<CostBasisMethod, string> = {
+  fifo: 'FIFO',
+  lifo: 'LIFO',
+  average: 'Average Cost',
+  specific: 'Specific Lot',
+};
+
 interface PortfolioHolding {
   symbol: string;
   name: string;
@@ -25,6 +66,11 @@ interface PortfolioHolding {
   totalValue: number;
   unrealizedPL: number;
   unrealizedPLPercent: number;
+  realizedPL: number;
+  lots: CostBasisLot[];
+  // Shares in sales still awaiting their payout, in total and by lot sold from
+  pendingSaleQuantity: number;
+  pendingLotSales: Record<string, number>;
   category: 'traditional' | 'crypto' | 'premium';
 }
 
@@ -33,13 +79,58 @@ interface PortfolioSummary {
   totalInvested: number;
   totalPL: number;
   totalPLPercent: number;
-  solBalance: number;
-  dayChange: number;
-  dayChangePercent: number;
+  solBalance: number | null;
+  solPriceUSD: number | null;
+  realizedPL: number;
+  changeBaselines: Record<ChangePeriod, PeriodBaseline | null>;
+}
+
+function repriceHolding(holding: PortfolioHolding, currentPrice: number): PortfolioHolding {
+  const totalValue = currentPrice * holding.quantity;
+  const invested = holding.avgPrice * holding.quantity;
+  const unrealizedPL = totalValue - invested;
+
+  return {
+    ...holding,
+    currentPrice,
+    totalValue,
+    unrealizedPL,
+    unrealizedPLPercent: invested > 0 ? (unrealizedPL / invested) * 100 : 0,
+  };
+}
+
+function pendingSalesOf(sales: SellEntry[], symbol: string): Pick<
+  PortfolioHolding,
+  'pendingSaleQuantity' | 'pendingLotSales'
+> {
+  const pending = sales.filter(sale => sale.stockSymbol === symbol);
+  const pendingLotSales: Record<string, number> = {};
+  pending.forEach(sale => (sale.lotSelections ?? []).forEach(lot => {
+    pendingLotSales[lot.lotId] = (pendingLotSales[lot.lotId] ?? 0) + lot.quantity;
+  }));
+
+  return {
+    pendingSaleQuantity: pending.reduce((sum, sale) => sum + sale.quantity, 0),
+    pendingLotSales,
+  };
+}
+
+function summarizeHoldings(holdings: PortfolioHolding[]): Pick<
+  PortfolioSummary,
+  'totalValue' | 'totalInvested' | 'totalPL' | 'totalPLPercent'
+> {
+  const totalValue = holdings.reduce((sum, holding) => sum + holding.totalValue, 0);
+  const totalInvested = holdings.reduce((sum, holding) => sum + (holding.avgPrice * holding.quantity), 0);
+  const totalPL = totalValue - totalInvested;
+  const totalPLPercent = totalInvested > 0 ? (totalPL / totalInvested) * 100 : 0;
+
+  return { totalValue, totalInvested, totalPL, totalPLPercent };
 }
 
 export const MobilePortfolio: React.FC = () => {
-  const [connectedWallet, setConnectedWallet] = useState<PublicKey | null>(null);
+  const { selectedAccount, connect, signAndSendTransaction } = useWalletSession();
+  const connectedWallet = selectedAccount?.publicKey ?? null;
+  const { rpcEndpoint } = useNetwork();
   const [holdings, setHoldings] = useState<PortfolioHolding[]>([]);
   const [summary, setSummary] = useState<PortfolioSummary>({
     totalValue: 0,
@@ -47,36 +138,75 @@ export const MobilePortfolio: React.FC = () => {
     totalPL: 0,
     totalPLPercent: 0,
     solBalance: 0,
-    dayChange: 0,
-    dayChangePercent: 0,
+    solPriceUSD: null,
+    realizedPL: 0,
+    changeBaselines: { day: null, week: null, month: null, inception: null },
   });
+  const [changePeriod, setChangePeriod] = useState<ChangePeriod>('day');
   const [refreshing, setRefreshing] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
+  const [costBasisMethod, setCostBasisMethod] = useState<CostBasisMethod>('fifo');
+  // Trades found on chain that this device's history is missing
+  const [unrecordedTrades, setUnrecordedTrades] = useState<DecodedTrade[]>([]);
 
   useEffect(() => {
-    checkWalletConnection();
+    loadCostBasisMethod();
   }, []);
 
+  // Never show one account's or cluster's holdings under another
   useEffect(() => {
-    if (connectedWallet) {
-      loadPortfolioData();
+    setHoldings([]);
+    setUnrecordedTrades([]);
+  }, [selectedAccount?.address, rpcEndpoint]);
+
+  // Keep holdings priced from live ticks between refreshes
+  const handleQuoteTick = useCallback((tick: QuoteTick) => {
+    setHoldings(current => current.map(holding =>
+      holding.symbol === tick.symbol ? repriceHolding(holding, tick.price) : holding
+    ));
+  }, []);
+
+  const holdingSymbols = holdings.map(holding => holding.symbol).join(',');
+  // Follows the network, which re-renders this through rpcEndpoint
+  const sellAvailable = sellSettlementService.canSell();
+
+  useEffect(() => {
+    if (!holdingSymbols) {
+      return;
+    }
+    return quoteStreamService.subscribe(holdingSymbols.split(','), handleQuoteTick);
+  }, [holdingSymbols, handleQuoteTick]);
+
+  useEffect(() => {
+    setSummary(current => ({ ...current, ...summarizeHoldings(holdings) }));
+  }, [holdings]);
+
+  const loadCostBasisMethod = async () => {
+    try {
+      const stored = await AsyncStorage.getItem(COST_BASIS_METHOD_KEY);
+      if (stored && COST_BASIS_METHODS.includes(stored as CostBasisMethod)) {
+        setCostBasisMethod(stored as CostBasisMethod);
+      }
+    } catch (error) {
+      console.error('Failed to load cost basis method:', error);
     }
-  }, [connectedWallet]);
+  };
 
-  const checkWalletConnection = async () => {
+  // Applies to future sales; past sales keep the method they were placed with
+  const cycleCostBasisMethod = async () => {
+    const next = COST_BASIS_METHODS[(COST_BASIS_METHODS.indexOf(costBasisMethod) + 1) % COST_BASIS_METHODS.length];
+    setCostBasisMethod(next);
     try {
-      const publicKey = mobileWalletService.getPublicKey();
-      setConnectedWallet(publicKey);
+      await AsyncStorage.setItem(COST_BASIS_METHOD_KEY, next);
     } catch (error) {
-      console.error('Failed to check wallet connection:', error);
+      console.error('Failed to save cost basis method:', error);
     }
   };
 
   const connectWallet = async () => {
     try {
-      const publicKey = await mobileWalletService.connect();
+      const publicKey = await connect();
       if (publicKey) {
-        setConnectedWallet(publicKey);
         Alert.alert('Success', `Wallet connected: ${publicKey.toBase58().substring(0, 8)}...`);
       }
     } catch (error) {
@@ -85,194 +215,233 @@ export const MobilePortfolio: React.FC = () => {
     }
   };
 
-  const loadPortfolioData = async () => {
+  const loadPortfolioData = useCallback(async () => {
     if (!connectedWallet) return;
 
+    // The user may switch accounts or networks while this load is still running
+    const isCurrentAccount = () =>
+      (signerService.getSession().selectedAccount?.publicKey.equals(connectedWallet) ?? false) &&
+      networkSettingsService.getState().rpcEndpoint === rpcEndpoint;
+
     setIsLoading(true);
     try {
-      // Load user's transaction history and calculate holdings
-      const paymentHistory = await solanaPayService.getPaymentHistory();
-      const confirmedPurchases = paymentHistory.filter(p => p.status === 'confirmed');
-      
-      // Group purchases by stock symbol
-      const holdingsMap = new Map<string, any>();
-      
-      confirmedPurchases.forEach(purchase => {
-        if (holdingsMap.has(purchase.stockSymbol)) {
-          const existing = holdingsMap.get(purchase.stockSymbol);
-          existing.quantity += purchase.quantity;
-          existing.totalInvested += purchase.totalUSD;
-        } else {
-          holdingsMap.set(purchase.stockSymbol, {
-            symbol: purchase.stockSymbol,
-            quantity: purchase.quantity,
-            totalInvested: purchase.totalUSD,
-            category: purchase.category,
-          });
-        }
-      });
-
-      // Convert to holdings array with current prices
-      const holdingsArray: PortfolioHolding[] = Array.from(holdingsMap.values()).map(holding => {
-        const currentPrice = getCurrentStockPrice(holding.symbol);
-        const avgPrice = holding.totalInvested / holding.quantity;
-        const totalValue = currentPrice * holding.quantity;
-        const unrealizedPL = totalValue - holding.totalInvested;
-        const unrealizedPLPercent = (unrealizedPL / holding.totalInvested) * 100;
+      // Settle trades whose confirmation was still pending, then calculate holdings
+      await Promise.all([
+        solanaPayService.confirmPendingPayments(connectedWallet),
+        sellSettlementService.confirmPendingSales(connectedWallet),
+      ]);
+      const history = await tradeLedger.getEntries(connectedWallet);
+      const report = computeCostBasis(history, costBasisMethod);
+      const openPositions = report.positions.filter(position => position.quantity > 0);
+      const categories = new Map(
+        history
+          .filter((entry): entry is BuyEntry => entry.type === 'buy')
+          .map(entry => [entry.stockSymbol, entry.category])
+      );
+      // Costs only count confirmed sales, but shares already being sold can't be sold again
+      const pendingSales = history.filter(
+        (entry): entry is SellEntry => entry.type === 'sell' && entry.status === 'pending'
+      );
 
-        return {
-          symbol: holding.symbol,
-          name: getStockName(holding.symbol),
-          quantity: holding.quantity,
-          avgPrice,
+      // Price holdings from the same market data the stock listing uses
+      const quotes = openPositions.length > 0
+        ? await marketDataService.getQuotes(openPositions.map(position => position.symbol))
+        : [];
+      const quotesBySymbol = new Map(quotes.map(quote => [quote.symbol, quote]));
+
+      // Convert to holdings array with current prices; basis includes buy fees
+      const holdingsArray: PortfolioHolding[] = openPositions.map(position => {
+        const quote = quotesBySymbol.get(position.symbol);
+        // Unlisted symbols are carried at cost rather than an invented price
+        const currentPrice = quote ? quote.price : position.averageCostUSD;
+
+        return repriceHolding({
+          symbol: position.symbol,
+          name: quote ? quote.name : position.symbol,
+          quantity: position.quantity,
+          avgPrice: position.averageCostUSD,
           currentPrice,
-          totalValue,
-          unrealizedPL,
-          unrealizedPLPercent,
-          category: holding.category,
-        };
+          totalValue: 0,
+          unrealizedPL: 0,
+          unrealizedPLPercent: 0,
+          realizedPL: position.realizedPL,
+          lots: position.lots,
+          ...pendingSalesOf(pendingSales, position.symbol),
+          category: quote ? quote.category : categories.get(position.symbol) ?? 'traditional',
+        }, currentPrice);
       });
 
+      if (!isCurrentAccount()) return;
       setHoldings(holdingsArray);
 
       // Calculate portfolio summary
-      const totalValue = holdingsArray.reduce((sum, holding) => sum + holding.totalValue, 0);
-      const totalInvested = holdingsArray.reduce((sum, holding) => sum + (holding.avgPrice * holding.quantity), 0);
-      const totalPL = totalValue - totalInvested;
-      const totalPLPercent = totalInvested > 0 ? (totalPL / totalInvested) * 100 : 0;
+      const { totalValue, totalInvested, totalPL, totalPLPercent } = summarizeHoldings(holdingsArray);
       
       // Get SOL balance
-      const solBalance = await mobileWalletService.getBalance();
+      const solBalance = await mobileWalletService.getBalance(connectedWallet);
+
+      // A stale oracle hides the USD value of the balance instead of guessing it
+      let solPriceUSD: number | null = null;
+      try {
+        solPriceUSD = await priceOracleService.getSolPriceUSD();
+      } catch (error) {
+        console.error('SOL price unavailable:', error);
+      }
       
-      // Mock day change (in production, this would be calculated from historical data)
-      const dayChange = totalValue * (Math.random() * 0.06 - 0.03); // Random ±3%
-      const dayChangePercent = totalValue > 0 ? (dayChange / totalValue) * 100 : 0;
+      // Today's snapshot becomes the close once the day is over
+      const snapshots = await portfolioSnapshotService.recordSnapshot(
+        connectedWallet,
+        holdingsArray.map(holding => ({
+          symbol: holding.symbol,
+          quantity: holding.quantity,
+          price: holding.currentPrice,
+        })),
+        solPriceUSD
+      );
 
+      if (!isCurrentAccount()) return;
       setSummary({
         totalValue,
         totalInvested,
         totalPL,
         totalPLPercent,
         solBalance,
-        dayChange,
-        dayChangePercent,
+        solPriceUSD,
+        realizedPL: report.realizedPL,
+        changeBaselines: computeBaselines(snapshots, history),
       });
 
+      // Holdings still load when the RPC node can't return history
+      tradeHistoryDecoder.findUnrecordedTrades(connectedWallet, history)
+        .then(trades => {
+          if (isCurrentAccount()) {
+            setUnrecordedTrades(trades);
+          }
+        })
+        .catch(error => console.error('On-chain history check failed:', error));
+
     } catch (error) {
       console.error('Failed to load portfolio data:', error);
       Alert.alert('Error', 'Failed to load portfolio data');
     } finally {
       setIsLoading(false);
     }
-  };
+  }, [connectedWallet, rpcEndpoint, costBasisMethod]);
 
-  const getCurrentStockPrice = (symbol: string): number => {
-    // Mock current prices (in production, this would come from an API)
-    const prices: { [key: string]: number } = {
-      'AAPL': 178.72,
-      'GOOGL': 138.21,
-      'MSFT': 378.85,
-      'TSLA': 248.50,
-      'AMZN': 155.89,
-      'COIN': 245.67,
-      'MSTR': 387.45,
-      'RIOT': 12.85,
-      'MARA': 19.67,
-      'HOOD': 23.45,
-      'VANA': 45.32,
-      'CIRCLE': 125.00,
-      'GEMINI': 89.50,
-      'KRAKEN': 156.78,
-      'OPENSEA': 67.34,
-    };
-    return prices[symbol] || 100;
-  };
-
-  const getStockName = (symbol: string): string => {
-    const names: { [key: string]: string } = {
-      'AAPL': 'Apple Inc.',
-      'GOOGL': 'Alphabet Inc.',
-      'MSFT': 'Microsoft Corp.',
-      'TSLA': 'Tesla Inc.',
-      'AMZN': 'Amazon.com Inc.',
-      'COIN': 'Coinbase Global',
-      'MSTR': 'MicroStrategy Inc.',
-      'RIOT': 'Riot Platforms',
-      'MARA': 'Marathon Digital',
-      'HOOD': 'Robinhood Markets',
-      'VANA': 'Vanna Holdings',
-      'CIRCLE': 'Circle Internet Financial',
-      'GEMINI': 'Gemini Trust Company',
-      'KRAKEN': 'Kraken Digital Asset Exchange',
-      'OPENSEA': 'OpenSea Technologies',
-    };
-    return names[symbol] || symbol;
-  };
+  useEffect(() => {
+    if (connectedWallet) {
+      loadPortfolioData();
+    }
+  }, [connectedWallet, loadPortfolioData]);
+
+  const handleSellStock = async (holding: PortfolioHolding, lot?: CostBasisLot) => {
+    const unsold = holding.quantity - holding.pendingSaleQuantity;
+    const available = lot ? Math.min(lot.quantity - (holding.pendingLotSales[lot.id] ?? 0), unsold) : unsold;
+    if (available <= 0) {
+      Alert.alert('Sale Pending', 'These shares are already being sold');
+      return;
+    }
+    const pendingNote = holding.pendingSaleQuantity > 0
+      ? `, ${holding.pendingSaleQuantity} of them already being sold`
+      : '';
 
-  const handleSellStock = async (holding: PortfolioHolding) => {
     Alert.prompt(
       'Sell Stock',
-      `How many shares of ${holding.symbol} would you like to sell?\nYou own ${holding.quantity} shares`,
+      lot
+        ? `How many shares from the lot bought ${new Date(lot.acquiredAt).toLocaleDateString()} would you like to sell?\nYou can sell up to ${available} shares from this lot`
+        : `How many shares of ${holding.symbol} would you like to sell?\nYou own ${holding.quantity} shares${pendingNote}`,
       [
         { text: 'Cancel', style: 'cancel' },
         {
           text: 'Sell',
           onPress: async (quantity) => {
-            if (quantity && !isNaN(Number(quantity))) {
-              const sellQuantity = Number(quantity);
-              if (sellQuantity > holding.quantity) {
-                Alert.alert('Error', 'You cannot sell more shares than you own');
-                return;
-              }
-              await processSell(holding, sellQuantity);
+            const sellQuantity = Number(quantity);
+            if (!quantity || !Number.isFinite(sellQuantity) || sellQuantity <= 0) {
+              Alert.alert('Error', 'Enter a number of shares greater than zero');
+              return;
             }
+            if (sellQuantity > available) {
+              Alert.alert('Error', lot
+                ? 'You cannot sell more shares than the lot has left'
+                : 'You cannot sell more shares than you own outside pending sales');
+              return;
+            }
+            await processSell(holding, sellQuantity, lot);
           },
         },
       ],
       'plain-text',
-      Math.min(holding.quantity, 1).toString()
+      Math.min(available, 1).toString()
     );
   };
 
-  const processSell = async (holding: PortfolioHolding, quantity: number) => {
+  const processSell = async (holding: PortfolioHolding, quantity: number, lot?: CostBasisLot) => {
     try {
       if (!connectedWallet) return;
 
-      const sellValue = holding.currentPrice * quantity;
-      const { feeSOL } = solanaPayService.calculateTradingFee(holding.symbol, sellValue / 200, 'sell'); // Assuming $200 SOL
-      const netSOL = (sellValue / 200) - feeSOL;
+      // A sale from a chosen lot is always matched against that lot
+      const method: CostBasisMethod = lot ? 'specific' : costBasisMethod === 'specific' ? 'fifo' : costBasisMethod;
+      const lotSelections: LotSelection[] | undefined = lot ? [{ lotId: lot.id, quantity }] : undefined;
+
+      const order = await sellSettlementService.createSellOrder(
+        connectedWallet,
+        holding.symbol,
+        holding.currentPrice,
+        quantity,
+        method,
+        lotSelections
+      );
 
       Alert.alert(
         'Confirm Sale',
         `Sell ${quantity} shares of ${holding.symbol}\n\n` +
-        `Sale Value: $${sellValue.toFixed(2)}\n` +
-        `You'll receive: ${netSOL.toFixed(4)} SOL\n` +
-        `Trading Fee: ${feeSOL.toFixed(4)} SOL`,
+        `Sale Value: $${order.totalUSD.toFixed(2)}\n` +
+        `You'll receive: ${order.netSOL.toFixed(4)} SOL\n` +
+        `Trading Fee: ${order.feeSOL.toFixed(4)} SOL`,
         [
           { text: 'Cancel', style: 'cancel' },
-          { text: 'Confirm Sale', onPress: () => executeSell(holding, quantity, netSOL) },
+          { text: 'Confirm Sale', onPress: () => executeSell(order) },
         ]
       );
     } catch (error) {
       console.error('Sell processing failed:', error);
-      Alert.alert('Error', 'Failed to process sale');
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to process sale');
     }
   };
 
-  const executeSell = async (holding: PortfolioHolding, quantity: number, netSOL: number) => {
+  const executeSell = async (order: SellOrder) => {
     try {
-      // In a real implementation, this would create a sell transaction
-      // For now, we'll simulate the sale by updating local storage
-      
+      // Treasury co-signs the payout; the wallet signs and sends it
+      const transaction = await sellSettlementService.requestSettlement(order);
+      let signature: string;
+      try {
+        signature = await signAndSendTransaction(
+          transaction,
+          `Sell ${order.quantity} ${order.stockSymbol}`
+        );
+      } catch (error) {
+        if (!(error instanceof TransactionLifecycleError)) {
+          throw error;
+        }
+        // A payout that may still land stays pending for confirmPendingSales
+        if (error.isFinal) {
+          await sellSettlementService.cancelSale(order);
+        }
+        Alert.alert(error.isFinal ? 'Sale Failed' : 'Sale Pending', error.message);
+        return;
+      }
+
+      await sellSettlementService.completeSale(order, signature);
+
       Alert.alert(
         'Sale Successful!',
-        `Sold ${quantity} shares of ${holding.symbol}\n` +
-        `Received: ${netSOL.toFixed(4)} SOL`,
+        `Sold ${order.quantity} shares of ${order.stockSymbol}\n` +
+        `Received: ${order.netSOL.toFixed(4)} SOL`,
         [{ text: 'OK', onPress: () => onRefresh() }]
       );
     } catch (error) {
       console.error('Sell execution failed:', error);
-      Alert.alert('Error', 'Failed to execute sale');
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to execute sale');
     }
   };
 
@@ -282,18 +451,52 @@ export const MobilePortfolio: React.FC = () => {
     setRefreshing(false);
   };
 
+  const renderPeriodChange = () => {
+    const baseline = summary.changeBaselines[changePeriod];
+    // Measured against live totals so ticks move the change too
+    const change = baseline ? measureChange(baseline, summary.totalValue, summary.solPriceUSD) : null;
+
+    return (
+      <View style={styles.dayChange}>
+        {change ? (
+          <>
+            <Text style={[styles.dayChangeText, change.usd >= 0 ? styles.positive : styles.negative]}>
+              {change.usd >= 0 ? '+' : '-'}${Math.abs(change.usd).toFixed(2)} (
+              {change.usdPercent >= 0 ? '+' : ''}{change.usdPercent.toFixed(2)}%)
+            </Text>
+            {change.sol !== null && change.solPercent !== null && (
+              <Text style={[styles.dayChangeSolText, change.sol >= 0 ? styles.positive : styles.negative]}>
+                {change.sol >= 0 ? '+' : '-'}{Math.abs(change.sol).toFixed(4)} SOL (
+                {change.solPercent >= 0 ? '+' : ''}{change.solPercent.toFixed(2)}%)
+              </Text>
+            )}
+          </>
+        ) : (
+          <Text style={styles.dayChangeLabel}>No history for this period yet</Text>
+        )}
+        <View style={styles.periodTabs}>
+          {CHANGE_PERIODS.map(period => (
+            <TouchableOpacity
+              key={period}
+              style={[styles.periodTab, period === changePeriod && styles.periodTabActive]}
+              onPress={() => setChangePeriod(period)}
+            >
+              <Text style={[styles.periodTabText, period === changePeriod && styles.periodTabTextActive]}>
+                {CHANGE_PERIOD_LABELS[period]}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      </View>
+    );
+  };
+
   const renderPortfolioSummary = () => (
     <View style={styles.summaryContainer}>
       <View style={styles.summaryHeader}>
         <Text style={styles.summaryTitle}>Portfolio Value</Text>
         <Text style={styles.totalValue}>${summary.totalValue.toFixed(2)}</Text>
-        <View style={styles.dayChange}>
-          <Text style={[styles.dayChangeText, summary.dayChange >= 0 ? styles.positive : styles.negative]}>
-            {summary.dayChange >= 0 ? '+' : ''}${Math.abs(summary.dayChange).toFixed(2)} (
-            {summary.dayChangePercent >= 0 ? '+' : ''}{summary.dayChangePercent.toFixed(2)}%)
-          </Text>
-          <Text style={styles.dayChangeLabel}>Today</Text>
-        </View>
+        {renderPeriodChange()}
       </View>
 
       <View style={styles.summaryStats}>
@@ -306,21 +509,72 @@ export const MobilePortfolio: React.FC = () => {
             ({summary.totalPLPercent >= 0 ? '+' : ''}{summary.totalPLPercent.toFixed(2)}%)
           </Text>
         </View>
+
+        <View style={styles.statItem}>
+          <Text style={styles.statLabel}>Realized P&L</Text>
+          <Text style={[styles.statValue, summary.realizedPL >= 0 ? styles.positive : styles.negative]}>
+            {summary.realizedPL >= 0 ? '+' : '-'}${Math.abs(summary.realizedPL).toFixed(2)}
+          </Text>
+        </View>
         
         <View style={styles.statItem}>
           <Text style={styles.statLabel}>SOL Balance</Text>
-          <Text style={styles.statValue}>{summary.solBalance.toFixed(4)} SOL</Text>
-          <Text style={styles.statPercent}>${(summary.solBalance * 200).toFixed(2)}</Text>
+          <Text style={styles.statValue}>
+            {summary.solBalance !== null ? `${summary.solBalance.toFixed(4)} SOL` : '—'}
+          </Text>
+          <Text style={styles.statPercent}>
+            {summary.solBalance === null
+              ? 'Balance unavailable'
+              : summary.solPriceUSD !== null
+                ? `$${(summary.solBalance * summary.solPriceUSD).toFixed(2)}`
+                : 'Price unavailable'}
+          </Text>
         </View>
       </View>
+
+      <TouchableOpacity style={styles.costBasisToggle} onPress={cycleCostBasisMethod}>
+        <Text style={styles.costBasisText}>
+          Cost basis: {COST_BASIS_LABELS[costBasisMethod]}
+        </Text>
+      </TouchableOpacity>
     </View>
   );
 
+  const renderUnrecordedTrades = () => (
+    <View style={styles.unrecordedContainer}>
+      <Text style={styles.unrecordedTitle}>
+        {unrecordedTrades.length} on-chain {unrecordedTrades.length === 1 ? 'trade is' : 'trades are'} missing from this device
+      </Text>
+      <Text style={styles.unrecordedText}>
+        Holdings and P&L only count trades recorded on this device, so ones made before a reinstall or on another device are left out.
+      </Text>
+      {unrecordedTrades.map(trade => (
+        <Text key={`${trade.signature}:${trade.symbol}`} style={styles.unrecordedTrade}>
+          {trade.blockTime ? new Date(trade.blockTime * 1000).toLocaleDateString() : 'Unknown date'}
+          {' · '}{trade.side === 'buy' ? 'Bought' : 'Sold'} {trade.quantity} {trade.symbol}
+          {trade.priceUSD !== undefined ? ` @ $${trade.priceUSD.toFixed(2)}` : ''}
+        </Text>
+      ))}
+    </View>
+  );
+
+  const renderLot = (holding: PortfolioHolding, lot: CostBasisLot) => (
+    <TouchableOpacity
+      key={lot.id}
+      style={styles.lotRow}
+      onPress={() => handleSellStock(holding, lot)}
+    >
+      <Text style={styles.lotText}>{new Date(lot.acquiredAt).toLocaleDateString()}</Text>
+      <Text style={styles.lotText}>{lot.quantity} @ ${lot.unitCostUSD.toFixed(2)}</Text>
+    </TouchableOpacity>
+  );
+
   const renderHolding = (holding: PortfolioHolding) => (
     <TouchableOpacity
       key={holding.symbol}
       style={styles.holdingItem}
       onPress={() => handleSellStock(holding)}
+      disabled={!sellAvailable}
     >
       <View style={styles.holdingHeader}>
         <View>
@@ -335,10 +589,13 @@ export const MobilePortfolio: React.FC = () => {
       <View style={styles.holdingDetails}>
         <View style={styles.holdingRow}>
           <Text style={styles.holdingLabel}>Quantity</Text>
-          <Text style={styles.holdingValue}>{holding.quantity} shares</Text>
+          <Text style={styles.holdingValue}>
+            {holding.quantity} shares
+            {holding.pendingSaleQuantity > 0 ? ` (${holding.pendingSaleQuantity} being sold)` : ''}
+          </Text>
         </View>
         <View style={styles.holdingRow}>
-          <Text style={styles.holdingLabel}>Avg Price</Text>
+          <Text style={styles.holdingLabel}>Avg Cost</Text>
           <Text style={styles.holdingValue}>${holding.avgPrice.toFixed(2)}</Text>
         </View>
         <View style={styles.holdingRow}>
@@ -356,7 +613,22 @@ export const MobilePortfolio: React.FC = () => {
             {holding.unrealizedPLPercent >= 0 ? '+' : ''}{holding.unrealizedPLPercent.toFixed(2)}%)
           </Text>
         </View>
+        {holding.realizedPL !== 0 && (
+          <View style={styles.holdingRow}>
+            <Text style={styles.holdingLabel}>Realized P&L</Text>
+            <Text style={[styles.holdingValue, holding.realizedPL >= 0 ? styles.positive : styles.negative]}>
+              {holding.realizedPL >= 0 ? '+' : '-'}${Math.abs(holding.realizedPL).toFixed(2)}
+            </Text>
+          </View>
+        )}
       </View>
+
+      {sellAvailable && costBasisMethod === 'specific' && (
+        <View style={styles.lotsContainer}>
+          <Text style={styles.lotsTitle}>Tap a lot to sell from it</Text>
+          {holding.lots.map(lot => renderLot(holding, lot))}
+        </View>
+      )}
     </TouchableOpacity>
   );
 
@@ -380,9 +652,13 @@ export const MobilePortfolio: React.FC = () => {
       refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} />}
     >
       {renderPortfolioSummary()}
+      {unrecordedTrades.length > 0 && renderUnrecordedTrades()}
 
       <View style={styles.holdingsContainer}>
         <Text style={styles.holdingsTitle}>Your Holdings</Text>
+        {!sellAvailable && holdings.length > 0 && (
+          <Text style={styles.sellUnavailableText}>Selling is unavailable on this network</Text>
+        )}
         {holdings.length === 0 ? (
           <View style={styles.noHoldingsContainer}>
             <Text style={styles.noHoldingsText}>No holdings yet</Text>
@@ -444,6 +720,29 @@ const styles = StyleSheet.create({
     shadowRadius: 8,
     elevation: 4,
   },
+  unrecordedContainer: {
+    backgroundColor: '#fff8e1',
+    marginHorizontal: 16,
+    marginBottom: 16,
+    borderRadius: 12,
+    padding: 16,
+  },
+  unrecordedTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#8a6d00',
+    marginBottom: 4,
+  },
+  unrecordedText: {
+    fontSize: 12,
+    color: '#8a6d00',
+    marginBottom: 8,
+  },
+  unrecordedTrade: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 2,
+  },
   summaryHeader: {
     alignItems: 'center',
     marginBottom: 20,
@@ -466,11 +765,36 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: '600',
   },
+  dayChangeSolText: {
+    fontSize: 13,
+    marginTop: 2,
+  },
   dayChangeLabel: {
     fontSize: 12,
     color: '#999',
     marginTop: 2,
   },
+  periodTabs: {
+    flexDirection: 'row',
+    marginTop: 10,
+  },
+  periodTab: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+    marginHorizontal: 2,
+  },
+  periodTabActive: {
+    backgroundColor: '#e3f2fd',
+  },
+  periodTabText: {
+    fontSize: 12,
+    color: '#999',
+  },
+  periodTabTextActive: {
+    color: '#1976d2',
+    fontWeight: '600',
+  },
   summaryStats: {
     flexDirection: 'row',
     justifyContent: 'space-around',
@@ -510,6 +834,12 @@ const styles = StyleSheet.create({
     color: '#333',
     marginBottom: 16,
   },
+  sellUnavailableText: {
+    fontSize: 14,
+    color: '#999',
+    marginTop: -8,
+    marginBottom: 16,
+  },
   noHoldingsContainer: {
     alignItems: 'center',
     paddingVertical: 40,
@@ -585,4 +915,32 @@ const styles = StyleSheet.create({
     fontWeight: '500',
     color: '#333',
   },
+  costBasisToggle: {
+    alignItems: 'center',
+    paddingTop: 12,
+  },
+  costBasisText: {
+    fontSize: 12,
+    color: '#1976d2',
+  },
+  lotsContainer: {
+    marginTop: 12,
+    paddingTop: 8,
+    borderTopWidth: 1,
+    borderTopColor: '#f0f0f0',
+  },
+  lotsTitle: {
+    fontSize: 12,
+    color: '#999',
+    marginBottom: 4,
+  },
+  lotRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 6,
+  },
+  lotText: {
+    fontSize: 13,
+    color: '#333',
+  },
 });
\ No newline at end of file
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
 import {
   View,
   Text,
@@ -9,26 +9,32 @@ import {
   Alert,
   ActivityIndicator,
   RefreshControl,
+  ViewToken,
 } from 'react-native';
-import { PublicKey } from '@solana/web3.js';
-import { mobileWalletService } from '../utils/mobileWalletAdapter';
+import { LAMPORTS_PER_SOL } from '@solana/web3.js';
+import { useWalletSession } from '../../components/providers/WalletSessionProvider';
 import { solanaPayService, StockPurchasePayment } from '../utils/solanaPayIntegration';
+import { TransactionPreviewError } from '../utils/transactionPreview';
+import { TransactionLifecycleError } from '../utils/transactionLifecycle';
+import {
+  PRIORITY_FEE_SPEEDS,
+  PriorityFeeEstimate,
+  PriorityFeeSpeed,
+} from '../utils/priorityFees';
 import { seedVaultService } from '../utils/seedVault';
-
-interface Stock {
-  symbol: string;
-  name: string;
-  price: number;
-  change: number;
-  changePercent: number;
-  category: 'traditional' | 'crypto' | 'premium';
-  logo?: string;
-}
+import { marketDataService, Stock } from '../utils/marketData';
+import { quoteStreamService, QuoteTick } from '../utils/quoteStream';
 
 interface MobileStockListingProps {
   onStockSelect?: (stock: Stock) => void;
 }
 
+const SPEED_LABELS: Record<PriorityFeeSpeed, string> = {
+  standard: 'Standard',
+  fast: 'Fast',
+  turbo: 'Turbo',
+};
+
 export const MobileStockListing: React.FC<MobileStockListingProps> = ({ onStockSelect }) => {
   const [stocks, setStocks] = useState<Stock[]>([]);
   const [filteredStocks, setFilteredStocks] = useState<Stock[]>([]);
@@ -36,36 +42,39 @@ export const MobileStockListing: React.FC<MobileStockListingProps> = ({ onStockS
   const [selectedCategory, setSelectedCategory] = useState<'all' | 'traditional' | 'crypto' | 'premium'>('all');
   const [isLoading, setIsLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
-  const [connectedWallet, setConnectedWallet] = useState<PublicKey | null>(null);
-  const [userBalance, setUserBalance] = useState<number>(0);
-
-  // Mock stock data (in production, this would come from an API)
-  const mockStocks: Stock[] = [
-    // Traditional stocks
-    { symbol: 'AAPL', name: 'Apple Inc.', price: 178.72, change: 2.15, changePercent: 1.22, category: 'traditional' },
-    { symbol: 'GOOGL', name: 'Alphabet Inc.', price: 138.21, change: -1.45, changePercent: -1.04, category: 'traditional' },
-    { symbol: 'MSFT', name: 'Microsoft Corp.', price: 378.85, change: 3.22, changePercent: 0.86, category: 'traditional' },
-    { symbol: 'TSLA', name: 'Tesla Inc.', price: 248.50, change: -8.75, changePercent: -3.40, category: 'traditional' },
-    { symbol: 'AMZN', name: 'Amazon.com Inc.', price: 155.89, change: 1.89, changePercent: 1.23, category: 'traditional' },
-    
-    // Crypto stocks
-    { symbol: 'COIN', name: 'Coinbase Global', price: 245.67, change: 15.23, changePercent: 6.60, category: 'crypto' },
-    { symbol: 'MSTR', name: 'MicroStrategy Inc.', price: 387.45, change: 22.15, changePercent: 6.07, category: 'crypto' },
-    { symbol: 'RIOT', name: 'Riot Platforms', price: 12.85, change: 0.95, changePercent: 7.98, category: 'crypto' },
-    { symbol: 'MARA', name: 'Marathon Digital', price: 19.67, change: 1.34, changePercent: 7.31, category: 'crypto' },
-    { symbol: 'HOOD', name: 'Robinhood Markets', price: 23.45, change: -0.67, changePercent: -2.78, category: 'crypto' },
-    { symbol: 'VANA', name: 'Vanna Holdings', price: 45.32, change: 3.21, changePercent: 7.62, category: 'crypto' },
-    
-    // Premium stocks
-    { symbol: 'CIRCLE', name: 'Circle Internet Financial', price: 125.00, change: 5.67, changePercent: 4.75, category: 'premium' },
-    { symbol: 'GEMINI', name: 'Gemini Trust Company', price: 89.50, change: 2.15, changePercent: 2.46, category: 'premium' },
-    { symbol: 'KRAKEN', name: 'Kraken Digital Asset Exchange', price: 156.78, change: 8.90, changePercent: 6.02, category: 'premium' },
-    { symbol: 'OPENSEA', name: 'OpenSea Technologies', price: 67.34, change: -2.45, changePercent: -3.51, category: 'premium' },
-  ];
+  const [priorityFeeSpeed, setPriorityFeeSpeed] = useState<PriorityFeeSpeed>('standard');
+  const {
+    selectedAccount,
+    balance,
+    connect,
+    refreshBalance,
+    signAndSendTransaction,
+    transactionVersion,
+  } = useWalletSession();
+  const connectedWallet = selectedAccount?.publicKey ?? null;
+  const [visibleSymbols, setVisibleSymbols] = useState<string[]>([]);
+
+  // Only stream quotes for rows that are on screen
+  const onViewableItemsChanged = useRef(({ viewableItems }: { viewableItems: ViewToken[] }) => {
+    setVisibleSymbols(viewableItems.map(token => (token.item as Stock).symbol));
+  }).current;
+
+  const handleQuoteTick = useCallback((tick: QuoteTick) => {
+    setStocks(current => current.map(stock =>
+      stock.symbol === tick.symbol
+        ? { ...stock, price: tick.price, change: tick.change, changePercent: tick.changePercent }
+        : stock
+    ));
+  }, []);
+
+  useEffect(() => quoteStreamService.subscribe([], handleQuoteTick), [handleQuoteTick]);
+
+  useEffect(() => {
+    quoteStreamService.updateSymbols(handleQuoteTick, visibleSymbols);
+  }, [handleQuoteTick, visibleSymbols]);
 
   useEffect(() => {
     loadStocks();
-    checkWalletConnection();
   }, []);
 
   useEffect(() => {
@@ -75,9 +84,8 @@ export const MobileStockListing: React.FC<MobileStockListingProps> = ({ onStockS
   const loadStocks = async () => {
     setIsLoading(true);
     try {
-      // Simulate API delay
-      await new Promise(resolve => setTimeout(resolve, 1000));
-      setStocks(mockStocks);
+      const quotes = await marketDataService.getQuotes();
+      setStocks(quotes);
     } catch (error) {
       console.error('Failed to load stocks:', error);
       Alert.alert('Error', 'Failed to load stock data');
@@ -86,27 +94,10 @@ export const MobileStockListing: React.FC<MobileStockListingProps> = ({ onStockS
     }
   };
 
-  const checkWalletConnection = async () => {
-    try {
-      const publicKey = mobileWalletService.getPublicKey();
-      setConnectedWallet(publicKey);
-      
-      if (publicKey) {
-        const balance = await mobileWalletService.getBalance();
-        setUserBalance(balance);
-      }
-    } catch (error) {
-      console.error('Failed to check wallet connection:', error);
-    }
-  };
-
   const connectWallet = async () => {
     try {
-      const publicKey = await mobileWalletService.connect();
+      const publicKey = await connect();
       if (publicKey) {
-        setConnectedWallet(publicKey);
-        const balance = await mobileWalletService.getBalance();
-        setUserBalance(balance);
         Alert.alert('Success', `Wallet connected: ${publicKey.toBase58().substring(0, 8)}...`);
       }
     } catch (error) {
@@ -162,12 +153,27 @@ export const MobileStockListing: React.FC<MobileStockListingProps> = ({ onStockS
   const processPurchase = async (stock: Stock, quantity: number) => {
     try {
       // Create payment details
-      const payment = solanaPayService.createStockPurchasePayment(
+      const payment = await solanaPayService.createStockPurchasePayment(
         stock.symbol,
         stock.price,
         quantity
       );
 
+      // The fee is re-estimated when the transaction is built, so this is a guide
+      let priorityFee: PriorityFeeEstimate | null = null;
+      if (connectedWallet) {
+        try {
+          priorityFee = await solanaPayService.estimatePurchasePriorityFee(
+            connectedWallet,
+            payment,
+            priorityFeeSpeed
+          );
+        } catch (error) {
+          console.error('Priority fee estimate failed:', error);
+        }
+      }
+      const speed = priorityFeeSpeed;
+
       // Show payment confirmation
       Alert.alert(
         'Confirm Purchase',
@@ -175,34 +181,86 @@ export const MobileStockListing: React.FC<MobileStockListingProps> = ({ onStockS
         `Total: $${payment.totalUSD.toFixed(2)}\n` +
         `SOL Amount: ${payment.solAmount.toFixed(4)} SOL\n` +
         `Trading Fee: ${payment.feeSOL.toFixed(4)} SOL\n` +
-        `Total SOL: ${(payment.solAmount + payment.feeSOL).toFixed(4)} SOL`,
+        `Total SOL: ${(payment.solAmount + payment.feeSOL).toFixed(4)} SOL\n` +
+        `Priority Fee (${SPEED_LABELS[speed]}): ` +
+        (priorityFee ? `~${(priorityFee.priorityFeeLamports / LAMPORTS_PER_SOL).toFixed(6)} SOL` : 'unavailable') +
+        (payment.bonkAmount !== undefined
+          ? `\n\nOr pay ${(payment.bonkAmount + (payment.feeBONK || 0)).toLocaleString()} BONK (fee included)`
+          : '\n\nBONK payments are unavailable on this network right now'),
         [
           { text: 'Cancel', style: 'cancel' },
-          { text: 'Pay with SOL', onPress: () => executePurchase(payment, 'SOL') },
-          { text: 'Pay with BONK', onPress: () => executePurchase(payment, 'BONK') },
+          { text: 'Pay with SOL', onPress: () => executePurchase(payment, 'SOL', speed) },
+          // Only offered when the oracle could price BONK
+          ...(payment.bonkAmount !== undefined
+            ? [{ text: 'Pay with BONK', onPress: () => executePurchase(payment, 'BONK', speed) }]
+            : []),
         ]
       );
     } catch (error) {
       console.error('Purchase processing failed:', error);
-      Alert.alert('Error', 'Failed to process purchase');
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to process purchase');
     }
   };
 
-  const executePurchase = async (payment: StockPurchasePayment, paymentMethod: 'SOL' | 'BONK') => {
+  const executePurchase = async (
+    payment: StockPurchasePayment,
+    paymentMethod: 'SOL' | 'BONK',
+    speed: PriorityFeeSpeed
+  ) => {
     try {
       if (!connectedWallet) return;
 
       // Create transaction
-      const transaction = await solanaPayService.createStockPurchaseTransaction(
+      const {
+        transaction,
+        reference,
+        priorityFee,
+        lastValidBlockHeight,
+      } = await solanaPayService.createStockPurchaseTransaction(
         connectedWallet,
         payment,
-        paymentMethod
+        paymentMethod,
+        speed,
+        transactionVersion
       );
 
+      // Only hand the wallet a transaction whose simulated outcome matches the quote
+      try {
+        await solanaPayService.previewPurchase(connectedWallet, transaction, payment, paymentMethod, priorityFee);
+      } catch (error) {
+        await solanaPayService.cancelPayment(connectedWallet, reference);
+        if (error instanceof TransactionPreviewError) {
+          console.error('Purchase preview mismatch:', error.problems, error.preview.logs);
+          Alert.alert('Purchase Blocked', error.problems.join('\n'));
+          return;
+        }
+        throw error;
+      }
+
       // Sign and send transaction
-      const signature = await mobileWalletService.signAndSendTransaction(transaction);
+      let signature: string;
+      try {
+        signature = await signAndSendTransaction(
+          transaction,
+          `Buy ${payment.quantity} ${payment.stockSymbol}`,
+          lastValidBlockHeight
+        );
+      } catch (error) {
+        if (!(error instanceof TransactionLifecycleError)) {
+          throw error;
+        }
+        // A transaction that may still land stays pending for confirmPendingPayments
+        if (error.isFinal) {
+          await solanaPayService.cancelPayment(connectedWallet, reference);
+        }
+        Alert.alert(error.isFinal ? 'Purchase Failed' : 'Purchase Pending', error.message);
+        return;
+      }
+
+      // Only report the purchase once the transfer is found and validated on chain
+      const { confirmed } = await solanaPayService.confirmPayment(connectedWallet, reference);
 
-      if (signature) {
+      if (confirmed) {
         Alert.alert(
           'Purchase Successful!',
           `Transaction: ${signature.substring(0, 8)}...\n\n` +
@@ -210,18 +268,16 @@ export const MobileStockListing: React.FC<MobileStockListingProps> = ({ onStockS
           [{ text: 'OK', onPress: () => refreshBalance() }]
         );
       } else {
-        Alert.alert('Error', 'Transaction failed');
+        Alert.alert(
+          'Purchase Pending',
+          `Transaction: ${signature.substring(0, 8)}...\n\n` +
+          'Your payment has not been confirmed yet. It will appear in your portfolio once it is.',
+          [{ text: 'OK', onPress: () => refreshBalance() }]
+        );
       }
     } catch (error) {
       console.error('Purchase execution failed:', error);
-      Alert.alert('Error', 'Failed to execute purchase');
-    }
-  };
-
-  const refreshBalance = async () => {
-    if (connectedWallet) {
-      const balance = await mobileWalletService.getBalance();
-      setUserBalance(balance);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to execute purchase');
     }
   };
 
@@ -255,6 +311,23 @@ export const MobileStockListing: React.FC<MobileStockListingProps> = ({ onStockS
     </TouchableOpacity>
   );
 
+  const renderSpeedSelector = () => (
+    <View style={styles.speedSelector}>
+      <Text style={styles.speedLabel}>Priority fee</Text>
+      {PRIORITY_FEE_SPEEDS.map(speed => (
+        <TouchableOpacity
+          key={speed}
+          style={[styles.speedButton, priorityFeeSpeed === speed && styles.activeSpeedButton]}
+          onPress={() => setPriorityFeeSpeed(speed)}
+        >
+          <Text style={[styles.speedButtonText, priorityFeeSpeed === speed && styles.activeSpeedButtonText]}>
+            {SPEED_LABELS[speed]}
+          </Text>
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+
   const renderCategoryFilter = () => (
     <View style={styles.categoryFilter}>
       {['all', 'traditional', 'crypto', 'premium'].map((category) => (
@@ -291,14 +364,17 @@ export const MobileStockListing: React.FC<MobileStockListingProps> = ({ onStockS
       {/* Wallet Status */}
       <View style={styles.walletStatus}>
         {connectedWallet ? (
-          <View style={styles.walletConnected}>
-            <Text style={styles.walletText}>
-              {connectedWallet.toBase58().substring(0, 8)}...
-            </Text>
-            <Text style={styles.balanceText}>
-              {userBalance.toFixed(4)} SOL
-            </Text>
-          </View>
+          <>
+            <View style={styles.walletConnected}>
+              <Text style={styles.walletText}>
+                {connectedWallet.toBase58().substring(0, 8)}...
+              </Text>
+              <Text style={styles.balanceText}>
+                {balance !== null ? `${balance.toFixed(4)} SOL` : 'Balance unavailable'}
+              </Text>
+            </View>
+            {renderSpeedSelector()}
+          </>
         ) : (
           <TouchableOpacity style={styles.connectButton} onPress={connectWallet}>
             <Text style={styles.connectButtonText}>Connect Wallet</Text>
@@ -325,6 +401,7 @@ export const MobileStockListing: React.FC<MobileStockListingProps> = ({ onStockS
         data={filteredStocks}
         renderItem={renderStockItem}
         keyExtractor={(item) => item.symbol}
+        onViewableItemsChanged={onViewableItemsChanged}
         refreshControl={
           <RefreshControl refreshing={refreshing} onRefresh={onRefresh} />
         }
@@ -372,6 +449,34 @@ const styles = StyleSheet.create({
     color: '#9945FF',
     fontWeight: 'bold',
   },
+  speedSelector: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 12,
+  },
+  speedLabel: {
+    fontSize: 13,
+    color: '#666',
+    marginRight: 8,
+  },
+  speedButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 4,
+    marginRight: 6,
+    borderRadius: 12,
+    backgroundColor: '#f0f0f0',
+  },
+  activeSpeedButton: {
+    backgroundColor: '#14f195',
+  },
+  speedButtonText: {
+    fontSize: 12,
+    color: '#666',
+    fontWeight: '500',
+  },
+  activeSpeedButtonText: {
+    color: '#000',
+  },
   connectButton: {
     backgroundColor: '#9945FF',
     paddingHorizontal: 20,
@@ -0,0 +1,263 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { useNetwork } from '../../components/providers/NetworkProvider';
+import { SOLANA_CLUSTERS } from '../utils/networkSettings';
+import { RpcEndpointHealth } from '../utils/rpcPool';
+import { SolanaCluster } from '../utils/solanaConfig';
+
+interface NetworkSettingsPanelProps {
+  onClose: () => void;
+}
+
+const CLUSTER_LABELS: Record<SolanaCluster, string> = {
+  devnet: 'Devnet',
+  testnet: 'Testnet',
+  'mainnet-beta': 'Mainnet',
+};
+
+export const NetworkSettingsPanel: React.FC<NetworkSettingsPanelProps> = ({ onClose }) => {
+  const network = useNetwork();
+  const [cluster, setCluster] = useState<SolanaCluster>(network.cluster);
+  const [customRpcUrl, setCustomRpcUrl] = useState(network.customRpcUrl ?? '');
+  const [isSaving, setIsSaving] = useState(false);
+  const [endpointHealth, setEndpointHealth] = useState<RpcEndpointHealth[]>(() =>
+    network.rpcPool.getEndpointHealth()
+  );
+  const [isChecking, setIsChecking] = useState(false);
+
+  const checkEndpoints = async () => {
+    setIsChecking(true);
+    try {
+      setEndpointHealth(await network.rpcPool.checkHealth());
+    } catch (error) {
+      console.error('RPC health check failed:', error);
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  const applyNetwork = async () => {
+    setIsSaving(true);
+    try {
+      await network.setNetwork({
+        cluster,
+        customRpcUrl: customRpcUrl.trim() || null,
+      });
+      onClose();
+    } catch (error) {
+      console.error('Network change failed:', error);
+      Alert.alert('Network Error', error instanceof Error ? error.message : 'Failed to change network');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const confirmNetwork = () => {
+    if (cluster !== 'mainnet-beta' || network.cluster === 'mainnet-beta') {
+      applyNetwork();
+      return;
+    }
+
+    Alert.alert(
+      'Switch to Mainnet',
+      'Trades on mainnet spend real SOL. Continue?',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Switch', style: 'destructive', onPress: applyNetwork },
+      ]
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.title}>Network</Text>
+
+      <View style={styles.clusterRow}>
+        {SOLANA_CLUSTERS.map(option => (
+          <TouchableOpacity
+            key={option}
+            style={[styles.clusterButton, cluster === option && styles.clusterButtonActive]}
+            onPress={() => setCluster(option)}
+          >
+            <Text style={[styles.clusterText, cluster === option && styles.clusterTextActive]}>
+              {CLUSTER_LABELS[option]}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <Text style={styles.label}>Custom RPC URL (optional)</Text>
+      <TextInput
+        style={styles.input}
+        value={customRpcUrl}
+        onChangeText={setCustomRpcUrl}
+        placeholder="https://..."
+        placeholderTextColor="#999"
+        autoCapitalize="none"
+        autoCorrect={false}
+        keyboardType="url"
+      />
+      <Text style={styles.hint}>
+        Must serve the selected cluster. Leave empty to use the public endpoint.
+      </Text>
+
+      <View style={styles.endpointsHeader}>
+        <Text style={styles.label}>RPC endpoints</Text>
+        <TouchableOpacity onPress={checkEndpoints} disabled={isChecking}>
+          <Text style={styles.checkText}>{isChecking ? 'Checking...' : 'Check now'}</Text>
+        </TouchableOpacity>
+      </View>
+      {endpointHealth.map(endpoint => (
+        <View key={endpoint.url} style={styles.endpointRow}>
+          <Text
+            style={[styles.endpointUrl, endpoint.url === network.activeEndpoint && styles.endpointActive]}
+            numberOfLines={1}
+          >
+            {endpoint.healthy ? '●' : '○'} {endpoint.url}
+          </Text>
+          <Text style={styles.endpointStats}>
+            {endpoint.latencyMs !== null ? `${Math.round(endpoint.latencyMs)}ms` : '—'}
+            {' · '}
+            {Math.round(endpoint.errorRate * 100)}% errors
+          </Text>
+        </View>
+      ))}
+
+      <View style={styles.actions}>
+        <TouchableOpacity style={styles.cancelButton} onPress={onClose} disabled={isSaving}>
+          <Text style={styles.cancelButtonText}>Cancel</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.applyButton} onPress={confirmNetwork} disabled={isSaving}>
+          {isSaving ? (
+            <ActivityIndicator color="#000" />
+          ) : (
+            <Text style={styles.applyButtonText}>Apply</Text>
+          )}
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: '#fff',
+    padding: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 12,
+  },
+  clusterRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 16,
+  },
+  clusterButton: {
+    flex: 1,
+    paddingVertical: 8,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    alignItems: 'center',
+  },
+  clusterButtonActive: {
+    backgroundColor: '#9945FF',
+    borderColor: '#9945FF',
+  },
+  clusterText: {
+    fontSize: 13,
+    color: '#333',
+    fontWeight: '500',
+  },
+  clusterTextActive: {
+    color: '#fff',
+  },
+  label: {
+    fontSize: 13,
+    color: '#666',
+    marginBottom: 6,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    fontSize: 14,
+    color: '#333',
+  },
+  hint: {
+    fontSize: 11,
+    color: '#999',
+    marginTop: 4,
+  },
+  endpointsHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginTop: 16,
+  },
+  checkText: {
+    fontSize: 13,
+    color: '#9945FF',
+    fontWeight: '500',
+  },
+  endpointRow: {
+    paddingVertical: 4,
+  },
+  endpointUrl: {
+    fontSize: 12,
+    color: '#666',
+    fontFamily: 'monospace',
+  },
+  endpointActive: {
+    color: '#333',
+    fontWeight: '600',
+  },
+  endpointStats: {
+    fontSize: 11,
+    color: '#999',
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 8,
+    marginTop: 16,
+  },
+  cancelButton: {
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 8,
+  },
+  cancelButtonText: {
+    color: '#666',
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  applyButton: {
+    backgroundColor: '#14f195',
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 8,
+    minWidth: 72,
+    alignItems: 'center',
+  },
+  applyButtonText: {
+    color: '#000',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+});
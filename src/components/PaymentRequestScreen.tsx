@@ -0,0 +1,256 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  TouchableOpacity,
+  StyleSheet,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { useWalletSession } from '../../components/providers/WalletSessionProvider';
+import { useNetwork } from '../../components/providers/NetworkProvider';
+import { solanaPayService, TransferRequestDetails } from '../utils/solanaPayIntegration';
+import { TransferRequest } from '../utils/transferRequests';
+import { TransactionPreviewError } from '../utils/transactionPreview';
+import { TransactionLifecycleError } from '../utils/transactionLifecycle';
+
+interface PaymentRequestScreenProps {
+  request: TransferRequest;
+  onClose: () => void;
+}
+
+/**
+ * Shows what a Solana Pay link asks for and pays it once the user confirms
+ */
+export const PaymentRequestScreen: React.FC<PaymentRequestScreenProps> = ({ request, onClose }) => {
+  const { selectedAccount, connect, signAndSendTransaction, transactionVersion } = useWalletSession();
+  const { cluster } = useNetwork();
+  const [details, setDetails] = useState<TransferRequestDetails | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isPaying, setIsPaying] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setDetails(null);
+    setError(null);
+    solanaPayService
+      .resolveTransferRequest(request)
+      .then(resolved => {
+        if (!cancelled) {
+          setDetails(resolved);
+        }
+      })
+      .catch(resolveError => {
+        console.error('Failed to resolve payment request:', resolveError);
+        if (!cancelled) {
+          setError(resolveError instanceof Error ? resolveError.message : 'Unable to read this payment request');
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [request, cluster]);
+
+  const pay = async () => {
+    if (!details) {
+      return;
+    }
+
+    setIsPaying(true);
+    try {
+      const payer = selectedAccount?.publicKey ?? (await connect());
+      if (!payer) {
+        return;
+      }
+
+      const { transaction, priorityFee, lastValidBlockHeight } =
+        await solanaPayService.createTransferRequestTransaction(payer, request, details, transactionVersion);
+
+      // Only hand the wallet a transaction whose simulated outcome matches the request
+      try {
+        await solanaPayService.previewTransferRequest(payer, transaction, request, details, priorityFee);
+      } catch (previewError) {
+        if (previewError instanceof TransactionPreviewError) {
+          console.error('Payment preview mismatch:', previewError.problems, previewError.preview.logs);
+          Alert.alert('Payment Blocked', previewError.problems.join('\n'));
+          return;
+        }
+        throw previewError;
+      }
+
+      let signature: string;
+      try {
+        signature = await signAndSendTransaction(
+          transaction,
+          `Pay ${request.amount.toFixed()} ${details.symbol}`,
+          lastValidBlockHeight
+        );
+      } catch (sendError) {
+        if (!(sendError instanceof TransactionLifecycleError)) {
+          throw sendError;
+        }
+        Alert.alert(sendError.isFinal ? 'Payment Failed' : 'Payment Pending', sendError.message);
+        return;
+      }
+
+      // The merchant finds the payment by its reference, so confirm it the same way
+      const { confirmed } = await solanaPayService.confirmTransferRequest(request);
+      Alert.alert(
+        confirmed ? 'Payment Sent' : 'Payment Pending',
+        `Transaction: ${signature.substring(0, 8)}...` +
+        (confirmed ? '' : '\n\nThe payment was sent but could not be matched to the request yet.')
+      );
+      onClose();
+    } catch (payError) {
+      console.error('Payment request failed:', payError);
+      Alert.alert('Payment Failed', payError instanceof Error ? payError.message : 'Failed to pay this request');
+    } finally {
+      setIsPaying(false);
+    }
+  };
+
+  const renderRow = (label: string, value: string | null, monospace = false) =>
+    value ? (
+      <View style={styles.row}>
+        <Text style={styles.rowLabel}>{label}</Text>
+        <Text style={[styles.rowValue, monospace && styles.monospace]} selectable>
+          {value}
+        </Text>
+      </View>
+    ) : null;
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      <Text style={styles.title}>Payment Request</Text>
+      {request.label && <Text style={styles.merchant}>{request.label}</Text>}
+
+      {error ? (
+        <Text style={styles.error}>{error}</Text>
+      ) : details ? (
+        <Text style={styles.amount}>
+          {request.amount.toFixed()} {details.symbol}
+        </Text>
+      ) : (
+        <ActivityIndicator size="large" color="#9945FF" style={styles.loading} />
+      )}
+
+      <View style={styles.card}>
+        {renderRow('Recipient', request.recipient.toBase58(), true)}
+        {renderRow('Token', request.splToken ? request.splToken.toBase58() : 'SOL', !!request.splToken)}
+        {renderRow('Message', request.message)}
+        {renderRow('Memo (public on chain)', request.memo)}
+        {renderRow('Network', cluster)}
+      </View>
+
+      <View style={styles.actions}>
+        <TouchableOpacity style={styles.cancelButton} onPress={onClose} disabled={isPaying}>
+          <Text style={styles.cancelButtonText}>Cancel</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.payButton, (!details || isPaying) && styles.payButtonDisabled]}
+          onPress={pay}
+          disabled={!details || isPaying}
+        >
+          {isPaying ? (
+            <ActivityIndicator size="small" color="#fff" />
+          ) : (
+            <Text style={styles.payButtonText}>{selectedAccount ? 'Pay' : 'Connect & Pay'}</Text>
+          )}
+        </TouchableOpacity>
+      </View>
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8f9fa',
+  },
+  content: {
+    padding: 20,
+  },
+  title: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#666',
+    textTransform: 'uppercase',
+  },
+  merchant: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#333',
+    marginTop: 4,
+  },
+  amount: {
+    fontSize: 32,
+    fontWeight: 'bold',
+    color: '#9945FF',
+    marginVertical: 16,
+  },
+  loading: {
+    marginVertical: 24,
+  },
+  error: {
+    fontSize: 14,
+    color: '#d32f2f',
+    marginVertical: 16,
+  },
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 16,
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+  },
+  row: {
+    marginBottom: 12,
+  },
+  rowLabel: {
+    fontSize: 12,
+    color: '#666',
+    marginBottom: 2,
+  },
+  rowValue: {
+    fontSize: 14,
+    color: '#333',
+  },
+  monospace: {
+    fontFamily: 'monospace',
+    fontSize: 12,
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 20,
+  },
+  cancelButton: {
+    flex: 1,
+    paddingVertical: 14,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    alignItems: 'center',
+  },
+  cancelButtonText: {
+    fontSize: 16,
+    color: '#333',
+    fontWeight: '500',
+  },
+  payButton: {
+    flex: 2,
+    paddingVertical: 14,
+    borderRadius: 8,
+    backgroundColor: '#9945FF',
+    alignItems: 'center',
+  },
+  payButtonDisabled: {
+    opacity: 0.5,
+  },
+  payButtonText: {
+    fontSize: 16,
+    color: '#fff',
+    fontWeight: '600',
+  },
+});
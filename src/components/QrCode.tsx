@@ -0,0 +1,72 @@
+import React, { useMemo } from 'react';
+import { View, StyleSheet } from 'react-native';
+import qrcode from 'qrcode-generator';
+
+interface QrCodeProps {
+  value: string;
+  size?: number;
+}
+
+// Light modules around the code, as scanners expect
+const QUIET_ZONE_MODULES = 4;
+
+/**
+ * Renders text as a QR code out of plain views, so no image or SVG support is needed
+ */
+export const QrCode: React.FC<QrCodeProps> = ({ value, size = 240 }) => {
+  // Each row as runs of same-coloured modules, to keep the number of views down
+  const { rows, moduleCount } = useMemo(() => {
+    const code = qrcode(0, 'M');
+    code.addData(value, 'Byte');
+    code.make();
+
+    const count = code.getModuleCount();
+    const runs: { dark: boolean; length: number }[][] = [];
+    for (let row = 0; row < count; row++) {
+      const rowRuns: { dark: boolean; length: number }[] = [];
+      for (let col = 0; col < count; col++) {
+        const dark = code.isDark(row, col);
+        const last = rowRuns[rowRuns.length - 1];
+        if (last && last.dark === dark) {
+          last.length++;
+        } else {
+          rowRuns.push({ dark, length: 1 });
+        }
+      }
+      runs.push(rowRuns);
+    }
+    return { rows: runs, moduleCount: count };
+  }, [value]);
+
+  const moduleSize = size / (moduleCount + QUIET_ZONE_MODULES * 2);
+
+  return (
+    <View style={[styles.container, { width: size, height: size, padding: moduleSize * QUIET_ZONE_MODULES }]}>
+      {rows.map((runs, row) => (
+        <View key={row} style={[styles.row, { height: moduleSize }]}>
+          {runs.map((run, index) => (
+            <View
+              key={index}
+              style={[run.dark ? styles.dark : styles.light, { width: run.length * moduleSize }]}
+            />
+          ))}
+        </View>
+      ))}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: '#fff',
+  },
+  row: {
+    flexDirection: 'row',
+  },
+  dark: {
+    backgroundColor: '#000',
+  },
+  light: {
+    backgroundColor: '#fff',
+  },
+});
@@ -0,0 +1,451 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  Alert,
+  ActivityIndicator,
+  Share,
+} from 'react-native';
+import { QrCode } from './QrCode';
+import { DEFAULT_SEED_ALIAS, seedVaultService } from '../utils/seedVault';
+import { MIN_BACKUP_PASSWORD_LENGTH, SeedBackupError } from '../utils/seedBackup';
+import { isSeedShare, MAX_SHARE_COUNT, parseSeedShare } from '../utils/seedShares';
+
+interface SeedBackupPanelProps {
+  // Seed to start with; defaults to the on-device wallet's
+  alias?: string;
+  onClose: () => void;
+}
+
+type Mode = 'export' | 'shares' | 'restore';
+
+const MODE_LABELS: Record<Mode, string> = {
+  export: 'Back up',
+  shares: 'Guardians',
+  restore: 'Restore',
+};
+
+/**
+ * Exports a stored seed as an encrypted backup or as guardian shares, or restores one
+ */
+export const SeedBackupPanel: React.FC<SeedBackupPanelProps> = ({ alias: initialAlias = DEFAULT_SEED_ALIAS, onClose }) => {
+  const [mode, setMode] = useState<Mode>('export');
+  const [alias, setAlias] = useState(initialAlias);
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [threshold, setThreshold] = useState('2');
+  const [shareCount, setShareCount] = useState('3');
+  const [backupText, setBackupText] = useState('');
+  // The backup, or one code per guardian share, once made
+  const [codes, setCodes] = useState<string[] | null>(null);
+  const [codeIndex, setCodeIndex] = useState(0);
+  const [isWorking, setIsWorking] = useState(false);
+
+  // Shares are pasted one after another; anything else is taken as a backup
+  const pastedShares = backupText.split(/\s+/).filter(isSeedShare);
+
+  const switchMode = (next: Mode) => {
+    setMode(next);
+    setPassword('');
+    setConfirmPassword('');
+    setCodes(null);
+    setCodeIndex(0);
+  };
+
+  const exportBackup = async () => {
+    if (password !== confirmPassword) {
+      Alert.alert('Backup Failed', 'The passwords do not match');
+      return;
+    }
+
+    setIsWorking(true);
+    try {
+      setCodes([await seedVaultService.exportBackup(alias.trim(), password)]);
+      setPassword('');
+      setConfirmPassword('');
+    } catch (error) {
+      console.error('Seed backup failed:', error);
+      Alert.alert('Backup Failed', error instanceof Error ? error.message : 'Unable to back up this seed');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const createShares = async () => {
+    setIsWorking(true);
+    try {
+      setCodes(await seedVaultService.splitSeed(alias.trim(), Number(threshold), Number(shareCount)));
+      setCodeIndex(0);
+    } catch (error) {
+      console.error('Seed split failed:', error);
+      Alert.alert('Shares Failed', error instanceof Error ? error.message : 'Unable to split this seed');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const saveCode = async () => {
+    if (!codes) {
+      return;
+    }
+    const title = mode === 'shares'
+      ? `Sol Stocks recovery share ${codeIndex + 1} of ${codes.length} (${alias.trim()})`
+      : `Sol Stocks backup (${alias.trim()})`;
+    try {
+      await Share.share({ title, message: codes[codeIndex] });
+    } catch (error) {
+      console.error('Sharing seed backup failed:', error);
+    }
+  };
+
+  const restore = async () => {
+    setIsWorking(true);
+    try {
+      const targetAlias = alias.trim() || undefined;
+      const restored = pastedShares.length > 0
+        ? await seedVaultService.restoreFromShares(pastedShares, targetAlias)
+        : await seedVaultService.restoreBackup(backupText, password, targetAlias);
+      Alert.alert(
+        'Seed Restored',
+        `Restored "${restored.alias}"\n\nAddress: ${restored.publicKey.substring(0, 8)}...`
+      );
+      onClose();
+    } catch (error) {
+      console.error('Seed restore failed:', error);
+      const title = error instanceof SeedBackupError && error.reason === 'password'
+        ? 'Wrong Password'
+        : 'Restore Failed';
+      Alert.alert(title, error instanceof Error ? error.message : 'Unable to restore this backup');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const describeShares = () => {
+    try {
+      const { threshold: needed } = parseSeedShare(pastedShares[0]);
+      const distinct = new Set(pastedShares.map(share => parseSeedShare(share).index)).size;
+      return `${distinct} of the ${needed} shares needed`;
+    } catch (error) {
+      return error instanceof Error ? error.message : 'A pasted share is damaged';
+    }
+  };
+
+  const renderCodes = (list: string[]) => (
+    <View style={styles.backup}>
+      <QrCode value={list[codeIndex]} />
+      {list.length > 1 && (
+        <View style={styles.pager}>
+          <TouchableOpacity onPress={() => setCodeIndex(codeIndex - 1)} disabled={codeIndex === 0}>
+            <Text style={[styles.pagerText, codeIndex === 0 && styles.pagerTextDisabled]}>‹ Previous</Text>
+          </TouchableOpacity>
+          <Text style={styles.pagerLabel}>
+            Share {codeIndex + 1} of {list.length}
+          </Text>
+          <TouchableOpacity onPress={() => setCodeIndex(codeIndex + 1)} disabled={codeIndex === list.length - 1}>
+            <Text style={[styles.pagerText, codeIndex === list.length - 1 && styles.pagerTextDisabled]}>Next ›</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+      <Text style={styles.hint}>
+        {mode === 'shares'
+          ? `Give each share to a different guardian. Any ${threshold} of them can restore this seed, so ` +
+            'guardians should only hand them over when you ask.'
+          : 'Keep this code or file somewhere safe. Anyone with it and the password can take your funds.'}
+      </Text>
+      <TouchableOpacity style={styles.secondaryButton} onPress={saveCode}>
+        <Text style={styles.secondaryButtonText}>Save to file…</Text>
+      </TouchableOpacity>
+    </View>
+  );
+
+  const renderExport = () => (
+    <>
+      <Text style={styles.label}>Password</Text>
+      <TextInput
+        style={styles.input}
+        value={password}
+        onChangeText={setPassword}
+        placeholder={`At least ${MIN_BACKUP_PASSWORD_LENGTH} characters`}
+        placeholderTextColor="#999"
+        secureTextEntry
+      />
+      <TextInput
+        style={[styles.input, styles.inputSpacing]}
+        value={confirmPassword}
+        onChangeText={setConfirmPassword}
+        placeholder="Repeat password"
+        placeholderTextColor="#999"
+        secureTextEntry
+      />
+      <Text style={styles.hint}>
+        The password can't be recovered. Without it the backup is useless.
+      </Text>
+    </>
+  );
+
+  const renderShares = () => (
+    <>
+      <View style={styles.shareRow}>
+        <View style={styles.shareField}>
+          <Text style={styles.label}>Shares needed</Text>
+          <TextInput style={styles.input} value={threshold} onChangeText={setThreshold} keyboardType="number-pad" />
+        </View>
+        <View style={styles.shareField}>
+          <Text style={styles.label}>Guardians</Text>
+          <TextInput style={styles.input} value={shareCount} onChangeText={setShareCount} keyboardType="number-pad" />
+        </View>
+      </View>
+      <Text style={styles.hint}>
+        Up to {MAX_SHARE_COUNT} guardians. Fewer shares than needed reveal nothing about the seed.
+      </Text>
+    </>
+  );
+
+  const renderRestore = () => (
+    <>
+      <Text style={styles.label}>Backup or shares</Text>
+      <TextInput
+        style={[styles.input, styles.backupInput]}
+        value={backupText}
+        onChangeText={setBackupText}
+        placeholder="solstocks-backup:... or solstocks-share:..."
+        placeholderTextColor="#999"
+        autoCapitalize="none"
+        autoCorrect={false}
+        multiline
+      />
+      <Text style={styles.hint}>
+        {pastedShares.length > 0
+          ? describeShares()
+          : 'Paste a backup, or your guardians\' shares one per line, from files or scanned codes.'}
+      </Text>
+      {pastedShares.length === 0 && (
+        <>
+          <Text style={[styles.label, styles.inputSpacing]}>Password</Text>
+          <TextInput
+            style={styles.input}
+            value={password}
+            onChangeText={setPassword}
+            placeholderTextColor="#999"
+            secureTextEntry
+          />
+        </>
+      )}
+    </>
+  );
+
+  const renderForm = () => {
+    switch (mode) {
+      case 'export':
+        return renderExport();
+      case 'shares':
+        return renderShares();
+      case 'restore':
+        return renderRestore();
+    }
+  };
+
+  const submit = mode === 'export' ? exportBackup : mode === 'shares' ? createShares : restore;
+  const canSubmit = mode === 'shares' || pastedShares.length > 0 || !!password;
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.title}>Seed Backup</Text>
+
+      <View style={styles.modeRow}>
+        {(Object.keys(MODE_LABELS) as Mode[]).map(option => (
+          <TouchableOpacity
+            key={option}
+            style={[styles.modeButton, mode === option && styles.modeButtonActive]}
+            onPress={() => switchMode(option)}
+            disabled={isWorking}
+          >
+            <Text style={[styles.modeText, mode === option && styles.modeTextActive]}>
+              {MODE_LABELS[option]}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <Text style={styles.label}>Seed name</Text>
+      <TextInput
+        style={[styles.input, styles.aliasInput]}
+        value={alias}
+        onChangeText={setAlias}
+        autoCapitalize="none"
+        autoCorrect={false}
+        editable={!codes}
+      />
+
+      {codes ? renderCodes(codes) : renderForm()}
+
+      <View style={styles.actions}>
+        <TouchableOpacity style={styles.cancelButton} onPress={onClose} disabled={isWorking}>
+          <Text style={styles.cancelButtonText}>{codes ? 'Done' : 'Cancel'}</Text>
+        </TouchableOpacity>
+        {!codes && (
+          <TouchableOpacity
+            style={styles.applyButton}
+            onPress={submit}
+            disabled={isWorking || !canSubmit}
+          >
+            {isWorking ? (
+              <ActivityIndicator color="#000" />
+            ) : (
+              <Text style={styles.applyButtonText}>
+                {mode === 'export' ? 'Encrypt' : mode === 'shares' ? 'Split' : 'Restore'}
+              </Text>
+            )}
+          </TouchableOpacity>
+        )}
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: '#fff',
+    padding: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 12,
+  },
+  modeRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 16,
+  },
+  modeButton: {
+    flex: 1,
+    paddingVertical: 8,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    alignItems: 'center',
+  },
+  modeButtonActive: {
+    backgroundColor: '#9945FF',
+    borderColor: '#9945FF',
+  },
+  modeText: {
+    fontSize: 13,
+    color: '#333',
+    fontWeight: '500',
+  },
+  modeTextActive: {
+    color: '#fff',
+  },
+  label: {
+    fontSize: 13,
+    color: '#666',
+    marginBottom: 6,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    fontSize: 14,
+    color: '#333',
+  },
+  inputSpacing: {
+    marginTop: 8,
+  },
+  aliasInput: {
+    marginBottom: 12,
+  },
+  backupInput: {
+    minHeight: 72,
+    fontFamily: 'monospace',
+    fontSize: 11,
+    textAlignVertical: 'top',
+  },
+  hint: {
+    fontSize: 11,
+    color: '#999',
+    marginTop: 4,
+  },
+  backup: {
+    alignItems: 'center',
+  },
+  pager: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    alignSelf: 'stretch',
+    marginTop: 8,
+  },
+  pagerText: {
+    fontSize: 13,
+    color: '#9945FF',
+    fontWeight: '500',
+  },
+  pagerTextDisabled: {
+    color: '#ccc',
+  },
+  pagerLabel: {
+    fontSize: 13,
+    color: '#333',
+    fontWeight: '600',
+  },
+  shareRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  shareField: {
+    flex: 1,
+  },
+  secondaryButton: {
+    marginTop: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#9945FF',
+  },
+  secondaryButtonText: {
+    color: '#9945FF',
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 8,
+    marginTop: 16,
+  },
+  cancelButton: {
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 8,
+  },
+  cancelButtonText: {
+    color: '#666',
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  applyButton: {
+    backgroundColor: '#14f195',
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 8,
+    minWidth: 72,
+    alignItems: 'center',
+  },
+  applyButtonText: {
+    color: '#000',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,250 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { seedVaultService, SeedVaultUtils } from '../utils/seedVault';
+import { seedVaultSigner } from '../utils/seedVaultSigner';
+import { MAX_SEED_LABEL_LENGTH, SeedRecord } from '../utils/seedRegistry';
+
+interface SeedManagerPanelProps {
+  onBackup: (alias: string) => void;
+  onClose: () => void;
+}
+
+/**
+ * Lists every seed stored on the device, and renames or deletes them
+ */
+export const SeedManagerPanel: React.FC<SeedManagerPanelProps> = ({ onBackup, onClose }) => {
+  const [seeds, setSeeds] = useState<SeedRecord[] | null>(null);
+  // The seed being renamed, and the name being typed for it
+  const [renaming, setRenaming] = useState<string | null>(null);
+  const [label, setLabel] = useState('');
+  const [isWorking, setIsWorking] = useState(false);
+
+  const loadSeeds = async () => {
+    setSeeds(await seedVaultService.listSeeds());
+  };
+
+  useEffect(() => {
+    loadSeeds();
+  }, []);
+
+  const startRename = (seed: SeedRecord) => {
+    setRenaming(seed.alias);
+    setLabel(seed.label);
+  };
+
+  const saveRename = async () => {
+    if (!renaming) {
+      return;
+    }
+
+    setIsWorking(true);
+    try {
+      await seedVaultService.renameSeed(renaming, label);
+      setRenaming(null);
+      await loadSeeds();
+    } catch (error) {
+      console.error('Seed rename failed:', error);
+      Alert.alert('Rename Failed', error instanceof Error ? error.message : 'Unable to rename seed');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const deleteSeed = async (seed: SeedRecord) => {
+    setIsWorking(true);
+    try {
+      const deleted = await SeedVaultUtils.deleteUserSeed(seed.alias);
+      if (!deleted) {
+        Alert.alert('Not Deleted', `"${seed.label}" is still on this device`);
+        return;
+      }
+
+      // Trades can't keep signing with a seed that is gone
+      if (seedVaultSigner.usesSeed(seed.alias)) {
+        await seedVaultSigner.disconnect();
+      }
+      await loadSeeds();
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const confirmDelete = (seed: SeedRecord) => {
+    const inUse = seedVaultSigner.usesSeed(seed.alias);
+    Alert.alert(
+      `Delete "${seed.label}"?`,
+      'Any funds it holds are lost for good unless you have a backup, recovery shares or its recovery phrase.' +
+        (inUse ? '\n\nYou are signed in with this seed and will be disconnected.' : ''),
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Back up first', onPress: () => onBackup(seed.alias) },
+        { text: 'Delete', style: 'destructive', onPress: () => deleteSeed(seed) },
+      ]
+    );
+  };
+
+  const renderSeed = (seed: SeedRecord) => (
+    <View key={seed.alias} style={styles.seedRow}>
+      {renaming === seed.alias ? (
+        <View style={styles.renameRow}>
+          <TextInput
+            style={[styles.input, styles.renameInput]}
+            value={label}
+            onChangeText={setLabel}
+            maxLength={MAX_SEED_LABEL_LENGTH}
+            autoFocus
+          />
+          <TouchableOpacity onPress={() => setRenaming(null)} disabled={isWorking}>
+            <Text style={styles.actionText}>Cancel</Text>
+          </TouchableOpacity>
+          <TouchableOpacity onPress={saveRename} disabled={isWorking}>
+            <Text style={styles.actionText}>Save</Text>
+          </TouchableOpacity>
+        </View>
+      ) : (
+        <Text style={styles.seedLabel}>
+          {seed.label}
+          {seedVaultSigner.usesSeed(seed.alias) ? '  ● in use' : ''}
+        </Text>
+      )}
+
+      <Text style={styles.seedAddress}>
+        {seed.publicKey ? `${seed.publicKey.substring(0, 12)}...` : 'Address shown after next unlock'}
+      </Text>
+      <Text style={styles.seedDetail}>
+        {seed.derivationPath ?? (seed.publicKey ? 'Single key, no recovery phrase' : 'Derivation path not known yet')}
+      </Text>
+      <Text style={styles.seedDetail}>
+        Created {new Date(seed.createdAt).toLocaleDateString()} · Last used {new Date(seed.lastUsed).toLocaleDateString()}
+      </Text>
+
+      {renaming !== seed.alias && (
+        <View style={styles.seedActions}>
+          <TouchableOpacity onPress={() => startRename(seed)} disabled={isWorking}>
+            <Text style={styles.actionText}>Rename</Text>
+          </TouchableOpacity>
+          <TouchableOpacity onPress={() => onBackup(seed.alias)} disabled={isWorking}>
+            <Text style={styles.actionText}>Back up</Text>
+          </TouchableOpacity>
+          <TouchableOpacity onPress={() => confirmDelete(seed)} disabled={isWorking}>
+            <Text style={[styles.actionText, styles.deleteText]}>Delete</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+    </View>
+  );
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.title}>Stored seeds</Text>
+
+      {seeds === null ? (
+        <ActivityIndicator color="#9945FF" />
+      ) : seeds.length === 0 ? (
+        <Text style={styles.hint}>No seeds are stored on this device.</Text>
+      ) : (
+        seeds.map(renderSeed)
+      )}
+
+      <View style={styles.actions}>
+        <TouchableOpacity style={styles.cancelButton} onPress={onClose} disabled={isWorking}>
+          <Text style={styles.cancelButtonText}>Close</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: '#fff',
+    padding: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 12,
+  },
+  seedRow: {
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+  },
+  seedLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+  },
+  seedAddress: {
+    fontSize: 12,
+    color: '#666',
+    fontFamily: 'monospace',
+    marginTop: 2,
+  },
+  seedDetail: {
+    fontSize: 11,
+    color: '#999',
+    marginTop: 2,
+  },
+  seedActions: {
+    flexDirection: 'row',
+    gap: 16,
+    marginTop: 6,
+  },
+  renameRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  renameInput: {
+    flex: 1,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    fontSize: 14,
+    color: '#333',
+  },
+  actionText: {
+    fontSize: 13,
+    color: '#9945FF',
+    fontWeight: '500',
+  },
+  deleteText: {
+    color: '#e53935',
+  },
+  hint: {
+    fontSize: 11,
+    color: '#999',
+    marginTop: 4,
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    marginTop: 16,
+  },
+  cancelButton: {
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 8,
+  },
+  cancelButtonText: {
+    color: '#666',
+    fontSize: 14,
+    fontWeight: '500',
+  },
+});
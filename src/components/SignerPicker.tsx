@@ -0,0 +1,125 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  ActivityIndicator,
+} from 'react-native';
+import { SIGNER_KINDS, SignerKind } from '../utils/signer';
+
+interface SignerPickerProps {
+  // The signer used last, highlighted as the default choice
+  current: SignerKind;
+  onSelect: (kind: SignerKind) => Promise<void>;
+  onClose: () => void;
+}
+
+const SIGNER_OPTIONS: Record<SignerKind, { title: string; description: string }> = {
+  wallet: {
+    title: '📱 Wallet app',
+    description: 'Sign in Phantom, Solflare or another wallet installed on this phone',
+  },
+  seedVault: {
+    title: '🔑 On-device key',
+    description: 'Keys stay in this phone\'s secure storage; every trade is approved with biometrics',
+  },
+};
+
+/**
+ * Lets the user choose what trades are signed with before connecting
+ */
+export const SignerPicker: React.FC<SignerPickerProps> = ({ current, onSelect, onClose }) => {
+  const [connecting, setConnecting] = useState<SignerKind | null>(null);
+
+  const select = async (kind: SignerKind) => {
+    setConnecting(kind);
+    try {
+      await onSelect(kind);
+    } finally {
+      setConnecting(null);
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.title}>Connect with</Text>
+
+      {SIGNER_KINDS.map(kind => (
+        <TouchableOpacity
+          key={kind}
+          style={[styles.option, kind === current && styles.optionCurrent]}
+          onPress={() => select(kind)}
+          disabled={connecting !== null}
+        >
+          <View style={styles.optionText}>
+            <Text style={styles.optionTitle}>{SIGNER_OPTIONS[kind].title}</Text>
+            <Text style={styles.optionDescription}>{SIGNER_OPTIONS[kind].description}</Text>
+          </View>
+          {connecting === kind && <ActivityIndicator color="#9945FF" />}
+        </TouchableOpacity>
+      ))}
+
+      <View style={styles.actions}>
+        <TouchableOpacity style={styles.cancelButton} onPress={onClose} disabled={connecting !== null}>
+          <Text style={styles.cancelButtonText}>Cancel</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: '#fff',
+    padding: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 12,
+  },
+  option: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    marginBottom: 8,
+  },
+  optionCurrent: {
+    borderColor: '#9945FF',
+  },
+  optionText: {
+    flex: 1,
+  },
+  optionTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+  },
+  optionDescription: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 2,
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    marginTop: 8,
+  },
+  cancelButton: {
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 8,
+  },
+  cancelButtonText: {
+    color: '#666',
+    fontSize: 14,
+    fontWeight: '500',
+  },
+});
@@ -0,0 +1,92 @@
+import React, { useState } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, ActivityIndicator } from 'react-native';
+import { useWalletSession } from '../../components/providers/WalletSessionProvider';
+import { TransactionStatus } from '../utils/transactionLifecycle';
+
+const STATUS_LABELS: Record<TransactionStatus, string> = {
+  sending: 'Sending...',
+  sent: 'Waiting for the network...',
+  processed: 'Processed, confirming...',
+  confirmed: 'Confirmed, finalizing...',
+  finalized: 'Finalized',
+  rejected: 'Rejected',
+  expired: 'Expired',
+  failed: 'Failed',
+  timeout: 'Still pending',
+};
+
+const UNSUCCESSFUL: TransactionStatus[] = ['rejected', 'expired', 'failed', 'timeout'];
+
+/**
+ * Progress of the most recently sent transaction; tap to dismiss
+ */
+export const TransactionStatusBanner: React.FC = () => {
+  const { transactions } = useWalletSession();
+  const [dismissed, setDismissed] = useState<string | null>(null);
+
+  const [latest] = transactions;
+  if (!latest || dismissed === `${latest.signature}:${latest.status}`) {
+    return null;
+  }
+
+  const inFlight = latest.tracking;
+  // Finalization wasn't seen in time; confirmed transactions are rarely rolled back
+  const label = latest.status === 'confirmed' && !inFlight ? 'Confirmed' : STATUS_LABELS[latest.status];
+
+  return (
+    <TouchableOpacity
+      style={[
+        styles.banner,
+        UNSUCCESSFUL.includes(latest.status) && styles.bannerError,
+        latest.status === 'finalized' && styles.bannerSuccess,
+      ]}
+      onPress={() => setDismissed(`${latest.signature}:${latest.status}`)}
+    >
+      {inFlight && <ActivityIndicator size="small" color="#9945FF" style={styles.spinner} />}
+      <View style={styles.details}>
+        <Text style={styles.title}>
+          {latest.label}: {label}
+        </Text>
+        <Text style={styles.subtitle} numberOfLines={2}>
+          {latest.error ??
+            `${latest.signature.substring(0, 8)}...` +
+            (latest.rebroadcasts > 0 ? ` · rebroadcast ${latest.rebroadcasts}x` : '')}
+        </Text>
+      </View>
+    </TouchableOpacity>
+  );
+};
+
+const styles = StyleSheet.create({
+  banner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    backgroundColor: '#f3ebff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+  },
+  bannerError: {
+    backgroundColor: '#fdecea',
+  },
+  bannerSuccess: {
+    backgroundColor: '#e8fdf3',
+  },
+  spinner: {
+    marginRight: 12,
+  },
+  details: {
+    flex: 1,
+  },
+  title: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+  },
+  subtitle: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 2,
+  },
+});
@@ -0,0 +1,217 @@
+import { BuyEntry, LedgerEntry, SellEntry } from './tradeLedger';
+
+export type CostBasisMethod = 'fifo' | 'lifo' | 'average' | 'specific';
+
+export const COST_BASIS_METHODS: CostBasisMethod[] = ['fifo', 'lifo', 'average', 'specific'];
+
+/**
+ * Quantity taken from one purchase lot by a sale
+ */
+export interface LotSelection {
+  lotId: string;
+  quantity: number;
+}
+
+export interface LotMatch extends LotSelection {
+  costBasisUSD: number;
+}
+
+/**
+ * Open remainder of one purchase; basis includes the buy fee
+ */
+export interface CostBasisLot {
+  id: string;
+  symbol: string;
+  acquiredAt: number;
+  quantity: number;
+  unitCostUSD: number;
+}
+
+export interface RealizedSale {
+  sellId: string;
+  symbol: string;
+  quantity: number;
+  method: CostBasisMethod;
+  proceedsUSD: number;
+  costBasisUSD: number;
+  realizedPL: number;
+  matches: LotMatch[];
+}
+
+export interface PositionBasis {
+  symbol: string;
+  quantity: number;
+  costBasisUSD: number;
+  averageCostUSD: number;
+  realizedPL: number;
+  lots: CostBasisLot[];
+}
+
+export interface CostBasisReport {
+  positions: PositionBasis[];
+  sales: RealizedSale[];
+  realizedPL: number;
+}
+
+// Remainders below this are float noise from fractional shares
+const QUANTITY_EPSILON = 1e-9;
+
+/**
+ * Replay confirmed buys and sells into open lots and realized P/L
+ *
+ * Each sale is matched with the method recorded on it when it was placed, so
+ * changing the preferred method later never rewrites past results. Sales without
+ * one use `defaultMethod`. Fees are part of basis on buys and reduce proceeds on sells.
+ */
+export function computeCostBasis(
+  entries: LedgerEntry[],
+  defaultMethod: CostBasisMethod = 'fifo'
+): CostBasisReport {
+  const trades = entries
+    .filter((entry): entry is BuyEntry | SellEntry =>
+      (entry.type === 'buy' || entry.type === 'sell') && entry.status === 'confirmed'
+    )
+    .sort((a, b) => a.timestamp - b.timestamp);
+
+  const lotsBySymbol = new Map<string, CostBasisLot[]>();
+  const realizedBySymbol = new Map<string, number>();
+  const sales: RealizedSale[] = [];
+
+  trades.forEach(trade => {
+    const lots = lotsBySymbol.get(trade.stockSymbol) ?? [];
+    lotsBySymbol.set(trade.stockSymbol, lots);
+
+    if (trade.type === 'buy') {
+      lots.push({
+        id: trade.id,
+        symbol: trade.stockSymbol,
+        acquiredAt: trade.timestamp,
+        quantity: trade.quantity,
+        unitCostUSD: (trade.totalUSD + feeUSD(trade)) / trade.quantity,
+      });
+      return;
+    }
+
+    const method = trade.costBasisMethod ?? defaultMethod;
+    const matches = matchLots(lots, trade.quantity, method, trade.lotSelections);
+    const costBasisUSD = matches.reduce((sum, match) => sum + match.costBasisUSD, 0);
+    const soldQuantity = matches.reduce((sum, match) => sum + match.quantity, 0);
+    // Proceeds for shares the ledger never saw bought are left out rather than counted as pure gain
+    const proceedsUSD = (trade.totalUSD - feeUSD(trade)) * (soldQuantity / trade.quantity);
+    const realizedPL = proceedsUSD - costBasisUSD;
+
+    lotsBySymbol.set(
+      trade.stockSymbol,
+      lots.filter(lot => lot.quantity > QUANTITY_EPSILON)
+    );
+    realizedBySymbol.set(
+      trade.stockSymbol,
+      (realizedBySymbol.get(trade.stockSymbol) ?? 0) + realizedPL
+    );
+    sales.push({
+      sellId: trade.id,
+      symbol: trade.stockSymbol,
+      quantity: soldQuantity,
+      method,
+      proceedsUSD,
+      costBasisUSD,
+      realizedPL,
+      matches,
+    });
+  });
+
+  const positions: PositionBasis[] = Array.from(lotsBySymbol.entries()).map(([symbol, lots]) => {
+    const quantity = lots.reduce((sum, lot) => sum + lot.quantity, 0);
+    const costBasisUSD = lots.reduce((sum, lot) => sum + lot.quantity * lot.unitCostUSD, 0);
+
+    return {
+      symbol,
+      quantity,
+      costBasisUSD,
+      averageCostUSD: quantity > 0 ? costBasisUSD / quantity : 0,
+      realizedPL: realizedBySymbol.get(symbol) ?? 0,
+      lots,
+    };
+  });
+
+  return {
+    positions,
+    sales,
+    realizedPL: sales.reduce((sum, sale) => sum + sale.realizedPL, 0),
+  };
+}
+
+/**
+ * Take `quantity` out of the open lots (mutating them) and report what each lot gave up
+ */
+function matchLots(
+  lots: CostBasisLot[],
+  quantity: number,
+  method: CostBasisMethod,
+  selections: LotSelection[] = []
+): LotMatch[] {
+  if (method === 'average') {
+    return matchAverage(lots, quantity);
+  }
+
+  const matches: LotMatch[] = [];
+  let remaining = quantity;
+
+  const take = (lot: CostBasisLot, requested: number) => {
+    const taken = Math.min(lot.quantity, requested);
+    if (taken <= QUANTITY_EPSILON) {
+      return;
+    }
+    lot.quantity -= taken;
+    remaining -= taken;
+
+    const existing = matches.find(match => match.lotId === lot.id);
+    if (existing) {
+      existing.quantity += taken;
+      existing.costBasisUSD += taken * lot.unitCostUSD;
+    } else {
+      matches.push({ lotId: lot.id, quantity: taken, costBasisUSD: taken * lot.unitCostUSD });
+    }
+  };
+
+  if (method === 'specific') {
+    selections.forEach(selection => {
+      const lot = lots.find(candidate => candidate.id === selection.lotId);
+      if (lot && remaining > QUANTITY_EPSILON) {
+        take(lot, Math.min(selection.quantity, remaining));
+      }
+    });
+  }
+
+  // LIFO walks newest first; FIFO, and any specific-lot shortfall, oldest first
+  const ordered = method === 'lifo' ? lots.slice().reverse() : lots;
+  for (const lot of ordered) {
+    if (remaining <= QUANTITY_EPSILON) {
+      break;
+    }
+    take(lot, remaining);
+  }
+
+  return matches;
+}
+
+/**
+ * Average cost: every lot gives up the same fraction, so each share sold carries the pooled cost
+ */
+function matchAverage(lots: CostBasisLot[], quantity: number): LotMatch[] {
+  const held = lots.reduce((sum, lot) => sum + lot.quantity, 0);
+  if (held <= QUANTITY_EPSILON) {
+    return [];
+  }
+
+  const fraction = Math.min(quantity / held, 1);
+  return lots.map(lot => {
+    const taken = lot.quantity * fraction;
+    lot.quantity -= taken;
+    return { lotId: lot.id, quantity: taken, costBasisUSD: taken * lot.unitCostUSD };
+  });
+}
+
+function feeUSD(trade: BuyEntry | SellEntry): number {
+  return trade.feeSOL * trade.solPriceUSD;
+}
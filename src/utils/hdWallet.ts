@@ -0,0 +1,126 @@
+import * as bip39 from '@scure/bip39';
+import { wordlist } from '@scure/bip39/wordlists/english';
+import { hmac } from '@noble/hashes/hmac';
+import { sha512 } from '@noble/hashes/sha512';
+import { Keypair } from '@solana/web3.js';
+
+/**
+ * Mnemonic lengths we create and accept: 128 or 256 bits of entropy
+ */
+export type MnemonicWordCount = 12 | 24;
+
+export const MNEMONIC_WORD_COUNTS: MnemonicWordCount[] = [12, 24];
+
+const ENTROPY_BITS: Record<MnemonicWordCount, number> = {
+  12: 128,
+  24: 256,
+};
+
+// Indexes at or above this are hardened; ed25519 only supports hardened derivation
+const HARDENED_OFFSET = 0x80000000;
+const ED25519_CURVE_KEY = 'ed25519 seed';
+
+/**
+ * A private key and the chain code needed to derive its children
+ */
+export interface DerivedKey {
+  key: Uint8Array;
+  chainCode: Uint8Array;
+}
+
+/**
+ * Lowercase words separated by single spaces, which is what the checksum and seed are computed over
+ */
+export function normalizeMnemonic(mnemonic: string): string {
+  return mnemonic.trim().toLowerCase().split(/\s+/).join(' ');
+}
+
+/**
+ * A new English mnemonic from secure random entropy
+ */
+export function generateMnemonic(wordCount: MnemonicWordCount = 12): string {
+  return bip39.generateMnemonic(wordlist, ENTROPY_BITS[wordCount]);
+}
+
+/**
+ * Whether a mnemonic is 12 or 24 English words with a valid checksum
+ */
+export function validateMnemonic(mnemonic: string): boolean {
+  const normalized = normalizeMnemonic(mnemonic);
+  const wordCount = normalized.split(' ').length;
+  return (
+    MNEMONIC_WORD_COUNTS.includes(wordCount as MnemonicWordCount) &&
+    bip39.validateMnemonic(normalized, wordlist)
+  );
+}
+
+/**
+ * The 64-byte BIP39 seed for a mnemonic and optional passphrase
+ * A different passphrase gives a different, equally valid wallet
+ */
+export async function mnemonicToSeed(mnemonic: string, passphrase: string = ''): Promise<Uint8Array> {
+  if (!validateMnemonic(mnemonic)) {
+    throw new Error('Invalid recovery phrase');
+  }
+  return bip39.mnemonicToSeed(normalizeMnemonic(mnemonic), passphrase);
+}
+
+/**
+ * The BIP44 path Solana wallets derive account `n` from: m/44'/501'/n'/0'
+ */
+export function getSolanaDerivationPath(accountIndex: number): string {
+  if (!Number.isInteger(accountIndex) || accountIndex < 0 || accountIndex >= HARDENED_OFFSET) {
+    throw new Error(`Invalid account index ${accountIndex}`);
+  }
+  return `m/44'/501'/${accountIndex}'/0'`;
+}
+
+/**
+ * The account to derive after the ones in use: one past the highest, so a removed
+ * account's index is never handed out again. Anything that isn't an account index is ignored
+ */
+export function nextAccountIndex(accountIndexes: number[]): number {
+  const valid = accountIndexes.filter(index => Number.isInteger(index) && index >= 0);
+  return valid.length > 0 ? Math.max(...valid) + 1 : 0;
+}
+
+/**
+ * SLIP-0010 ed25519 derivation of a path of hardened indexes from a seed
+ */
+export function derivePath(path: string, seed: Uint8Array): DerivedKey {
+  const segments = path.split('/');
+  if (segments[0] !== 'm') {
+    throw new Error(`Invalid derivation path ${path}`);
+  }
+
+  return segments.slice(1).reduce((parent, segment) => {
+    const match = /^(\d+)'$/.exec(segment);
+    const index = match ? Number(match[1]) : NaN;
+    if (!match || index >= HARDENED_OFFSET) {
+      throw new Error(`Derivation path ${path} must use hardened indexes only`);
+    }
+    return deriveChild(parent, index + HARDENED_OFFSET);
+  }, deriveMaster(seed));
+}
+
+/**
+ * The keypair for a Solana account derived from a BIP39 seed, as mainstream wallets derive it
+ */
+export function deriveSolanaKeypair(seed: Uint8Array, accountIndex: number = 0): Keypair {
+  return Keypair.fromSeed(derivePath(getSolanaDerivationPath(accountIndex), seed).key);
+}
+
+function deriveMaster(seed: Uint8Array): DerivedKey {
+  return split(hmac(sha512, Buffer.from(ED25519_CURVE_KEY, 'utf8'), seed));
+}
+
+function deriveChild({ key, chainCode }: DerivedKey, index: number): DerivedKey {
+  const data = new Uint8Array(1 + key.length + 4);
+  data.set(key, 1);
+  new DataView(data.buffer).setUint32(1 + key.length, index);
+  return split(hmac(sha512, chainCode, data));
+}
+
+function split(digest: Uint8Array): DerivedKey {
+  return { key: digest.slice(0, 32), chainCode: digest.slice(32) };
+}
@@ -0,0 +1,192 @@
+import { MARKET_DATA_API_URL } from './solanaConfig';
+
+export interface Stock {
+  symbol: string;
+  name: string;
+  price: number;
+  change: number;
+  changePercent: number;
+  category: 'traditional' | 'crypto' | 'premium';
+  logo?: string;
+}
+
+/**
+ * Source of stock quotes shared by every screen
+ */
+export interface MarketDataProvider {
+  getQuotes(symbols?: string[]): Promise<Stock[]>;
+}
+
+const MOCK_STOCKS: Stock[] = [
+  // Traditional stocks
+  { symbol: 'AAPL', name: 'Apple Inc.', price: 178.72, change: 2.15, changePercent: 1.22, category: 'traditional' },
+  { symbol: 'GOOGL', name: 'Alphabet Inc.', price: 138.21, change: -1.45, changePercent: -1.04, category: 'traditional' },
+  { symbol: 'MSFT', name: 'Microsoft Corp.', price: 378.85, change: 3.22, changePercent: 0.86, category: 'traditional' },
+  { symbol: 'TSLA', name: 'Tesla Inc.', price: 248.50, change: -8.75, changePercent: -3.40, category: 'traditional' },
+  { symbol: 'AMZN', name: 'Amazon.com Inc.', price: 155.89, change: 1.89, changePercent: 1.23, category: 'traditional' },
+
+  // Crypto stocks
+  { symbol: 'COIN', name: 'Coinbase Global', price: 245.67, change: 15.23, changePercent: 6.60, category: 'crypto' },
+  { symbol: 'MSTR', name: 'MicroStrategy Inc.', price: 387.45, change: 22.15, changePercent: 6.07, category: 'crypto' },
+  { symbol: 'RIOT', name: 'Riot Platforms', price: 12.85, change: 0.95, changePercent: 7.98, category: 'crypto' },
+  { symbol: 'MARA', name: 'Marathon Digital', price: 19.67, change: 1.34, changePercent: 7.31, category: 'crypto' },
+  { symbol: 'HOOD', name: 'Robinhood Markets', price: 23.45, change: -0.67, changePercent: -2.78, category: 'crypto' },
+  { symbol: 'VANA', name: 'Vanna Holdings', price: 45.32, change: 3.21, changePercent: 7.62, category: 'crypto' },
+
+  // Premium stocks
+  { symbol: 'CIRCLE', name: 'Circle Internet Financial', price: 125.00, change: 5.67, changePercent: 4.75, category: 'premium' },
+  { symbol: 'GEMINI', name: 'Gemini Trust Company', price: 89.50, change: 2.15, changePercent: 2.46, category: 'premium' },
+  { symbol: 'KRAKEN', name: 'Kraken Digital Asset Exchange', price: 156.78, change: 8.90, changePercent: 6.02, category: 'premium' },
+  { symbol: 'OPENSEA', name: 'OpenSea Technologies', price: 67.34, change: -2.45, changePercent: -3.51, category: 'premium' },
+];
+
+/**
+ * Bundled quote table for development and offline use
+ */
+export class MockMarketDataProvider implements MarketDataProvider {
+  private readonly latencyMs: number;
+
+  constructor(latencyMs: number = 1000) {
+    this.latencyMs = latencyMs;
+  }
+
+  async getQuotes(symbols?: string[]): Promise<Stock[]> {
+    // Simulate API delay
+    await new Promise(resolve => setTimeout(resolve, this.latencyMs));
+
+    if (!symbols) {
+      return MOCK_STOCKS.map(stock => ({ ...stock }));
+    }
+
+    return MOCK_STOCKS
+      .filter(stock => symbols.includes(stock.symbol))
+      .map(stock => ({ ...stock }));
+  }
+}
+
+/**
+ * Quote provider backed by an HTTP endpoint returning `{ quotes: Stock[] }`
+ * from `GET <baseUrl>/quotes?symbols=AAPL,MSFT`
+ */
+export class HttpMarketDataProvider implements MarketDataProvider {
+  private readonly baseUrl: string;
+  private readonly timeoutMs: number;
+
+  constructor(baseUrl: string, timeoutMs: number = 10000) {
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+    this.timeoutMs = timeoutMs;
+  }
+
+  async getQuotes(symbols?: string[]): Promise<Stock[]> {
+    const query = symbols ? `?symbols=${encodeURIComponent(symbols.join(','))}` : '';
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.timeoutMs);
+
+    try {
+      const response = await fetch(`${this.baseUrl}/quotes${query}`, {
+        signal: controller.signal,
+      });
+
+      if (!response.ok) {
+        throw new Error(`Quote request failed with status ${response.status}`);
+      }
+
+      const body = await response.json();
+      if (!body || !Array.isArray(body.quotes)) {
+        throw new Error('Malformed quote response');
+      }
+
+      return body.quotes.filter(isStock);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
+
+function isStock(value: unknown): value is Stock {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+  const quote = value as Record<string, unknown>;
+  return (
+    typeof quote.symbol === 'string' &&
+    typeof quote.name === 'string' &&
+    typeof quote.price === 'number' &&
+    isFinite(quote.price) &&
+    typeof quote.change === 'number' &&
+    typeof quote.changePercent === 'number' &&
+    typeof quote.category === 'string' &&
+    ['traditional', 'crypto', 'premium'].includes(quote.category)
+  );
+}
+
+/**
+ * Market data access shared by the stock listing and the portfolio
+ * Keeps the last quote per symbol so every screen prices from the same data
+ */
+export class MarketDataService {
+  private provider: MarketDataProvider;
+  private quotes = new Map<string, Stock>();
+
+  constructor(provider: MarketDataProvider) {
+    this.provider = provider;
+  }
+
+  /**
+   * Swap the quote source, dropping quotes from the previous provider
+   */
+  setProvider(provider: MarketDataProvider): void {
+    this.provider = provider;
+    this.quotes.clear();
+  }
+
+  /**
+   * Fetch quotes for the given symbols, or the full listing when omitted
+   */
+  async getQuotes(symbols?: string[]): Promise<Stock[]> {
+    try {
+      const quotes = await this.provider.getQuotes(symbols);
+      quotes.forEach(quote => this.quotes.set(quote.symbol, quote));
+      return quotes;
+    } catch (error) {
+      console.error('Quote fetch failed:', error);
+      throw new Error('Failed to load stock quotes');
+    }
+  }
+
+  /**
+   * Fetch a single quote, or null when the symbol is not listed
+   */
+  async getQuote(symbol: string): Promise<Stock | null> {
+    const [quote] = await this.getQuotes([symbol]);
+    return quote ?? null;
+  }
+
+  /**
+   * Last known quote for a symbol without hitting the provider
+   */
+  getCachedQuote(symbol: string): Stock | null {
+    return this.quotes.get(symbol) ?? null;
+  }
+
+  /**
+   * Apply a streamed price update to the cached quote
+   */
+  applyTick(symbol: string, price: number, change: number, changePercent: number): Stock | null {
+    const quote = this.quotes.get(symbol);
+    if (!quote) {
+      return null;
+    }
+
+    const updated = { ...quote, price, change, changePercent };
+    this.quotes.set(symbol, updated);
+    return updated;
+  }
+}
+
+// Export singleton instance
+export const marketDataService = new MarketDataService(
+  MARKET_DATA_API_URL
+    ? new HttpMarketDataProvider(MARKET_DATA_API_URL)
+    : new MockMarketDataProvider()
+);
@@ -2,54 +2,153 @@ import {
   transact,
   Web3MobileWallet,
 } from '@solana-mobile/mobile-wallet-adapter-protocol-web3js';
+import {
+  Account,
+  AuthorizationResult,
+  Chain,
+  SolanaMobileWalletAdapterProtocolError,
+  SolanaMobileWalletAdapterProtocolErrorCode,
+} from '@solana-mobile/mobile-wallet-adapter-protocol';
+import * as Keychain from 'react-native-keychain';
 import { 
   Connection, 
   PublicKey, 
-  Transaction,
+  TransactionVersion,
   SystemProgram,
   LAMPORTS_PER_SOL
 } from '@solana/web3.js';
-import { APP_IDENTITY, connection } from './solanaConfig';
+import { APP_IDENTITY, SOLANA_NETWORK, SolanaCluster } from './solanaConfig';
+import { networkSettingsService } from './networkSettings';
+import { priorityFeeService } from './priorityFees';
+import type { Signer } from './signer';
+import { transactionLifecycle, TransactionLifecycleError } from './transactionLifecycle';
+import { AnyTransaction, isVersionedTransaction } from './versionedTransactions';
 
 export interface MobileWalletAdapterConfig {
-  cluster: 'devnet' | 'testnet' | 'mainnet-beta';
   onConnect?: (publicKey: PublicKey) => void;
   onDisconnect?: () => void;
   onError?: (error: Error) => void;
 }
 
-export class MobileWalletService {
+/**
+ * An account the wallet authorized; `address` is the base64 form MWA uses
+ */
+export interface WalletAccount {
+  address: string;
+  label?: string;
+  publicKey: PublicKey;
+}
+
+/**
+ * Who is connected: every authorized account and the one transactions are built for
+ * `transactionVersion` is the newest version the wallet signs; builders should use it
+ */
+export interface WalletSession {
+  accounts: WalletAccount[];
+  selectedAccount: WalletAccount | null;
+  transactionVersion: TransactionVersion;
+}
+
+export type WalletSessionListener = (session: WalletSession) => void;
+
+/**
+ * What the wallet granted us, kept so sessions survive restarts
+ * `publicKey` is the selected account; `cluster` is the one the token was issued for
+ */
+interface StoredAuthorization {
+  authToken: string;
+  walletUriBase: string;
+  publicKey: string;
+  accounts: Account[];
+  cluster: SolanaCluster;
+  // Unknown for sessions saved before versioned transactions; asked on the next transact
+  supportedTransactionVersions?: TransactionVersion[];
+}
+
+const AUTHORIZATION_SERVICE = 'sol-stocks.mwa-authorization';
+
+export class MobileWalletService implements Signer {
+  readonly kind = 'wallet' as const;
   private connection: Connection;
   private connectedPublicKey: PublicKey | null = null;
+  private authorization: StoredAuthorization | null = null;
+  private accounts: WalletAccount[] = [];
+  private listeners = new Set<WalletSessionListener>();
   private config: MobileWalletAdapterConfig;
 
   constructor(config: MobileWalletAdapterConfig) {
-    this.connection = connection;
+    this.connection = networkSettingsService.getConnection();
     this.config = config;
   }
 
+  /**
+   * Move the session to another cluster and re-authorize it there
+   * The wallet is asked right away so a refusal surfaces now, not on the next trade; while
+   * another signer is active it is left alone and the next transact re-authorizes instead
+   */
+  async setNetwork(connection: Connection, reauthorize: boolean = true): Promise<void> {
+    this.connection = connection;
+    if (!this.authorization || !reauthorize) {
+      return;
+    }
+
+    try {
+      await this.transactAuthorized(async () => undefined);
+    } catch (error) {
+      // Retried on the next transact unless the wallet revoked the session
+      console.error('Wallet re-authorization for new cluster failed:', error);
+    }
+  }
+
+  /**
+   * Restore the last session on startup and silently reauthorize it with the wallet
+   * Returns null when there is no session or the wallet has revoked it
+   */
+  async restoreSession(): Promise<PublicKey | null> {
+    const stored = await this.loadAuthorization();
+    if (!stored) {
+      return null;
+    }
+
+    this.setSession(stored);
+
+    try {
+      await this.transactAuthorized(async () => undefined);
+      return this.connectedPublicKey;
+    } catch (error) {
+      console.error('Wallet session restore failed:', error);
+      // A revoked token has already cleared the session; anything else (e.g. the
+      // wallet app is unavailable right now) keeps it for the next transact
+      return this.connectedPublicKey;
+    }
+  }
+
   /**
    * Connect to mobile wallet using Mobile Wallet Adapter
    */
   async connect(): Promise<PublicKey | null> {
     try {
+      const cluster = networkSettingsService.getCluster();
       const authorizationResult = await transact(async (wallet: Web3MobileWallet) => {
         // Request authorization from the wallet
         const authorizationResult = await wallet.authorize({
-          cluster: this.config.cluster,
+          chain: toChain(cluster),
           identity: APP_IDENTITY,
         });
 
-        return authorizationResult;
+        return {
+          ...authorizationResult,
+          supportedTransactionVersions: await getSupportedTransactionVersions(wallet),
+        };
       });
 
-      if (authorizationResult.accounts.length > 0) {
-        this.connectedPublicKey = authorizationResult.accounts[0].publicKey;
-        this.config.onConnect?.(this.connectedPublicKey);
-        return this.connectedPublicKey;
-      }
-
-      throw new Error('No accounts found');
+      await this.saveAuthorization(
+        authorizationResult,
+        cluster,
+        authorizationResult.supportedTransactionVersions
+      );
+      this.config.onConnect?.(this.connectedPublicKey!);
+      return this.connectedPublicKey;
     } catch (error) {
       console.error('Mobile wallet connection failed:', error);
       this.config.onError?.(error as Error);
@@ -62,34 +161,45 @@ export class MobileWalletService {
    */
   async disconnect(): Promise<void> {
     try {
-      await transact(async (wallet: Web3MobileWallet) => {
-        await wallet.deauthorize({
-          auth_token: '', // This would be stored from authorization
-        });
-      });
-
-      this.connectedPublicKey = null;
-      this.config.onDisconnect?.();
+      const authToken = this.authorization?.authToken;
+      if (authToken) {
+        await transact(async (wallet: Web3MobileWallet) => {
+          await wallet.deauthorize({ auth_token: authToken });
+        }, this.getAssociationConfig());
+      }
     } catch (error) {
+      // The local session is dropped either way
       console.error('Mobile wallet disconnection failed:', error);
       this.config.onError?.(error as Error);
+    } finally {
+      await this.clearAuthorization();
+      this.config.onDisconnect?.();
     }
   }
 
   /**
    * Sign transaction using mobile wallet
+   * Versioned transactions must already carry their blockhash and fee payer
    */
-  async signTransaction(transaction: Transaction): Promise<Transaction | null> {
+  async signTransaction<T extends AnyTransaction>(transaction: T): Promise<T | null> {
     if (!this.connectedPublicKey) {
       throw new Error('Wallet not connected');
     }
 
     try {
-      const signedTransaction = await transact(async (wallet: Web3MobileWallet) => {
-        // Get latest blockhash
-        const { blockhash } = await this.connection.getLatestBlockhash();
-        transaction.recentBlockhash = blockhash;
-        transaction.feePayer = this.connectedPublicKey!;
+      const signedTransaction = await this.transactAuthorized(async (wallet: Web3MobileWallet) => {
+        if (isVersionedTransaction(transaction)) {
+          this.assertSupportsVersion(transaction.version);
+        } else {
+          // Keep a blockhash and fee payer that a co-signer already signed over
+          if (!transaction.recentBlockhash) {
+            const { blockhash } = await this.connection.getLatestBlockhash();
+            transaction.recentBlockhash = blockhash;
+          }
+          if (!transaction.feePayer) {
+            transaction.feePayer = this.connectedPublicKey!;
+          }
+        }
 
         // Sign the transaction
         const signedTransactions = await wallet.signTransactions({
@@ -108,75 +218,101 @@ export class MobileWalletService {
   }
 
   /**
-   * Sign and send transaction
+   * Sign with the wallet, then send and follow the transaction until it is confirmed
+   * Progress is reported through transactionLifecycle; failures throw
+   * TransactionLifecycleError so callers can tell a transaction that can never land
+   * from one that may still
+   * Versioned transactions are sent as built, so pass the blockhash's `lastValidBlockHeight`
+   * to have expiry detected from block height
    */
-  async signAndSendTransaction(transaction: Transaction): Promise<string | null> {
+  async signAndSendTransaction(
+    transaction: AnyTransaction,
+    label: string = 'Transaction',
+    lastValidBlockHeight: number | null = null
+  ): Promise<string> {
     if (!this.connectedPublicKey) {
       throw new Error('Wallet not connected');
     }
 
+    if (!isVersionedTransaction(transaction)) {
+      // Keep a fee payer and blockhash that a co-signer already signed over
+      if (!transaction.feePayer) {
+        transaction.feePayer = this.connectedPublicKey;
+      }
+      await priorityFeeService.ensurePriorityFee(transaction);
+      lastValidBlockHeight = lastValidBlockHeight ?? transaction.lastValidBlockHeight ?? null;
+    }
+
+    let signedTransaction: AnyTransaction;
     try {
-      const signature = await transact(async (wallet: Web3MobileWallet) => {
-        // Get latest blockhash
-        const { blockhash } = await this.connection.getLatestBlockhash();
-        transaction.recentBlockhash = blockhash;
-        transaction.feePayer = this.connectedPublicKey!;
-
-        // Sign and send the transaction
-        const signedTransactions = await wallet.signAndSendTransactions({
+      signedTransaction = await this.transactAuthorized(async (wallet: Web3MobileWallet) => {
+        if (isVersionedTransaction(transaction)) {
+          this.assertSupportsVersion(transaction.version);
+        } else if (!transaction.recentBlockhash) {
+          const latest = await this.connection.getLatestBlockhash();
+          transaction.recentBlockhash = latest.blockhash;
+          lastValidBlockHeight = latest.lastValidBlockHeight;
+        }
+
+        // Signed here and sent by us, so it can be rebroadcast until it lands
+        const signedTransactions = await wallet.signTransactions({
           transactions: [transaction],
         });
 
         return signedTransactions[0];
       });
-
-      // Wait for confirmation
-      await this.connection.confirmTransaction(signature);
-      return signature;
     } catch (error) {
-      console.error('Transaction failed:', error);
+      console.error('Transaction signing failed:', error);
       this.config.onError?.(error as Error);
-      return null;
+      throw new TransactionLifecycleError(
+        'rejected',
+        null,
+        error instanceof Error ? error.message : 'The wallet did not sign the transaction'
+      );
     }
+
+    return transactionLifecycle.sendAndConfirm(signedTransaction, label, lastValidBlockHeight);
   }
 
   /**
-   * Request airdrop for devnet testing
+   * Sign an arbitrary message with the selected account
    */
-  async requestAirdrop(amount: number = 2): Promise<string | null> {
+  async signMessage(message: Uint8Array): Promise<Uint8Array | null> {
     if (!this.connectedPublicKey) {
       throw new Error('Wallet not connected');
     }
 
     try {
-      const signature = await this.connection.requestAirdrop(
-        this.connectedPublicKey,
-        amount * LAMPORTS_PER_SOL
-      );
+      return await this.transactAuthorized(async (wallet: Web3MobileWallet) => {
+        const signedMessages = await wallet.signMessages({
+          addresses: [this.getSession().selectedAccount!.address],
+          payloads: [message],
+        });
 
-      await this.connection.confirmTransaction(signature);
-      return signature;
+        return signedMessages[0];
+      });
     } catch (error) {
-      console.error('Airdrop failed:', error);
+      console.error('Message signing failed:', error);
       this.config.onError?.(error as Error);
       return null;
     }
   }
 
   /**
-   * Get SOL balance
+   * Get SOL balance of the selected account, or of another authorized one
+   * Null when it couldn't be fetched, so a failed lookup never reads as an empty wallet
    */
-  async getBalance(): Promise<number> {
-    if (!this.connectedPublicKey) {
+  async getBalance(publicKey: PublicKey | null = this.connectedPublicKey): Promise<number | null> {
+    if (!publicKey) {
       return 0;
     }
 
     try {
-      const balance = await this.connection.getBalance(this.connectedPublicKey);
+      const balance = await this.connection.getBalance(publicKey);
       return balance / LAMPORTS_PER_SOL;
     } catch (error) {
       console.error('Balance fetch failed:', error);
-      return 0;
+      return null;
     }
   }
 
@@ -193,11 +329,241 @@ export class MobileWalletService {
   isConnected(): boolean {
     return this.connectedPublicKey !== null;
   }
+
+  /**
+   * Get every authorized account and the selected one
+   */
+  getSession(): WalletSession {
+    const selected = this.connectedPublicKey;
+    return {
+      accounts: this.accounts,
+      selectedAccount: selected
+        ? this.accounts.find(account => account.publicKey.equals(selected)) ?? null
+        : null,
+      transactionVersion: this.authorization?.supportedTransactionVersions?.includes(0) ? 0 : 'legacy',
+    };
+  }
+
+  /**
+   * Switch the account transactions are built for to another authorized one
+   */
+  async selectAccount(publicKey: PublicKey): Promise<void> {
+    const authorization = this.authorization;
+    if (!authorization || !this.accounts.some(account => account.publicKey.equals(publicKey))) {
+      throw new Error('Account is not authorized by the connected wallet');
+    }
+
+    await this.persistAuthorization({ ...authorization, publicKey: publicKey.toBase58() });
+  }
+
+  /**
+   * Be told whenever the session changes: connect, disconnect, revocation or account switch
+   * Returns a function that stops listening
+   */
+  subscribe(listener: WalletSessionListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Open a wallet session that is reauthorized with the stored token before `task` runs
+   * A token issued for another cluster is exchanged for one on the current cluster
+   * A revoked token ends the session and surfaces as an error
+   */
+  private async transactAuthorized<T>(task: (wallet: Web3MobileWallet) => Promise<T>): Promise<T> {
+    const authorization = this.authorization;
+    if (!authorization) {
+      throw new Error('Wallet not connected');
+    }
+
+    try {
+      return await transact(async (wallet: Web3MobileWallet) => {
+        const cluster = networkSettingsService.getCluster();
+        const result = authorization.cluster === cluster
+          ? await wallet.reauthorize({
+              auth_token: authorization.authToken,
+              identity: APP_IDENTITY,
+            })
+          : await wallet.authorize({
+              auth_token: authorization.authToken,
+              chain: toChain(cluster),
+              identity: APP_IDENTITY,
+            });
+        const supportedTransactionVersions = authorization.supportedTransactionVersions ??
+          await getSupportedTransactionVersions(wallet);
+        await this.saveAuthorization(
+          result,
+          cluster,
+          supportedTransactionVersions,
+          new PublicKey(authorization.publicKey)
+        );
+        return task(wallet);
+      }, this.getAssociationConfig());
+    } catch (error) {
+      if (
+        error instanceof SolanaMobileWalletAdapterProtocolError &&
+        error.code === SolanaMobileWalletAdapterProtocolErrorCode.ERROR_AUTHORIZATION_FAILED
+      ) {
+        await this.handleRevokedAuthorization();
+        throw new Error('Wallet authorization was revoked, please reconnect');
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Refuse a transaction version the wallet didn't advertise rather than let it fail inside the wallet
+   */
+  private assertSupportsVersion(version: TransactionVersion): void {
+    const supported = this.authorization?.supportedTransactionVersions ?? ['legacy'];
+    if (!supported.includes(version)) {
+      throw new Error(`The connected wallet does not support version ${version} transactions`);
+    }
+  }
+
+  private getAssociationConfig(): { baseUri?: string } | undefined {
+    return this.authorization?.walletUriBase
+      ? { baseUri: this.authorization.walletUriBase }
+      : undefined;
+  }
+
+  private async handleRevokedAuthorization(): Promise<void> {
+    console.error('Mobile wallet authorization revoked');
+    await this.clearAuthorization();
+    this.config.onDisconnect?.();
+  }
+
+  /**
+   * Keep the latest token the wallet issued; it may rotate on every reauthorize
+   * Reauthorizing must not silently switch the account transactions were built for
+   */
+  private async saveAuthorization(
+    result: AuthorizationResult,
+    cluster: SolanaCluster,
+    supportedTransactionVersions: TransactionVersion[],
+    expectedPublicKey?: PublicKey
+  ): Promise<void> {
+    if (result.accounts.length === 0) {
+      throw new Error('No accounts found');
+    }
+
+    // Keep the selected account as long as the wallet still authorizes it
+    const selected = expectedPublicKey
+      ? result.accounts.find(account => toPublicKey(account).equals(expectedPublicKey))
+      : result.accounts[0];
+    if (!selected) {
+      throw new Error('Wallet returned a different account, please reconnect');
+    }
+
+    await this.persistAuthorization({
+      authToken: result.auth_token,
+      walletUriBase: result.wallet_uri_base,
+      publicKey: toPublicKey(selected).toBase58(),
+      accounts: result.accounts.map(({ address, label }) => ({ address, label })),
+      cluster,
+      supportedTransactionVersions,
+    });
+  }
+
+  private async persistAuthorization(authorization: StoredAuthorization): Promise<void> {
+    this.setSession(authorization);
+
+    try {
+      await Keychain.setGenericPassword('mwa', JSON.stringify(this.authorization), {
+        service: AUTHORIZATION_SERVICE,
+        accessible: Keychain.ACCESSIBLE.AFTER_FIRST_UNLOCK_THIS_DEVICE_ONLY,
+      });
+    } catch (error) {
+      // The session still works until the app restarts
+      console.error('Failed to persist wallet authorization:', error);
+    }
+  }
+
+  private async loadAuthorization(): Promise<StoredAuthorization | null> {
+    try {
+      const credentials = await Keychain.getGenericPassword({ service: AUTHORIZATION_SERVICE });
+      if (!credentials) {
+        return null;
+      }
+
+      const stored = JSON.parse(credentials.password);
+      if (!stored || typeof stored.authToken !== 'string' || typeof stored.publicKey !== 'string') {
+        return null;
+      }
+
+      // Sessions saved before multi-account and cluster support were devnet-only
+      // and kept just the selected account
+      return {
+        ...stored,
+        accounts: Array.isArray(stored.accounts)
+          ? stored.accounts
+          : [{ address: new PublicKey(stored.publicKey).toBuffer().toString('base64') }],
+        cluster: stored.cluster ?? SOLANA_NETWORK,
+      };
+    } catch (error) {
+      console.error('Failed to load wallet authorization:', error);
+      return null;
+    }
+  }
+
+  private async clearAuthorization(): Promise<void> {
+    this.setSession(null);
+
+    try {
+      await Keychain.resetGenericPassword({ service: AUTHORIZATION_SERVICE });
+    } catch (error) {
+      console.error('Failed to clear wallet authorization:', error);
+    }
+  }
+
+  private setSession(authorization: StoredAuthorization | null): void {
+    this.authorization = authorization;
+    this.connectedPublicKey = authorization ? new PublicKey(authorization.publicKey) : null;
+    this.accounts = (authorization?.accounts ?? []).map(account => ({
+      address: account.address,
+      label: account.label,
+      publicKey: toPublicKey(account),
+    }));
+
+    const session = this.getSession();
+    this.listeners.forEach(listener => listener(session));
+  }
+}
+
+/**
+ * MWA 2.0 chain identifier for a cluster
+ */
+function toChain(cluster: SolanaCluster): Chain {
+  return cluster === 'mainnet-beta' ? 'solana:mainnet' : `solana:${cluster}`;
+}
+
+/**
+ * Transaction versions the wallet says it can sign
+ * A wallet that can't say is treated as legacy-only
+ */
+async function getSupportedTransactionVersions(wallet: Web3MobileWallet): Promise<TransactionVersion[]> {
+  try {
+    const capabilities = await wallet.getCapabilities();
+    return capabilities.supported_transaction_versions
+      ? [...capabilities.supported_transaction_versions]
+      : ['legacy'];
+  } catch (error) {
+    console.error('Failed to read wallet capabilities:', error);
+    return ['legacy'];
+  }
+}
+
+/**
+ * MWA reports account addresses as base64-encoded public key bytes
+ */
+function toPublicKey(account: Account): PublicKey {
+  return new PublicKey(Buffer.from(account.address, 'base64'));
 }
 
 // Export singleton instance
 export const mobileWalletService = new MobileWalletService({
-  cluster: 'devnet',
   onConnect: (publicKey) => {
     console.log('Wallet connected:', publicKey.toBase58());
   },
@@ -207,4 +573,4 @@ export const mobileWalletService = new MobileWalletService({
   onError: (error) => {
     console.error('Mobile wallet error:', error);
   },
-});
\ No newline at end of file
+});
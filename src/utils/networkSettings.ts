@@ -0,0 +1,201 @@
+import { Connection } from '@solana/web3.js';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { RPC_ENDPOINTS, SOLANA_NETWORK, SolanaCluster } from './solanaConfig';
+import { RpcPool } from './rpcPool';
+
+export const SOLANA_CLUSTERS: SolanaCluster[] = ['devnet', 'testnet', 'mainnet-beta'];
+
+/**
+ * Which cluster the app talks to, and optionally a custom RPC serving that cluster
+ */
+export interface NetworkSettings {
+  cluster: SolanaCluster;
+  customRpcUrl: string | null;
+}
+
+/**
+ * `rpcEndpoint` identifies the network; requests may be served by any endpoint in `rpcPool`
+ */
+export interface NetworkState extends NetworkSettings {
+  rpcEndpoint: string;
+  rpcPool: RpcPool;
+  connection: Connection;
+}
+
+export type NetworkListener = (state: NetworkState) => void;
+
+const NETWORK_SETTINGS_KEY = 'network_settings';
+
+// Lets a custom RPC be checked against the cluster it claims to serve
+const GENESIS_HASHES: Record<SolanaCluster, string> = {
+  'mainnet-beta': '5eykt4UsFv8P8NJdTREpY1vzqKqZKvdpKuc147dw2N9d',
+  testnet: '4uhcVJyU9pJkvQyS88uRDiswHXSCkY3zQawwpjk2NsNY',
+  devnet: 'EtWTRABZaYq6iMfeYKouRu166VU2xqa1wcaWoxPkrZBG',
+};
+
+/**
+ * Check a custom RPC URL before anything is sent to it
+ * Returns the normalized URL
+ */
+export function validateRpcUrl(url: string): string {
+  let parsed: URL;
+  try {
+    parsed = new URL(url.trim());
+  } catch {
+    throw new Error('RPC URL is not a valid URL');
+  }
+
+  if (parsed.protocol !== 'https:' && parsed.protocol !== 'http:') {
+    throw new Error('RPC URL must use http or https');
+  }
+
+  return parsed.toString();
+}
+
+/**
+ * Runtime network selection
+ *
+ * Owns the app's Connection: changing the network rebuilds it and tells every
+ * listener, so services never keep talking to the previous cluster.
+ */
+export class NetworkSettingsService {
+  private state: NetworkState;
+  private listeners = new Set<NetworkListener>();
+
+  constructor(defaults: NetworkSettings) {
+    this.state = buildState(defaults);
+  }
+
+  /**
+   * Apply the settings saved on a previous run
+   */
+  async load(): Promise<NetworkState> {
+    try {
+      const data = await AsyncStorage.getItem(NETWORK_SETTINGS_KEY);
+      const stored = data ? JSON.parse(data) : null;
+      if (stored && SOLANA_CLUSTERS.includes(stored.cluster)) {
+        this.apply({
+          cluster: stored.cluster,
+          customRpcUrl: typeof stored.customRpcUrl === 'string'
+            ? validateRpcUrl(stored.customRpcUrl)
+            : null,
+        });
+      }
+    } catch (error) {
+      console.error('Failed to load network settings:', error);
+    }
+
+    return this.state;
+  }
+
+  /**
+   * Switch to another cluster or RPC and remember the choice
+   * A custom RPC must answer for the chosen cluster before it is used
+   */
+  async setNetwork(settings: NetworkSettings): Promise<NetworkState> {
+    if (!SOLANA_CLUSTERS.includes(settings.cluster)) {
+      throw new Error(`Unknown cluster ${settings.cluster}`);
+    }
+
+    const next: NetworkSettings = {
+      cluster: settings.cluster,
+      customRpcUrl: settings.customRpcUrl ? validateRpcUrl(settings.customRpcUrl) : null,
+    };
+
+    if (next.customRpcUrl) {
+      let genesisHash: string;
+      try {
+        genesisHash = await new Connection(next.customRpcUrl).getGenesisHash();
+      } catch (error) {
+        console.error('Custom RPC check failed:', error);
+        throw new Error('Custom RPC is not reachable');
+      }
+      if (genesisHash !== GENESIS_HASHES[next.cluster]) {
+        throw new Error(`Custom RPC does not serve ${next.cluster}`);
+      }
+    }
+
+    try {
+      await AsyncStorage.setItem(NETWORK_SETTINGS_KEY, JSON.stringify(next));
+    } catch (error) {
+      // The new network still applies until the app restarts
+      console.error('Failed to save network settings:', error);
+    }
+
+    this.apply(next);
+    return this.state;
+  }
+
+  /**
+   * Get the current network
+   */
+  getState(): NetworkState {
+    return this.state;
+  }
+
+  /**
+   * Get the connection for the current network
+   */
+  getConnection(): Connection {
+    return this.state.connection;
+  }
+
+  /**
+   * Get the current cluster
+   */
+  getCluster(): SolanaCluster {
+    return this.state.cluster;
+  }
+
+  /**
+   * Faucet airdrops only exist off mainnet
+   */
+  supportsAirdrop(): boolean {
+    return this.state.cluster !== 'mainnet-beta';
+  }
+
+  /**
+   * Be told whenever the network changes
+   * Returns a function that stops listening
+   */
+  subscribe(listener: NetworkListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private apply(settings: NetworkSettings): void {
+    if (
+      settings.cluster === this.state.cluster &&
+      settings.customRpcUrl === this.state.customRpcUrl
+    ) {
+      return;
+    }
+
+    this.state = buildState(settings);
+    this.listeners.forEach(listener => listener(this.state));
+  }
+}
+
+/**
+ * A custom RPC is used on its own; the public endpoints back each other up
+ */
+function buildState(settings: NetworkSettings): NetworkState {
+  const endpoints = settings.customRpcUrl
+    ? [settings.customRpcUrl]
+    : RPC_ENDPOINTS[settings.cluster];
+  const rpcPool = new RpcPool(endpoints, { commitment: 'confirmed' });
+  return {
+    ...settings,
+    rpcEndpoint: endpoints[0],
+    rpcPool,
+    connection: rpcPool.connection,
+  };
+}
+
+// Export singleton instance
+export const networkSettingsService = new NetworkSettingsService({
+  cluster: SOLANA_NETWORK,
+  customRpcUrl: null,
+});
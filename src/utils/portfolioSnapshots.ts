@@ -0,0 +1,243 @@
+import { PublicKey } from '@solana/web3.js';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { BuyEntry, LedgerEntry, SellEntry } from './tradeLedger';
+import { SOLANA_NETWORK, SolanaCluster } from './solanaConfig';
+import { networkSettingsService } from './networkSettings';
+
+export type ChangePeriod = 'day' | 'week' | 'month' | 'inception';
+
+export const CHANGE_PERIODS: ChangePeriod[] = ['day', 'week', 'month', 'inception'];
+
+export interface SnapshotHolding {
+  symbol: string;
+  quantity: number;
+  price: number;
+}
+
+/**
+ * Closing state of a portfolio for one local calendar day
+ * The last snapshot written on a day is that day's close
+ */
+export interface PortfolioSnapshot {
+  date: string;
+  takenAt: number;
+  holdings: SnapshotHolding[];
+  totalValueUSD: number;
+  solPriceUSD: number | null;
+}
+
+/**
+ * What a period's change is measured against: the value at its start plus
+ * the money moved in (buys) or out (sales) since, so trades don't count as gains
+ */
+export interface PeriodBaseline {
+  startedAt: number;
+  valueUSD: number;
+  valueSOL: number | null;
+  flowsUSD: number;
+  flowsSOL: number;
+  buysUSD: number;
+  buysSOL: number;
+}
+
+export interface PeriodChange {
+  usd: number;
+  usdPercent: number;
+  sol: number | null;
+  solPercent: number | null;
+}
+
+// About 13 months of closes, enough for the month baseline with room to spare
+const MAX_SNAPSHOTS = 400;
+
+/**
+ * Local calendar date as YYYY-MM-DD
+ */
+export function toDateKey(timestamp: number): string {
+  const date = new Date(timestamp);
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Change from a baseline to the current value, net of trade flows
+ */
+export function measureChange(
+  baseline: PeriodBaseline,
+  currentValueUSD: number,
+  solPriceUSD: number | null
+): PeriodChange {
+  const usd = currentValueUSD - baseline.valueUSD - baseline.flowsUSD;
+  const investedUSD = baseline.valueUSD + baseline.buysUSD;
+
+  let sol: number | null = null;
+  let solPercent: number | null = null;
+  if (solPriceUSD && baseline.valueSOL !== null) {
+    sol = currentValueUSD / solPriceUSD - baseline.valueSOL - baseline.flowsSOL;
+    const investedSOL = baseline.valueSOL + baseline.buysSOL;
+    solPercent = investedSOL > 0 ? (sol / investedSOL) * 100 : 0;
+  }
+
+  return {
+    usd,
+    usdPercent: investedUSD > 0 ? (usd / investedUSD) * 100 : 0,
+    sol,
+    solPercent,
+  };
+}
+
+/**
+ * Find each period's baseline from stored closes and the trade ledger
+ * The day is measured from yesterday's close only; longer periods from the latest close
+ * on or before their start. Without one the period is null rather than measured from another day
+ */
+export function computeBaselines(
+  snapshots: PortfolioSnapshot[],
+  entries: LedgerEntry[],
+  now: number = Date.now()
+): Record<ChangePeriod, PeriodBaseline | null> {
+  const yesterday = new Date(now);
+  yesterday.setDate(yesterday.getDate() - 1);
+  const weekAgo = new Date(now);
+  weekAgo.setDate(weekAgo.getDate() - 7);
+  const monthAgo = new Date(now);
+  monthAgo.setMonth(monthAgo.getMonth() - 1);
+
+  const trades = entries.filter((entry): entry is BuyEntry | SellEntry =>
+    (entry.type === 'buy' || entry.type === 'sell') && entry.status === 'confirmed'
+  );
+
+  const fromClose = (snapshot: PortfolioSnapshot | undefined): PeriodBaseline | null => {
+    if (!snapshot) {
+      return null;
+    }
+    return {
+      startedAt: snapshot.takenAt,
+      valueUSD: snapshot.totalValueUSD,
+      valueSOL: snapshot.solPriceUSD ? snapshot.totalValueUSD / snapshot.solPriceUSD : null,
+      ...sumFlows(trades, snapshot.takenAt),
+    };
+  };
+
+  // Closes are sorted oldest first; take the latest one on or before each cutoff
+  const lastCloseBefore = (cutoff: string) =>
+    snapshots.filter(snapshot => snapshot.date <= cutoff).pop();
+
+  return {
+    day: fromClose(snapshots.find(snapshot => snapshot.date === toDateKey(yesterday.getTime()))),
+    week: fromClose(lastCloseBefore(toDateKey(weekAgo.getTime()))),
+    month: fromClose(lastCloseBefore(toDateKey(monthAgo.getTime()))),
+    // Since inception the starting value is zero and every trade is a flow
+    inception: trades.length > 0
+      ? { startedAt: 0, valueUSD: 0, valueSOL: 0, ...sumFlows(trades, 0) }
+      : null,
+  };
+}
+
+/**
+ * Net money put into positions after a point in time: buys (with fees) in, sale proceeds out
+ */
+function sumFlows(
+  trades: (BuyEntry | SellEntry)[],
+  after: number
+): Pick<PeriodBaseline, 'flowsUSD' | 'flowsSOL' | 'buysUSD' | 'buysSOL'> {
+  const flows = { flowsUSD: 0, flowsSOL: 0, buysUSD: 0, buysSOL: 0 };
+
+  trades
+    .filter(trade => (trade.confirmedAt ?? trade.timestamp) > after)
+    .forEach(trade => {
+      const feeUSD = trade.feeSOL * trade.solPriceUSD;
+      if (trade.type === 'buy') {
+        flows.buysUSD += trade.totalUSD + feeUSD;
+        flows.buysSOL += trade.solAmount + trade.feeSOL;
+        flows.flowsUSD += trade.totalUSD + feeUSD;
+        flows.flowsSOL += trade.solAmount + trade.feeSOL;
+      } else {
+        flows.flowsUSD -= trade.totalUSD - feeUSD;
+        flows.flowsSOL -= trade.netSOL;
+      }
+    });
+
+  return flows;
+}
+
+/**
+ * Stores one closing snapshot per wallet per day, separately for each cluster
+ */
+export class PortfolioSnapshotService {
+  private cluster: SolanaCluster;
+
+  constructor(cluster: SolanaCluster = SOLANA_NETWORK) {
+    this.cluster = cluster;
+  }
+
+  /**
+   * Scope every later read and write to another cluster
+   */
+  setCluster(cluster: SolanaCluster): void {
+    this.cluster = cluster;
+  }
+
+  /**
+   * Record the current portfolio as today's close, replacing any earlier snapshot from today
+   */
+  async recordSnapshot(
+    wallet: PublicKey,
+    holdings: SnapshotHolding[],
+    solPriceUSD: number | null,
+    now: number = Date.now()
+  ): Promise<PortfolioSnapshot[]> {
+    const snapshot: PortfolioSnapshot = {
+      date: toDateKey(now),
+      takenAt: now,
+      holdings,
+      totalValueUSD: holdings.reduce((sum, holding) => sum + holding.quantity * holding.price, 0),
+      solPriceUSD,
+    };
+
+    const key = this.storageKey(wallet);
+    const snapshots = (await this.getSnapshots(wallet))
+      .filter(existing => existing.date !== snapshot.date)
+      .concat(snapshot)
+      .sort((a, b) => a.date.localeCompare(b.date))
+      .slice(-MAX_SNAPSHOTS);
+
+    try {
+      await AsyncStorage.setItem(key, JSON.stringify(snapshots));
+    } catch (error) {
+      console.error('Failed to store portfolio snapshot:', error);
+    }
+
+    return snapshots;
+  }
+
+  /**
+   * Get stored closes, oldest first
+   */
+  async getSnapshots(wallet: PublicKey): Promise<PortfolioSnapshot[]> {
+    try {
+      // Closes recorded before snapshots were scoped by cluster are on the default one
+      const data =
+        (await AsyncStorage.getItem(this.storageKey(wallet))) ??
+        (this.cluster === SOLANA_NETWORK
+          ? await AsyncStorage.getItem(`snapshots:${wallet.toBase58()}`)
+          : null);
+      const snapshots = data ? JSON.parse(data) : [];
+      return Array.isArray(snapshots) ? snapshots : [];
+    } catch (error) {
+      console.error('Failed to load portfolio snapshots:', error);
+      return [];
+    }
+  }
+
+  private storageKey(wallet: PublicKey): string {
+    return `snapshots:${this.cluster}:${wallet.toBase58()}`;
+  }
+}
+
+// Export singleton instance
+export const portfolioSnapshotService = new PortfolioSnapshotService(
+  networkSettingsService.getCluster()
+);
+networkSettingsService.subscribe(({ cluster }) => portfolioSnapshotService.setCluster(cluster));
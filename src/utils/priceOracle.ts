@@ -0,0 +1,188 @@
+import { Connection, PublicKey } from '@solana/web3.js';
+import {
+  BONK_USD_PRICE_FEEDS,
+  PRICE_ORACLE_CONFIG,
+  SOL_USD_PRICE_FEEDS,
+  SOLANA_NETWORK,
+  SolanaCluster,
+} from './solanaConfig';
+import { networkSettingsService } from './networkSettings';
+
+export interface OraclePrice {
+  price: number;
+  confidence: number;
+  publishTime: number;
+  publishSlot: number;
+  trading: boolean;
+}
+
+/**
+ * Decodes a price feed account into a USD price
+ * Pyth is supported out of the box; other layouts (e.g. Switchboard) plug in here
+ */
+export type PriceFeedDecoder = (data: Buffer) => OraclePrice;
+
+export interface PriceOracleConfig {
+  maxAgeSeconds: number;
+  maxSlotLag: number;
+  maxConfidenceRatio: number;
+  cacheTtlMs: number;
+}
+
+const PYTH_MAGIC = 0xa1b2c3d4;
+const PYTH_PRICE_ACCOUNT_TYPE = 3;
+const PYTH_STATUS_TRADING = 1;
+
+function readInt64LE(data: Buffer, offset: number): number {
+  return data.readInt32LE(offset + 4) * 2 ** 32 + data.readUInt32LE(offset);
+}
+
+function readUInt64LE(data: Buffer, offset: number): number {
+  return data.readUInt32LE(offset + 4) * 2 ** 32 + data.readUInt32LE(offset);
+}
+
+/**
+ * Decode the aggregate price from a Pyth v2 price account
+ */
+export const decodePythPriceAccount: PriceFeedDecoder = (data: Buffer) => {
+  if (data.length < 240 || data.readUInt32LE(0) !== PYTH_MAGIC) {
+    throw new Error('Account is not a Pyth price feed');
+  }
+  if (data.readUInt32LE(8) !== PYTH_PRICE_ACCOUNT_TYPE) {
+    throw new Error('Pyth account is not a price account');
+  }
+
+  const scale = 10 ** data.readInt32LE(20);
+
+  return {
+    price: readInt64LE(data, 208) * scale,
+    confidence: readUInt64LE(data, 216) * scale,
+    publishTime: readInt64LE(data, 96),
+    publishSlot: readUInt64LE(data, 232),
+    trading: data.readUInt32LE(224) === PYTH_STATUS_TRADING,
+  };
+};
+
+/**
+ * On-chain price oracle for USD conversions
+ * Refuses to quote when the feed is halted, stale or too uncertain
+ */
+export class PriceOracleService {
+  private connection: Connection;
+  private config: PriceOracleConfig;
+  private decoder: PriceFeedDecoder;
+  private solUsdFeed: PublicKey = SOL_USD_PRICE_FEEDS[SOLANA_NETWORK];
+  private bonkUsdFeed: PublicKey | null = BONK_USD_PRICE_FEEDS[SOLANA_NETWORK];
+  private cache = new Map<string, { price: OraclePrice; fetchedAt: number }>();
+
+  constructor(
+    connection: Connection,
+    config: PriceOracleConfig,
+    decoder: PriceFeedDecoder = decodePythPriceAccount
+  ) {
+    this.connection = connection;
+    this.config = config;
+    this.decoder = decoder;
+  }
+
+  /**
+   * Read and validate the current price from a feed account
+   */
+  async getPrice(feed: PublicKey): Promise<OraclePrice> {
+    const key = feed.toBase58();
+    const cached = this.cache.get(key);
+    if (cached && Date.now() - cached.fetchedAt < this.config.cacheTtlMs) {
+      return cached.price;
+    }
+
+    let accountInfo;
+    try {
+      accountInfo = await this.connection.getAccountInfoAndContext(feed);
+    } catch (error) {
+      console.error('Price feed fetch failed:', error);
+      throw new Error('Price feed unavailable');
+    }
+
+    if (!accountInfo.value) {
+      throw new Error(`Price feed ${key} not found`);
+    }
+
+    const price = this.decoder(accountInfo.value.data);
+    this.validate(price, accountInfo.context.slot);
+
+    this.cache.set(key, { price, fetchedAt: Date.now() });
+    return price;
+  }
+
+  /**
+   * Current SOL/USD price
+   */
+  async getSolPriceUSD(): Promise<number> {
+    const { price } = await this.getPrice(this.solUsdFeed);
+    return price;
+  }
+
+  /**
+   * Current BONK/USD price, held to the same checks as SOL
+   * Null on clusters without a BONK feed, where BONK can't be quoted
+   */
+  async getBonkPriceUSD(): Promise<number | null> {
+    if (!this.bonkUsdFeed) {
+      return null;
+    }
+    const { price } = await this.getPrice(this.bonkUsdFeed);
+    return price;
+  }
+
+  /**
+   * Read feeds from another cluster; prices cached from the previous one are dropped
+   */
+  setNetwork(connection: Connection, cluster: SolanaCluster): void {
+    this.connection = connection;
+    this.solUsdFeed = SOL_USD_PRICE_FEEDS[cluster];
+    this.bonkUsdFeed = BONK_USD_PRICE_FEEDS[cluster];
+    this.cache.clear();
+  }
+
+  /**
+   * Convert a USD amount to SOL at the oracle price
+   */
+  async usdToSol(usdAmount: number): Promise<number> {
+    return usdAmount / (await this.getSolPriceUSD());
+  }
+
+  /**
+   * Convert a SOL amount to USD at the oracle price
+   */
+  async solToUsd(solAmount: number): Promise<number> {
+    return solAmount * (await this.getSolPriceUSD());
+  }
+
+  private validate(price: OraclePrice, currentSlot: number): void {
+    if (!price.trading) {
+      throw new Error('Price feed is not trading');
+    }
+    if (!(price.price > 0)) {
+      throw new Error('Price feed returned an invalid price');
+    }
+
+    const slotLag = currentSlot - price.publishSlot;
+    const ageSeconds = Date.now() / 1000 - price.publishTime;
+    if (slotLag > this.config.maxSlotLag || ageSeconds > this.config.maxAgeSeconds) {
+      throw new Error('Price feed is stale, try again shortly');
+    }
+
+    if (price.confidence / price.price > this.config.maxConfidenceRatio) {
+      throw new Error('Price feed confidence is too wide to quote');
+    }
+  }
+}
+
+// Export singleton instance
+export const priceOracleService = new PriceOracleService(
+  networkSettingsService.getConnection(),
+  PRICE_ORACLE_CONFIG
+);
+networkSettingsService.subscribe(({ connection, cluster }) =>
+  priceOracleService.setNetwork(connection, cluster)
+);
@@ -0,0 +1,200 @@
+import {
+  ComputeBudgetProgram,
+  Connection,
+  PublicKey,
+  Transaction,
+  TransactionInstruction,
+  VersionedTransaction,
+} from '@solana/web3.js';
+import { PRIORITY_FEE_CONFIG } from './solanaConfig';
+import { networkSettingsService } from './networkSettings';
+
+export type PriorityFeeSpeed = 'standard' | 'fast' | 'turbo';
+
+export const PRIORITY_FEE_SPEEDS: PriorityFeeSpeed[] = ['standard', 'fast', 'turbo'];
+
+export interface PriorityFeeEstimate {
+  speed: PriorityFeeSpeed;
+  computeUnits: number;
+  microLamportsPerComputeUnit: number;
+  // Paid on top of the base signature fee
+  priorityFeeLamports: number;
+}
+
+// Most compute units a single transaction may request
+const MAX_COMPUTE_UNITS = 1400000;
+
+/**
+ * Priority fee charged for a compute unit limit at a given price, as the runtime computes it
+ */
+export function getPriorityFeeLamports(computeUnits: number, microLamportsPerComputeUnit: number): number {
+  return Math.ceil((computeUnits * microLamportsPerComputeUnit) / 1000000);
+}
+
+export function isComputeBudgetInstruction(instruction: TransactionInstruction): boolean {
+  return instruction.programId.equals(ComputeBudgetProgram.programId);
+}
+
+/**
+ * Sizes compute budgets and priority fees for outgoing transactions
+ *
+ * The compute unit limit comes from simulating the transaction; the price bids a
+ * percentile of the fees recently paid to lock the same writable accounts.
+ */
+export class PriorityFeeService {
+  private connection: Connection;
+
+  constructor(connection: Connection) {
+    this.connection = connection;
+  }
+
+  /**
+   * Estimate on another cluster
+   */
+  setConnection(connection: Connection): void {
+    this.connection = connection;
+  }
+
+  /**
+   * Estimate the compute budget for a transaction at the given speed
+   * The transaction needs a fee payer; it is not modified
+   */
+  async estimate(transaction: Transaction, speed: PriorityFeeSpeed): Promise<PriorityFeeEstimate> {
+    const [computeUnits, microLamports] = await Promise.all([
+      this.estimateComputeUnits(transaction),
+      this.sampleFee(transaction, speed),
+    ]);
+
+    // Bid less per unit rather than exceed the fee cap
+    const maxMicroLamports = Math.floor((PRIORITY_FEE_CONFIG.maxFeeLamports * 1000000) / computeUnits);
+    const microLamportsPerComputeUnit = Math.min(microLamports, maxMicroLamports);
+
+    return {
+      speed,
+      computeUnits,
+      microLamportsPerComputeUnit,
+      priorityFeeLamports: getPriorityFeeLamports(computeUnits, microLamportsPerComputeUnit),
+    };
+  }
+
+  /**
+   * Replace any compute budget instructions with ones for the estimate
+   * Must happen before anyone signs, since it changes the message
+   */
+  applyComputeBudget(transaction: Transaction, estimate: PriorityFeeEstimate): void {
+    if (transaction.signatures.some(({ signature }) => signature !== null)) {
+      throw new Error('Compute budget must be set before the transaction is signed');
+    }
+
+    transaction.instructions = [
+      ComputeBudgetProgram.setComputeUnitLimit({ units: estimate.computeUnits }),
+      ComputeBudgetProgram.setComputeUnitPrice({ microLamports: estimate.microLamportsPerComputeUnit }),
+      ...transaction.instructions.filter(instruction => !isComputeBudgetInstruction(instruction)),
+    ];
+  }
+
+  /**
+   * Estimate and apply in one step
+   */
+  async addPriorityFee(transaction: Transaction, speed: PriorityFeeSpeed): Promise<PriorityFeeEstimate> {
+    const estimate = await this.estimate(transaction, speed);
+    this.applyComputeBudget(transaction, estimate);
+    return estimate;
+  }
+
+  /**
+   * Give a transaction that was built without a compute budget a standard priority fee
+   * Signed transactions are left alone, as is anything when the estimate fails
+   */
+  async ensurePriorityFee(transaction: Transaction): Promise<void> {
+    if (
+      transaction.instructions.some(isComputeBudgetInstruction) ||
+      transaction.signatures.some(({ signature }) => signature !== null)
+    ) {
+      return;
+    }
+
+    try {
+      await this.addPriorityFee(transaction, 'standard');
+    } catch (error) {
+      console.error('Priority fee estimate failed, sending without one:', error);
+    }
+  }
+
+  /**
+   * Compute units the transaction consumes in simulation, plus a safety margin
+   * Falls back to the default limit when the simulation fails; transactionPreview reports why
+   */
+  private async estimateComputeUnits(transaction: Transaction): Promise<number> {
+    if (!transaction.feePayer) {
+      throw new Error('Transaction needs a fee payer before its compute budget can be estimated');
+    }
+
+    // Simulate with the largest limit so the measurement isn't cut short
+    const probe = new Transaction({
+      feePayer: transaction.feePayer,
+      // Replaced by the RPC node; only needed to compile the message
+      recentBlockhash: transaction.recentBlockhash ?? PublicKey.default.toBase58(),
+    }).add(
+      ComputeBudgetProgram.setComputeUnitLimit({ units: MAX_COMPUTE_UNITS }),
+      ComputeBudgetProgram.setComputeUnitPrice({ microLamports: PRIORITY_FEE_CONFIG.minMicroLamports }),
+      ...transaction.instructions.filter(instruction => !isComputeBudgetInstruction(instruction))
+    );
+
+    let unitsConsumed: number | undefined;
+    try {
+      const { value } = await this.connection.simulateTransaction(
+        new VersionedTransaction(probe.compileMessage()),
+        { sigVerify: false, replaceRecentBlockhash: true }
+      );
+      if (value.err) {
+        console.error('Compute unit simulation failed:', value.err);
+      } else {
+        unitsConsumed = value.unitsConsumed;
+      }
+    } catch (error) {
+      console.error('Compute unit simulation failed:', error);
+    }
+
+    if (!unitsConsumed) {
+      return PRIORITY_FEE_CONFIG.defaultComputeUnits;
+    }
+    return Math.min(Math.ceil(unitsConsumed * PRIORITY_FEE_CONFIG.computeUnitMargin), MAX_COMPUTE_UNITS);
+  }
+
+  /**
+   * Price per compute unit, in micro-lamports, at the speed's percentile of recent fees
+   * Falls back to the minimum price when the fees can't be read
+   */
+  private async sampleFee(transaction: Transaction, speed: PriorityFeeSpeed): Promise<number> {
+    try {
+      const writable = new Map<string, PublicKey>();
+      if (transaction.feePayer) {
+        writable.set(transaction.feePayer.toBase58(), transaction.feePayer);
+      }
+      transaction.instructions.forEach(instruction =>
+        instruction.keys
+          .filter(key => key.isWritable)
+          .forEach(key => writable.set(key.pubkey.toBase58(), key.pubkey))
+      );
+      const lockedWritableAccounts = Array.from(writable.values());
+
+      const recent = await this.connection.getRecentPrioritizationFees({ lockedWritableAccounts });
+      const fees = recent.map(({ prioritizationFee }) => prioritizationFee).sort((a, b) => a - b);
+      if (fees.length === 0) {
+        return PRIORITY_FEE_CONFIG.minMicroLamports;
+      }
+
+      const percentile = PRIORITY_FEE_CONFIG.percentiles[speed];
+      const index = Math.min(fees.length - 1, Math.ceil((percentile / 100) * fees.length) - 1);
+      return Math.max(PRIORITY_FEE_CONFIG.minMicroLamports, fees[Math.max(index, 0)]);
+    } catch (error) {
+      console.error('Failed to sample priority fees:', error);
+      return PRIORITY_FEE_CONFIG.minMicroLamports;
+    }
+  }
+}
+
+// Export singleton instance
+export const priorityFeeService = new PriorityFeeService(networkSettingsService.getConnection());
+networkSettingsService.subscribe(({ connection }) => priorityFeeService.setConnection(connection));
@@ -0,0 +1,317 @@
+import { AppState, AppStateStatus, NativeEventSubscription } from 'react-native';
+import { MARKET_DATA_WS_URL } from './solanaConfig';
+import { marketDataService } from './marketData';
+
+export interface QuoteTick {
+  symbol: string;
+  price: number;
+  change: number;
+  changePercent: number;
+  timestamp: number;
+}
+
+export type QuoteListener = (tick: QuoteTick) => void;
+
+export interface QuoteSocket {
+  readyState: number;
+  onopen: ((event: unknown) => void) | null;
+  onmessage: ((event: { data: unknown }) => void) | null;
+  onerror: ((event: unknown) => void) | null;
+  onclose: ((event: unknown) => void) | null;
+  send(data: string): void;
+  close(): void;
+}
+
+export interface QuoteStreamConfig {
+  url: string | null;
+  initialBackoffMs?: number;
+  maxBackoffMs?: number;
+  createSocket?: (url: string) => QuoteSocket;
+  watchAppState?: boolean;
+}
+
+/**
+ * A quote pushed by the server; change fields and timestamp may be missing
+ */
+interface QuoteMessage {
+  type: 'quote';
+  symbol: string;
+  price: number;
+  change?: unknown;
+  changePercent?: unknown;
+  timestamp?: unknown;
+}
+
+const SOCKET_OPEN = 1;
+
+function isQuoteMessage(value: unknown): value is QuoteMessage {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+  const message = value as Record<string, unknown>;
+  return (
+    message.type === 'quote' &&
+    typeof message.symbol === 'string' &&
+    typeof message.price === 'number' &&
+    isFinite(message.price)
+  );
+}
+
+/**
+ * Live quote subscriptions over a WebSocket
+ *
+ * Wire format: the client sends `{ type: 'subscribe' | 'unsubscribe', symbols }`
+ * and the server pushes `{ type: 'quote', symbol, price, change, changePercent, timestamp }`.
+ * The socket is only open while something is subscribed and the app is in the foreground.
+ */
+export class QuoteStreamService {
+  private readonly url: string | null;
+  private readonly initialBackoffMs: number;
+  private readonly maxBackoffMs: number;
+  private readonly createSocket: (url: string) => QuoteSocket;
+  private readonly watchAppState: boolean;
+
+  private socket: QuoteSocket | null = null;
+  private listeners = new Map<QuoteListener, Set<string>>();
+  private sentSymbols = new Set<string>();
+  private reconnectAttempts = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private paused = false;
+  private appStateSubscription: NativeEventSubscription | null = null;
+
+  constructor(config: QuoteStreamConfig) {
+    this.url = config.url;
+    this.initialBackoffMs = config.initialBackoffMs ?? 1000;
+    this.maxBackoffMs = config.maxBackoffMs ?? 30000;
+    this.createSocket = config.createSocket ?? (url => new WebSocket(url) as unknown as QuoteSocket);
+    this.watchAppState = config.watchAppState ?? true;
+  }
+
+  /**
+   * Receive ticks for the given symbols until the returned function is called
+   */
+  subscribe(symbols: string[], listener: QuoteListener): () => void {
+    this.listeners.set(listener, new Set(symbols));
+    this.sync();
+
+    return () => {
+      this.listeners.delete(listener);
+      this.sync();
+    };
+  }
+
+  /**
+   * Replace the symbols an existing listener is interested in
+   */
+  updateSymbols(listener: QuoteListener, symbols: string[]): void {
+    if (!this.listeners.has(listener)) {
+      return;
+    }
+    this.listeners.set(listener, new Set(symbols));
+    this.sync();
+  }
+
+  /**
+   * Close the socket and stop reconnecting until resumed
+   */
+  pause(): void {
+    this.paused = true;
+    this.closeSocket();
+  }
+
+  /**
+   * Reopen the socket if anything is still subscribed
+   */
+  resume(): void {
+    this.paused = false;
+    this.reconnectAttempts = 0;
+    this.sync();
+  }
+
+  /**
+   * Check if the stream socket is currently open
+   */
+  isConnected(): boolean {
+    return this.socket !== null && this.socket.readyState === SOCKET_OPEN;
+  }
+
+  private getSubscribedSymbols(): Set<string> {
+    const symbols = new Set<string>();
+    this.listeners.forEach(listenerSymbols => {
+      listenerSymbols.forEach(symbol => symbols.add(symbol));
+    });
+    return symbols;
+  }
+
+  private sync(): void {
+    const symbols = this.getSubscribedSymbols();
+
+    if (symbols.size === 0) {
+      this.closeSocket();
+      this.removeAppStateListener();
+      return;
+    }
+
+    // Listeners may start with no symbols and be given some later
+    this.ensureAppStateListener();
+
+    if (!this.url || this.paused) {
+      return;
+    }
+
+    if (!this.socket) {
+      if (!this.reconnectTimer) {
+        this.openSocket();
+      }
+      return;
+    }
+
+    if (this.socket.readyState === SOCKET_OPEN) {
+      this.sendSubscriptionDiff(symbols);
+    }
+  }
+
+  private openSocket(): void {
+    if (!this.url) {
+      return;
+    }
+
+    try {
+      const socket = this.createSocket(this.url);
+      this.socket = socket;
+
+      socket.onopen = () => {
+        this.reconnectAttempts = 0;
+        this.sentSymbols.clear();
+        this.sendSubscriptionDiff(this.getSubscribedSymbols());
+      };
+
+      socket.onmessage = event => {
+        this.handleMessage(event.data);
+      };
+
+      socket.onerror = error => {
+        console.error('Quote stream error:', error);
+      };
+
+      socket.onclose = () => {
+        if (this.socket === socket) {
+          this.socket = null;
+          this.scheduleReconnect();
+        }
+      };
+    } catch (error) {
+      console.error('Quote stream connection failed:', error);
+      this.socket = null;
+      this.scheduleReconnect();
+    }
+  }
+
+  private closeSocket(): void {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+
+    const socket = this.socket;
+    this.socket = null;
+    this.sentSymbols.clear();
+
+    if (socket) {
+      socket.onclose = null;
+      socket.close();
+    }
+  }
+
+  private scheduleReconnect(): void {
+    if (this.paused || this.reconnectTimer || this.getSubscribedSymbols().size === 0) {
+      return;
+    }
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.sync();
+    }, this.getBackoffDelay());
+    this.reconnectAttempts += 1;
+  }
+
+  /**
+   * Exponential backoff with up to 20% jitter so clients don't reconnect in lockstep
+   */
+  private getBackoffDelay(): number {
+    const base = Math.min(this.maxBackoffMs, this.initialBackoffMs * 2 ** this.reconnectAttempts);
+    return Math.round(base + Math.random() * base * 0.2);
+  }
+
+  private sendSubscriptionDiff(symbols: Set<string>): void {
+    if (!this.socket) {
+      return;
+    }
+
+    const added = Array.from(symbols).filter(symbol => !this.sentSymbols.has(symbol));
+    const removed = Array.from(this.sentSymbols).filter(symbol => !symbols.has(symbol));
+
+    if (added.length > 0) {
+      this.socket.send(JSON.stringify({ type: 'subscribe', symbols: added }));
+    }
+    if (removed.length > 0) {
+      this.socket.send(JSON.stringify({ type: 'unsubscribe', symbols: removed }));
+    }
+
+    this.sentSymbols = new Set(symbols);
+  }
+
+  private handleMessage(data: unknown): void {
+    let message: unknown;
+    try {
+      message = JSON.parse(String(data));
+    } catch {
+      console.error('Quote stream sent malformed message');
+      return;
+    }
+
+    if (!isQuoteMessage(message)) {
+      return;
+    }
+
+    const tick: QuoteTick = {
+      symbol: message.symbol,
+      price: message.price,
+      change: typeof message.change === 'number' ? message.change : 0,
+      changePercent: typeof message.changePercent === 'number' ? message.changePercent : 0,
+      timestamp: typeof message.timestamp === 'number' ? message.timestamp : Date.now(),
+    };
+
+    marketDataService.applyTick(tick.symbol, tick.price, tick.change, tick.changePercent);
+
+    this.listeners.forEach((symbols, listener) => {
+      if (symbols.has(tick.symbol)) {
+        listener(tick);
+      }
+    });
+  }
+
+  private ensureAppStateListener(): void {
+    if (!this.watchAppState || this.appStateSubscription) {
+      return;
+    }
+
+    this.appStateSubscription = AppState.addEventListener('change', (state: AppStateStatus) => {
+      if (state === 'active') {
+        this.resume();
+      } else {
+        this.pause();
+      }
+    });
+  }
+
+  private removeAppStateListener(): void {
+    this.appStateSubscription?.remove();
+    this.appStateSubscription = null;
+  }
+}
+
+// Export singleton instance
+export const quoteStreamService = new QuoteStreamService({
+  url: MARKET_DATA_WS_URL,
+});
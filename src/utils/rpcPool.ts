@@ -0,0 +1,327 @@
+import { Commitment, Connection } from '@solana/web3.js';
+
+/**
+ * What the pool knows about one endpoint
+ * Latency and error rate are moving averages over recent requests and health checks
+ */
+export interface RpcEndpointHealth {
+  url: string;
+  healthy: boolean;
+  latencyMs: number | null;
+  errorRate: number;
+  slot: number | null;
+  lastError: string | null;
+  lastCheckedAt: number | null;
+}
+
+export interface RpcPoolOptions {
+  commitment?: Commitment;
+  // Health is re-checked in the background once it is older than this
+  healthCheckIntervalMs?: number;
+  requestTimeoutMs?: number;
+  // Endpoints this many slots behind the best one are treated as unhealthy
+  maxSlotLag?: number;
+  fetch?: typeof fetch;
+}
+
+export type ActiveEndpointListener = (url: string) => void;
+
+// Calls that only read state, so a failed attempt can be repeated on another endpoint
+const IDEMPOTENT_METHOD = /^(get|is|simulateTransaction$|minimumLedgerSlot$)/;
+
+// JSON-RPC errors that mean "this node can't answer right now", not "the request is bad"
+const RETRYABLE_RPC_ERRORS = new Set([-32004, -32005, -32007, -32014, -32016]);
+
+const EWMA_WEIGHT = 0.3;
+
+const DEFAULT_OPTIONS = {
+  commitment: 'confirmed' as Commitment,
+  healthCheckIntervalMs: 30000,
+  requestTimeoutMs: 10000,
+  maxSlotLag: 50,
+};
+
+class RpcEndpointError extends Error {}
+
+/**
+ * A set of RPC endpoints for one cluster behind a single Connection
+ *
+ * Every request goes to the healthiest endpoint. Endpoint failures (network errors,
+ * timeouts, rate limits, 5xx, nodes that are behind) count against it, and read-only
+ * calls are retried on the next endpoint; anything that changes state is sent once.
+ */
+export class RpcPool {
+  readonly connection: Connection;
+  private endpoints: RpcEndpointHealth[];
+  private options: typeof DEFAULT_OPTIONS;
+  private fetchImpl: typeof fetch;
+  private activeUrl: string;
+  private healthCheck: Promise<RpcEndpointHealth[]> | null = null;
+  private listeners = new Set<ActiveEndpointListener>();
+
+  constructor(urls: string[], options: RpcPoolOptions = {}) {
+    if (urls.length === 0) {
+      throw new Error('RPC pool needs at least one endpoint');
+    }
+
+    const { fetch: fetchImpl, ...rest } = options;
+    this.options = { ...DEFAULT_OPTIONS, ...rest };
+    this.fetchImpl = fetchImpl ?? ((...args) => fetch(...args));
+    this.endpoints = Array.from(new Set(urls)).map(url => ({
+      url,
+      healthy: true,
+      latencyMs: null,
+      errorRate: 0,
+      slot: null,
+      lastError: null,
+      lastCheckedAt: null,
+    }));
+    this.activeUrl = this.endpoints[0].url;
+
+    // The pool retries rate-limited calls elsewhere, so web3.js must not sleep on them
+    this.connection = new Connection(this.activeUrl, {
+      commitment: this.options.commitment,
+      fetch: this.fetch,
+      disableRetryOnRateLimit: true,
+    });
+  }
+
+  /**
+   * Endpoint requests currently go to
+   */
+  getActiveEndpoint(): string {
+    return this.activeUrl;
+  }
+
+  /**
+   * Health of every endpoint, best first
+   */
+  getEndpointHealth(): RpcEndpointHealth[] {
+    return this.ranked().map(endpoint => ({ ...endpoint }));
+  }
+
+  /**
+   * Probe every endpoint's slot and latency now
+   * Concurrent callers share one probe
+   */
+  async checkHealth(): Promise<RpcEndpointHealth[]> {
+    if (!this.healthCheck) {
+      this.healthCheck = this.probeAll().finally(() => {
+        this.healthCheck = null;
+      });
+    }
+    return this.healthCheck;
+  }
+
+  /**
+   * Be told when requests move to another endpoint
+   * Returns a function that stops listening
+   */
+  subscribe(listener: ActiveEndpointListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Fetch implementation handed to the Connection; the URL it passes is ignored
+   */
+  private fetch = async (_input: RequestInfo | URL, init?: RequestInit): Promise<Response> => {
+    this.refreshHealthIfStale();
+
+    const retryable = isIdempotent(init?.body);
+    const candidates = this.ranked();
+    let lastError: unknown = null;
+
+    for (const endpoint of retryable ? candidates : candidates.slice(0, 1)) {
+      this.setActive(endpoint.url);
+      try {
+        return await this.send(endpoint, init, retryable);
+      } catch (error) {
+        lastError = error;
+        if (!(error instanceof RpcEndpointError)) {
+          throw error;
+        }
+        console.error(`RPC endpoint ${endpoint.url} failed:`, error.message);
+      }
+    }
+
+    throw lastError instanceof Error ? lastError : new Error('All RPC endpoints failed');
+  };
+
+  /**
+   * Send one request, scoring the endpoint on the outcome
+   * When the endpoint, not the request, is at fault and the call may be repeated,
+   * throws RpcEndpointError; otherwise the response goes back to web3.js as is
+   */
+  private async send(
+    endpoint: RpcEndpointHealth,
+    init: RequestInit | undefined,
+    retryable: boolean
+  ): Promise<Response> {
+    const startedAt = Date.now();
+    let response: Response;
+    let body: string;
+    try {
+      response = await this.fetchWithTimeout(endpoint.url, init);
+      body = await response.text();
+    } catch (error) {
+      this.recordFailure(endpoint, error instanceof Error ? error.message : String(error));
+      throw new RpcEndpointError(`${endpoint.url} unreachable`);
+    }
+
+    const rpcError = findRetryableRpcError(body);
+    const fault =
+      response.status === 429 || response.status >= 500
+        ? `HTTP ${response.status}`
+        : rpcError !== null
+          ? `RPC error ${rpcError}`
+          : null;
+
+    if (fault) {
+      this.recordFailure(endpoint, fault);
+      if (retryable) {
+        throw new RpcEndpointError(`${endpoint.url} returned ${fault}`);
+      }
+    } else {
+      this.recordSuccess(endpoint, Date.now() - startedAt);
+    }
+
+    return new Response(body, {
+      status: response.status,
+      statusText: response.statusText,
+      headers: response.headers,
+    });
+  }
+
+  private async fetchWithTimeout(url: string, init?: RequestInit): Promise<Response> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.options.requestTimeoutMs);
+    try {
+      return await this.fetchImpl(url, { ...init, signal: controller.signal });
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  private async probeAll(): Promise<RpcEndpointHealth[]> {
+    await Promise.all(this.endpoints.map(endpoint => this.probe(endpoint)));
+
+    // A node that answers but is far behind the others serves stale state
+    const slots = this.endpoints
+      .map(endpoint => endpoint.slot)
+      .filter((slot): slot is number => slot !== null);
+    const bestSlot = slots.length > 0 ? Math.max(...slots) : null;
+    this.endpoints.forEach(endpoint => {
+      if (bestSlot !== null && endpoint.slot !== null && bestSlot - endpoint.slot > this.options.maxSlotLag) {
+        endpoint.healthy = false;
+        endpoint.lastError = `${bestSlot - endpoint.slot} slots behind`;
+      }
+    });
+
+    const [best] = this.ranked();
+    this.setActive(best.url);
+    return this.getEndpointHealth();
+  }
+
+  private async probe(endpoint: RpcEndpointHealth): Promise<void> {
+    const startedAt = Date.now();
+    try {
+      const response = await this.fetchWithTimeout(endpoint.url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'getSlot', params: [] }),
+      });
+      const body = await response.json();
+      if (!response.ok || typeof body?.result !== 'number') {
+        throw new Error(body?.error?.message ?? `HTTP ${response.status}`);
+      }
+
+      endpoint.slot = body.result;
+      this.recordSuccess(endpoint, Date.now() - startedAt);
+    } catch (error) {
+      endpoint.slot = null;
+      this.recordFailure(endpoint, error instanceof Error ? error.message : String(error));
+    } finally {
+      endpoint.lastCheckedAt = Date.now();
+    }
+  }
+
+  private refreshHealthIfStale(): void {
+    const oldest = Math.min(...this.endpoints.map(endpoint => endpoint.lastCheckedAt ?? 0));
+    if (Date.now() - oldest > this.options.healthCheckIntervalMs) {
+      this.checkHealth().catch(error => console.error('RPC health check failed:', error));
+    }
+  }
+
+  private recordSuccess(endpoint: RpcEndpointHealth, latencyMs: number): void {
+    endpoint.healthy = true;
+    endpoint.lastError = null;
+    endpoint.errorRate = ewma(endpoint.errorRate, 0);
+    endpoint.latencyMs = endpoint.latencyMs === null ? latencyMs : ewma(endpoint.latencyMs, latencyMs);
+  }
+
+  private recordFailure(endpoint: RpcEndpointHealth, message: string): void {
+    endpoint.healthy = false;
+    endpoint.lastError = message;
+    endpoint.errorRate = ewma(endpoint.errorRate, 1);
+  }
+
+  /**
+   * Healthy endpoints first, then by error rate weighted latency; untried endpoints keep list order
+   */
+  private ranked(): RpcEndpointHealth[] {
+    const score = (endpoint: RpcEndpointHealth) =>
+      (endpoint.latencyMs ?? 0) * (1 + 10 * endpoint.errorRate) + endpoint.errorRate * 1000;
+
+    return this.endpoints
+      .map((endpoint, index) => ({ endpoint, index }))
+      .sort((a, b) =>
+        Number(b.endpoint.healthy) - Number(a.endpoint.healthy) ||
+        score(a.endpoint) - score(b.endpoint) ||
+        a.index - b.index
+      )
+      .map(({ endpoint }) => endpoint);
+  }
+
+  private setActive(url: string): void {
+    if (url === this.activeUrl) {
+      return;
+    }
+    this.activeUrl = url;
+    this.listeners.forEach(listener => listener(url));
+  }
+}
+
+function ewma(previous: number, sample: number): number {
+  return previous * (1 - EWMA_WEIGHT) + sample * EWMA_WEIGHT;
+}
+
+/**
+ * True when every call in a (possibly batched) JSON-RPC body only reads state
+ */
+function isIdempotent(body: unknown): boolean {
+  if (typeof body !== 'string') {
+    return false;
+  }
+  try {
+    const payload = JSON.parse(body);
+    const calls = Array.isArray(payload) ? payload : [payload];
+    return calls.every(call => typeof call?.method === 'string' && IDEMPOTENT_METHOD.test(call.method));
+  } catch {
+    return false;
+  }
+}
+
+function findRetryableRpcError(body: string): number | null {
+  try {
+    const payload = JSON.parse(body);
+    const responses = Array.isArray(payload) ? payload : [payload];
+    const failed = responses.find(response => RETRYABLE_RPC_ERRORS.has(response?.error?.code));
+    return failed ? failed.error.code : null;
+  } catch {
+    // Not JSON: let web3.js report it as it would without the pool
+    return null;
+  }
+}
@@ -0,0 +1,158 @@
+import { scryptAsync } from '@noble/hashes/scrypt';
+import { sha256 } from '@noble/hashes/sha256';
+import nacl from 'tweetnacl';
+
+/**
+ * What a backup restores: the seed's name and its keychain secret
+ */
+export interface SeedBackupContents {
+  alias: string;
+  secret: string;
+  createdAt: number;
+}
+
+export type SeedBackupFailure = 'format' | 'version' | 'corrupted' | 'password';
+
+/**
+ * Raised when a backup can't be made or restored, with a reason a user can read
+ */
+export class SeedBackupError extends Error {
+  constructor(message: string, public readonly reason: SeedBackupFailure) {
+    super(message);
+    this.name = 'SeedBackupError';
+  }
+}
+
+// Text form of a backup, short enough for a single QR code
+export const SEED_BACKUP_PREFIX = 'solstocks-backup:';
+export const MIN_BACKUP_PASSWORD_LENGTH = 8;
+
+const BACKUP_VERSION = 1;
+const KDF_SCRYPT = 1;
+const SCRYPT_LOG_N = 15;
+const SCRYPT_R = 8;
+const SCRYPT_P = 1;
+// Refuse work factors a crafted file could use to hang the app or exhaust its memory
+const MAX_SCRYPT_LOG_N = 18;
+const MAX_SCRYPT_R_P = 8;
+const SALT_LENGTH = 16;
+const CHECKSUM_LENGTH = 4;
+
+// version, kdf, log2(N), r, p, salt, nonce
+const HEADER_LENGTH = 5 + SALT_LENGTH + nacl.secretbox.nonceLength;
+
+/**
+ * Encrypt a seed backup under a password
+ *
+ * Layout: a versioned header with the scrypt parameters, salt and nonce, then the
+ * secretbox (XSalsa20-Poly1305) ciphertext, then a SHA-256 checksum of everything
+ * before it. The checksum tells a damaged file apart from a wrong password.
+ */
+export async function encryptSeedBackup(contents: SeedBackupContents, password: string): Promise<string> {
+  if (password.length < MIN_BACKUP_PASSWORD_LENGTH) {
+    throw new SeedBackupError(
+      `Backup password must be at least ${MIN_BACKUP_PASSWORD_LENGTH} characters`,
+      'password'
+    );
+  }
+
+  const salt = nacl.randomBytes(SALT_LENGTH);
+  const nonce = nacl.randomBytes(nacl.secretbox.nonceLength);
+  const key = await deriveKey(password, salt, SCRYPT_LOG_N, SCRYPT_R, SCRYPT_P);
+  const ciphertext = nacl.secretbox(Buffer.from(JSON.stringify(contents), 'utf8'), nonce, key);
+
+  const body = new Uint8Array(HEADER_LENGTH + ciphertext.length);
+  body.set([BACKUP_VERSION, KDF_SCRYPT, SCRYPT_LOG_N, SCRYPT_R, SCRYPT_P]);
+  body.set(salt, 5);
+  body.set(nonce, 5 + SALT_LENGTH);
+  body.set(ciphertext, HEADER_LENGTH);
+
+  const backup = new Uint8Array(body.length + CHECKSUM_LENGTH);
+  backup.set(body);
+  backup.set(checksum(body), body.length);
+  return SEED_BACKUP_PREFIX + Buffer.from(backup).toString('base64');
+}
+
+/**
+ * Decrypt a backup made by encryptSeedBackup
+ * Throws SeedBackupError saying whether the file is damaged or the password is wrong
+ */
+export async function decryptSeedBackup(backup: string, password: string): Promise<SeedBackupContents> {
+  const text = backup.trim();
+  if (!isSeedBackup(text)) {
+    throw new SeedBackupError('This is not a Sol Stocks seed backup', 'format');
+  }
+
+  const bytes = new Uint8Array(Buffer.from(text.slice(SEED_BACKUP_PREFIX.length), 'base64'));
+  if (bytes.length > 0 && bytes[0] > BACKUP_VERSION) {
+    throw new SeedBackupError('This backup was made by a newer version of Sol Stocks', 'version');
+  }
+  if (bytes.length <= HEADER_LENGTH + nacl.secretbox.overheadLength + CHECKSUM_LENGTH) {
+    throw new SeedBackupError('Backup is incomplete or corrupted', 'corrupted');
+  }
+
+  const body = bytes.subarray(0, bytes.length - CHECKSUM_LENGTH);
+  const expected = checksum(body);
+  if (!expected.every((byte, i) => byte === bytes[body.length + i])) {
+    throw new SeedBackupError('Backup is incomplete or corrupted', 'corrupted');
+  }
+
+  const [version, kdf, logN, r, p] = body;
+  const supported =
+    version === BACKUP_VERSION &&
+    kdf === KDF_SCRYPT &&
+    logN >= 1 &&
+    logN <= MAX_SCRYPT_LOG_N &&
+    inRange(r) &&
+    inRange(p);
+  if (!supported) {
+    throw new SeedBackupError('Backup uses settings this version of Sol Stocks does not support', 'version');
+  }
+
+  const salt = body.subarray(5, 5 + SALT_LENGTH);
+  const nonce = body.subarray(5 + SALT_LENGTH, HEADER_LENGTH);
+  const key = await deriveKey(password, salt, logN, r, p);
+  const plaintext = nacl.secretbox.open(body.subarray(HEADER_LENGTH), nonce, key);
+  if (!plaintext) {
+    throw new SeedBackupError('Wrong backup password', 'password');
+  }
+
+  try {
+    const contents = JSON.parse(Buffer.from(plaintext).toString('utf8'));
+    if (typeof contents.alias === 'string' && typeof contents.secret === 'string') {
+      return {
+        alias: contents.alias,
+        secret: contents.secret,
+        createdAt: typeof contents.createdAt === 'number' ? contents.createdAt : Date.now(),
+      };
+    }
+  } catch {
+    // Falls through to the error below
+  }
+  throw new SeedBackupError('Backup is incomplete or corrupted', 'corrupted');
+}
+
+/**
+ * Whether text looks like a seed backup, e.g. a scanned QR code or pasted file
+ */
+export function isSeedBackup(text: string): boolean {
+  return text.trim().startsWith(SEED_BACKUP_PREFIX);
+}
+
+function deriveKey(password: string, salt: Uint8Array, logN: number, r: number, p: number): Promise<Uint8Array> {
+  // Passed as bytes, since scrypt would encode a string with TextEncoder
+  return scryptAsync(Buffer.from(password.normalize('NFKC'), 'utf8'), salt, {
+    N: 2 ** logN,
+    r,
+    p,
+    dkLen: nacl.secretbox.keyLength,
+  });
+}
+
+function inRange(blockParam: number): boolean {
+  return blockParam >= 1 && blockParam <= MAX_SCRYPT_R_P;
+}
+
+function checksum(bytes: Uint8Array): Uint8Array {
+  return sha256(bytes).slice(0, CHECKSUM_LENGTH);
+}
@@ -0,0 +1,236 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+/**
+ * What the app knows about a stored seed without unlocking it
+ */
+export interface SeedRecord {
+  // Name the seed is stored under in the keychain; never changes
+  alias: string;
+  // Name shown to the user; can be renamed
+  label: string;
+  // First account's address; null for seeds registered before it was tracked, until next unlocked
+  publicKey: string | null;
+  // Path the first account is derived at; null for raw keys stored before recovery phrases,
+  // and unknown along with publicKey
+  derivationPath: string | null;
+  createdAt: number;
+  lastUsed: number;
+}
+
+export type SeedRegistryStorage = Pick<typeof AsyncStorage, 'getItem' | 'setItem' | 'getAllKeys' | 'multiGet' | 'multiRemove'>;
+
+export const MAX_SEED_LABEL_LENGTH = 32;
+
+const REGISTRY_KEY = 'sol_stocks_seed_registry';
+
+// Per-seed records written by the vault before the registry
+const LEGACY_METADATA_PREFIX = 'sol_stocks_seed_';
+const LEGACY_METADATA_SUFFIX = '_metadata';
+
+/**
+ * Every seed stored on the device, kept in one record so listing never scans storage
+ *
+ * Updates are serialized so a seed being used while another is renamed can't lose either
+ * change. Records written before the registry existed are imported on first access.
+ */
+export class SeedRegistry {
+  private storage: SeedRegistryStorage;
+  private records: Promise<Record<string, SeedRecord>> | null = null;
+  private lock: Promise<void> = Promise.resolve();
+
+  constructor(storage: SeedRegistryStorage = AsyncStorage) {
+    this.storage = storage;
+  }
+
+  /**
+   * Every registered seed, oldest first
+   */
+  async list(): Promise<SeedRecord[]> {
+    const records = await this.load();
+    return Object.values(records).sort((a, b) => a.createdAt - b.createdAt);
+  }
+
+  async get(alias: string): Promise<SeedRecord | null> {
+    const records = await this.load();
+    return records[alias] ?? null;
+  }
+
+  /**
+   * Record a newly stored seed, replacing any record left under its alias
+   */
+  async register(record: Omit<SeedRecord, 'label' | 'lastUsed'> & { label?: string }): Promise<SeedRecord> {
+    return this.update(records => {
+      const registered: SeedRecord = {
+        ...record,
+        label: record.label ?? record.alias,
+        lastUsed: Date.now(),
+      };
+      records[record.alias] = registered;
+      return registered;
+    });
+  }
+
+  /**
+   * Note that a seed was just unlocked, filling in its first account if it wasn't known yet
+   * Never throws: failing to record a use must not fail the use itself
+   */
+  async touch(alias: string, account?: Pick<SeedRecord, 'publicKey' | 'derivationPath'>): Promise<void> {
+    try {
+      await this.update(records => {
+        const record = records[alias];
+        if (record) {
+          records[alias] = {
+            ...record,
+            ...(record.publicKey === null && account ? account : {}),
+            lastUsed: Date.now(),
+          };
+        }
+      });
+    } catch (error) {
+      console.error('Failed to record seed use:', error);
+    }
+  }
+
+  /**
+   * Change the name a seed is shown under
+   * Throws for an empty or overlong name, or one another seed already uses
+   */
+  async rename(alias: string, label: string): Promise<SeedRecord> {
+    const trimmed = label.trim();
+    if (!trimmed) {
+      throw new Error('Seed name cannot be empty');
+    }
+    if (trimmed.length > MAX_SEED_LABEL_LENGTH) {
+      throw new Error(`Seed names can be at most ${MAX_SEED_LABEL_LENGTH} characters`);
+    }
+
+    return this.update(records => {
+      const record = records[alias];
+      if (!record) {
+        throw new Error(`No seed named "${alias}" is stored on this device`);
+      }
+      const taken = Object.values(records).some(
+        other => other.alias !== alias && other.label.toLowerCase() === trimmed.toLowerCase()
+      );
+      if (taken) {
+        throw new Error(`Another seed is already named "${trimmed}"`);
+      }
+
+      const renamed = { ...record, label: trimmed };
+      records[alias] = renamed;
+      return renamed;
+    });
+  }
+
+  async remove(alias: string): Promise<void> {
+    await this.update(records => {
+      delete records[alias];
+    });
+  }
+
+  /**
+   * Apply a change to the records and persist them, one change at a time
+   * The in-memory records only change once the write succeeded
+   */
+  private async update<T>(change: (records: Record<string, SeedRecord>) => T): Promise<T> {
+    const previous = this.lock;
+    let release!: () => void;
+    this.lock = new Promise<void>(resolve => {
+      release = resolve;
+    });
+
+    await previous;
+    try {
+      const records = { ...(await this.load()) };
+      const result = change(records);
+      await this.storage.setItem(REGISTRY_KEY, JSON.stringify(records));
+      this.records = Promise.resolve(records);
+      return result;
+    } finally {
+      release();
+    }
+  }
+
+  /**
+   * Read the records once; concurrent first reads share the load, so legacy records are imported once
+   */
+  private load(): Promise<Record<string, SeedRecord>> {
+    if (!this.records) {
+      this.records = this.storage.getItem(REGISTRY_KEY).then(stored =>
+        stored ? parseRecords(JSON.parse(stored)) : this.importLegacyRecords()
+      );
+      // A failed load is retried on the next access
+      this.records.catch(() => {
+        this.records = null;
+      });
+    }
+    return this.records;
+  }
+
+  /**
+   * Build the registry from the per-seed records the vault kept before it
+   * Only keys of exactly that form are read, so other `sol_stocks_seed_` keys are left alone
+   */
+  private async importLegacyRecords(): Promise<Record<string, SeedRecord>> {
+    const keys = (await this.storage.getAllKeys()).filter(
+      key => key.startsWith(LEGACY_METADATA_PREFIX) && key.endsWith(LEGACY_METADATA_SUFFIX)
+    );
+    const records: Record<string, SeedRecord> = {};
+    const imported: string[] = [];
+
+    for (const [key, value] of await this.storage.multiGet(keys)) {
+      const alias = key.slice(LEGACY_METADATA_PREFIX.length, key.length - LEGACY_METADATA_SUFFIX.length);
+      try {
+        const metadata = value ? JSON.parse(value) : null;
+        if (!metadata || metadata.alias !== alias) {
+          continue;
+        }
+
+        // Earlier reads overwrote createdAt, so the last use is the best guess left
+        const lastUsed = typeof metadata.lastUsed === 'number' ? metadata.lastUsed : Date.now();
+        records[alias] = {
+          alias,
+          label: alias,
+          publicKey: null,
+          derivationPath: null,
+          createdAt: typeof metadata.createdAt === 'number' ? metadata.createdAt : lastUsed,
+          lastUsed,
+        };
+        imported.push(key);
+      } catch {
+        // Unreadable, so not a record the vault wrote
+      }
+    }
+
+    await this.storage.setItem(REGISTRY_KEY, JSON.stringify(records));
+    await this.storage.multiRemove(imported);
+    return records;
+  }
+}
+
+/**
+ * Keep only well-formed records, so one damaged entry can't hide the others
+ */
+function parseRecords(value: unknown): Record<string, SeedRecord> {
+  const records: Record<string, SeedRecord> = {};
+  if (!value || typeof value !== 'object') {
+    return records;
+  }
+
+  for (const [alias, record] of Object.entries(value as Record<string, Partial<SeedRecord>>)) {
+    if (record && record.alias === alias && typeof record.createdAt === 'number') {
+      records[alias] = {
+        alias,
+        label: typeof record.label === 'string' && record.label ? record.label : alias,
+        publicKey: typeof record.publicKey === 'string' ? record.publicKey : null,
+        derivationPath: typeof record.derivationPath === 'string' ? record.derivationPath : null,
+        createdAt: record.createdAt,
+        lastUsed: typeof record.lastUsed === 'number' ? record.lastUsed : record.createdAt,
+      };
+    }
+  }
+  return records;
+}
+
+// Export singleton instance
+export const seedRegistry = new SeedRegistry();
@@ -0,0 +1,242 @@
+/* eslint-disable no-bitwise */
+import { sha256 } from '@noble/hashes/sha256';
+import nacl from 'tweetnacl';
+import { SeedBackupContents } from './seedBackup';
+
+/**
+ * What a share says about itself, so a guardian's share can be checked before recovery
+ */
+export interface SeedShareInfo {
+  // Shared by every share split from the same seed at the same time
+  setId: string;
+  index: number;
+  threshold: number;
+  shareCount: number;
+}
+
+export type SeedShareFailure = 'format' | 'version' | 'corrupted' | 'mismatch' | 'insufficient';
+
+/**
+ * Raised when shares can't be made or combined, with a reason a user can read
+ */
+export class SeedShareError extends Error {
+  constructor(message: string, public readonly reason: SeedShareFailure) {
+    super(message);
+    this.name = 'SeedShareError';
+  }
+}
+
+// Text form of a share, short enough for a single QR code
+export const SEED_SHARE_PREFIX = 'solstocks-share:';
+export const MIN_SHARE_THRESHOLD = 2;
+export const MAX_SHARE_COUNT = 16;
+
+const SHARE_VERSION = 1;
+const SET_ID_LENGTH = 4;
+const DIGEST_LENGTH = 4;
+const CHECKSUM_LENGTH = 4;
+
+// version, set id, threshold, share count, index
+const HEADER_LENGTH = 1 + SET_ID_LENGTH + 3;
+
+// GF(2^8) with the AES polynomial x^8 + x^4 + x^3 + x + 1, using 3 as generator
+const EXP = new Uint8Array(510);
+const LOG = new Uint8Array(256);
+for (let i = 0, x = 1; i < 255; i++) {
+  EXP[i] = EXP[i + 255] = x;
+  LOG[x] = i;
+  x ^= (x << 1) ^ (x & 0x80 ? 0x11b : 0);
+}
+
+function multiply(a: number, b: number): number {
+  return a === 0 || b === 0 ? 0 : EXP[LOG[a] + LOG[b]];
+}
+
+function divide(a: number, b: number): number {
+  return a === 0 ? 0 : EXP[LOG[a] + 255 - LOG[b]];
+}
+
+/**
+ * Split a seed into shares, any `threshold` of which rebuild it
+ *
+ * Each byte of the secret is the constant term of its own random polynomial of degree
+ * threshold - 1 over GF(256), and share i holds every polynomial evaluated at i. Fewer
+ * than `threshold` shares reveal nothing about the secret. A digest of the secret is
+ * split along with it, so a wrong combination of shares is caught when rebuilding.
+ */
+export function splitSeedSecret(contents: SeedBackupContents, threshold: number, shareCount: number): string[] {
+  if (!Number.isInteger(threshold) || !Number.isInteger(shareCount)) {
+    throw new SeedShareError('Share counts must be whole numbers', 'format');
+  }
+  if (threshold < MIN_SHARE_THRESHOLD || threshold > shareCount || shareCount > MAX_SHARE_COUNT) {
+    throw new SeedShareError(
+      `Use up to ${MAX_SHARE_COUNT} shares, with between ${MIN_SHARE_THRESHOLD} and all of them needed to recover`,
+      'format'
+    );
+  }
+
+  const payload = Buffer.from(JSON.stringify(contents), 'utf8');
+  const secret = new Uint8Array(payload.length + DIGEST_LENGTH);
+  secret.set(payload);
+  secret.set(hashPrefix(payload, DIGEST_LENGTH), payload.length);
+
+  const setId = nacl.randomBytes(SET_ID_LENGTH);
+  // coefficients[b] holds the random higher-order terms of byte b's polynomial
+  const coefficients = Array.from(secret, () => nacl.randomBytes(threshold - 1));
+
+  return Array.from({ length: shareCount }, (_, i) => {
+    const x = i + 1;
+    const body = new Uint8Array(HEADER_LENGTH + secret.length);
+    body[0] = SHARE_VERSION;
+    body.set(setId, 1);
+    body.set([threshold, shareCount, x], 1 + SET_ID_LENGTH);
+    secret.forEach((byte, b) => {
+      // Horner's rule, highest-order term first
+      let y = 0;
+      for (let k = threshold - 2; k >= 0; k--) {
+        y = multiply(y, x) ^ coefficients[b][k];
+      }
+      body[HEADER_LENGTH + b] = multiply(y, x) ^ byte;
+    });
+    return encodeShare(body);
+  });
+}
+
+/**
+ * Check a share and describe it, without needing any other share
+ * Throws SeedShareError for text that isn't an intact share
+ */
+export function parseSeedShare(share: string): SeedShareInfo {
+  const { info } = decodeShare(share);
+  return info;
+}
+
+/**
+ * Rebuild a seed from at least its threshold of shares, in any order
+ * Throws SeedShareError for damaged shares, shares from different seeds, or too few shares
+ */
+export function combineSeedShares(shares: string[]): SeedBackupContents {
+  if (shares.length === 0) {
+    throw new SeedShareError('No shares to recover from', 'insufficient');
+  }
+
+  const decoded = shares.map(decodeShare);
+  const [first] = decoded;
+  const byIndex = new Map<number, Uint8Array>();
+  for (const { info, data } of decoded) {
+    const sameSet =
+      info.setId === first.info.setId &&
+      info.threshold === first.info.threshold &&
+      info.shareCount === first.info.shareCount &&
+      data.length === first.data.length;
+    const existing = byIndex.get(info.index);
+    if (!sameSet || (existing && !existing.every((byte, i) => byte === data[i]))) {
+      throw new SeedShareError('These shares come from different seeds or backups', 'mismatch');
+    }
+    byIndex.set(info.index, data);
+  }
+
+  const { threshold } = first.info;
+  if (byIndex.size < threshold) {
+    const missing = threshold - byIndex.size;
+    throw new SeedShareError(
+      `${missing} more share${missing === 1 ? '' : 's'} needed to recover this seed`,
+      'insufficient'
+    );
+  }
+
+  // Lagrange interpolation at x = 0 over the first `threshold` shares
+  const points = Array.from(byIndex.entries()).slice(0, threshold);
+  const secret = new Uint8Array(first.data.length);
+  points.forEach(([xj, data], j) => {
+    let basis = 1;
+    points.forEach(([xm], m) => {
+      if (m !== j) {
+        basis = multiply(basis, divide(xm, xm ^ xj));
+      }
+    });
+    data.forEach((byte, b) => {
+      secret[b] ^= multiply(byte, basis);
+    });
+  });
+
+  const payload = secret.subarray(0, secret.length - DIGEST_LENGTH);
+  const digest = hashPrefix(payload, DIGEST_LENGTH);
+  if (!digest.every((byte, i) => byte === secret[payload.length + i])) {
+    throw new SeedShareError('These shares do not fit together', 'mismatch');
+  }
+
+  try {
+    const contents = JSON.parse(Buffer.from(payload).toString('utf8'));
+    if (typeof contents.alias === 'string' && typeof contents.secret === 'string') {
+      return {
+        alias: contents.alias,
+        secret: contents.secret,
+        createdAt: typeof contents.createdAt === 'number' ? contents.createdAt : Date.now(),
+      };
+    }
+  } catch {
+    // Falls through to the error below
+  }
+  throw new SeedShareError('Recovered seed is unreadable', 'corrupted');
+}
+
+/**
+ * Whether text looks like a seed share, e.g. a scanned QR code or pasted file
+ */
+export function isSeedShare(text: string): boolean {
+  return text.trim().startsWith(SEED_SHARE_PREFIX);
+}
+
+function hashPrefix(bytes: Uint8Array, length: number): Uint8Array {
+  return sha256(bytes).slice(0, length);
+}
+
+function encodeShare(body: Uint8Array): string {
+  const share = new Uint8Array(body.length + CHECKSUM_LENGTH);
+  share.set(body);
+  share.set(hashPrefix(body, CHECKSUM_LENGTH), body.length);
+  return SEED_SHARE_PREFIX + Buffer.from(share).toString('base64');
+}
+
+function decodeShare(share: string): { info: SeedShareInfo; data: Uint8Array } {
+  const text = share.trim();
+  if (!isSeedShare(text)) {
+    throw new SeedShareError('This is not a Sol Stocks recovery share', 'format');
+  }
+
+  const bytes = new Uint8Array(Buffer.from(text.slice(SEED_SHARE_PREFIX.length), 'base64'));
+  if (bytes.length > 0 && bytes[0] > SHARE_VERSION) {
+    throw new SeedShareError('This share was made by a newer version of Sol Stocks', 'version');
+  }
+  if (bytes.length <= HEADER_LENGTH + DIGEST_LENGTH + CHECKSUM_LENGTH) {
+    throw new SeedShareError('Share is incomplete or corrupted', 'corrupted');
+  }
+
+  const body = bytes.subarray(0, bytes.length - CHECKSUM_LENGTH);
+  const checksum = hashPrefix(body, CHECKSUM_LENGTH);
+  if (!checksum.every((byte, i) => byte === bytes[body.length + i])) {
+    throw new SeedShareError('Share is incomplete or corrupted', 'corrupted');
+  }
+
+  const [threshold, shareCount, index] = body.subarray(1 + SET_ID_LENGTH, HEADER_LENGTH);
+  const valid =
+    body[0] === SHARE_VERSION &&
+    threshold >= MIN_SHARE_THRESHOLD &&
+    threshold <= shareCount &&
+    index >= 1 &&
+    index <= shareCount;
+  if (!valid) {
+    throw new SeedShareError('Share is incomplete or corrupted', 'corrupted');
+  }
+
+  return {
+    info: {
+      setId: Buffer.from(body.subarray(1, 1 + SET_ID_LENGTH)).toString('hex'),
+      index,
+      threshold,
+      shareCount,
+    },
+    data: body.subarray(HEADER_LENGTH),
+  };
+}
@@ -1,34 +1,72 @@
 import { Keypair, PublicKey } from '@solana/web3.js';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import * as Keychain from 'react-native-keychain';
-import { getRandomBytes } from 'react-native-get-random-values';
+import { biometricService } from './biometrics';
+import {
+  deriveSolanaKeypair,
+  generateMnemonic,
+  getSolanaDerivationPath,
+  nextAccountIndex,
+  mnemonicToSeed,
+  MnemonicWordCount,
+  normalizeMnemonic,
+  validateMnemonic,
+} from './hdWallet';
+import { decryptSeedBackup, encryptSeedBackup, SeedBackupContents, SeedBackupError } from './seedBackup';
+import { seedRegistry, SeedRecord } from './seedRegistry';
+import { combineSeedShares, SeedShareError, splitSeedSecret } from './seedShares';
+import { AnyTransaction, isVersionedTransaction } from './versionedTransactions';
 
 export interface SeedVaultService {
-  generateSeed(): Promise<Uint8Array>;
-  storeSeed(seed: Uint8Array, alias: string): Promise<boolean>;
+  generateMnemonic(wordCount?: MnemonicWordCount): string;
+  storeMnemonic(mnemonic: string, alias: string, passphrase?: string): Promise<boolean>;
   retrieveSeed(alias: string): Promise<Uint8Array | null>;
+  retrieveMnemonic(alias: string): Promise<string | null>;
   deleteSeed(alias: string): Promise<boolean>;
-  createKeypairFromSeed(seed: Uint8Array): Keypair;
+  deriveKeypair(seed: Uint8Array, accountIndex?: number): Keypair;
   isDeviceSecure(): Promise<boolean>;
 }
 
+/**
+ * What the keychain holds for a seed: the recovery phrase and the passphrase it is used with
+ * Seeds stored before recovery phrases were supported are a raw 32-byte key in base64
+ */
+interface StoredSecret {
+  mnemonic: string;
+  passphrase: string;
+}
+
+// Length of the raw keys stored before recovery phrases; BIP39 seeds are 64 bytes
+const LEGACY_SEED_LENGTH = 32;
+
+// The seed the app's own on-device wallet lives under
+export const DEFAULT_SEED_ALIAS = 'sol_stocks_user';
+
+/**
+ * An account derived from a seed, with the index it was derived at
+ */
+export interface SeedAccount {
+  accountIndex: number;
+  publicKey: string;
+}
+
 /**
  * Seed Vault integration for secure key management
  * This implements the Solana Mobile Stack Seed Vault for secure storage
+ *
+ * Seeds are BIP39 recovery phrases, so any Solana wallet can restore them, and each one
+ * holds any number of accounts derived along m/44'/501'/n'/0'
  */
 export class MobileSeedVault implements SeedVaultService {
   private readonly SEED_VAULT_PREFIX = 'sol_stocks_seed_';
   private readonly KEYCHAIN_SERVICE = 'SolStocksKeychainService';
 
   /**
-   * Generate cryptographically secure random seed
+   * Generate a recovery phrase from cryptographically secure random entropy
    */
-  async generateSeed(): Promise<Uint8Array> {
+  generateMnemonic(wordCount: MnemonicWordCount = 12): string {
     try {
-      // Generate 32 bytes of cryptographically secure random data
-      const seed = new Uint8Array(32);
-      getRandomBytes(seed);
-      return seed;
+      return generateMnemonic(wordCount);
     } catch (error) {
       console.error('Seed generation failed:', error);
       throw new Error('Failed to generate secure seed');
@@ -36,74 +74,72 @@ export class MobileSeedVault implements SeedVaultService {
   }
 
   /**
-   * Store seed securely in device keychain
+   * Store a recovery phrase, and the optional passphrase used with it, in the device keychain
+   * Throws for an alias that already holds a seed, which would otherwise be lost
    */
-  async storeSeed(seed: Uint8Array, alias: string): Promise<boolean> {
-    try {
-      const seedBase64 = Buffer.from(seed).toString('base64');
-      const keychainKey = `${this.SEED_VAULT_PREFIX}${alias}`;
-      
-      // Store in secure keychain with biometric protection if available
-      const result = await Keychain.setInternetCredentials(
-        keychainKey,
-        alias,
-        seedBase64,
-        {
-          accessControl: Keychain.ACCESS_CONTROL.BIOMETRY_CURRENT_SET_OR_DEVICE_PASSCODE,
-          authenticatePrompt: 'Authenticate to store your Sol Stocks seed',
-          service: this.KEYCHAIN_SERVICE,
-          securityLevel: Keychain.SECURITY_LEVEL.SECURE_HARDWARE,
-        }
-      );
+  async storeMnemonic(mnemonic: string, alias: string, passphrase: string = ''): Promise<boolean> {
+    if (!validateMnemonic(mnemonic)) {
+      throw new Error('Invalid recovery phrase');
+    }
 
-      if (result) {
-        // Store metadata for seed management
-        await AsyncStorage.setItem(`${keychainKey}_metadata`, JSON.stringify({
-          alias,
-          createdAt: Date.now(),
-          lastUsed: Date.now(),
-        }));
+    const secret = { mnemonic: normalizeMnemonic(mnemonic), passphrase };
+    return this.writeSecret(alias, secret, await mnemonicToSeed(secret.mnemonic, passphrase));
+  }
+
+  /**
+   * Retrieve the seed accounts are derived from: the BIP39 seed for a recovery phrase,
+   * or the raw key of a seed stored before recovery phrases
+   */
+  async retrieveSeed(alias: string): Promise<Uint8Array | null> {
+    try {
+      const secret = await this.readSecret(alias);
+      if (!secret) {
+        return null;
       }
 
-      return result;
+      const seed = secret instanceof Uint8Array
+        ? secret
+        : await mnemonicToSeed(secret.mnemonic, secret.passphrase);
+      await seedRegistry.touch(alias, this.describeFirstAccount(seed));
+      return seed;
     } catch (error) {
-      console.error('Seed storage failed:', error);
-      return false;
+      console.error('Seed retrieval failed:', error);
+      return null;
     }
   }
 
   /**
-   * Retrieve seed from secure storage
+   * Retrieve the recovery phrase for backing it up
+   * Null for seeds stored before recovery phrases, which have none
    */
-  async retrieveSeed(alias: string): Promise<Uint8Array | null> {
+  async retrieveMnemonic(alias: string): Promise<string | null> {
     try {
-      const keychainKey = `${this.SEED_VAULT_PREFIX}${alias}`;
-      
-      const credentials = await Keychain.getInternetCredentials(keychainKey, {
-        authenticatePrompt: 'Authenticate to access your Sol Stocks seed',
-        service: this.KEYCHAIN_SERVICE,
-      });
-
-      if (credentials && credentials.password) {
-        // Update last used timestamp
-        await AsyncStorage.setItem(`${keychainKey}_metadata`, JSON.stringify({
-          alias,
-          lastUsed: Date.now(),
-        }));
-
-        const seedBuffer = Buffer.from(credentials.password, 'base64');
-        return new Uint8Array(seedBuffer);
+      const secret = await this.readSecret(alias);
+      if (!secret) {
+        return null;
       }
 
-      return null;
+      await seedRegistry.touch(alias);
+      return secret instanceof Uint8Array ? null : secret.mnemonic;
     } catch (error) {
-      console.error('Seed retrieval failed:', error);
+      console.error('Recovery phrase retrieval failed:', error);
       return null;
     }
   }
 
+  /**
+   * Whether a seed is stored under this name, without reading it
+   */
+  async hasSeed(alias: string): Promise<boolean> {
+    return Keychain.hasInternetCredentials({
+      server: `${this.SEED_VAULT_PREFIX}${alias}`,
+      service: this.KEYCHAIN_SERVICE,
+    });
+  }
+
   /**
    * Delete seed from secure storage
+   * Nothing asks the user first; go through SeedVaultUtils.deleteUserSeed from the UI
    */
   async deleteSeed(alias: string): Promise<boolean> {
     try {
@@ -114,8 +150,9 @@ export class MobileSeedVault implements SeedVaultService {
       });
 
       if (result) {
-        // Remove metadata
-        await AsyncStorage.removeItem(`${keychainKey}_metadata`);
+        // Remove metadata, including any record from before the registry
+        await seedRegistry.remove(alias);
+        await AsyncStorage.multiRemove([`${keychainKey}_metadata`, `${keychainKey}_accounts`]);
       }
 
       return result;
@@ -126,17 +163,106 @@ export class MobileSeedVault implements SeedVaultService {
   }
 
   /**
-   * Create Solana keypair from seed
+   * Derive the keypair for one of a seed's accounts
+   * Seeds stored before recovery phrases only have account 0
    */
-  createKeypairFromSeed(seed: Uint8Array): Keypair {
+  deriveKeypair(seed: Uint8Array, accountIndex: number = 0): Keypair {
+    if (seed.length === LEGACY_SEED_LENGTH && accountIndex !== 0) {
+      throw new Error('This seed predates recovery phrases and only has one account');
+    }
+
     try {
-      return Keypair.fromSeed(seed.slice(0, 32));
+      return seed.length === LEGACY_SEED_LENGTH
+        ? Keypair.fromSeed(seed)
+        : deriveSolanaKeypair(seed, accountIndex);
     } catch (error) {
       console.error('Keypair creation failed:', error);
       throw new Error('Failed to create keypair from seed');
     }
   }
 
+  /**
+   * Indexes of the accounts in use for a seed, in the order they were added
+   */
+  async listAccounts(alias: string): Promise<number[]> {
+    try {
+      const stored = await AsyncStorage.getItem(`${this.SEED_VAULT_PREFIX}${alias}_accounts`);
+      const accounts = stored ? JSON.parse(stored) : null;
+      return Array.isArray(accounts) && accounts.length > 0 ? accounts : [0];
+    } catch (error) {
+      console.error('Account listing failed:', error);
+      return [0];
+    }
+  }
+
+  /**
+   * Derive the seed's next unused account and remember it
+   */
+  async addAccount(alias: string): Promise<SeedAccount | null> {
+    try {
+      const seed = await this.retrieveSeed(alias);
+      if (!seed) {
+        return null;
+      }
+
+      const accounts = await this.listAccounts(alias);
+      const accountIndex = nextAccountIndex(accounts);
+      const keypair = this.deriveKeypair(seed, accountIndex);
+
+      await AsyncStorage.setItem(
+        `${this.SEED_VAULT_PREFIX}${alias}_accounts`,
+        JSON.stringify([...accounts, accountIndex])
+      );
+
+      return { accountIndex, publicKey: keypair.publicKey.toBase58() };
+    } catch (error) {
+      console.error('Account creation failed:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Export a seed as a password-encrypted backup, as text suitable for a file or QR code
+   * Throws SeedBackupError for a password that is too short
+   */
+  async exportBackup(alias: string, password: string): Promise<string> {
+    return encryptSeedBackup(await this.readBackupContents(alias), password);
+  }
+
+  /**
+   * Restore a backup made by exportBackup, under its original name unless another is given
+   * Never overwrites a stored seed. Throws SeedBackupError for a wrong password or damaged backup
+   */
+  async restoreBackup(backup: string, password: string, alias?: string): Promise<{ alias: string; publicKey: string }> {
+    const contents = await decryptSeedBackup(backup, password);
+    const secret = parseSecret(contents.secret);
+    if (!isValidSecret(secret)) {
+      throw new SeedBackupError('Backup is incomplete or corrupted', 'corrupted');
+    }
+    return this.restoreSecret(secret, alias ?? contents.alias, contents.createdAt);
+  }
+
+  /**
+   * Split a seed into recovery shares for guardians, any `threshold` of which restore it
+   * Throws SeedShareError for an impossible threshold or share count
+   */
+  async splitSeed(alias: string, threshold: number, shareCount: number): Promise<string[]> {
+    return splitSeedSecret(await this.readBackupContents(alias), threshold, shareCount);
+  }
+
+  /**
+   * Restore a seed from enough of the shares made by splitSeed
+   * Never overwrites a stored seed. Throws SeedShareError for damaged, mismatched or too few shares
+   */
+  async restoreFromShares(shares: string[], alias?: string): Promise<{ alias: string; publicKey: string }> {
+    const contents = combineSeedShares(shares);
+    const secret = parseSecret(contents.secret);
+    if (!isValidSecret(secret)) {
+      throw new SeedShareError('Recovered seed is unreadable', 'corrupted');
+    }
+    return this.restoreSecret(secret, alias ?? contents.alias, contents.createdAt);
+  }
+
   /**
    * Check if device has secure hardware for key storage
    */
@@ -155,46 +281,46 @@ export class MobileSeedVault implements SeedVaultService {
   }
 
   /**
-   * List all stored seeds
+   * List all stored seeds, oldest first, without unlocking any of them
    */
-  async listSeeds(): Promise<Array<{ alias: string; createdAt: number; lastUsed: number }>> {
+  async listSeeds(): Promise<SeedRecord[]> {
     try {
-      const keys = await AsyncStorage.getAllKeys();
-      const seedKeys = keys.filter(key => key.includes(`${this.SEED_VAULT_PREFIX}`) && key.includes('_metadata'));
-      
-      const seedInfos = await Promise.all(
-        seedKeys.map(async (key) => {
-          try {
-            const metadata = await AsyncStorage.getItem(key);
-            return metadata ? JSON.parse(metadata) : null;
-          } catch {
-            return null;
-          }
-        })
-      );
-
-      return seedInfos.filter(info => info !== null);
+      return await seedRegistry.list();
     } catch (error) {
       console.error('Seed listing failed:', error);
       return [];
     }
   }
 
+  /**
+   * Change the name a seed is shown under; the alias it is stored under stays the same
+   * Throws for an empty, overlong or already used name
+   */
+  async renameSeed(alias: string, label: string): Promise<SeedRecord> {
+    return seedRegistry.rename(alias, label);
+  }
+
   /**
    * Generate and store a new seed for the user
+   * The recovery phrase is returned so the user can write it down
    */
-  async createUserSeed(userAlias: string = 'default'): Promise<{ seed: Uint8Array; keypair: Keypair; publicKey: string } | null> {
+  async createUserSeed(
+    userAlias: string = 'default',
+    wordCount: MnemonicWordCount = 12,
+    passphrase: string = ''
+  ): Promise<{ mnemonic: string; keypair: Keypair; publicKey: string } | null> {
     try {
-      const seed = await this.generateSeed();
-      const keypair = this.createKeypairFromSeed(seed);
+      const mnemonic = this.generateMnemonic(wordCount);
+      const seed = await mnemonicToSeed(mnemonic, passphrase);
+      const keypair = this.deriveKeypair(seed);
       
-      const stored = await this.storeSeed(seed, userAlias);
+      const stored = await this.writeSecret(userAlias, { mnemonic, passphrase }, seed);
       if (!stored) {
         throw new Error('Failed to store seed securely');
       }
 
       return {
-        seed,
+        mnemonic,
         keypair,
         publicKey: keypair.publicKey.toBase58(),
       };
@@ -205,21 +331,199 @@ export class MobileSeedVault implements SeedVaultService {
   }
 
   /**
-   * Recover user keypair from stored seed
+   * Store a recovery phrase from another wallet and return its first account
+   * Throws for a phrase that isn't valid or an alias already in use, so the user can correct it
+   */
+  async importUserSeed(
+    mnemonic: string,
+    userAlias: string = 'default',
+    passphrase: string = ''
+  ): Promise<{ keypair: Keypair; publicKey: string } | null> {
+    if (!validateMnemonic(mnemonic)) {
+      throw new Error('Invalid recovery phrase');
+    }
+    await this.assertAliasFree(userAlias);
+
+    try {
+      const normalized = normalizeMnemonic(mnemonic);
+      const seed = await mnemonicToSeed(normalized, passphrase);
+      const keypair = this.deriveKeypair(seed);
+
+      const stored = await this.writeSecret(userAlias, { mnemonic: normalized, passphrase }, seed);
+      if (!stored) {
+        throw new Error('Failed to store seed securely');
+      }
+
+      return { keypair, publicKey: keypair.publicKey.toBase58() };
+    } catch (error) {
+      console.error('User seed import failed:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Recover one of the user's keypairs from stored seed
    */
-  async recoverUserKeypair(userAlias: string = 'default'): Promise<Keypair | null> {
+  async recoverUserKeypair(userAlias: string = 'default', accountIndex: number = 0): Promise<Keypair | null> {
     try {
       const seed = await this.retrieveSeed(userAlias);
       if (!seed) {
         return null;
       }
 
-      return this.createKeypairFromSeed(seed);
+      return this.deriveKeypair(seed, accountIndex);
     } catch (error) {
       console.error('User keypair recovery failed:', error);
       return null;
     }
   }
+
+  /**
+   * Everything a backup or set of shares needs to restore a seed
+   */
+  private async readBackupContents(alias: string): Promise<SeedBackupContents> {
+    const secret = await this.readSecret(alias);
+    if (!secret) {
+      throw new Error(`No seed named "${alias}" is stored on this device`);
+    }
+
+    await seedRegistry.touch(alias);
+    const record = await seedRegistry.get(alias);
+
+    return {
+      alias,
+      secret: serializeSecret(secret),
+      createdAt: record?.createdAt ?? Date.now(),
+    };
+  }
+
+  /**
+   * Store a restored secret under a name not already in use
+   */
+  private async restoreSecret(
+    secret: StoredSecret | Uint8Array,
+    alias: string,
+    createdAt: number
+  ): Promise<{ alias: string; publicKey: string }> {
+    await this.assertAliasFree(alias);
+
+    const seed = secret instanceof Uint8Array ? secret : await mnemonicToSeed(secret.mnemonic, secret.passphrase);
+    const keypair = this.deriveKeypair(seed);
+
+    const stored = await this.writeSecret(alias, secret, seed, createdAt);
+    if (!stored) {
+      throw new Error('Failed to store seed securely');
+    }
+
+    return { alias, publicKey: keypair.publicKey.toBase58() };
+  }
+
+  /**
+   * Refuse an alias that already holds a seed; writing over it would lose that seed for good
+   */
+  private async assertAliasFree(alias: string): Promise<void> {
+    if (await this.hasSeed(alias)) {
+      throw new Error(`A seed named "${alias}" already exists on this device`);
+    }
+  }
+
+  /**
+   * Write a seed's secret to the keychain and register it
+   * `seed` is what the secret derives, passed in since the caller has already paid for it
+   * Never writes over a stored seed
+   */
+  private async writeSecret(
+    alias: string,
+    secret: StoredSecret | Uint8Array,
+    seed: Uint8Array,
+    createdAt: number = Date.now()
+  ): Promise<boolean> {
+    await this.assertAliasFree(alias);
+
+    try {
+      const keychainKey = `${this.SEED_VAULT_PREFIX}${alias}`;
+      
+      // Store in secure keychain with biometric protection if available
+      const result = await Keychain.setInternetCredentials(
+        keychainKey,
+        alias,
+        serializeSecret(secret),
+        {
+          accessControl: Keychain.ACCESS_CONTROL.BIOMETRY_CURRENT_SET_OR_DEVICE_PASSCODE,
+          authenticatePrompt: 'Authenticate to store your Sol Stocks seed',
+          service: this.KEYCHAIN_SERVICE,
+          securityLevel: Keychain.SECURITY_LEVEL.SECURE_HARDWARE,
+        }
+      );
+
+      if (result) {
+        // Store metadata for seed management
+        await seedRegistry.register({ alias, createdAt, ...this.describeFirstAccount(seed) });
+      }
+
+      return result;
+    } catch (error) {
+      console.error('Seed storage failed:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Read a seed's secret from the keychain
+   */
+  private async readSecret(alias: string): Promise<StoredSecret | Uint8Array | null> {
+    const keychainKey = `${this.SEED_VAULT_PREFIX}${alias}`;
+
+    const credentials = await Keychain.getInternetCredentials(keychainKey, {
+      authenticatePrompt: 'Authenticate to access your Sol Stocks seed',
+      service: this.KEYCHAIN_SERVICE,
+    });
+
+    if (credentials && credentials.password) {
+      return parseSecret(credentials.password);
+    }
+
+    return null;
+  }
+
+  /**
+   * The registry's view of a seed's first account
+   */
+  private describeFirstAccount(seed: Uint8Array): Pick<SeedRecord, 'publicKey' | 'derivationPath'> {
+    return {
+      publicKey: this.deriveKeypair(seed).publicKey.toBase58(),
+      derivationPath: seed.length === LEGACY_SEED_LENGTH ? null : getSolanaDerivationPath(0),
+    };
+  }
+}
+
+/**
+ * Encode a secret for the keychain, in the form parseSecret reads back
+ */
+function serializeSecret(secret: StoredSecret | Uint8Array): string {
+  return secret instanceof Uint8Array ? Buffer.from(secret).toString('base64') : JSON.stringify(secret);
+}
+
+/**
+ * Whether a secret from a backup or shares is one the vault could have stored
+ */
+function isValidSecret(secret: StoredSecret | Uint8Array): boolean {
+  return secret instanceof Uint8Array ? secret.length === LEGACY_SEED_LENGTH : validateMnemonic(secret.mnemonic);
+}
+
+/**
+ * Decode a keychain secret, accepting the raw keys stored before recovery phrases
+ */
+function parseSecret(password: string): StoredSecret | Uint8Array {
+  try {
+    const secret = JSON.parse(password);
+    if (secret && typeof secret.mnemonic === 'string') {
+      return { mnemonic: secret.mnemonic, passphrase: secret.passphrase ?? '' };
+    }
+  } catch {
+    // Not JSON, so a legacy raw key
+  }
+  return new Uint8Array(Buffer.from(password, 'base64'));
 }
 
 // Export singleton instance
@@ -227,28 +531,41 @@ export const seedVaultService = new MobileSeedVault();
 
 // Utility functions for common operations
 export const SeedVaultUtils = {
-  async setupUserWallet(alias: string = 'sol_stocks_user'): Promise<{
+  /**
+   * Open the user's on-device wallet, creating it only when no seed is stored yet
+   * Returns every account in use so a locked or cancelled keychain never reads as a missing wallet
+   */
+  async setupUserWallet(alias: string = DEFAULT_SEED_ALIAS): Promise<{
     publicKey: string;
     isNewWallet: boolean;
+    accounts: SeedAccount[];
   } | null> {
     try {
-      // Try to recover existing wallet first
-      let keypair = await seedVaultService.recoverUserKeypair(alias);
+      let seed: Uint8Array | null;
       let isNewWallet = false;
 
-      if (!keypair) {
+      if (await seedVaultService.hasSeed(alias)) {
+        seed = await seedVaultService.retrieveSeed(alias);
+      } else {
         // Create new wallet if none exists
         const result = await seedVaultService.createUserSeed(alias);
-        if (!result) {
-          return null;
-        }
-        keypair = result.keypair;
+        seed = result ? await mnemonicToSeed(result.mnemonic) : null;
         isNewWallet = true;
       }
 
+      if (!seed) {
+        return null;
+      }
+
+      const accounts = (await seedVaultService.listAccounts(alias)).map(accountIndex => ({
+        accountIndex,
+        publicKey: seedVaultService.deriveKeypair(seed!, accountIndex).publicKey.toBase58(),
+      }));
+
       return {
-        publicKey: keypair.publicKey.toBase58(),
+        publicKey: accounts[0].publicKey,
         isNewWallet,
+        accounts,
       };
     } catch (error) {
       console.error('Wallet setup failed:', error);
@@ -256,19 +573,54 @@ export const SeedVaultUtils = {
     }
   },
 
-  async signTransaction(transaction: any, userAlias: string = 'sol_stocks_user'): Promise<any | null> {
+  /**
+   * Sign with one of the user's on-device accounts
+   * Adds the signature alongside any a co-signer already made; the message must be final
+   */
+  async signTransaction<T extends AnyTransaction>(
+    transaction: T,
+    userAlias: string = DEFAULT_SEED_ALIAS,
+    accountIndex: number = 0
+  ): Promise<T | null> {
     try {
-      const keypair = await seedVaultService.recoverUserKeypair(userAlias);
+      const keypair = await seedVaultService.recoverUserKeypair(userAlias, accountIndex);
       if (!keypair) {
         throw new Error('No keypair found for user');
       }
 
       // Sign the transaction
-      transaction.sign(keypair);
+      if (isVersionedTransaction(transaction)) {
+        transaction.sign([keypair]);
+      } else {
+        transaction.partialSign(keypair);
+      }
       return transaction;
     } catch (error) {
       console.error('Transaction signing failed:', error);
       return null;
     }
   },
-};
\ No newline at end of file
+
+  /**
+   * Delete one of the user's seeds after they prove they own it
+   * Asks for biometrics, or the keychain's device passcode where there are none; the caller
+   * must already have warned that funds are lost for good without a backup
+   * Returns false when authentication was cancelled or the seed couldn't be deleted
+   */
+  async deleteUserSeed(alias: string): Promise<boolean> {
+    try {
+      const record = await seedRegistry.get(alias);
+      const authenticated = await biometricService.isBiometricAvailable()
+        ? await biometricService.authenticateWithBiometrics(`Delete "${record?.label ?? alias}" from this device`)
+        : (await seedVaultService.retrieveSeed(alias)) !== null;
+      if (!authenticated) {
+        return false;
+      }
+
+      return await seedVaultService.deleteSeed(alias);
+    } catch (error) {
+      console.error('Seed deletion failed:', error);
+      return false;
+    }
+  },
+};
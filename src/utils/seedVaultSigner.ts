@@ -0,0 +1,328 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Connection, Keypair, PublicKey } from '@solana/web3.js';
+import nacl from 'tweetnacl';
+import { biometricService } from './biometrics';
+import { WalletAccount, WalletSession, WalletSessionListener } from './mobileWalletAdapter';
+import { networkSettingsService } from './networkSettings';
+import { priorityFeeService } from './priorityFees';
+import { DEFAULT_SEED_ALIAS, SeedAccount, seedVaultService, SeedVaultUtils } from './seedVault';
+import type { Signer } from './signer';
+import { transactionLifecycle, TransactionLifecycleError } from './transactionLifecycle';
+import { AnyTransaction, isVersionedTransaction } from './versionedTransactions';
+
+/**
+ * Which seed and accounts the on-device signer was connected with
+ * Only public keys are kept here; the seed itself never leaves the keychain
+ */
+interface StoredSeedSession {
+  alias: string;
+  accounts: SeedAccount[];
+  publicKey: string;
+}
+
+const SEED_SESSION_KEY = 'sol_stocks_seed_signer';
+
+/**
+ * Signs on the device with accounts derived from a seed vault seed
+ * Every read of the seed is gated behind biometrics, so holding the phone unlocked is not
+ * enough to trade. Devices without biometrics fall back to the keychain's own passcode prompt
+ */
+export class SeedVaultSigner implements Signer {
+  readonly kind = 'seedVault' as const;
+  private connection: Connection;
+  private session: StoredSeedSession | null = null;
+  private listeners = new Set<WalletSessionListener>();
+
+  constructor(private readonly alias: string = DEFAULT_SEED_ALIAS) {
+    this.connection = networkSettingsService.getConnection();
+  }
+
+  setNetwork(connection: Connection): void {
+    this.connection = connection;
+  }
+
+  /**
+   * Restore the last session on startup; no authentication until something is signed
+   */
+  async restoreSession(): Promise<PublicKey | null> {
+    try {
+      const stored = await AsyncStorage.getItem(SEED_SESSION_KEY);
+      const session = stored ? JSON.parse(stored) : null;
+      if (
+        !session ||
+        typeof session.alias !== 'string' ||
+        !Array.isArray(session.accounts) ||
+        !(await seedVaultService.hasSeed(session.alias))
+      ) {
+        return null;
+      }
+
+      this.setSession(session);
+      return new PublicKey(session.publicKey);
+    } catch (error) {
+      console.error('Seed vault session restore failed:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Open the on-device wallet, creating its seed on first use
+   */
+  async connect(): Promise<PublicKey | null> {
+    try {
+      if (!(await this.authenticate('Unlock your on-device Sol Stocks wallet'))) {
+        return null;
+      }
+
+      const wallet = await SeedVaultUtils.setupUserWallet(this.alias);
+      if (!wallet) {
+        return null;
+      }
+
+      await this.persistSession({ alias: this.alias, accounts: wallet.accounts, publicKey: wallet.publicKey });
+      return new PublicKey(wallet.publicKey);
+    } catch (error) {
+      console.error('Seed vault connection failed:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Forget the session; the seed stays in the vault for the next connect
+   */
+  async disconnect(): Promise<void> {
+    this.setSession(null);
+
+    try {
+      await AsyncStorage.removeItem(SEED_SESSION_KEY);
+    } catch (error) {
+      console.error('Failed to clear seed vault session:', error);
+    }
+  }
+
+  /**
+   * Whether the session signs with this seed, so it can be disconnected before the seed is deleted
+   */
+  usesSeed(alias: string): boolean {
+    return this.session?.alias === alias;
+  }
+
+  getSession(): WalletSession {
+    const accounts = (this.session?.accounts ?? []).map(toWalletAccount);
+    return {
+      accounts,
+      selectedAccount: accounts.find(account => account.publicKey.toBase58() === this.session?.publicKey) ?? null,
+      transactionVersion: 0,
+    };
+  }
+
+  /**
+   * Switch the account transactions are built for to another of the seed's accounts
+   */
+  async selectAccount(publicKey: PublicKey): Promise<void> {
+    const session = this.session;
+    if (!session || !session.accounts.some(account => account.publicKey === publicKey.toBase58())) {
+      throw new Error('Account does not belong to the on-device wallet');
+    }
+
+    await this.persistSession({ ...session, publicKey: publicKey.toBase58() });
+  }
+
+  /**
+   * Derive the seed's next account, add it to the session and switch to it
+   * Returns null when authentication was cancelled or the seed can't hold more accounts
+   */
+  async addAccount(): Promise<PublicKey | null> {
+    const session = this.session;
+    if (!session) {
+      throw new Error('Wallet not connected');
+    }
+
+    if (!(await this.authenticate('Add an account to your on-device wallet'))) {
+      return null;
+    }
+    const account = await seedVaultService.addAccount(session.alias);
+    if (!account) {
+      return null;
+    }
+
+    await this.persistSession({
+      ...session,
+      accounts: [...session.accounts, account],
+      publicKey: account.publicKey,
+    });
+    return new PublicKey(account.publicKey);
+  }
+
+  /**
+   * Be told whenever the session changes: connect, disconnect, new account or account switch
+   * Returns a function that stops listening
+   */
+  subscribe(listener: WalletSessionListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Sign with the selected account
+   * Versioned transactions must already carry their blockhash and fee payer
+   */
+  async signTransaction<T extends AnyTransaction>(transaction: T): Promise<T | null> {
+    const account = this.getSelectedAccount();
+
+    try {
+      if (!isVersionedTransaction(transaction)) {
+        // Keep a blockhash and fee payer that a co-signer already signed over
+        if (!transaction.recentBlockhash) {
+          const { blockhash } = await this.connection.getLatestBlockhash();
+          transaction.recentBlockhash = blockhash;
+        }
+        if (!transaction.feePayer) {
+          transaction.feePayer = new PublicKey(account.publicKey);
+        }
+      }
+
+      if (!(await this.authenticate('Approve this transaction'))) {
+        return null;
+      }
+      return await SeedVaultUtils.signTransaction(transaction, this.session!.alias, account.accountIndex);
+    } catch (error) {
+      console.error('Transaction signing failed:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Sign on the device, then send and follow the transaction until it is confirmed
+   * Behaves like MobileWalletService.signAndSendTransaction, including its errors
+   */
+  async signAndSendTransaction(
+    transaction: AnyTransaction,
+    label: string = 'Transaction',
+    lastValidBlockHeight: number | null = null
+  ): Promise<string> {
+    const account = this.getSelectedAccount();
+
+    if (!isVersionedTransaction(transaction)) {
+      // Keep a fee payer and blockhash that a co-signer already signed over
+      if (!transaction.feePayer) {
+        transaction.feePayer = new PublicKey(account.publicKey);
+      }
+      await priorityFeeService.ensurePriorityFee(transaction);
+      lastValidBlockHeight = lastValidBlockHeight ?? transaction.lastValidBlockHeight ?? null;
+
+      if (!transaction.recentBlockhash) {
+        const latest = await this.connection.getLatestBlockhash();
+        transaction.recentBlockhash = latest.blockhash;
+        lastValidBlockHeight = latest.lastValidBlockHeight;
+      }
+    }
+
+    let signedTransaction: AnyTransaction | null;
+    try {
+      if (!(await this.authenticate(`Approve: ${label}`))) {
+        throw new Error('Authentication was cancelled');
+      }
+      signedTransaction = await SeedVaultUtils.signTransaction(transaction, this.session!.alias, account.accountIndex);
+      if (!signedTransaction) {
+        throw new Error('The on-device wallet could not sign the transaction');
+      }
+    } catch (error) {
+      console.error('Transaction signing failed:', error);
+      throw new TransactionLifecycleError(
+        'rejected',
+        null,
+        error instanceof Error ? error.message : 'The on-device wallet did not sign the transaction'
+      );
+    }
+
+    return transactionLifecycle.sendAndConfirm(signedTransaction, label, lastValidBlockHeight);
+  }
+
+  /**
+   * Sign an arbitrary message with the selected account
+   * Returns the message with its ed25519 signature appended, as wallets do over MWA
+   */
+  async signMessage(message: Uint8Array): Promise<Uint8Array | null> {
+    const account = this.getSelectedAccount();
+
+    try {
+      const keypair = await this.recoverKeypair('Approve signing this message', account.accountIndex);
+      if (!keypair) {
+        return null;
+      }
+
+      const signature = nacl.sign.detached(message, keypair.secretKey);
+      const signed = new Uint8Array(message.length + signature.length);
+      signed.set(message);
+      signed.set(signature, message.length);
+      return signed;
+    } catch (error) {
+      console.error('Message signing failed:', error);
+      return null;
+    }
+  }
+
+  private getSelectedAccount(): SeedAccount {
+    const session = this.session;
+    const account = session?.accounts.find(candidate => candidate.publicKey === session.publicKey);
+    if (!account) {
+      throw new Error('Wallet not connected');
+    }
+    return account;
+  }
+
+  private async recoverKeypair(reason: string, accountIndex: number): Promise<Keypair | null> {
+    if (!(await this.authenticate(reason))) {
+      return null;
+    }
+    return seedVaultService.recoverUserKeypair(this.session!.alias, accountIndex);
+  }
+
+  /**
+   * Ask for biometrics before the seed is read
+   * Without biometrics the keychain's device passcode prompt is the only gate
+   */
+  private async authenticate(reason: string): Promise<boolean> {
+    if (!(await biometricService.isBiometricAvailable())) {
+      return true;
+    }
+    return biometricService.authenticateWithBiometrics(reason);
+  }
+
+  private async persistSession(session: StoredSeedSession): Promise<void> {
+    this.setSession(session);
+
+    try {
+      await AsyncStorage.setItem(SEED_SESSION_KEY, JSON.stringify(session));
+    } catch (error) {
+      // The session still works until the app restarts
+      console.error('Failed to persist seed vault session:', error);
+    }
+  }
+
+  private setSession(session: StoredSeedSession | null): void {
+    this.session = session;
+
+    const walletSession = this.getSession();
+    this.listeners.forEach(listener => listener(walletSession));
+  }
+}
+
+/**
+ * Present a seed account the way wallet accounts are, with MWA's base64 address
+ */
+function toWalletAccount(account: SeedAccount): WalletAccount {
+  const publicKey = new PublicKey(account.publicKey);
+  return {
+    address: publicKey.toBuffer().toString('base64'),
+    label: `Account ${account.accountIndex + 1}`,
+    publicKey,
+  };
+}
+
+// Export singleton instance
+export const seedVaultSigner = new SeedVaultSigner();
+networkSettingsService.subscribe(({ connection }) => seedVaultSigner.setNetwork(connection));
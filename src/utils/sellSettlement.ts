@@ -0,0 +1,469 @@
+import {
+  ComputeBudgetInstruction,
+  Connection,
+  Keypair,
+  LAMPORTS_PER_SOL,
+  PublicKey,
+  SystemInstruction,
+  SystemProgram,
+  Transaction,
+  TransactionInstruction,
+  TransactionMessage,
+} from '@solana/web3.js';
+import { findReference } from '@solana/pay';
+import { PRIORITY_FEE_CONFIG, SETTLEMENT_API_URL } from './solanaConfig';
+import { networkSettingsService } from './networkSettings';
+import { priceOracleService } from './priceOracle';
+import { solanaPayService } from './solanaPayIntegration';
+import { createMemoInstruction, encodeTradeMemo, MEMO_PROGRAM_ID } from './tradeMemo';
+import { SellEntry, tradeLedger } from './tradeLedger';
+import { CostBasisMethod, LotSelection } from './costBasis';
+import { getPriorityFeeLamports, isComputeBudgetInstruction, priorityFeeService } from './priorityFees';
+
+export interface SellOrder {
+  reference: string;
+  wallet: string;
+  stockSymbol: string;
+  stockPrice: number;
+  quantity: number;
+  totalUSD: number;
+  grossSOL: number;
+  feeSOL: number;
+  netSOL: number;
+  netLamports: number;
+  solPriceUSD: number;
+  category: 'traditional' | 'crypto' | 'premium';
+  costBasisMethod: CostBasisMethod;
+  lotSelections?: LotSelection[];
+  createdAt: number;
+}
+
+/**
+ * Treasury side of a sale: returns the payout transaction, already signed by the treasury
+ * The seller's wallet is the remaining signer
+ */
+export interface SettlementProvider {
+  settleSell(order: SellOrder): Promise<Transaction>;
+}
+
+/**
+ * Settlement backed by `POST <baseUrl>/settlements/sell`, which takes the order
+ * and returns `{ transaction }` as a base64 partially signed transaction
+ */
+export class HttpSettlementProvider implements SettlementProvider {
+  private readonly baseUrl: string;
+  private readonly timeoutMs: number;
+
+  constructor(baseUrl: string, timeoutMs: number = 15000) {
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+    this.timeoutMs = timeoutMs;
+  }
+
+  async settleSell(order: SellOrder): Promise<Transaction> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.timeoutMs);
+
+    try {
+      const response = await fetch(`${this.baseUrl}/settlements/sell`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(order),
+        signal: controller.signal,
+      });
+
+      if (!response.ok) {
+        throw new Error(`Settlement request failed with status ${response.status}`);
+      }
+
+      const body = await response.json();
+      if (!body || typeof body.transaction !== 'string') {
+        throw new Error('Malformed settlement response');
+      }
+
+      return Transaction.from(Buffer.from(body.transaction, 'base64'));
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
+
+/**
+ * Local settlement for development: pays out from a throwaway devnet keypair,
+ * topping it up with an airdrop when it runs low
+ */
+export class MockSettlementProvider implements SettlementProvider {
+  private connection: Connection;
+  private treasury: Keypair;
+
+  constructor(connection: Connection, treasury: Keypair = Keypair.generate()) {
+    this.connection = connection;
+    this.treasury = treasury;
+  }
+
+  /**
+   * Pay out on another cluster
+   */
+  setConnection(connection: Connection): void {
+    this.connection = connection;
+  }
+
+  async settleSell(order: SellOrder): Promise<Transaction> {
+    await this.ensureFunded(order.netLamports);
+
+    const wallet = new PublicKey(order.wallet);
+    const payout = SystemProgram.transfer({
+      fromPubkey: this.treasury.publicKey,
+      toPubkey: wallet,
+      lamports: order.netLamports,
+    });
+    payout.keys.push({ pubkey: new PublicKey(order.reference), isSigner: false, isWritable: false });
+
+    const transaction = new Transaction()
+      .add(createMemoInstruction(encodeSellMemo(order), [wallet]))
+      .add(payout);
+
+    const { blockhash, lastValidBlockHeight } = await this.connection.getLatestBlockhash();
+    transaction.recentBlockhash = blockhash;
+    transaction.lastValidBlockHeight = lastValidBlockHeight;
+    transaction.feePayer = wallet;
+    await priorityFeeService.addPriorityFee(transaction, 'standard');
+    transaction.partialSign(this.treasury);
+
+    return transaction;
+  }
+
+  private async ensureFunded(lamports: number): Promise<void> {
+    const balance = await this.connection.getBalance(this.treasury.publicKey);
+    if (balance >= lamports) {
+      return;
+    }
+
+    const topUp = Math.max(lamports - balance, LAMPORTS_PER_SOL);
+    const signature = await this.connection.requestAirdrop(this.treasury.publicKey, topUp);
+    const latestBlockhash = await this.connection.getLatestBlockhash();
+    await this.connection.confirmTransaction({ signature, ...latestBlockhash });
+  }
+}
+
+function encodeSellMemo(order: SellOrder): string {
+  return encodeTradeMemo({
+    side: 'sell',
+    symbol: order.stockSymbol,
+    quantity: order.quantity,
+    paymentMethod: 'SOL',
+    priceUSD: order.stockPrice,
+  });
+}
+
+/**
+ * Whether an instruction transfers exactly `lamports` to the seller from someone else,
+ * tagged with the sale reference
+ */
+function isPayout(
+  instruction: TransactionInstruction,
+  wallet: PublicKey,
+  reference: PublicKey,
+  lamports: number
+): boolean {
+  try {
+    if (SystemInstruction.decodeInstructionType(instruction) !== 'Transfer') {
+      return false;
+    }
+    const transfer = SystemInstruction.decodeTransfer(instruction);
+    return (
+      !transfer.fromPubkey.equals(wallet) &&
+      transfer.toPubkey.equals(wallet) &&
+      Number(transfer.lamports) === lamports &&
+      instruction.keys.some(key => key.pubkey.equals(reference))
+    );
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Sells positions back to the treasury for SOL
+ * The treasury co-signs a payout; the seller only signs once it pays exactly the quoted amount
+ */
+export class SellSettlementService {
+  private connection: Connection;
+  private provider: SettlementProvider | null;
+
+  constructor(connection: Connection, provider: SettlementProvider | null) {
+    this.connection = connection;
+    this.provider = provider;
+  }
+
+  /**
+   * Look up payouts on another cluster
+   */
+  setConnection(connection: Connection): void {
+    this.connection = connection;
+  }
+
+  /**
+   * Settle through another treasury, or none where selling is unavailable
+   */
+  setProvider(provider: SettlementProvider | null): void {
+    this.provider = provider;
+  }
+
+  /**
+   * Whether the current network has a treasury to sell to
+   */
+  canSell(): boolean {
+    return this.provider !== null;
+  }
+
+  /**
+   * Quote a sale at the oracle price, net of the sell fee
+   * The cost-basis method (and lots, for specific-lot sales) is fixed on the order
+   */
+  async createSellOrder(
+    wallet: PublicKey,
+    stockSymbol: string,
+    stockPrice: number,
+    quantity: number,
+    costBasisMethod: CostBasisMethod = 'fifo',
+    lotSelections?: LotSelection[]
+  ): Promise<SellOrder> {
+    this.requireProvider();
+    if (!(quantity > 0)) {
+      throw new Error('Sell quantity must be positive');
+    }
+    if (costBasisMethod === 'specific') {
+      const selected = (lotSelections ?? []).reduce((sum, lot) => sum + lot.quantity, 0);
+      if (Math.abs(selected - quantity) > 1e-9) {
+        throw new Error('Selected lots must add up to the quantity sold');
+      }
+    }
+
+    const totalUSD = stockPrice * quantity;
+    const solPriceUSD = await priceOracleService.getSolPriceUSD();
+    const grossSOL = totalUSD / solPriceUSD;
+    const { category, feeSOL } = solanaPayService.calculateTradingFee(stockSymbol, grossSOL, 'sell');
+
+    const netLamports =
+      Math.round(grossSOL * LAMPORTS_PER_SOL) - Math.round(feeSOL * LAMPORTS_PER_SOL);
+    if (netLamports <= 0) {
+      throw new Error('Sale value does not cover the trading fee');
+    }
+
+    return {
+      reference: Keypair.generate().publicKey.toBase58(),
+      wallet: wallet.toBase58(),
+      stockSymbol,
+      stockPrice,
+      quantity,
+      totalUSD,
+      grossSOL,
+      feeSOL,
+      netSOL: netLamports / LAMPORTS_PER_SOL,
+      netLamports,
+      solPriceUSD,
+      category,
+      costBasisMethod,
+      lotSelections: costBasisMethod === 'specific' ? lotSelections : undefined,
+      createdAt: Date.now(),
+    };
+  }
+
+  /**
+   * Get the treasury-signed payout for an order and check it before the seller signs
+   * Records the sale as pending until it lands
+   */
+  async requestSettlement(order: SellOrder): Promise<Transaction> {
+    const provider = this.requireProvider();
+    let transaction: Transaction;
+    try {
+      transaction = await provider.settleSell(order);
+    } catch (error) {
+      console.error('Sell settlement failed:', error);
+      throw new Error('Treasury could not settle the sale, try again shortly');
+    }
+
+    this.verifySettlement(transaction, order);
+
+    const { createdAt, ...sale } = order;
+    await tradeLedger.record({
+      ...sale,
+      type: 'sell',
+      id: order.reference,
+      timestamp: createdAt,
+      status: 'pending',
+    });
+
+    return transaction;
+  }
+
+  /**
+   * Mark a sale as settled once its payout transaction is confirmed
+   */
+  async completeSale(order: SellOrder, signature: string): Promise<void> {
+    await tradeLedger.updateStatus(order.wallet, order.reference, 'confirmed', signature);
+  }
+
+  /**
+   * Mark a sale as failed, e.g. when the wallet declined to sign it
+   */
+  async cancelSale(order: SellOrder): Promise<void> {
+    await tradeLedger.updateStatus(order.wallet, order.reference, 'failed');
+  }
+
+  /**
+   * Re-check pending sales whose payout may have landed after the app stopped waiting
+   */
+  async confirmPendingSales(wallet: PublicKey): Promise<void> {
+    const sales = await tradeLedger.getEntries(wallet, 'sell');
+    const pending = sales.filter(sale => sale.status === 'pending');
+
+    await Promise.all(
+      pending.map(async sale => {
+        try {
+          const { signature, err } = await findReference(
+            this.connection,
+            new PublicKey(sale.reference),
+            { finality: 'confirmed' }
+          );
+          if (err) {
+            await tradeLedger.updateStatus(wallet, sale.id, 'failed', signature);
+          } else if (await this.paysOut(signature, sale)) {
+            await tradeLedger.updateStatus(wallet, sale.id, 'confirmed', signature);
+          } else {
+            console.error(`Transaction ${signature} does not pay out sale ${sale.id}`);
+          }
+        } catch {
+          // Not on chain yet
+        }
+      })
+    );
+  }
+
+  /**
+   * Whether a landed transaction pays the seller exactly the quoted amount, once
+   * Anyone can tag a transaction with the sale reference, so finding one isn't enough
+   */
+  private async paysOut(signature: string, sale: SellEntry): Promise<boolean> {
+    const response = await this.connection.getTransaction(signature, {
+      commitment: 'confirmed',
+      maxSupportedTransactionVersion: 0,
+    });
+    if (!response?.meta) {
+      return false;
+    }
+
+    const { loadedAddresses } = response.meta;
+    const lookups = loadedAddresses ? { accountKeysFromLookups: loadedAddresses } : undefined;
+    const { instructions } = TransactionMessage.decompile(response.transaction.message, lookups);
+    const wallet = new PublicKey(sale.wallet);
+    const reference = new PublicKey(sale.reference);
+    // Sales imported from before the ledger only kept the SOL amount
+    const lamports = sale.netLamports || Math.round(sale.netSOL * LAMPORTS_PER_SOL);
+
+    const transfers = instructions.filter(instruction =>
+      instruction.programId.equals(SystemProgram.programId)
+    );
+    return transfers.length === 1 && isPayout(transfers[0], wallet, reference, lamports);
+  }
+
+  private requireProvider(): SettlementProvider {
+    if (!this.provider) {
+      throw new Error('Selling is unavailable on this network');
+    }
+    return this.provider;
+  }
+
+  /**
+   * Reject payouts that differ from the quoted order in any way
+   * Only the sell memo, a single transfer of exactly netLamports to the seller and a
+   * compute budget whose priority fee (paid by the seller) stays under the cap are allowed
+   */
+  private verifySettlement(transaction: Transaction, order: SellOrder): void {
+    const wallet = new PublicKey(order.wallet);
+    const reference = new PublicKey(order.reference);
+    const expectedMemo = encodeSellMemo(order);
+    let payouts = 0;
+    let computeUnits: number | null = null;
+    let microLamports: number | null = null;
+
+    transaction.instructions.forEach(instruction => {
+      if (isComputeBudgetInstruction(instruction)) {
+        const type = ComputeBudgetInstruction.decodeInstructionType(instruction);
+        if (type === 'SetComputeUnitLimit' && computeUnits === null) {
+          computeUnits = ComputeBudgetInstruction.decodeSetComputeUnitLimit(instruction).units;
+        } else if (type === 'SetComputeUnitPrice' && microLamports === null) {
+          microLamports = Number(ComputeBudgetInstruction.decodeSetComputeUnitPrice(instruction).microLamports);
+        } else {
+          throw new Error('Settlement contains an unexpected compute budget instruction');
+        }
+        return;
+      }
+
+      if (instruction.programId.equals(MEMO_PROGRAM_ID)) {
+        if (instruction.data.toString('utf8') !== expectedMemo) {
+          throw new Error('Settlement memo does not match the sell order');
+        }
+        return;
+      }
+
+      if (
+        !instruction.programId.equals(SystemProgram.programId) ||
+        SystemInstruction.decodeInstructionType(instruction) !== 'Transfer'
+      ) {
+        throw new Error('Settlement contains an unexpected instruction');
+      }
+
+      if (!isPayout(instruction, wallet, reference, order.netLamports)) {
+        throw new Error('Settlement payout does not match the sell order');
+      }
+      payouts += 1;
+    });
+
+    if (payouts !== 1) {
+      throw new Error('Settlement must contain exactly one payout');
+    }
+
+    // Without a limit the runtime allows 200k units per instruction
+    const unitLimit = computeUnits ?? 200000 * transaction.instructions.length;
+    if (
+      microLamports !== null &&
+      getPriorityFeeLamports(unitLimit, microLamports) > PRIORITY_FEE_CONFIG.maxFeeLamports
+    ) {
+      throw new Error('Settlement priority fee is too high');
+    }
+
+    if (!transaction.feePayer || !transaction.recentBlockhash) {
+      throw new Error('Settlement transaction is incomplete');
+    }
+
+    // Every signature the treasury supplied must be valid; the seller's is still missing
+    if (!transaction.verifySignatures(false)) {
+      throw new Error('Settlement carries an invalid treasury signature');
+    }
+  }
+}
+
+const httpSettlementProvider = SETTLEMENT_API_URL ? new HttpSettlementProvider(SETTLEMENT_API_URL) : null;
+const mockSettlementProvider = SETTLEMENT_API_URL
+  ? null
+  : new MockSettlementProvider(networkSettingsService.getConnection());
+
+// The mock treasury funds itself from the faucet, so without a settlement API
+// selling only works where airdrops do
+function currentSettlementProvider(): SettlementProvider | null {
+  if (httpSettlementProvider) {
+    return httpSettlementProvider;
+  }
+  return networkSettingsService.supportsAirdrop() ? mockSettlementProvider : null;
+}
+
+// Export singleton instance
+export const sellSettlementService = new SellSettlementService(
+  networkSettingsService.getConnection(),
+  currentSettlementProvider()
+);
+networkSettingsService.subscribe(({ connection }) => {
+  sellSettlementService.setConnection(connection);
+  mockSettlementProvider?.setConnection(connection);
+  sellSettlementService.setProvider(currentSettlementProvider());
+});
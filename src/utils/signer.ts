@@ -0,0 +1,200 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { LAMPORTS_PER_SOL, PublicKey } from '@solana/web3.js';
+import { mobileWalletService, WalletSession, WalletSessionListener } from './mobileWalletAdapter';
+import { networkSettingsService } from './networkSettings';
+import { seedVaultSigner } from './seedVaultSigner';
+import { tradeLedger } from './tradeLedger';
+import { AnyTransaction } from './versionedTransactions';
+
+/**
+ * Where keys live: an external wallet app over Mobile Wallet Adapter, or the on-device seed vault
+ */
+export type SignerKind = 'wallet' | 'seedVault';
+
+export const SIGNER_KINDS: SignerKind[] = ['wallet', 'seedVault'];
+
+/**
+ * Something that holds accounts and signs for them
+ * Trade flows only talk to this, so they work the same whichever signer the user picked
+ */
+export interface Signer {
+  readonly kind: SignerKind;
+  // Bring back the last session on startup without prompting the user
+  restoreSession(): Promise<PublicKey | null>;
+  connect(): Promise<PublicKey | null>;
+  disconnect(): Promise<void>;
+  getSession(): WalletSession;
+  selectAccount(publicKey: PublicKey): Promise<void>;
+  subscribe(listener: WalletSessionListener): () => void;
+  signTransaction<T extends AnyTransaction>(transaction: T): Promise<T | null>;
+  // Sends and follows the transaction; failures throw TransactionLifecycleError
+  signAndSendTransaction(
+    transaction: AnyTransaction,
+    label?: string,
+    lastValidBlockHeight?: number | null
+  ): Promise<string>;
+  signMessage(message: Uint8Array): Promise<Uint8Array | null>;
+}
+
+const SIGNER_KIND_KEY = 'sol_stocks_signer_kind';
+
+/**
+ * Routes the app's signing to whichever signer the user connected with
+ * The choice is remembered so the same signer is restored on the next start
+ */
+export class SignerService {
+  private signers: Record<SignerKind, Signer>;
+  private activeKind: SignerKind = 'wallet';
+  private listeners = new Set<WalletSessionListener>();
+
+  constructor(signers: Signer[]) {
+    this.signers = Object.fromEntries(signers.map(signer => [signer.kind, signer])) as Record<SignerKind, Signer>;
+    signers.forEach(signer =>
+      signer.subscribe(session => {
+        if (signer.kind === this.activeKind) {
+          this.listeners.forEach(listener => listener(session));
+        }
+      })
+    );
+  }
+
+  /**
+   * Restore the signer used last, and its session
+   */
+  async restoreSession(): Promise<PublicKey | null> {
+    try {
+      const stored = await AsyncStorage.getItem(SIGNER_KIND_KEY);
+      if (stored && SIGNER_KINDS.includes(stored as SignerKind)) {
+        this.setActiveKind(stored as SignerKind);
+      }
+    } catch (error) {
+      console.error('Failed to load signer choice:', error);
+    }
+
+    return this.getActive().restoreSession();
+  }
+
+  /**
+   * Connect with a signer, making it the one trades are signed with
+   * The previous signer stays as it was, so switching back doesn't need a new connection
+   */
+  async connect(kind: SignerKind = this.activeKind): Promise<PublicKey | null> {
+    const publicKey = await this.signers[kind].connect();
+    if (!publicKey) {
+      return null;
+    }
+
+    this.setActiveKind(kind);
+    try {
+      await AsyncStorage.setItem(SIGNER_KIND_KEY, kind);
+    } catch (error) {
+      // The choice still holds until the app restarts
+      console.error('Failed to persist signer choice:', error);
+    }
+    return publicKey;
+  }
+
+  disconnect(): Promise<void> {
+    return this.getActive().disconnect();
+  }
+
+  getKind(): SignerKind {
+    return this.activeKind;
+  }
+
+  getActive(): Signer {
+    return this.signers[this.activeKind];
+  }
+
+  getSession(): WalletSession {
+    return this.getActive().getSession();
+  }
+
+  selectAccount(publicKey: PublicKey): Promise<void> {
+    return this.getActive().selectAccount(publicKey);
+  }
+
+  signTransaction<T extends AnyTransaction>(transaction: T): Promise<T | null> {
+    return this.getActive().signTransaction(transaction);
+  }
+
+  signAndSendTransaction(
+    transaction: AnyTransaction,
+    label?: string,
+    lastValidBlockHeight?: number | null
+  ): Promise<string> {
+    return this.getActive().signAndSendTransaction(transaction, label, lastValidBlockHeight);
+  }
+
+  signMessage(message: Uint8Array): Promise<Uint8Array | null> {
+    return this.getActive().signMessage(message);
+  }
+
+  /**
+   * Request airdrop for devnet testing, to the selected account of the active signer
+   */
+  async requestAirdrop(amount: number = 2): Promise<string | null> {
+    const publicKey = this.getSession().selectedAccount?.publicKey;
+    if (!publicKey) {
+      throw new Error('Wallet not connected');
+    }
+    if (!networkSettingsService.supportsAirdrop()) {
+      throw new Error('Airdrops are not available on mainnet');
+    }
+
+    try {
+      const connection = networkSettingsService.getConnection();
+      // The faucet's transaction can't use an older blockhash than this, so it expires with it
+      const latestBlockhash = await connection.getLatestBlockhash();
+      const signature = await connection.requestAirdrop(publicKey, amount * LAMPORTS_PER_SOL);
+
+      const { value } = await connection.confirmTransaction({ signature, ...latestBlockhash });
+      if (value.err) {
+        throw new Error(`Airdrop transaction failed: ${JSON.stringify(value.err)}`);
+      }
+
+      await tradeLedger.record({
+        type: 'airdrop',
+        id: signature,
+        wallet: publicKey.toBase58(),
+        amountSOL: amount,
+        timestamp: Date.now(),
+        status: 'confirmed',
+        signature,
+        confirmedAt: Date.now(),
+      });
+
+      return signature;
+    } catch (error) {
+      console.error('Airdrop failed:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Be told whenever the active signer's session changes, or another signer becomes active
+   * Returns a function that stops listening
+   */
+  subscribe(listener: WalletSessionListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private setActiveKind(kind: SignerKind): void {
+    if (kind === this.activeKind) {
+      return;
+    }
+    this.activeKind = kind;
+    const session = this.getSession();
+    this.listeners.forEach(listener => listener(session));
+  }
+}
+
+// Export singleton instance
+export const signerService = new SignerService([mobileWalletService, seedVaultSigner]);
+// Opening the wallet app to re-authorize only makes sense while it is the signer in use
+networkSettingsService.subscribe(({ connection }) =>
+  mobileWalletService.setNetwork(connection, signerService.getKind() === 'wallet')
+);
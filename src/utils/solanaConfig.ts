@@ -1,11 +1,17 @@
-import { Connection, PublicKey, clusterApiUrl } from '@solana/web3.js';
+import { PublicKey, clusterApiUrl } from '@solana/web3.js';
 
-// Solana network configuration
-export const SOLANA_NETWORK = 'devnet'; // Use devnet for development
+export type SolanaCluster = 'devnet' | 'testnet' | 'mainnet-beta';
+
+// Default Solana network; the network can be changed at runtime via networkSettingsService
+export const SOLANA_NETWORK: SolanaCluster = 'devnet'; // Use devnet for development
 export const RPC_ENDPOINT = clusterApiUrl(SOLANA_NETWORK);
 
-// Initialize Solana connection
-export const connection = new Connection(RPC_ENDPOINT, 'confirmed');
+// Public RPC endpoints per cluster, in order of preference; requests fail over between them
+export const RPC_ENDPOINTS: Record<SolanaCluster, string[]> = {
+  devnet: [clusterApiUrl('devnet'), 'https://rpc.ankr.com/solana_devnet'],
+  testnet: [clusterApiUrl('testnet')],
+  'mainnet-beta': [clusterApiUrl('mainnet-beta'), 'https://rpc.ankr.com/solana'],
+};
 
 // Treasury configuration from the Next.js app
 export const PROJECT_TREASURY = new PublicKey('ATs1VRY6PGi8nSJA1RZJTpEmFc6mXNEnbWBCwWsVKWWY');
@@ -40,8 +46,56 @@ export const STOCK_CATEGORIES = {
   premium: ['CIRCLE', 'GEMINI', 'KRAKEN', 'OPENSEA']
 } as const;
 
-// Mock SOL price for conversions
-export const MOCK_SOL_PRICE_USD = 200;
+// Market data API (null uses the bundled mock quotes; `node test-server.js`
+// serves the same contract at http://localhost:8765)
+export const MARKET_DATA_API_URL: string | null = null;
+
+// Streaming quotes (null disables live ticks; test-server.js serves ws://localhost:8765/stream)
+export const MARKET_DATA_WS_URL: string | null = null;
+
+// Treasury settlement API that co-signs sell payouts (null settles against a
+// local devnet keypair via MockSettlementProvider)
+export const SETTLEMENT_API_URL: string | null = null;
+
+// Pyth SOL/USD price feed per cluster, used for every USD <-> SOL conversion
+export const SOL_USD_PRICE_FEEDS: Record<SolanaCluster, PublicKey> = {
+  devnet: new PublicKey('J83w4HKfqxwcq3BEMMkPFSppX3gqekLyLJBexebFVkix'),
+  testnet: new PublicKey('7VJsBtJzgTftYzEeooSDYyjKXvYRWJHdwvbwfBvTg9K'),
+  'mainnet-beta': new PublicKey('H6ARHf6YXhGYeQfUzQNGk6rDNnLBQKrenN712K4AQJEG'),
+};
+
+// Pyth BONK/USD; BONK only trades on mainnet, so other clusters have no feed and no BONK quotes
+export const BONK_USD_PRICE_FEEDS: Record<SolanaCluster, PublicKey | null> = {
+  devnet: null,
+  testnet: null,
+  'mainnet-beta': new PublicKey('8ihFLu5FimgTQ1Unh4dVyEHUGodJ5gJQCrQf4KUVB9bN'),
+};
+
+// Quotes are refused when the feed is older or less certain than this
+export const PRICE_ORACLE_CONFIG = {
+  maxAgeSeconds: 60,
+  maxSlotLag: 150,
+  maxConfidenceRatio: 0.02,
+  cacheTtlMs: 5000,
+};
+
+// Priority fees: each speed bids this percentile of recently landed fees on the
+// accounts a transaction writes; the total is capped so a fee spike can't drain a wallet
+export const PRIORITY_FEE_CONFIG = {
+  percentiles: { standard: 50, fast: 75, turbo: 95 },
+  minMicroLamports: 1000,
+  maxFeeLamports: 5000000,
+  computeUnitMargin: 1.1,
+  defaultComputeUnits: 200000,
+};
+
+// Address lookup tables v0 transactions may compress their accounts into, per cluster
+// (e.g. one holding the treasury, BONK mint and token programs)
+export const ADDRESS_LOOKUP_TABLES: Record<SolanaCluster, PublicKey[]> = {
+  devnet: [],
+  testnet: [],
+  'mainnet-beta': [],
+};
 
 // Mock BONK token mint address (for testnet)
 export const BONK_MINT = new PublicKey('DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263');
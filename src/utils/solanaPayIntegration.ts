@@ -1,23 +1,48 @@
 import {
-  createTransfer,
-  createTransferInstruction,
   encodeURL,
-  findTransactionSignature,
-  parseURL,
-  validateTransactionSignature,
-  TransferRequestURL,
-  TransactionRequestURL,
+  findReference,
+  FindReferenceError,
+  ValidateTransferError,
+  TransferRequestURLFields,
 } from '@solana/pay';
 import {
+  AddressLookupTableAccount,
   Connection,
+  Keypair,
   PublicKey,
+  SystemInstruction,
   SystemProgram,
   Transaction,
+  TransactionInstruction,
+  TransactionMessage,
+  TransactionVersion,
   LAMPORTS_PER_SOL,
-  SendOptions,
 } from '@solana/web3.js';
-import { connection, PROJECT_TREASURY, FEE_STRUCTURE, MOCK_SOL_PRICE_USD, BONK_MINT } from './solanaConfig';
-import AsyncStorage from '@react-native-async-storage/async-storage';
+import BigNumber from 'bignumber.js';
+import {
+  createAssociatedTokenAccountInstruction,
+  createTransferCheckedInstruction,
+  decodeInstruction,
+  getAssociatedTokenAddress,
+  getMint,
+  isTransferCheckedInstruction,
+  isTransferInstruction,
+} from '@solana/spl-token';
+import { PROJECT_TREASURY, FEE_STRUCTURE, BONK_MINT } from './solanaConfig';
+import { networkSettingsService } from './networkSettings';
+import { priceOracleService } from './priceOracle';
+import { createMemoInstruction, encodeTradeMemo, MEMO_PROGRAM_ID } from './tradeMemo';
+import { tradeLedger, BuyEntry } from './tradeLedger';
+import { priorityFeeService, PriorityFeeEstimate, PriorityFeeSpeed } from './priorityFees';
+import { transactionPreviewService, TransactionPreview } from './transactionPreview';
+import {
+  addressLookupTableService,
+  AnyTransaction,
+  getTransactionMessage,
+  isVersionedTransaction,
+  toTransactionVersion,
+} from './versionedTransactions';
+import { TransferRequest, TransferRequestError } from './transferRequests';
 
 export interface PaymentRequest {
   recipient: PublicKey;
@@ -29,57 +54,81 @@ export interface PaymentRequest {
   memo?: string;
 }
 
+/**
+ * What a transfer request pays, resolved against the chain
+ */
+export interface TransferRequestDetails {
+  // 'SOL', 'BONK' or a shortened mint address
+  symbol: string;
+  decimals: number;
+  baseUnits: bigint;
+}
+
 export interface StockPurchasePayment {
   stockSymbol: string;
   stockPrice: number;
   quantity: number;
   totalUSD: number;
   solAmount: number;
+  // Missing when BONK can't be priced; such a payment can only be made in SOL
   bonkAmount?: number;
   feeSOL: number;
+  feeBONK?: number;
+  solPriceUSD: number;
   category: 'traditional' | 'crypto' | 'premium';
 }
 
+
+// Base fee the runtime charges per signature
+const LAMPORTS_PER_SIGNATURE = 5000;
+
+const SOL_DECIMALS = 9;
+
 /**
  * Solana Pay integration for mobile payments
  * Supports both SOL and BONK token payments
  */
 export class SolanaPayService {
   private connection: Connection;
+  private bonkDecimals: number | null = null;
 
   constructor() {
+    this.connection = networkSettingsService.getConnection();
+  }
+
+  /**
+   * Pay and confirm on another cluster; mint details are re-read from it
+   */
+  setConnection(connection: Connection): void {
     this.connection = connection;
+    this.bonkDecimals = null;
   }
 
   /**
    * Create a Solana Pay transfer URL for stock purchases
    */
   async createStockPurchaseURL(
+    wallet: PublicKey,
     payment: StockPurchasePayment,
     paymentMethod: 'SOL' | 'BONK' = 'SOL'
   ): Promise<{ url: URL; reference: PublicKey }> {
     try {
-      const reference = new PublicKey(Array(32).fill(0).map(() => Math.floor(Math.random() * 256)));
-      
-      const transferRequest: TransferRequestURL = {
+      const reference = Keypair.generate().publicKey;
+
+      const transferRequest: TransferRequestURLFields = {
         recipient: PROJECT_TREASURY,
-        amount: paymentMethod === 'SOL' ? payment.solAmount + payment.feeSOL : payment.bonkAmount || 0,
+        amount: await this.getExpectedTransferAmount(payment, paymentMethod),
         splToken: paymentMethod === 'BONK' ? BONK_MINT : undefined,
         reference,
         label: `Sol Stocks - ${payment.stockSymbol}`,
         message: `Purchase ${payment.quantity} shares of ${payment.stockSymbol} for $${payment.totalUSD.toFixed(2)}`,
-        memo: `STOCK_PURCHASE:${payment.stockSymbol}:${payment.quantity}:${paymentMethod}`,
+        memo: this.createPurchaseMemo(payment, paymentMethod),
       };
 
       const url = encodeURL(transferRequest);
       
-      // Store payment details for confirmation
-      await this.storePaymentReference(reference.toBase58(), {
-        ...payment,
-        paymentMethod,
-        timestamp: Date.now(),
-        status: 'pending',
-      });
+      // Record the purchase as pending until confirmPayment finds it
+      await this.recordPendingPurchase(wallet, reference, payment, paymentMethod);
 
       return { url, reference };
     } catch (error) {
@@ -90,64 +139,579 @@ export class SolanaPayService {
 
   /**
    * Create a direct transfer instruction for mobile wallet
+   * Carries a compute budget and priority fee for the chosen speed
+   * Built as v0 with the cluster's lookup tables when the wallet supports it, legacy otherwise
    */
   async createStockPurchaseTransaction(
     userPublicKey: PublicKey,
     payment: StockPurchasePayment,
-    paymentMethod: 'SOL' | 'BONK' = 'SOL'
-  ): Promise<Transaction> {
+    paymentMethod: 'SOL' | 'BONK' = 'SOL',
+    priorityFeeSpeed: PriorityFeeSpeed = 'standard',
+    transactionVersion: TransactionVersion = 'legacy'
+  ): Promise<{
+    transaction: AnyTransaction;
+    reference: PublicKey;
+    priorityFee: PriorityFeeEstimate;
+    lastValidBlockHeight: number;
+  }> {
     try {
       const transaction = new Transaction();
-      
-      if (paymentMethod === 'SOL') {
-        // Add stock purchase amount transfer
-        const stockTransfer = SystemProgram.transfer({
-          fromPubkey: userPublicKey,
-          toPubkey: PROJECT_TREASURY,
-          lamports: payment.solAmount * LAMPORTS_PER_SOL,
-        });
-        transaction.add(stockTransfer);
+      const reference = Keypair.generate().publicKey;
 
-        // Add trading fee transfer
-        const feeTransfer = SystemProgram.transfer({
-          fromPubkey: userPublicKey,
-          toPubkey: PROJECT_TREASURY,
-          lamports: payment.feeSOL * LAMPORTS_PER_SOL,
-        });
-        transaction.add(feeTransfer);
-      } else if (paymentMethod === 'BONK' && payment.bonkAmount) {
-        // BONK token transfer (would need SPL token program instructions)
-        // For now, we'll implement SOL fallback
-        const totalSOL = payment.solAmount + payment.feeSOL;
-        const transfer = SystemProgram.transfer({
-          fromPubkey: userPublicKey,
-          toPubkey: PROJECT_TREASURY,
-          lamports: totalSOL * LAMPORTS_PER_SOL,
-        });
-        transaction.add(transfer);
-      }
+      await this.addPaymentInstructions(transaction, userPublicKey, payment, paymentMethod);
+
+      // Tag the final transfer so confirmPayment can find and validate it
+      this.attachReference(transaction, reference);
 
-      // Add memo instruction for transaction tracking
-      const memoInstruction = new Transaction().add(
-        SystemProgram.transfer({
-          fromPubkey: userPublicKey,
-          toPubkey: userPublicKey,
-          lamports: 0,
-        })
-      );
-      
       // Set recent blockhash
-      const { blockhash } = await this.connection.getLatestBlockhash();
+      const { blockhash, lastValidBlockHeight } = await this.connection.getLatestBlockhash();
       transaction.recentBlockhash = blockhash;
+      transaction.lastValidBlockHeight = lastValidBlockHeight;
       transaction.feePayer = userPublicKey;
 
-      return transaction;
+      const priorityFee = await priorityFeeService.addPriorityFee(transaction, priorityFeeSpeed);
+
+      const lookupTables = transactionVersion === 'legacy'
+        ? []
+        : await addressLookupTableService.getLookupTables();
+      const compiled = toTransactionVersion(transaction, transactionVersion, lookupTables);
+
+      // Record the purchase as pending until confirmPayment finds it
+      await this.recordPendingPurchase(userPublicKey, reference, payment, paymentMethod);
+
+      return { transaction: compiled, reference, priorityFee, lastValidBlockHeight };
     } catch (error) {
       console.error('Failed to create transaction:', error);
+      if (
+        error instanceof Error &&
+        (error.message.startsWith('Insufficient') ||
+          error.message.startsWith('Transaction is too large') ||
+          error.message.startsWith('BONK payments are unavailable'))
+      ) {
+        throw error;
+      }
       throw new Error('Failed to create stock purchase transaction');
     }
   }
 
+  /**
+   * Priority fee a purchase would pay at the given speed, for showing before the user commits
+   * Sized on the SOL payment; nothing is recorded
+   */
+  async estimatePurchasePriorityFee(
+    userPublicKey: PublicKey,
+    payment: StockPurchasePayment,
+    priorityFeeSpeed: PriorityFeeSpeed
+  ): Promise<PriorityFeeEstimate> {
+    const transaction = new Transaction({ feePayer: userPublicKey });
+    await this.addPaymentInstructions(transaction, userPublicKey, payment, 'SOL');
+    return priorityFeeService.estimate(transaction, priorityFeeSpeed);
+  }
+
+  /**
+   * Simulate a purchase transaction before it is signed
+   * Throws TransactionPreviewError unless the treasury receives exactly the payment,
+   * nobody else receives anything and the buyer pays nothing beyond it and network fees
+   */
+  async previewPurchase(
+    userPublicKey: PublicKey,
+    transaction: AnyTransaction,
+    payment: StockPurchasePayment,
+    paymentMethod: 'SOL' | 'BONK',
+    priorityFee: PriorityFeeEstimate
+  ): Promise<TransactionPreview> {
+    const maxNetworkFeeLamports = this.getMaxNetworkFee(transaction, priorityFee);
+    const lookupTables = await this.getLookupTablesFor(transaction);
+
+    if (paymentMethod === 'SOL') {
+      return transactionPreviewService.verify(transaction, {
+        payer: userPublicKey,
+        payments: [{
+          recipient: PROJECT_TREASURY,
+          mint: null,
+          amount: BigInt(Math.round(payment.solAmount * LAMPORTS_PER_SOL) + Math.round(payment.feeSOL * LAMPORTS_PER_SOL)),
+        }],
+        maxNetworkFeeLamports,
+      }, lookupTables);
+    }
+
+    const decimals = await this.getBonkDecimals();
+    return transactionPreviewService.verify(transaction, {
+      payer: userPublicKey,
+      payments: [{
+        recipient: PROJECT_TREASURY,
+        mint: BONK_MINT,
+        amount:
+          this.toTokenBaseUnits(payment.bonkAmount || 0, decimals) +
+          this.toTokenBaseUnits(payment.feeBONK || 0, decimals),
+      }],
+      // The buyer funds the treasury token account when it doesn't exist yet
+      allowedNewAccounts: [await getAssociatedTokenAddress(BONK_MINT, PROJECT_TREASURY, true)],
+      maxNetworkFeeLamports,
+    }, lookupTables);
+  }
+
+  /**
+   * On-chain details of what a transfer request asks for: the token's symbol and decimals,
+   * and the amount in base units
+   * Throws TransferRequestError when the token doesn't exist, the amount is finer than it
+   * allows, or the recipient can't receive it
+   */
+  async resolveTransferRequest(request: TransferRequest): Promise<TransferRequestDetails> {
+    if (!request.splToken) {
+      const recipientInfo = await this.connection.getAccountInfo(request.recipient);
+      if (recipientInfo && (!recipientInfo.owner.equals(SystemProgram.programId) || recipientInfo.executable)) {
+        throw new TransferRequestError('Payment recipient is not a wallet address');
+      }
+      return this.toTransferRequestDetails(request, 'SOL', SOL_DECIMALS);
+    }
+
+    let decimals: number;
+    try {
+      ({ decimals } = await getMint(this.connection, request.splToken));
+    } catch (error) {
+      console.error('Failed to read requested token mint:', error);
+      throw new TransferRequestError('The requested token does not exist on this network');
+    }
+
+    const symbol = request.splToken.equals(BONK_MINT)
+      ? 'BONK'
+      : `token ${request.splToken.toBase58().slice(0, 4)}...${request.splToken.toBase58().slice(-4)}`;
+    const details = this.toTransferRequestDetails(request, symbol, decimals);
+
+    // Paying into a token account that doesn't exist would mean funding it for the recipient
+    const recipientAccount = await getAssociatedTokenAddress(request.splToken, request.recipient);
+    if (!(await this.connection.getAccountInfo(recipientAccount))) {
+      throw new TransferRequestError(`The recipient can't receive ${symbol} yet`);
+    }
+    return details;
+  }
+
+  /**
+   * Build the transfer a request asks for, tagged with its memo and references
+   * Carries a standard priority fee and is built as the version the wallet supports
+   */
+  async createTransferRequestTransaction(
+    userPublicKey: PublicKey,
+    request: TransferRequest,
+    details: TransferRequestDetails,
+    transactionVersion: TransactionVersion = 'legacy'
+  ): Promise<{ transaction: AnyTransaction; priorityFee: PriorityFeeEstimate; lastValidBlockHeight: number }> {
+    const transaction = new Transaction();
+
+    // Memo goes right before the transfer, without signers, as the Solana Pay spec lays out
+    if (request.memo) {
+      transaction.add(new TransactionInstruction({
+        programId: MEMO_PROGRAM_ID,
+        keys: [],
+        data: Buffer.from(request.memo, 'utf8'),
+      }));
+    }
+
+    let transfer: TransactionInstruction;
+    if (request.splToken) {
+      const sourceAccount = await getAssociatedTokenAddress(request.splToken, userPublicKey);
+      const balance = await this.getTokenBalance(sourceAccount);
+      if (balance < details.baseUnits) {
+        throw new TransferRequestError(
+          `Insufficient ${details.symbol} balance: need ${this.formatTokenAmount(details.baseUnits, details.decimals)}, ` +
+          `have ${this.formatTokenAmount(balance, details.decimals)}`
+        );
+      }
+      transfer = createTransferCheckedInstruction(
+        sourceAccount,
+        request.splToken,
+        await getAssociatedTokenAddress(request.splToken, request.recipient),
+        userPublicKey,
+        details.baseUnits,
+        details.decimals
+      );
+    } else {
+      transfer = SystemProgram.transfer({
+        fromPubkey: userPublicKey,
+        toPubkey: request.recipient,
+        lamports: details.baseUnits,
+      });
+    }
+    request.references.forEach(reference =>
+      transfer.keys.push({ pubkey: reference, isSigner: false, isWritable: false })
+    );
+    transaction.add(transfer);
+
+    const { blockhash, lastValidBlockHeight } = await this.connection.getLatestBlockhash();
+    transaction.recentBlockhash = blockhash;
+    transaction.lastValidBlockHeight = lastValidBlockHeight;
+    transaction.feePayer = userPublicKey;
+
+    const priorityFee = await priorityFeeService.addPriorityFee(transaction, 'standard');
+
+    const lookupTables = transactionVersion === 'legacy'
+      ? []
+      : await addressLookupTableService.getLookupTables();
+    return {
+      transaction: toTransactionVersion(transaction, transactionVersion, lookupTables),
+      priorityFee,
+      lastValidBlockHeight,
+    };
+  }
+
+  /**
+   * Simulate a transfer request's transaction before it is signed
+   * Throws TransactionPreviewError unless the recipient receives exactly the amount
+   * and the payer pays nothing beyond it and network fees
+   */
+  async previewTransferRequest(
+    userPublicKey: PublicKey,
+    transaction: AnyTransaction,
+    request: TransferRequest,
+    details: TransferRequestDetails,
+    priorityFee: PriorityFeeEstimate
+  ): Promise<TransactionPreview> {
+    return transactionPreviewService.verify(transaction, {
+      payer: userPublicKey,
+      payments: [{ recipient: request.recipient, mint: request.splToken, amount: details.baseUnits }],
+      maxNetworkFeeLamports: this.getMaxNetworkFee(transaction, priorityFee),
+    }, await this.getLookupTablesFor(transaction));
+  }
+
+  /**
+   * Find the transfer tagged with the request's first reference and check it pays what was asked
+   * Polls until the timeout; throws ValidateTransferError for a transfer that doesn't match
+   */
+  async confirmTransferRequest(
+    request: TransferRequest,
+    timeout: number = 60000
+  ): Promise<{ signature: string; confirmed: boolean }> {
+    const startTime = Date.now();
+
+    do {
+      try {
+        const { signature } = await findReference(this.connection, request.references[0], {
+          finality: 'confirmed',
+        });
+        await this.validateReferencedTransfer(signature, {
+          recipient: request.recipient,
+          amount: request.amount,
+          splToken: request.splToken,
+          references: request.references,
+        });
+        return { signature, confirmed: true };
+      } catch (error) {
+        if (error instanceof ValidateTransferError) {
+          throw error;
+        }
+        if (!(error instanceof FindReferenceError)) {
+          console.error('Transfer lookup failed:', error);
+        }
+      }
+
+      if (Date.now() - startTime >= timeout) {
+        break;
+      }
+      await new Promise(resolve => setTimeout(resolve, 2000));
+    } while (Date.now() - startTime < timeout);
+
+    return { signature: '', confirmed: false };
+  }
+
+  private toTransferRequestDetails(
+    request: TransferRequest,
+    symbol: string,
+    decimals: number
+  ): TransferRequestDetails {
+    if ((request.amount.decimalPlaces() ?? 0) > decimals) {
+      throw new TransferRequestError(`The amount is more precise than ${symbol} allows`);
+    }
+    return { symbol, decimals, baseUnits: BigInt(request.amount.shiftedBy(decimals).toFixed(0)) };
+  }
+
+  /**
+   * Signature fees plus the priority fee: all a payer should pay besides what it sends
+   */
+  private getMaxNetworkFee(transaction: AnyTransaction, priorityFee: PriorityFeeEstimate): number {
+    const signatureFees = getTransactionMessage(transaction).header.numRequiredSignatures * LAMPORTS_PER_SIGNATURE;
+    return signatureFees + priorityFee.priorityFeeLamports;
+  }
+
+  /**
+   * Lookup tables a transaction may have been compiled with, which simulating it needs
+   */
+  private async getLookupTablesFor(transaction: AnyTransaction): Promise<AddressLookupTableAccount[]> {
+    return isVersionedTransaction(transaction) ? addressLookupTableService.getLookupTables() : [];
+  }
+
+  /**
+   * Memo and transfers that pay for a purchase
+   */
+  private async addPaymentInstructions(
+    transaction: Transaction,
+    userPublicKey: PublicKey,
+    payment: StockPurchasePayment,
+    paymentMethod: 'SOL' | 'BONK'
+  ): Promise<void> {
+    // Add memo instruction for transaction tracking
+    transaction.add(
+      createMemoInstruction(this.createPurchaseMemo(payment, paymentMethod), [userPublicKey])
+    );
+
+    if (paymentMethod === 'SOL') {
+      // Add stock purchase amount transfer
+      const stockTransfer = SystemProgram.transfer({
+        fromPubkey: userPublicKey,
+        toPubkey: PROJECT_TREASURY,
+        lamports: Math.round(payment.solAmount * LAMPORTS_PER_SOL),
+      });
+      transaction.add(stockTransfer);
+
+      // Add trading fee transfer
+      const feeTransfer = SystemProgram.transfer({
+        fromPubkey: userPublicKey,
+        toPubkey: PROJECT_TREASURY,
+        lamports: Math.round(payment.feeSOL * LAMPORTS_PER_SOL),
+      });
+      transaction.add(feeTransfer);
+    } else if (paymentMethod === 'BONK') {
+      this.assertBonkQuoted(payment);
+
+      const decimals = await this.getBonkDecimals();
+      const stockAmount = this.toTokenBaseUnits(payment.bonkAmount, decimals);
+      const feeAmount = this.toTokenBaseUnits(payment.feeBONK || 0, decimals);
+
+      const sourceAccount = await getAssociatedTokenAddress(BONK_MINT, userPublicKey);
+      const treasuryAccount = await getAssociatedTokenAddress(BONK_MINT, PROJECT_TREASURY, true);
+
+      // Refuse to build a transfer the wallet cannot cover
+      const balance = await this.getTokenBalance(sourceAccount);
+      if (balance < stockAmount + feeAmount) {
+        throw new Error(
+          `Insufficient BONK balance: need ${this.formatTokenAmount(stockAmount + feeAmount, decimals)}, ` +
+          `have ${this.formatTokenAmount(balance, decimals)}`
+        );
+      }
+
+      // The buyer pays rent for the treasury token account if it doesn't exist yet
+      const treasuryAccountInfo = await this.connection.getAccountInfo(treasuryAccount);
+      if (!treasuryAccountInfo) {
+        transaction.add(
+          createAssociatedTokenAccountInstruction(
+            userPublicKey,
+            treasuryAccount,
+            PROJECT_TREASURY,
+            BONK_MINT
+          )
+        );
+      }
+
+      // Add stock purchase amount transfer
+      transaction.add(
+        createTransferCheckedInstruction(
+          sourceAccount,
+          BONK_MINT,
+          treasuryAccount,
+          userPublicKey,
+          stockAmount,
+          decimals
+        )
+      );
+
+      // Add trading fee transfer
+      if (feeAmount > BigInt(0)) {
+        transaction.add(
+          createTransferCheckedInstruction(
+            sourceAccount,
+            BONK_MINT,
+            treasuryAccount,
+            userPublicKey,
+            feeAmount,
+            decimals
+          )
+        );
+      }
+    }
+  }
+
+  /**
+   * Add a reference key to the last instruction, which must be the payment transfer
+   * (the layout @solana/pay validateTransfer expects)
+   */
+  private attachReference(transaction: Transaction, reference: PublicKey): void {
+    const transfer = transaction.instructions[transaction.instructions.length - 1];
+    if (!transfer) {
+      throw new Error('Transaction has no transfer to reference');
+    }
+    transfer.keys.push({ pubkey: reference, isSigner: false, isWritable: false });
+  }
+
+  /**
+   * Refuse a BONK payment for a quote that couldn't price BONK
+   */
+  private assertBonkQuoted(
+    payment: Pick<StockPurchasePayment, 'bonkAmount'>
+  ): asserts payment is { bonkAmount: number } {
+    if (!payment.bonkAmount) {
+      throw new Error('BONK payments are unavailable: no reliable BONK price on this network');
+    }
+  }
+
+  /**
+   * Total the treasury should receive for a payment, in SOL or BONK, at on-chain precision
+   */
+  private async getExpectedTransferAmount(
+    payment: Pick<StockPurchasePayment, 'solAmount' | 'bonkAmount' | 'feeSOL' | 'feeBONK'>,
+    paymentMethod: 'SOL' | 'BONK'
+  ): Promise<BigNumber> {
+    if (paymentMethod === 'SOL') {
+      const lamports =
+        Math.round(payment.solAmount * LAMPORTS_PER_SOL) +
+        Math.round(payment.feeSOL * LAMPORTS_PER_SOL);
+      return new BigNumber(lamports).div(LAMPORTS_PER_SOL);
+    }
+
+    this.assertBonkQuoted(payment);
+    const decimals = await this.getBonkDecimals();
+    const baseUnits =
+      this.toTokenBaseUnits(payment.bonkAmount || 0, decimals) +
+      this.toTokenBaseUnits(payment.feeBONK || 0, decimals);
+    return new BigNumber(baseUnits.toString()).shiftedBy(-decimals);
+  }
+
+  /**
+   * The checks @solana/pay validateTransfer makes, for legacy and v0 transactions alike:
+   * the last instruction is a transfer tagged with exactly the references, and the recipient
+   * (or its token account) gained at least the amount
+   * Throws ValidateTransferError when the transaction doesn't pay what was agreed
+   */
+  private async validateReferencedTransfer(
+    signature: string,
+    { recipient, amount, splToken, references }: {
+      recipient: PublicKey;
+      amount: BigNumber;
+      splToken: PublicKey | null;
+      references: PublicKey[];
+    }
+  ): Promise<void> {
+    const response = await this.connection.getTransaction(signature, {
+      commitment: 'confirmed',
+      maxSupportedTransactionVersion: 0,
+    });
+    if (!response) {
+      throw new ValidateTransferError('not found');
+    }
+    const { meta } = response;
+    if (!meta) {
+      throw new ValidateTransferError('missing meta');
+    }
+    if (meta.err) {
+      throw new ValidateTransferError('transaction failed');
+    }
+
+    // Accounts a v0 transaction loaded from lookup tables follow its static ones
+    const { message } = response.transaction;
+    const lookups = meta.loadedAddresses ? { accountKeysFromLookups: meta.loadedAddresses } : undefined;
+    const accountKeys = message.getAccountKeys(lookups).keySegments().flat();
+    const { instructions } = TransactionMessage.decompile(message, lookups);
+
+    const transfer = instructions[instructions.length - 1];
+    if (!transfer) {
+      throw new ValidateTransferError('missing transfer instruction');
+    }
+
+    let extraKeys;
+    try {
+      if (splToken) {
+        const decoded = decodeInstruction(transfer);
+        if (!isTransferCheckedInstruction(decoded) && !isTransferInstruction(decoded)) {
+          throw new Error('Not a token transfer');
+        }
+        extraKeys = decoded.keys.multiSigners;
+      } else {
+        SystemInstruction.decodeTransfer(transfer);
+        extraKeys = transfer.keys.slice(2);
+      }
+    } catch (error) {
+      throw new ValidateTransferError('invalid transfer');
+    }
+    if (
+      extraKeys.length !== references.length ||
+      extraKeys.some((key, index) => !key.pubkey.equals(references[index]))
+    ) {
+      throw new ValidateTransferError('invalid references');
+    }
+
+    const receivingAccount = splToken
+      ? await getAssociatedTokenAddress(splToken, recipient, true)
+      : recipient;
+    const accountIndex = accountKeys.findIndex(key => key.equals(receivingAccount));
+    if (accountIndex === -1) {
+      throw new ValidateTransferError('recipient not found');
+    }
+
+    const [preAmount, postAmount] = splToken
+      ? [meta.preTokenBalances, meta.postTokenBalances].map(balances => new BigNumber(
+          balances?.find(balance => balance.accountIndex === accountIndex)?.uiTokenAmount.uiAmountString || 0
+        ))
+      : [meta.preBalances, meta.postBalances].map(balances =>
+          new BigNumber(balances[accountIndex] || 0).div(LAMPORTS_PER_SOL)
+        );
+    if (postAmount.minus(preAmount).lt(amount)) {
+      throw new ValidateTransferError('amount not transferred');
+    }
+  }
+
+  /**
+   * Get the BONK balance held in the owner's associated token account
+   */
+  async getBonkBalance(owner: PublicKey): Promise<number> {
+    const decimals = await this.getBonkDecimals();
+    const account = await getAssociatedTokenAddress(BONK_MINT, owner);
+    const balance = await this.getTokenBalance(account);
+    return Number(balance) / 10 ** decimals;
+  }
+
+  /**
+   * BONK mint decimals, read once from chain
+   */
+  private async getBonkDecimals(): Promise<number> {
+    if (this.bonkDecimals === null) {
+      const mint = await getMint(this.connection, BONK_MINT);
+      this.bonkDecimals = mint.decimals;
+    }
+    return this.bonkDecimals;
+  }
+
+  /**
+   * Raw token balance of a token account, zero when the account doesn't exist
+   */
+  private async getTokenBalance(tokenAccount: PublicKey): Promise<bigint> {
+    const accountInfo = await this.connection.getAccountInfo(tokenAccount);
+    if (!accountInfo) {
+      return BigInt(0);
+    }
+    const { value } = await this.connection.getTokenAccountBalance(tokenAccount);
+    return BigInt(value.amount);
+  }
+
+  private toTokenBaseUnits(amount: number, decimals: number): bigint {
+    return BigInt(Math.round(amount * 10 ** decimals));
+  }
+
+  private formatTokenAmount(amount: bigint, decimals: number): string {
+    return (Number(amount) / 10 ** decimals).toLocaleString();
+  }
+
+  /**
+   * Trade memo recorded on chain for a purchase
+   */
+  private createPurchaseMemo(payment: StockPurchasePayment, paymentMethod: 'SOL' | 'BONK'): string {
+    return encodeTradeMemo({
+      side: 'buy',
+      symbol: payment.stockSymbol,
+      quantity: payment.quantity,
+      paymentMethod,
+      priceUSD: payment.stockPrice,
+    });
+  }
+
   /**
    * Calculate trading fees based on stock category
    */
@@ -181,25 +745,41 @@ export class SolanaPayService {
 
   /**
    * Convert USD amount to SOL and BONK equivalents
+   * Throws when the SOL/USD oracle is stale rather than quoting a wrong price
+   * The BONK amount is left out when BONK can't be priced, so the trade can still be paid in SOL
    */
-  convertUSDToTokens(usdAmount: number): { solAmount: number; bonkAmount: number } {
-    const solAmount = usdAmount / MOCK_SOL_PRICE_USD;
-    const bonkAmount = usdAmount * 1000000; // Mock BONK rate: 1 USD = 1M BONK
-    
-    return { solAmount, bonkAmount };
+  async convertUSDToTokens(usdAmount: number): Promise<{
+    solAmount: number;
+    bonkAmount?: number;
+    solPriceUSD: number;
+    bonkPriceUSD: number | null;
+  }> {
+    const solPriceUSD = await priceOracleService.getSolPriceUSD();
+    const solAmount = usdAmount / solPriceUSD;
+
+    let bonkPriceUSD: number | null = null;
+    try {
+      bonkPriceUSD = await priceOracleService.getBonkPriceUSD();
+    } catch (error) {
+      console.error('BONK price unavailable:', error);
+    }
+    const bonkAmount = bonkPriceUSD ? usdAmount / bonkPriceUSD : undefined;
+
+    return { solAmount, bonkAmount, solPriceUSD, bonkPriceUSD };
   }
 
   /**
    * Create complete stock purchase payment object
    */
-  createStockPurchasePayment(
+  async createStockPurchasePayment(
     stockSymbol: string,
     stockPrice: number,
     quantity: number
-  ): StockPurchasePayment {
+  ): Promise<StockPurchasePayment> {
     const totalUSD = stockPrice * quantity;
-    const { solAmount, bonkAmount } = this.convertUSDToTokens(totalUSD);
+    const { solAmount, bonkAmount, solPriceUSD, bonkPriceUSD } = await this.convertUSDToTokens(totalUSD);
     const { category, feeSOL } = this.calculateTradingFee(stockSymbol, solAmount, 'buy');
+    const feeBONK = bonkPriceUSD ? (feeSOL * solPriceUSD) / bonkPriceUSD : undefined;
 
     return {
       stockSymbol,
@@ -209,69 +789,76 @@ export class SolanaPayService {
       solAmount,
       bonkAmount,
       feeSOL,
+      feeBONK,
+      solPriceUSD,
       category,
     };
   }
 
   /**
    * Confirm payment by checking transaction on blockchain
+   * Polls until the timeout; a timeout of 0 checks exactly once
    */
-  async confirmPayment(reference: PublicKey, timeout: number = 60000): Promise<{
+  async confirmPayment(wallet: PublicKey, reference: PublicKey, timeout: number = 60000): Promise<{
     signature: string;
     confirmed: boolean;
-    paymentDetails?: any;
+    paymentDetails?: BuyEntry;
   }> {
     try {
       const startTime = Date.now();
-      
-      while (Date.now() - startTime < timeout) {
+      const paymentDetails = await tradeLedger.getEntry(wallet, reference.toBase58());
+
+      if (!paymentDetails || paymentDetails.type !== 'buy') {
+        throw new Error(`No pending payment for reference ${reference.toBase58()}`);
+      }
+
+      do {
         try {
           // Look for transaction with this reference
-          const signature = await findTransactionSignature(
-            this.connection,
-            reference,
-            undefined,
-            'confirmed'
-          );
-
-          if (signature) {
-            // Validate the transaction
-            const isValid = await validateTransactionSignature(
-              this.connection,
-              signature,
-              PROJECT_TREASURY,
-              undefined,
-              reference,
-              'confirmed'
-            );
-
-            if (isValid) {
-              // Get stored payment details
-              const paymentDetails = await this.getPaymentReference(reference.toBase58());
-              
-              // Update payment status
-              if (paymentDetails) {
-                await this.updatePaymentStatus(reference.toBase58(), 'confirmed', signature);
-              }
-
-              return {
-                signature,
-                confirmed: true,
-                paymentDetails,
-              };
-            }
-          }
+          const { signature } = await findReference(this.connection, reference, {
+            finality: 'confirmed',
+          });
+
+          // Validate recipient, amount, token and reference of the transfer
+          await this.validateReferencedTransfer(signature, {
+            recipient: PROJECT_TREASURY,
+            amount: await this.getExpectedTransferAmount(paymentDetails, paymentDetails.paymentMethod),
+            splToken: paymentDetails.paymentMethod === 'BONK' ? BONK_MINT : null,
+            references: [reference],
+          });
+
+          const confirmed = await tradeLedger.updateStatus(wallet, paymentDetails.id, 'confirmed', signature);
+
+          return {
+            signature,
+            confirmed: true,
+            paymentDetails: (confirmed as BuyEntry | null) ?? paymentDetails,
+          };
         } catch (error) {
+          if (error instanceof ValidateTransferError) {
+            // The referenced transaction exists but doesn't pay what was agreed
+            console.error('Payment validation failed:', error);
+            await tradeLedger.updateStatus(wallet, paymentDetails.id, 'failed');
+            return { signature: '', confirmed: false, paymentDetails };
+          }
+          if (!(error instanceof FindReferenceError)) {
+            console.error('Payment lookup failed:', error);
+          }
           // Continue polling
         }
 
+        if (Date.now() - startTime >= timeout) {
+          break;
+        }
+
         // Wait before next check
         await new Promise(resolve => setTimeout(resolve, 2000));
-      }
+      } while (Date.now() - startTime < timeout);
 
       return {
         signature: '',
         confirmed: false,
+        paymentDetails,
       };
     } catch (error) {
       console.error('Payment confirmation failed:', error);
@@ -283,81 +870,46 @@ export class SolanaPayService {
   }
 
   /**
-   * Store payment reference for tracking
+   * Re-check pending payments, e.g. ones whose confirmation timed out before the app closed
    */
-  private async storePaymentReference(reference: string, paymentData: any): Promise<void> {
-    try {
-      await AsyncStorage.setItem(`payment_${reference}`, JSON.stringify(paymentData));
-    } catch (error) {
-      console.error('Failed to store payment reference:', error);
-    }
-  }
+  async confirmPendingPayments(wallet: PublicKey): Promise<void> {
+    const purchases = await tradeLedger.getEntries(wallet, 'buy');
+    const pending = purchases.filter(purchase => purchase.status === 'pending');
 
-  /**
-   * Get payment reference data
-   */
-  private async getPaymentReference(reference: string): Promise<any> {
-    try {
-      const data = await AsyncStorage.getItem(`payment_${reference}`);
-      return data ? JSON.parse(data) : null;
-    } catch (error) {
-      console.error('Failed to get payment reference:', error);
-      return null;
-    }
+    await Promise.all(
+      pending.map(purchase => this.confirmPayment(wallet, new PublicKey(purchase.reference), 0))
+    );
   }
 
   /**
-   * Update payment status
+   * Mark a payment as failed, e.g. when the wallet declined to sign it
    */
-  private async updatePaymentStatus(
-    reference: string,
-    status: 'pending' | 'confirmed' | 'failed',
-    signature?: string
-  ): Promise<void> {
-    try {
-      const existingData = await this.getPaymentReference(reference);
-      if (existingData) {
-        const updatedData = {
-          ...existingData,
-          status,
-          signature,
-          confirmedAt: status === 'confirmed' ? Date.now() : undefined,
-        };
-        await AsyncStorage.setItem(`payment_${reference}`, JSON.stringify(updatedData));
-      }
-    } catch (error) {
-      console.error('Failed to update payment status:', error);
-    }
+  async cancelPayment(wallet: PublicKey, reference: PublicKey): Promise<void> {
+    await tradeLedger.updateStatus(wallet, reference.toBase58(), 'failed');
   }
 
   /**
-   * Get payment history
+   * Record a purchase in the ledger as pending
    */
-  async getPaymentHistory(): Promise<any[]> {
-    try {
-      const keys = await AsyncStorage.getAllKeys();
-      const paymentKeys = keys.filter(key => key.startsWith('payment_'));
-      
-      const payments = await Promise.all(
-        paymentKeys.map(async (key) => {
-          try {
-            const data = await AsyncStorage.getItem(key);
-            return data ? JSON.parse(data) : null;
-          } catch {
-            return null;
-          }
-        })
-      );
-
-      return payments
-        .filter(payment => payment !== null)
-        .sort((a, b) => b.timestamp - a.timestamp);
-    } catch (error) {
-      console.error('Failed to get payment history:', error);
-      return [];
-    }
+  private async recordPendingPurchase(
+    wallet: PublicKey,
+    reference: PublicKey,
+    payment: StockPurchasePayment,
+    paymentMethod: 'SOL' | 'BONK'
+  ): Promise<void> {
+    await tradeLedger.record({
+      type: 'buy',
+      id: reference.toBase58(),
+      reference: reference.toBase58(),
+      wallet: wallet.toBase58(),
+      timestamp: Date.now(),
+      status: 'pending',
+      paymentMethod,
+      ...payment,
+    });
   }
 }
 
 // Export singleton instance
-export const solanaPayService = new SolanaPayService();
\ No newline at end of file
+export const solanaPayService = new SolanaPayService();
+networkSettingsService.subscribe(({ connection }) => solanaPayService.setConnection(connection));
\ No newline at end of file
@@ -0,0 +1,483 @@
+import { PublicKey } from '@solana/web3.js';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { CostBasisMethod, LotSelection } from './costBasis';
+import { SOLANA_NETWORK, SolanaCluster } from './solanaConfig';
+import { networkSettingsService } from './networkSettings';
+
+export type LedgerEntryType = 'buy' | 'sell' | 'fee' | 'airdrop';
+export type LedgerEntryStatus = 'pending' | 'confirmed' | 'failed';
+export type StockCategory = 'traditional' | 'crypto' | 'premium';
+
+interface LedgerEntryBase {
+  id: string;
+  wallet: string;
+  timestamp: number;
+  status: LedgerEntryStatus;
+  signature?: string;
+  confirmedAt?: number;
+}
+
+export interface BuyEntry extends LedgerEntryBase {
+  type: 'buy';
+  reference: string;
+  stockSymbol: string;
+  stockPrice: number;
+  quantity: number;
+  totalUSD: number;
+  category: StockCategory;
+  paymentMethod: 'SOL' | 'BONK';
+  solAmount: number;
+  bonkAmount?: number;
+  feeSOL: number;
+  feeBONK?: number;
+  solPriceUSD: number;
+}
+
+export interface SellEntry extends LedgerEntryBase {
+  type: 'sell';
+  reference: string;
+  stockSymbol: string;
+  stockPrice: number;
+  quantity: number;
+  totalUSD: number;
+  category: StockCategory;
+  grossSOL: number;
+  feeSOL: number;
+  netSOL: number;
+  netLamports: number;
+  solPriceUSD: number;
+  costBasisMethod?: CostBasisMethod;
+  lotSelections?: LotSelection[];
+}
+
+export interface FeeEntry extends LedgerEntryBase {
+  type: 'fee';
+  tradeId: string;
+  amount: number;
+  currency: 'SOL' | 'BONK';
+}
+
+export interface AirdropEntry extends LedgerEntryBase {
+  type: 'airdrop';
+  amountSOL: number;
+}
+
+export type LedgerEntry = BuyEntry | SellEntry | FeeEntry | AirdropEntry;
+
+export type LedgerStorage = Pick<
+  typeof AsyncStorage,
+  'getItem' | 'setItem' | 'removeItem' | 'multiGet' | 'getAllKeys'
+>;
+
+/**
+ * One wallet's history on one cluster
+ */
+export interface LedgerPartition {
+  wallet: string;
+  cluster: SolanaCluster;
+}
+
+/**
+ * Upgrades one partition to the next schema version
+ */
+type LedgerMigration = (ledger: TradeLedger, partition: LedgerPartition) => Promise<void>;
+
+export const LEDGER_SCHEMA_VERSION = 2;
+
+const LEDGER_PREFIX = 'ledger';
+
+// Untyped records written before the ledger existed
+const LEGACY_PAYMENT_PREFIX = 'payment_';
+const LEGACY_SALE_PREFIX = 'sale_';
+
+// Everything written before the network could be changed was on the default cluster
+const MIGRATIONS: Record<number, LedgerMigration> = {
+  1: async (ledger, partition) => {
+    if (partition.cluster === SOLANA_NETWORK) {
+      await ledger.importLegacyRecords(partition);
+    }
+  },
+  2: async (ledger, partition) => {
+    if (partition.cluster === SOLANA_NETWORK) {
+      await ledger.importUnscopedPartition(partition);
+    }
+  },
+};
+
+/**
+ * Typed, per-wallet, per-cluster trade history
+ *
+ * Each wallet has its own partition on each cluster: an index key listing entry
+ * ids in insertion order plus one key per entry, so history loads with a single
+ * multiGet. Partitions carry a schema version and are migrated on first access.
+ * Reads and writes go to the cluster that is current when they start.
+ */
+export class TradeLedger {
+  private storage: LedgerStorage;
+  private cluster: SolanaCluster;
+  private migrated = new Set<string>();
+  private locks = new Map<string, Promise<void>>();
+
+  constructor(storage: LedgerStorage = AsyncStorage, cluster: SolanaCluster = SOLANA_NETWORK) {
+    this.storage = storage;
+    this.cluster = cluster;
+  }
+
+  /**
+   * Scope every later read and write to another cluster
+   */
+  setCluster(cluster: SolanaCluster): void {
+    this.cluster = cluster;
+  }
+
+  /**
+   * Get a wallet's entries, newest first, optionally only those of one type
+   */
+  async getEntries<T extends LedgerEntryType = LedgerEntryType>(
+    wallet: PublicKey | string,
+    type?: T
+  ): Promise<Extract<LedgerEntry, { type: T }>[]> {
+    const partition = this.partitionFor(wallet);
+    await this.ensureMigrated(partition);
+
+    try {
+      const key = partitionKey(partition);
+      const ids = await this.readIndex(key);
+      const entries = await this.storage.multiGet(ids.map(id => entryKey(key, id)));
+
+      return entries
+        .map(([, value]) => parseEntry(value))
+        .filter(
+          (entry): entry is Extract<LedgerEntry, { type: T }> =>
+            entry !== null && (!type || entry.type === type)
+        )
+        .sort((a, b) => b.timestamp - a.timestamp);
+    } catch (error) {
+      console.error('Ledger read failed:', error);
+      throw new Error('Failed to load trade history');
+    }
+  }
+
+  /**
+   * Get a single entry by id
+   */
+  async getEntry(wallet: PublicKey | string, id: string): Promise<LedgerEntry | null> {
+    const partition = this.partitionFor(wallet);
+    await this.ensureMigrated(partition);
+
+    try {
+      return parseEntry(await this.storage.getItem(entryKey(partitionKey(partition), id)));
+    } catch (error) {
+      console.error('Ledger read failed:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Add an entry, or replace the one with the same id
+   */
+  async record(entry: LedgerEntry): Promise<void> {
+    const partition = this.partitionFor(entry.wallet);
+    await this.ensureMigrated(partition);
+    const key = partitionKey(partition);
+    await this.withLock(key, () => this.write(key, entry));
+  }
+
+  /**
+   * Move an entry to a new status
+   * Confirming a buy or sell also records the fee it paid
+   */
+  async updateStatus(
+    wallet: PublicKey | string,
+    id: string,
+    status: LedgerEntryStatus,
+    signature?: string
+  ): Promise<LedgerEntry | null> {
+    const partition = this.partitionFor(wallet);
+    await this.ensureMigrated(partition);
+    const key = partitionKey(partition);
+
+    return this.withLock(key, async () => {
+      const existing = parseEntry(await this.storage.getItem(entryKey(key, id)));
+      if (!existing) {
+        return null;
+      }
+
+      const updated: LedgerEntry = {
+        ...existing,
+        status,
+        signature: signature ?? existing.signature,
+        confirmedAt: status === 'confirmed' ? existing.confirmedAt ?? Date.now() : undefined,
+      };
+      await this.write(key, updated);
+
+      if (status === 'confirmed' && (updated.type === 'buy' || updated.type === 'sell')) {
+        await this.write(key, feeEntryFor(updated));
+      }
+
+      return updated;
+    });
+  }
+
+  /**
+   * Move untyped `payment_` / `sale_` records belonging to a wallet into a partition
+   * Records without a wallet predate multi-wallet support and go to the first wallet opened
+   */
+  async importLegacyRecords(partition: LedgerPartition): Promise<void> {
+    const { wallet } = partition;
+    const key = partitionKey(partition);
+    const keys = await this.storage.getAllKeys();
+    const legacyKeys = keys.filter(
+      legacyKey =>
+        legacyKey.startsWith(LEGACY_PAYMENT_PREFIX) || legacyKey.startsWith(LEGACY_SALE_PREFIX)
+    );
+    if (legacyKeys.length === 0) {
+      return;
+    }
+
+    const records = await this.storage.multiGet(legacyKeys);
+    for (const [legacyKey, value] of records) {
+      let parsed: unknown;
+      try {
+        parsed = value ? JSON.parse(value) : null;
+      } catch {
+        parsed = null;
+      }
+      const record = isLegacyRecord(parsed) ? parsed : null;
+
+      if (record && record.wallet && record.wallet !== wallet) {
+        continue;
+      }
+
+      const entry = record ? fromLegacyRecord(legacyKey, record, wallet) : null;
+      if (entry) {
+        await this.write(key, entry);
+        if (entry.status === 'confirmed' && (entry.type === 'buy' || entry.type === 'sell')) {
+          await this.write(key, feeEntryFor(entry));
+        }
+      }
+      await this.storage.removeItem(legacyKey);
+    }
+  }
+
+  /**
+   * Move a wallet's partition from before ledgers were scoped by cluster into a partition
+   */
+  async importUnscopedPartition(partition: LedgerPartition): Promise<void> {
+    const unscopedKey = `${LEDGER_PREFIX}:${partition.wallet}`;
+    const ids = await this.readIndex(unscopedKey);
+    const key = partitionKey(partition);
+
+    const entries = await this.storage.multiGet(ids.map(id => entryKey(unscopedKey, id)));
+    for (const [, value] of entries) {
+      const entry = parseEntry(value);
+      if (entry) {
+        await this.write(key, entry);
+      }
+    }
+
+    // Only drop the old partition once every entry has been copied
+    for (const id of ids) {
+      await this.storage.removeItem(entryKey(unscopedKey, id));
+    }
+    await this.storage.removeItem(indexKey(unscopedKey));
+    await this.storage.removeItem(versionKey(unscopedKey));
+  }
+
+  private partitionFor(wallet: PublicKey | string): LedgerPartition {
+    return { wallet: toWalletKey(wallet), cluster: this.cluster };
+  }
+
+  private async ensureMigrated(partition: LedgerPartition): Promise<void> {
+    const key = partitionKey(partition);
+    if (this.migrated.has(key)) {
+      return;
+    }
+
+    await this.withLock(key, async () => {
+      if (this.migrated.has(key)) {
+        return;
+      }
+
+      try {
+        const stored = await this.storage.getItem(versionKey(key));
+        let version = stored ? Number(stored) : 0;
+
+        while (version < LEDGER_SCHEMA_VERSION) {
+          const next = version + 1;
+          await MIGRATIONS[next](this, partition);
+          await this.storage.setItem(versionKey(key), String(next));
+          version = next;
+        }
+
+        this.migrated.add(key);
+      } catch (error) {
+        console.error('Ledger migration failed:', error);
+        throw new Error('Failed to upgrade trade history');
+      }
+    });
+  }
+
+  private async write(key: string, entry: LedgerEntry): Promise<void> {
+    try {
+      // Entry first, so the index never lists an id that has no entry
+      await this.storage.setItem(entryKey(key, entry.id), JSON.stringify(entry));
+
+      const ids = await this.readIndex(key);
+      if (!ids.includes(entry.id)) {
+        ids.push(entry.id);
+        await this.storage.setItem(indexKey(key), JSON.stringify(ids));
+      }
+    } catch (error) {
+      console.error('Ledger write failed:', error);
+      throw new Error('Failed to record trade');
+    }
+  }
+
+  private async readIndex(key: string): Promise<string[]> {
+    const data = await this.storage.getItem(indexKey(key));
+    const ids = data ? JSON.parse(data) : [];
+    return Array.isArray(ids) ? ids : [];
+  }
+
+  /**
+   * Run writes to one partition one at a time so concurrent updates can't drop index ids
+   */
+  private async withLock<T>(key: string, task: () => Promise<T>): Promise<T> {
+    const previous = this.locks.get(key) ?? Promise.resolve();
+    let release!: () => void;
+    const current = new Promise<void>(resolve => {
+      release = resolve;
+    });
+    this.locks.set(key, previous.then(() => current));
+
+    await previous;
+    try {
+      return await task();
+    } finally {
+      release();
+    }
+  }
+}
+
+function partitionKey(partition: LedgerPartition): string {
+  return `${LEDGER_PREFIX}:${partition.cluster}:${partition.wallet}`;
+}
+
+function indexKey(partition: string): string {
+  return `${partition}:index`;
+}
+
+function versionKey(partition: string): string {
+  return `${partition}:version`;
+}
+
+function entryKey(partition: string, id: string): string {
+  return `${partition}:entry:${id}`;
+}
+
+function toWalletKey(wallet: PublicKey | string): string {
+  return typeof wallet === 'string' ? wallet : wallet.toBase58();
+}
+
+function parseEntry(value: string | null): LedgerEntry | null {
+  if (!value) {
+    return null;
+  }
+  try {
+    const entry = JSON.parse(value);
+    return entry && typeof entry.id === 'string' && typeof entry.type === 'string' ? entry : null;
+  } catch {
+    return null;
+  }
+}
+
+function feeEntryFor(trade: BuyEntry | SellEntry): FeeEntry {
+  const paidInBonk = trade.type === 'buy' && trade.paymentMethod === 'BONK';
+
+  return {
+    type: 'fee',
+    id: `fee:${trade.id}`,
+    wallet: trade.wallet,
+    tradeId: trade.id,
+    amount: paidInBonk ? (trade as BuyEntry).feeBONK ?? 0 : trade.feeSOL,
+    currency: paidInBonk ? 'BONK' : 'SOL',
+    timestamp: trade.timestamp,
+    status: 'confirmed',
+    signature: trade.signature,
+    confirmedAt: trade.confirmedAt,
+  };
+}
+
+/**
+ * A `payment_` / `sale_` record as JSON, with nothing about its fields known yet
+ */
+type LegacyRecord = Record<string, unknown>;
+
+const LEDGER_STATUSES: LedgerEntryStatus[] = ['pending', 'confirmed', 'failed'];
+const STOCK_CATEGORIES: StockCategory[] = ['traditional', 'crypto', 'premium'];
+
+function isLegacyRecord(value: unknown): value is LegacyRecord {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function optionalNumber(value: unknown): number | undefined {
+  return typeof value === 'number' && isFinite(value) ? value : undefined;
+}
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === 'string' ? value : undefined;
+}
+
+function fromLegacyRecord(key: string, record: LegacyRecord, wallet: string): LedgerEntry | null {
+  const quantity = optionalNumber(record.quantity);
+  if (typeof record.stockSymbol !== 'string' || quantity === undefined || !(quantity > 0)) {
+    return null;
+  }
+
+  const status = LEDGER_STATUSES.find(known => known === record.status) ?? 'pending';
+  const stockPrice = optionalNumber(record.stockPrice) ?? 0;
+  const base = {
+    wallet,
+    timestamp: optionalNumber(record.timestamp) ?? optionalNumber(record.createdAt) ?? 0,
+    status,
+    signature: optionalString(record.signature),
+    confirmedAt: optionalNumber(record.confirmedAt),
+    stockSymbol: record.stockSymbol,
+    stockPrice,
+    quantity,
+    totalUSD: optionalNumber(record.totalUSD) ?? stockPrice * quantity,
+    category: STOCK_CATEGORIES.find(known => known === record.category) ?? 'traditional',
+    feeSOL: optionalNumber(record.feeSOL) ?? 0,
+    solPriceUSD: optionalNumber(record.solPriceUSD) ?? 0,
+  };
+
+  if (key.startsWith(LEGACY_SALE_PREFIX)) {
+    const reference = optionalString(record.reference) ?? key.slice(LEGACY_SALE_PREFIX.length);
+    return {
+      ...base,
+      type: 'sell',
+      id: reference,
+      reference,
+      grossSOL: optionalNumber(record.grossSOL) ?? 0,
+      netSOL: optionalNumber(record.netSOL) ?? 0,
+      netLamports: optionalNumber(record.netLamports) ?? 0,
+    };
+  }
+
+  const reference = optionalString(record.reference) ?? key.slice(LEGACY_PAYMENT_PREFIX.length);
+  return {
+    ...base,
+    type: 'buy',
+    id: reference,
+    reference,
+    paymentMethod: record.paymentMethod === 'BONK' ? 'BONK' : 'SOL',
+    solAmount: optionalNumber(record.solAmount) ?? 0,
+    bonkAmount: optionalNumber(record.bonkAmount),
+    feeBONK: optionalNumber(record.feeBONK),
+  };
+}
+
+// Export singleton instance
+export const tradeLedger = new TradeLedger(AsyncStorage, networkSettingsService.getCluster());
+networkSettingsService.subscribe(({ cluster }) => tradeLedger.setCluster(cluster));
@@ -0,0 +1,217 @@
+import {
+  Connection,
+  PublicKey,
+  TransactionInstruction,
+  TransactionMessage,
+} from '@solana/web3.js';
+import { networkSettingsService } from './networkSettings';
+import type { LedgerEntry } from './tradeLedger';
+
+export const MEMO_PROGRAM_ID = new PublicKey('MemoSq4gqABAXKb96qnH8TysNcWxMyWCqXgDLGmfcHr');
+
+// Memo layout: SOLSTOCKS:<version>:<BUY|SELL>:<symbol>:<quantity>:<SOL|BONK>:<priceUSD>
+export const TRADE_MEMO_PREFIX = 'SOLSTOCKS';
+export const TRADE_MEMO_VERSION = 1;
+
+// Memos written by createStockPurchaseURL before the versioned schema
+const LEGACY_PURCHASE_PREFIX = 'STOCK_PURCHASE';
+
+const SYMBOL_PATTERN = /^[A-Z0-9.]{1,12}$/;
+
+export interface TradeMemo {
+  version: number;
+  side: 'buy' | 'sell';
+  symbol: string;
+  quantity: number;
+  paymentMethod: 'SOL' | 'BONK';
+  priceUSD?: number;
+}
+
+export interface DecodedTrade extends TradeMemo {
+  signature: string;
+  slot: number;
+  blockTime: number | null;
+}
+
+/**
+ * Serialize a trade into the on-chain memo format
+ */
+export function encodeTradeMemo(memo: Omit<TradeMemo, 'version'>): string {
+  if (!SYMBOL_PATTERN.test(memo.symbol)) {
+    throw new Error(`Invalid stock symbol for memo: ${memo.symbol}`);
+  }
+  if (!(memo.quantity > 0) || !isFinite(memo.quantity)) {
+    throw new Error('Trade memo quantity must be positive');
+  }
+
+  return [
+    TRADE_MEMO_PREFIX,
+    TRADE_MEMO_VERSION,
+    memo.side.toUpperCase(),
+    memo.symbol,
+    memo.quantity,
+    memo.paymentMethod,
+    memo.priceUSD !== undefined ? memo.priceUSD.toFixed(4) : '',
+  ].join(':');
+}
+
+/**
+ * Parse a memo string back into a trade, or null if it isn't one of ours
+ */
+export function decodeTradeMemo(text: string): TradeMemo | null {
+  const parts = text.trim().split(':');
+
+  if (parts[0] === LEGACY_PURCHASE_PREFIX && parts.length === 4) {
+    const [, symbol, quantity, paymentMethod] = parts;
+    return buildTradeMemo(0, 'BUY', symbol, quantity, paymentMethod, '');
+  }
+
+  if (parts[0] !== TRADE_MEMO_PREFIX) {
+    return null;
+  }
+
+  const version = Number(parts[1]);
+  if (version === 1 && parts.length === 7) {
+    const [, , side, symbol, quantity, paymentMethod, priceUSD] = parts;
+    return buildTradeMemo(version, side, symbol, quantity, paymentMethod, priceUSD);
+  }
+
+  // Unknown future versions are skipped rather than misread
+  return null;
+}
+
+function buildTradeMemo(
+  version: number,
+  side: string,
+  symbol: string,
+  quantity: string,
+  paymentMethod: string,
+  priceUSD: string
+): TradeMemo | null {
+  const parsedQuantity = Number(quantity);
+  const parsedPrice = priceUSD ? Number(priceUSD) : undefined;
+
+  if (
+    (side !== 'BUY' && side !== 'SELL') ||
+    !SYMBOL_PATTERN.test(symbol) ||
+    !(parsedQuantity > 0) ||
+    (paymentMethod !== 'SOL' && paymentMethod !== 'BONK') ||
+    (parsedPrice !== undefined && !(parsedPrice >= 0))
+  ) {
+    return null;
+  }
+
+  return {
+    version,
+    side: side === 'BUY' ? 'buy' : 'sell',
+    symbol,
+    quantity: parsedQuantity,
+    paymentMethod,
+    priceUSD: parsedPrice,
+  };
+}
+
+/**
+ * Build an SPL Memo program instruction
+ * Every signer listed must also sign the transaction
+ */
+export function createMemoInstruction(memo: string, signers: PublicKey[] = []): TransactionInstruction {
+  return new TransactionInstruction({
+    programId: MEMO_PROGRAM_ID,
+    keys: signers.map(pubkey => ({ pubkey, isSigner: true, isWritable: false })),
+    data: Buffer.from(memo, 'utf8'),
+  });
+}
+
+/**
+ * Rebuilds a wallet's trades from the memos in its on-chain history
+ */
+export class TradeHistoryDecoder {
+  private connection: Connection;
+
+  constructor(connection: Connection) {
+    this.connection = connection;
+  }
+
+  /**
+   * Read history from another cluster
+   */
+  setConnection(connection: Connection): void {
+    this.connection = connection;
+  }
+
+  /**
+   * Fetch recent successful transactions for a wallet and decode their trade memos
+   * Only memos the wallet paid for or signed count: anyone can add a memo to a
+   * transaction that merely mentions the wallet
+   */
+  async fetchTrades(wallet: PublicKey, limit: number = 100): Promise<DecodedTrade[]> {
+    try {
+      const signatures = await this.connection.getSignaturesForAddress(wallet, { limit });
+      const candidates = signatures.filter(info => info.memo !== null && info.err === null);
+      if (candidates.length === 0) {
+        return [];
+      }
+
+      const transactions = await this.connection.getTransactions(
+        candidates.map(info => info.signature),
+        { maxSupportedTransactionVersion: 0 }
+      );
+
+      const trades: DecodedTrade[] = [];
+      transactions.forEach((transaction, index) => {
+        if (!transaction) {
+          return;
+        }
+
+        // Accounts a v0 transaction loaded from lookup tables follow its static ones
+        const loadedAddresses = transaction.meta?.loadedAddresses;
+        const lookups = loadedAddresses ? { accountKeysFromLookups: loadedAddresses } : undefined;
+        const { payerKey, instructions } = TransactionMessage.decompile(
+          transaction.transaction.message,
+          lookups
+        );
+        const paidByWallet = payerKey.equals(wallet);
+
+        instructions.forEach(instruction => {
+          if (!instruction.programId.equals(MEMO_PROGRAM_ID)) {
+            return;
+          }
+          const signedByWallet = instruction.keys.some(
+            key => key.isSigner && key.pubkey.equals(wallet)
+          );
+          const trade = paidByWallet || signedByWallet
+            ? decodeTradeMemo(instruction.data.toString('utf8'))
+            : null;
+          if (trade) {
+            trades.push({
+              ...trade,
+              signature: candidates[index].signature,
+              slot: transaction.slot,
+              blockTime: transaction.blockTime ?? null,
+            });
+          }
+        });
+      });
+
+      return trades;
+    } catch (error) {
+      console.error('Trade history decoding failed:', error);
+      throw new Error('Failed to load on-chain trade history');
+    }
+  }
+
+  /**
+   * Trades on chain that a wallet's ledger has no record of, e.g. ones made
+   * before a reinstall or from another device
+   */
+  async findUnrecordedTrades(wallet: PublicKey, entries: LedgerEntry[]): Promise<DecodedTrade[]> {
+    const recorded = new Set(entries.map(entry => entry.signature).filter(Boolean));
+    const trades = await this.fetchTrades(wallet);
+    return trades.filter(trade => !recorded.has(trade.signature));
+  }
+}
+
+// Export singleton instance
+export const tradeHistoryDecoder = new TradeHistoryDecoder(networkSettingsService.getConnection());
+networkSettingsService.subscribe(({ connection }) => tradeHistoryDecoder.setConnection(connection));
@@ -0,0 +1,324 @@
+import {
+  Connection,
+  SendTransactionError,
+  SignatureStatus,
+} from '@solana/web3.js';
+import { networkSettingsService } from './networkSettings';
+import {
+  AnyTransaction,
+  getTransactionMessage,
+  getTransactionSignature,
+  isVersionedTransaction,
+} from './versionedTransactions';
+
+/**
+ * Where a sent transaction is
+ * `rejected`, `expired` and `failed` mean it will never land; `timeout` means
+ * we stopped watching without knowing
+ */
+export type TransactionStatus =
+  | 'sending'
+  | 'sent'
+  | 'processed'
+  | 'confirmed'
+  | 'finalized'
+  | 'rejected'
+  | 'expired'
+  | 'failed'
+  | 'timeout';
+
+export interface TransactionStatusEvent {
+  signature: string;
+  label: string;
+  status: TransactionStatus;
+  error: string | null;
+  rebroadcasts: number;
+  updatedAt: number;
+  // False once no later status will be reported
+  tracking: boolean;
+}
+
+export type TransactionStatusListener = (event: TransactionStatusEvent) => void;
+
+/**
+ * Why a transaction did not reach `confirmed`
+ * `signature` is null when it was never signed
+ */
+export class TransactionLifecycleError extends Error {
+  readonly status: 'rejected' | 'expired' | 'failed' | 'timeout';
+  readonly signature: string | null;
+
+  constructor(status: TransactionLifecycleError['status'], signature: string | null, message: string) {
+    super(message);
+    this.name = 'TransactionLifecycleError';
+    this.status = status;
+    this.signature = signature;
+  }
+
+  /**
+   * True when the transaction can no longer land, so whatever it paid for can be cancelled
+   */
+  get isFinal(): boolean {
+    return this.status !== 'timeout';
+  }
+}
+
+interface TrackedTransaction {
+  signature: string;
+  label: string;
+  rawTransaction: Buffer;
+  blockhash: string;
+  lastValidBlockHeight: number | null;
+  rebroadcasts: number;
+}
+
+const POLL_INTERVAL_MS = 2000;
+// Safety net for when the RPC can't tell us whether the blockhash expired
+const MAX_TRACKING_MS = 180000;
+const MAX_FINALIZATION_MS = 60000;
+const MAX_RECENT_EVENTS = 20;
+
+const IN_FLIGHT: TransactionStatus[] = ['sending', 'sent', 'processed', 'confirmed'];
+
+/**
+ * Sends signed transactions and follows them through processed, confirmed and finalized
+ *
+ * Until a transaction is seen, the same signed bytes are rebroadcast; that is safe because
+ * a signature can only execute once. Once the blockhash is past `lastValidBlockHeight`
+ * the transaction can never land and is reported as expired.
+ */
+export class TransactionLifecycleManager {
+  private connection: Connection;
+  private listeners = new Set<TransactionStatusListener>();
+  private events = new Map<string, TransactionStatusEvent>();
+
+  constructor(connection: Connection) {
+    this.connection = connection;
+  }
+
+  /**
+   * Send and track on another cluster
+   * Transactions already in flight keep the connection they were sent on
+   */
+  setConnection(connection: Connection): void {
+    this.connection = connection;
+  }
+
+  /**
+   * Send a signed transaction and resolve with its signature once it is confirmed
+   * Tracking continues to finalized in the background
+   * Throws TransactionLifecycleError when it is rejected, fails, expires or can't be followed
+   * Versioned transactions don't carry `lastValidBlockHeight`, so pass it when it is known
+   */
+  async sendAndConfirm(
+    transaction: AnyTransaction,
+    label: string,
+    lastValidBlockHeight: number | null = isVersionedTransaction(transaction)
+      ? null
+      : transaction.lastValidBlockHeight ?? null
+  ): Promise<string> {
+    const signature = getTransactionSignature(transaction);
+    if (!signature) {
+      throw new Error('Transaction must be signed before it is sent');
+    }
+
+    const connection = this.connection;
+    const tracked: TrackedTransaction = {
+      signature,
+      label,
+      rawTransaction: Buffer.from(transaction.serialize()),
+      blockhash: getTransactionMessage(transaction).recentBlockhash,
+      lastValidBlockHeight,
+      rebroadcasts: 0,
+    };
+
+    this.emit(tracked, 'sending');
+    try {
+      await connection.sendRawTransaction(tracked.rawTransaction, { maxRetries: 0 });
+    } catch (error) {
+      // Preflight turned it down, so it was never forwarded
+      if (error instanceof SendTransactionError) {
+        const message = error.message.replace(/^Failed to send transaction: /, '');
+        this.emit(tracked, 'rejected', message);
+        throw new TransactionLifecycleError('rejected', tracked.signature, message);
+      }
+      // The node may or may not have it; rebroadcasting settles that
+      console.error('Failed to send transaction, will rebroadcast:', error);
+    }
+    this.emit(tracked, 'sent');
+
+    return this.follow(connection, tracked);
+  }
+
+  /**
+   * Latest status of recently sent transactions, newest first
+   */
+  getRecent(): TransactionStatusEvent[] {
+    return Array.from(this.events.values()).sort((a, b) => b.updatedAt - a.updatedAt);
+  }
+
+  /**
+   * Be told whenever a tracked transaction changes status
+   * Returns a function that stops listening
+   */
+  subscribe(listener: TransactionStatusListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Poll until confirmed, rebroadcasting while the cluster hasn't seen it
+   */
+  private async follow(connection: Connection, tracked: TrackedTransaction): Promise<string> {
+    const startedAt = Date.now();
+
+    while (Date.now() - startedAt < MAX_TRACKING_MS) {
+      await sleep(POLL_INTERVAL_MS);
+
+      const status = await this.getStatus(connection, tracked.signature, false);
+      if (status?.err) {
+        return this.fail(tracked, status);
+      }
+      if (status?.confirmationStatus === 'confirmed' || status?.confirmationStatus === 'finalized') {
+        return this.landed(connection, tracked, status);
+      }
+      if (
+        status?.confirmationStatus === 'processed' &&
+        this.events.get(tracked.signature)?.status !== 'processed'
+      ) {
+        this.emit(tracked, 'processed');
+      }
+
+      if (await this.isExpired(connection, tracked)) {
+        // It may have landed between the last poll and the expiry check
+        const late = await this.getStatus(connection, tracked.signature, true);
+        if (late?.err) {
+          return this.fail(tracked, late);
+        }
+        if (late?.confirmationStatus === 'confirmed' || late?.confirmationStatus === 'finalized') {
+          return this.landed(connection, tracked, late);
+        }
+
+        const message = 'Transaction expired before it was confirmed';
+        this.emit(tracked, 'expired', message);
+        throw new TransactionLifecycleError('expired', tracked.signature, message);
+      }
+
+      if (!status) {
+        tracked.rebroadcasts += 1;
+        connection
+          .sendRawTransaction(tracked.rawTransaction, { skipPreflight: true, maxRetries: 0 })
+          .catch(error => console.error('Rebroadcast failed:', error));
+        this.emit(tracked, 'sent');
+      }
+    }
+
+    const message = 'Stopped waiting for confirmation; the transaction may still land';
+    this.emit(tracked, 'timeout', message);
+    throw new TransactionLifecycleError('timeout', tracked.signature, message);
+  }
+
+  private landed(connection: Connection, tracked: TrackedTransaction, status: SignatureStatus): string {
+    if (status.confirmationStatus === 'finalized') {
+      this.emit(tracked, 'finalized');
+    } else {
+      this.emit(tracked, 'confirmed');
+      this.followToFinalized(connection, tracked).catch(error =>
+        console.error('Finalization tracking failed:', error)
+      );
+    }
+    return tracked.signature;
+  }
+
+  private fail(tracked: TrackedTransaction, status: SignatureStatus): never {
+    const message = `Transaction failed: ${JSON.stringify(status.err)}`;
+    this.emit(tracked, 'failed', message);
+    throw new TransactionLifecycleError('failed', tracked.signature, message);
+  }
+
+  private async followToFinalized(connection: Connection, tracked: TrackedTransaction): Promise<void> {
+    const startedAt = Date.now();
+    while (Date.now() - startedAt < MAX_FINALIZATION_MS) {
+      await sleep(POLL_INTERVAL_MS);
+      const status = await this.getStatus(connection, tracked.signature, false);
+      if (status?.confirmationStatus === 'finalized') {
+        this.emit(tracked, 'finalized');
+        return;
+      }
+    }
+
+    // Still confirmed, but nothing more will be reported
+    this.emit(tracked, 'confirmed', null, false);
+  }
+
+  /**
+   * Signature status, or null when unknown or the RPC can't be reached
+   */
+  private async getStatus(
+    connection: Connection,
+    signature: string,
+    searchTransactionHistory: boolean
+  ): Promise<SignatureStatus | null> {
+    try {
+      const { value } = await connection.getSignatureStatuses([signature], { searchTransactionHistory });
+      return value[0];
+    } catch (error) {
+      console.error('Failed to get signature status:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Whether the blockhash is too old for the transaction to ever land
+   * Errs towards "not yet" when the RPC can't answer
+   */
+  private async isExpired(connection: Connection, tracked: TrackedTransaction): Promise<boolean> {
+    try {
+      if (tracked.lastValidBlockHeight !== null) {
+        const blockHeight = await connection.getBlockHeight('confirmed');
+        return blockHeight > tracked.lastValidBlockHeight;
+      }
+      const { value } = await connection.isBlockhashValid(tracked.blockhash, { commitment: 'confirmed' });
+      return !value;
+    } catch (error) {
+      console.error('Failed to check blockhash expiry:', error);
+      return false;
+    }
+  }
+
+  private emit(
+    tracked: TrackedTransaction,
+    status: TransactionStatus,
+    error: string | null = null,
+    tracking: boolean = IN_FLIGHT.includes(status)
+  ): void {
+    const event: TransactionStatusEvent = {
+      signature: tracked.signature,
+      label: tracked.label,
+      status,
+      error,
+      rebroadcasts: tracked.rebroadcasts,
+      updatedAt: Date.now(),
+      tracking,
+    };
+
+    this.events.delete(tracked.signature);
+    this.events.set(tracked.signature, event);
+    if (this.events.size > MAX_RECENT_EVENTS) {
+      const [oldest] = this.events.keys();
+      this.events.delete(oldest);
+    }
+
+    this.listeners.forEach(listener => listener(event));
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+// Export singleton instance
+export const transactionLifecycle = new TransactionLifecycleManager(networkSettingsService.getConnection());
+networkSettingsService.subscribe(({ connection }) => transactionLifecycle.setConnection(connection));
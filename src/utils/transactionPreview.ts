@@ -0,0 +1,267 @@
+import {
+  AddressLookupTableAccount,
+  Connection,
+  PublicKey,
+  VersionedTransaction,
+} from '@solana/web3.js';
+import { AccountLayout, ACCOUNT_SIZE, TOKEN_PROGRAM_ID } from '@solana/spl-token';
+import { networkSettingsService } from './networkSettings';
+import { AnyTransaction, getTransactionMessage, isVersionedTransaction } from './versionedTransactions';
+
+/**
+ * How one balance moves if the transaction lands
+ * SOL changes are keyed by the account itself; token changes by the token account,
+ * with `owner` naming the wallet that holds it
+ */
+export interface BalanceChange {
+  address: string;
+  owner: string;
+  // null for SOL
+  mint: string | null;
+  before: bigint;
+  after: bigint;
+  change: bigint;
+  // The account does not exist yet and the transaction creates it
+  created: boolean;
+}
+
+export interface TransactionPreview {
+  err: string | null;
+  logs: string[];
+  unitsConsumed: number | null;
+  balanceChanges: BalanceChange[];
+}
+
+/**
+ * What a transaction is supposed to do, checked against its simulation
+ */
+export interface PreviewExpectation {
+  payer: PublicKey;
+  // Exact amounts, in lamports or token base units, each recipient must end up with
+  payments: { recipient: PublicKey; mint: PublicKey | null; amount: bigint }[];
+  // Accounts the transaction may create, funding their rent from the payer
+  allowedNewAccounts?: PublicKey[];
+  // Signature and priority fees the payer may pay on top of the payments
+  maxNetworkFeeLamports: number;
+}
+
+/**
+ * Raised when a simulation shows a transaction would not do what it should
+ */
+export class TransactionPreviewError extends Error {
+  readonly problems: string[];
+  readonly preview: TransactionPreview;
+
+  constructor(problems: string[], preview: TransactionPreview) {
+    super(problems.join('\n'));
+    this.name = 'TransactionPreviewError';
+    this.problems = problems;
+    this.preview = preview;
+  }
+}
+
+/**
+ * Dry-runs transactions against the current chain state
+ */
+export class TransactionPreviewService {
+  private connection: Connection;
+
+  constructor(connection: Connection) {
+    this.connection = connection;
+  }
+
+  /**
+   * Simulate on another cluster
+   */
+  setConnection(connection: Connection): void {
+    this.connection = connection;
+  }
+
+  /**
+   * Simulate a transaction and decode how it changes SOL and SPL token balances
+   * Signatures are not checked, so this works before the wallet signs
+   * A v0 transaction needs the lookup tables it was compiled with to resolve its accounts
+   */
+  async simulate(
+    transaction: AnyTransaction,
+    lookupTables: AddressLookupTableAccount[] = []
+  ): Promise<TransactionPreview> {
+    if (!isVersionedTransaction(transaction) && (!transaction.feePayer || !transaction.recentBlockhash)) {
+      throw new Error('Transaction needs a fee payer and blockhash before it can be simulated');
+    }
+
+    const message = getTransactionMessage(transaction);
+    const accountKeys = message
+      .getAccountKeys({ addressLookupTableAccounts: lookupTables })
+      .keySegments()
+      .flat();
+    const addresses = accountKeys.map(key => key.toBase58());
+
+    const [before, { value }] = await Promise.all([
+      this.connection.getMultipleAccountsInfo(accountKeys),
+      this.connection.simulateTransaction(new VersionedTransaction(message), {
+        sigVerify: false,
+        replaceRecentBlockhash: true,
+        accounts: { encoding: 'base64', addresses },
+      }),
+    ]);
+
+    const balanceChanges: BalanceChange[] = [];
+    addresses.forEach((address, index) => {
+      const pre = before[index];
+      const post = value.accounts?.[index] ?? null;
+      const postData = post ? Buffer.from(post.data[0], 'base64') : null;
+
+      const lamportsBefore = BigInt(pre?.lamports ?? 0);
+      const lamportsAfter = BigInt(post?.lamports ?? 0);
+      if (post && lamportsAfter !== lamportsBefore) {
+        balanceChanges.push({
+          address,
+          owner: address,
+          mint: null,
+          before: lamportsBefore,
+          after: lamportsAfter,
+          change: lamportsAfter - lamportsBefore,
+          created: !pre,
+        });
+      }
+
+      const preToken = pre ? decodeTokenAccount(pre.owner.toBase58(), pre.data) : null;
+      const postToken = post && postData ? decodeTokenAccount(post.owner, postData) : null;
+      const token = postToken ?? preToken;
+      if (token) {
+        const amountBefore = preToken?.amount ?? BigInt(0);
+        const amountAfter = postToken?.amount ?? BigInt(0);
+        if (amountAfter !== amountBefore) {
+          balanceChanges.push({
+            address,
+            owner: token.owner.toBase58(),
+            mint: token.mint.toBase58(),
+            before: amountBefore,
+            after: amountAfter,
+            change: amountAfter - amountBefore,
+            created: !pre,
+          });
+        }
+      }
+    });
+
+    return {
+      err: value.err ? JSON.stringify(value.err) : null,
+      logs: value.logs ?? [],
+      unitsConsumed: value.unitsConsumed ?? null,
+      balanceChanges,
+    };
+  }
+
+  /**
+   * Simulate and throw TransactionPreviewError unless the outcome matches the expectation
+   */
+  async verify(
+    transaction: AnyTransaction,
+    expectation: PreviewExpectation,
+    lookupTables: AddressLookupTableAccount[] = []
+  ): Promise<TransactionPreview> {
+    const preview = await this.simulate(transaction, lookupTables);
+    const problems = comparePreview(preview, expectation);
+    if (problems.length > 0) {
+      throw new TransactionPreviewError(problems, preview);
+    }
+    return preview;
+  }
+}
+
+/**
+ * Every way a simulated outcome differs from what was expected, in words a user can read
+ * An empty list means the transaction does exactly what it should
+ */
+export function comparePreview(preview: TransactionPreview, expectation: PreviewExpectation): string[] {
+  if (preview.err) {
+    return [describeSimulationError(preview)];
+  }
+
+  const problems: string[] = [];
+  const payer = expectation.payer.toBase58();
+  const allowedNewAccounts = (expectation.allowedNewAccounts ?? []).map(key => key.toBase58());
+  const matched = new Set<BalanceChange>();
+
+  expectation.payments.forEach(({ recipient, mint, amount }) => {
+    const mintAddress = mint?.toBase58() ?? null;
+    const received = preview.balanceChanges.filter(
+      change =>
+        change.owner === recipient.toBase58() &&
+        change.mint === mintAddress &&
+        change.change > BigInt(0)
+    );
+    received.forEach(change => matched.add(change));
+
+    const total = received.reduce((sum, change) => sum + change.change, BigInt(0));
+    if (total !== amount) {
+      problems.push(
+        `${shorten(recipient.toBase58())} would receive ${total} instead of ${amount} ` +
+        `${mintAddress ? `of token ${shorten(mintAddress)}` : 'lamports'}`
+      );
+    }
+  });
+
+  // Rent for accounts the transaction is allowed to create
+  let rentLamports = BigInt(0);
+  preview.balanceChanges.forEach(change => {
+    if (matched.has(change) || change.change <= BigInt(0)) {
+      return;
+    }
+    if (change.mint === null && change.created && allowedNewAccounts.includes(change.address)) {
+      rentLamports += change.change;
+      return;
+    }
+    problems.push(`Unexpected recipient ${shorten(change.owner)} would receive ${change.change} ` +
+      `${change.mint ? `of token ${shorten(change.mint)}` : 'lamports'}`);
+  });
+
+  // Whatever the payer loses beyond payments and rent must be network fees
+  const expectedLamports = expectation.payments
+    .filter(payment => payment.mint === null)
+    .reduce((sum, payment) => sum + payment.amount, BigInt(0));
+  const payerChange = preview.balanceChanges.find(
+    change => change.address === payer && change.mint === null
+  )?.change ?? BigInt(0);
+  const fees = -payerChange - expectedLamports - rentLamports;
+  if (fees < BigInt(0) || fees > BigInt(expectation.maxNetworkFeeLamports)) {
+    problems.push(`Your SOL balance would change by ${payerChange} lamports, which does not match the payment`);
+  }
+
+  return problems;
+}
+
+/**
+ * Turn a simulation failure into a reason, picking out the common ones from the logs
+ */
+function describeSimulationError(preview: TransactionPreview): string {
+  const logs = preview.logs.join('\n').toLowerCase();
+  if (
+    logs.includes('insufficient lamports') ||
+    logs.includes('insufficient funds') ||
+    preview.err?.includes('InsufficientFundsForFee')
+  ) {
+    return 'Insufficient funds for this transaction';
+  }
+  if (preview.err?.includes('AccountNotFound')) {
+    return 'The paying account does not exist on this network yet';
+  }
+  return `Transaction would fail: ${preview.err}`;
+}
+
+function decodeTokenAccount(programId: string, data: Buffer) {
+  if (programId !== TOKEN_PROGRAM_ID.toBase58() || data.length !== ACCOUNT_SIZE) {
+    return null;
+  }
+  return AccountLayout.decode(data);
+}
+
+function shorten(address: string): string {
+  return `${address.slice(0, 4)}...${address.slice(-4)}`;
+}
+
+// Export singleton instance
+export const transactionPreviewService = new TransactionPreviewService(networkSettingsService.getConnection());
+networkSettingsService.subscribe(({ connection }) => transactionPreviewService.setConnection(connection));
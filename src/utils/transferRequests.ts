@@ -0,0 +1,136 @@
+import { parseURL, ParseURLError, TransactionRequestURL, TransferRequestURL } from '@solana/pay';
+import { Keypair, PublicKey } from '@solana/web3.js';
+import BigNumber from 'bignumber.js';
+
+/**
+ * A Solana Pay transfer request that passed validation
+ * `references` always has at least one key, so the payment can be found on chain
+ */
+export interface TransferRequest {
+  recipient: PublicKey;
+  amount: BigNumber;
+  // null for SOL
+  splToken: PublicKey | null;
+  references: PublicKey[];
+  label: string | null;
+  message: string | null;
+  memo: string | null;
+}
+
+/**
+ * Raised when a payment link can't or shouldn't be paid, with a reason a user can read
+ */
+export class TransferRequestError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TransferRequestError';
+  }
+}
+
+const MAX_URL_LENGTH = 2048;
+const MAX_REFERENCES = 8;
+const MAX_TEXT_LENGTH: Record<'label' | 'message' | 'memo', number> = {
+  label: 64,
+  message: 256,
+  // Leaves room for the transfer in a single transaction
+  memo: 256,
+};
+
+// Bidirectional marks and overrides can make text read differently than it is
+const BIDIRECTIONAL_CHARACTERS = /[\u200e\u200f\u202a-\u202e\u2066-\u2069]/;
+
+const PARSE_ERRORS: Record<string, string> = {
+  'length invalid': 'Payment link is too long',
+  'protocol invalid': 'Not a Solana Pay link',
+  'pathname missing': 'Payment link has no recipient',
+  'recipient invalid': 'Payment link has an invalid recipient address',
+  'amount invalid': 'Payment link has an invalid amount',
+  'amount NaN': 'Payment link has an invalid amount',
+  'amount negative': 'Payment link has an invalid amount',
+  'spl-token invalid': 'Payment link has an invalid token address',
+  'reference invalid': 'Payment link has an invalid reference',
+  'link invalid': 'Payment link points to an insecure server',
+};
+
+/**
+ * Parse and validate a `solana:` transfer request URL
+ *
+ * Beyond what @solana/pay checks, the link must name an amount and a wallet (not a
+ * program-derived address) as recipient, and its text must be short and free of
+ * characters that could disguise it. Transaction requests are refused, since they
+ * would have us sign whatever a remote server returns.
+ * Throws TransferRequestError with the reason
+ */
+export function parseTransferRequest(url: string): TransferRequest {
+  if (url.length > MAX_URL_LENGTH) {
+    throw new TransferRequestError(PARSE_ERRORS['length invalid']);
+  }
+
+  let parsed: TransferRequestURL | TransactionRequestURL;
+  try {
+    parsed = parseURL(url);
+  } catch (error) {
+    if (error instanceof ParseURLError) {
+      throw new TransferRequestError(PARSE_ERRORS[error.message] ?? 'Payment link is invalid');
+    }
+    throw new TransferRequestError('Payment link is not a valid URL');
+  }
+
+  if ('link' in parsed) {
+    throw new TransferRequestError('Transaction requests are not supported, only transfer requests');
+  }
+
+  const { recipient, amount, splToken, reference, label, message, memo } = parsed;
+
+  if (!amount || amount.isZero()) {
+    throw new TransferRequestError('Payment link does not say how much to pay');
+  }
+  if (!PublicKey.isOnCurve(recipient.toBytes())) {
+    throw new TransferRequestError('Payment recipient is not a wallet address');
+  }
+
+  const references = reference ?? [];
+  if (references.length > MAX_REFERENCES) {
+    throw new TransferRequestError('Payment link has too many references');
+  }
+  if (new Set(references.map(key => key.toBase58())).size !== references.length) {
+    throw new TransferRequestError('Payment link repeats a reference');
+  }
+
+  return {
+    recipient,
+    amount,
+    splToken: splToken ?? null,
+    // Without a reference of its own, tag the payment with one so it can be confirmed
+    references: references.length > 0 ? references : [Keypair.generate().publicKey],
+    label: checkText('label', label),
+    message: checkText('message', message),
+    memo: checkText('memo', memo),
+  };
+}
+
+function checkText(field: keyof typeof MAX_TEXT_LENGTH, text: string | undefined): string | null {
+  if (text === undefined) {
+    return null;
+  }
+  if (text.length > MAX_TEXT_LENGTH[field]) {
+    throw new TransferRequestError(`Payment link ${field} is too long`);
+  }
+  if (hasControlCharacters(text) || BIDIRECTIONAL_CHARACTERS.test(text)) {
+    throw new TransferRequestError(`Payment link ${field} contains hidden or control characters`);
+  }
+  return text;
+}
+
+/**
+ * Whether text holds C0 or C1 control characters, such as line breaks that push part of it out of view
+ */
+function hasControlCharacters(text: string): boolean {
+  for (let index = 0; index < text.length; index++) {
+    const code = text.charCodeAt(index);
+    if (code <= 0x1f || (code >= 0x7f && code <= 0x9f)) {
+      return true;
+    }
+  }
+  return false;
+}
@@ -0,0 +1,140 @@
+import {
+  AddressLookupTableAccount,
+  Connection,
+  PublicKey,
+  Transaction,
+  TransactionMessage,
+  TransactionVersion,
+  VersionedMessage,
+  VersionedTransaction,
+} from '@solana/web3.js';
+import bs58 from 'bs58';
+import { ADDRESS_LOOKUP_TABLES, SOLANA_NETWORK, SolanaCluster } from './solanaConfig';
+import { networkSettingsService } from './networkSettings';
+
+/**
+ * Anything the app signs and sends: a legacy transaction or a versioned (v0) one
+ */
+export type AnyTransaction = Transaction | VersionedTransaction;
+
+export function isVersionedTransaction(transaction: AnyTransaction): transaction is VersionedTransaction {
+  return 'version' in transaction;
+}
+
+/**
+ * The message the signatures cover
+ */
+export function getTransactionMessage(transaction: AnyTransaction): VersionedMessage {
+  return isVersionedTransaction(transaction) ? transaction.message : transaction.compileMessage();
+}
+
+/**
+ * The fee payer's signature in base58, which identifies the transaction, or null before it is signed
+ */
+export function getTransactionSignature(transaction: AnyTransaction): string | null {
+  const signature = isVersionedTransaction(transaction)
+    ? transaction.signatures[0]
+    : transaction.signature;
+  return signature && signature.some(byte => byte !== 0) ? bs58.encode(signature) : null;
+}
+
+/**
+ * Turn a built legacy transaction into the version the wallet accepts
+ * v0 moves accounts into the lookup tables where they can be found; legacy must fit as is
+ */
+export function toTransactionVersion(
+  transaction: Transaction,
+  version: TransactionVersion,
+  lookupTables: AddressLookupTableAccount[] = []
+): AnyTransaction {
+  if (!transaction.feePayer || !transaction.recentBlockhash) {
+    throw new Error('Transaction needs a fee payer and blockhash before it is compiled');
+  }
+
+  if (version === 'legacy') {
+    try {
+      transaction.serialize({ requireAllSignatures: false, verifySignatures: false });
+    } catch (error) {
+      // web3.js won't serialize anything over PACKET_DATA_SIZE
+      if (error instanceof Error && error.message.startsWith('Transaction too large')) {
+        throw new Error('Transaction is too large for this wallet, which only supports legacy transactions');
+      }
+      throw error;
+    }
+    return transaction;
+  }
+
+  if (transaction.signatures.some(({ signature }) => signature !== null)) {
+    throw new Error('Only unsigned transactions can be compiled to v0');
+  }
+
+  const message = new TransactionMessage({
+    payerKey: transaction.feePayer,
+    recentBlockhash: transaction.recentBlockhash,
+    instructions: transaction.instructions,
+  }).compileToV0Message(lookupTables);
+
+  return new VersionedTransaction(message);
+}
+
+// Tables can be extended or deactivated on chain, so they are re-read now and then
+const LOOKUP_TABLE_TTL_MS = 10 * 60 * 1000;
+
+/**
+ * The cluster's address lookup tables, read from chain and cached
+ */
+export class AddressLookupTableService {
+  private connection: Connection;
+  private cluster: SolanaCluster;
+  private cache: { tables: AddressLookupTableAccount[]; fetchedAt: number } | null = null;
+
+  constructor(connection: Connection, cluster: SolanaCluster = SOLANA_NETWORK) {
+    this.connection = connection;
+    this.cluster = cluster;
+  }
+
+  /**
+   * Read another cluster's tables from now on
+   */
+  setNetwork(connection: Connection, cluster: SolanaCluster): void {
+    this.connection = connection;
+    this.cluster = cluster;
+    this.cache = null;
+  }
+
+  /**
+   * Active lookup tables configured for the cluster
+   * A table that can't be read is left out, which only costs transaction size
+   */
+  async getLookupTables(): Promise<AddressLookupTableAccount[]> {
+    if (this.cache && Date.now() - this.cache.fetchedAt < LOOKUP_TABLE_TTL_MS) {
+      return this.cache.tables;
+    }
+
+    const addresses: PublicKey[] = ADDRESS_LOOKUP_TABLES[this.cluster];
+    const results = await Promise.all(
+      addresses.map(async address => {
+        try {
+          const { value } = await this.connection.getAddressLookupTable(address);
+          return value && value.isActive() ? value : null;
+        } catch (error) {
+          console.error(`Failed to read lookup table ${address.toBase58()}:`, error);
+          return null;
+        }
+      })
+    );
+
+    const tables = results.filter((table): table is AddressLookupTableAccount => table !== null);
+    this.cache = { tables, fetchedAt: Date.now() };
+    return tables;
+  }
+}
+
+// Export singleton instance
+export const addressLookupTableService = new AddressLookupTableService(
+  networkSettingsService.getConnection(),
+  networkSettingsService.getCluster()
+);
+networkSettingsService.subscribe(({ connection, cluster }) =>
+  addressLookupTableService.setNetwork(connection, cluster)
+);
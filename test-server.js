@@ -1,11 +1,68 @@
 const http = require('http');
+const url = require('url');
+const WebSocket = require('ws');
+
+// Stub quotes for HttpMarketDataProvider (set MARKET_DATA_API_URL to this server)
+const quotes = [
+  { symbol: 'AAPL', name: 'Apple Inc.', price: 178.72, change: 2.15, changePercent: 1.22, category: 'traditional' },
+  { symbol: 'MSFT', name: 'Microsoft Corp.', price: 378.85, change: 3.22, changePercent: 0.86, category: 'traditional' },
+  { symbol: 'COIN', name: 'Coinbase Global', price: 245.67, change: 15.23, changePercent: 6.60, category: 'crypto' },
+  { symbol: 'MSTR', name: 'MicroStrategy Inc.', price: 387.45, change: 22.15, changePercent: 6.07, category: 'crypto' },
+  { symbol: 'CIRCLE', name: 'Circle Internet Financial', price: 125.00, change: 5.67, changePercent: 4.75, category: 'premium' },
+];
 
 const server = http.createServer((req, res) => {
   console.log('Request received:', req.url);
+  const { pathname, query } = url.parse(req.url, true);
+
+  if (pathname === '/quotes') {
+    const symbols = query.symbols ? String(query.symbols).split(',') : null;
+    res.writeHead(200, {'Content-Type': 'application/json', 'Access-Control-Allow-Origin': '*'});
+    res.end(JSON.stringify({
+      quotes: symbols ? quotes.filter(quote => symbols.includes(quote.symbol)) : quotes,
+    }));
+    return;
+  }
+
   res.writeHead(200, {'Content-Type': 'text/html'});
   res.end('<h1>Test Server Working!</h1><p>If you see this, the server is running.</p>');
 });
 
+// Stub quote stream for QuoteStreamService (set MARKET_DATA_WS_URL to ws://localhost:8765/stream)
+const wss = new WebSocket.Server({ server, path: '/stream' });
+
+wss.on('connection', (socket) => {
+  const subscriptions = new Set();
+
+  socket.on('message', (data) => {
+    try {
+      const message = JSON.parse(data);
+      if (message.type === 'subscribe') {
+        message.symbols.forEach(symbol => subscriptions.add(symbol));
+      } else if (message.type === 'unsubscribe') {
+        message.symbols.forEach(symbol => subscriptions.delete(symbol));
+      }
+    } catch (err) {
+      console.error('Bad stream message:', err);
+    }
+  });
+
+  // Random-walk every subscribed quote once a second
+  const timer = setInterval(() => {
+    quotes
+      .filter(quote => subscriptions.has(quote.symbol))
+      .forEach(quote => {
+        const open = quote.price - quote.change;
+        quote.price = Math.max(0.01, +(quote.price * (1 + (Math.random() - 0.5) * 0.002)).toFixed(2));
+        quote.change = +(quote.price - open).toFixed(2);
+        quote.changePercent = +((quote.change / open) * 100).toFixed(2);
+        socket.send(JSON.stringify({ type: 'quote', ...quote, timestamp: Date.now() }));
+      });
+  }, 1000);
+
+  socket.on('close', () => clearInterval(timer));
+});
+
 const PORT = 8765;
 server.listen(PORT, 'localhost', () => {
   console.log(`Test server running at http://localhost:${PORT}/`);
@@ -13,4 +70,4 @@ server.listen(PORT, 'localhost', () => {
 
 server.on('error', (err) => {
   console.error('Server error:', err);
-});
\ No newline at end of file
+});